@@ -0,0 +1,33 @@
+-- Elysian Trading System - Historical Backfill Schema
+-- Adds bar timeframes to market_data and tracks resumable backfill jobs
+
+-- Bars of different timeframes can share a timestamp, so the timeframe is part of the key
+ALTER TABLE market_data ADD COLUMN IF NOT EXISTS timeframe VARCHAR(5) NOT NULL DEFAULT '1d';
+ALTER TABLE market_data DROP CONSTRAINT IF EXISTS market_data_symbol_timestamp_provider_key;
+ALTER TABLE market_data DROP CONSTRAINT IF EXISTS market_data_symbol_timeframe_timestamp_provider_key;
+ALTER TABLE market_data ADD CONSTRAINT market_data_symbol_timeframe_timestamp_provider_key
+    UNIQUE (symbol, timeframe, timestamp, provider);
+
+CREATE INDEX IF NOT EXISTS idx_market_data_symbol_timeframe_timestamp ON market_data (symbol, timeframe, timestamp DESC);
+
+CREATE TABLE IF NOT EXISTS backfill_jobs (
+    id SERIAL PRIMARY KEY,
+    symbol VARCHAR(20) NOT NULL,
+    market_type VARCHAR(10) NOT NULL DEFAULT 'equity',
+    timeframe VARCHAR(5) NOT NULL DEFAULT '1d',
+    start_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    end_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    cursor_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED')),
+    chunks_completed INTEGER NOT NULL DEFAULT 0,
+    bars_written INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_backfill_jobs_status ON backfill_jobs (status, created_at);
+CREATE INDEX IF NOT EXISTS idx_backfill_jobs_symbol ON backfill_jobs (symbol, timeframe);
+
+DROP TRIGGER IF EXISTS update_backfill_jobs_updated_at ON backfill_jobs;
+CREATE TRIGGER update_backfill_jobs_updated_at BEFORE UPDATE ON backfill_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,12 @@
+-- Elysian Trading System - Tick Bar Aggregation Schema
+-- Aggregated crypto bars carry fractional volume, which BIGINT rejects
+
+DROP VIEW IF EXISTS v_latest_market_data;
+
+ALTER TABLE market_data ALTER COLUMN volume TYPE DECIMAL(28,8);
+
+CREATE OR REPLACE VIEW v_latest_market_data AS
+SELECT DISTINCT ON (market_type, symbol)
+    market_type, symbol, timeframe, timestamp, open, high, low, close, volume, provider
+FROM market_data
+ORDER BY market_type, symbol, timestamp DESC;
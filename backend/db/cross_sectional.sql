@@ -0,0 +1,10 @@
+-- Elysian Trading System - Cross-Sectional Features
+-- Ranks, relative strength and beta computed across the symbols of each
+-- features cycle. `lookbacks` are in bars of the features timeframe and
+-- `benchmarks` maps a market type to its benchmark symbol.
+
+INSERT INTO system_config (config_key, config_value, description) VALUES
+    ('cross_sectional_features',
+     '{"lookbacks": [5, 20, 60], "benchmarks": {"equity": "SPY", "crypto": "BTCUSDT"}, "beta_window": 60, "min_universe": 3}',
+     'Return lookbacks, benchmarks, beta window and minimum universe size for cross-sectional features')
+ON CONFLICT (config_key) DO NOTHING;
@@ -0,0 +1,33 @@
+-- Elysian Trading System - Data Quality Gate Schema
+-- Bars that fail validation are kept here with the reasons instead of reaching market_data
+
+CREATE TABLE IF NOT EXISTS market_data_quarantine (
+    id SERIAL PRIMARY KEY,
+    symbol VARCHAR(20) NOT NULL,
+    market_type VARCHAR(10) NOT NULL DEFAULT 'equity',
+    timeframe VARCHAR(5) NOT NULL DEFAULT '1d',
+    timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    open DECIMAL(20,8),
+    high DECIMAL(20,8),
+    low DECIMAL(20,8),
+    close DECIMAL(20,8),
+    volume DECIMAL(28,8),
+    provider VARCHAR(50) NOT NULL DEFAULT 'unknown',
+    reasons JSONB NOT NULL DEFAULT '[]',
+    occurrences INTEGER NOT NULL DEFAULT 1,
+    first_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(symbol, timeframe, timestamp, provider)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_data_quarantine_last_seen ON market_data_quarantine (last_seen_at DESC);
+CREATE INDEX IF NOT EXISTS idx_market_data_quarantine_symbol ON market_data_quarantine (symbol, timeframe);
+
+ALTER TABLE backfill_jobs ADD COLUMN IF NOT EXISTS bars_quarantined INTEGER NOT NULL DEFAULT 0;
+
+INSERT INTO system_config (config_key, config_value, description) VALUES
+    ('data_quality_thresholds',
+     '{"spike_sigma": 6, "min_spike_pct": 5, "spike_lookback_bars": 20, "spike_confirm_bars": 2, "min_history_bars": 10, "max_age_hours": {"equity": 96, "crypto": 36}}',
+     'Data quality gate: spike threshold in sigmas of recent returns (with a % floor) and maximum bar age per market')
+ON CONFLICT (config_key) DO NOTHING;
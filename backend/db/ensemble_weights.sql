@@ -0,0 +1,23 @@
+-- Elysian Trading System - Adaptive Ensemble Weights
+-- Each recompute of the performance-adaptive ensemble weights: the weights,
+-- the configured weights they replace, and the measured forward-return stats
+-- per signal source and rolling window they were derived from.
+
+CREATE TABLE IF NOT EXISTS ensemble_weights (
+    id SERIAL PRIMARY KEY,
+    computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    method VARCHAR(30) NOT NULL,
+    horizon_bars INTEGER NOT NULL,
+    window_days INTEGER NOT NULL,
+    weights JSONB NOT NULL,
+    base_weights JSONB NOT NULL,
+    stats JSONB NOT NULL DEFAULT '[]'
+);
+
+CREATE INDEX IF NOT EXISTS idx_ensemble_weights_computed_at ON ensemble_weights (computed_at DESC);
+
+INSERT INTO system_config (config_key, config_value, description) VALUES
+    ('ensemble_weighting',
+     '{"enabled": true, "method": "bayesian_shrinkage", "timeframe": "1d", "horizon_bars": 5, "windows_days": [30, 90, 365], "weight_window_days": 90, "min_signals": 20, "prior_strength": 50, "softmax_temperature": 0.1, "recompute_hours": 24}',
+     'Performance-adaptive ensemble weights: method (inverse_variance, bayesian_shrinkage, softmax_sharpe), forward return horizon and rolling windows')
+ON CONFLICT (config_key) DO NOTHING;
@@ -0,0 +1,10 @@
+-- Elysian Trading System - Configurable Feature Indicators
+-- Indicators computed on top of the default feature set. Each entry is
+-- {"name": "...", "type": "...", "params": {...}}; the name defaults to
+-- <type>_<period>, e.g. {"type": "rsi", "params": {"period": 7}} -> rsi_7.
+
+INSERT INTO system_config (config_key, config_value, description) VALUES
+    ('feature_indicators',
+     '{"indicators": []}',
+     'Extra indicators for the features engine, added after the default feature set')
+ON CONFLICT (config_key) DO NOTHING;
@@ -0,0 +1,50 @@
+-- Elysian Trading System - Point-in-Time Feature Store
+-- Feature rows are versioned and append-only: `feature_version` identifies
+-- the indicator definitions and code that produced a row, and `known_at` is
+-- when its values became available (computation time for live rows, bar
+-- close for recomputed history). "As of T" reads take, per symbol, the latest
+-- bar with a row known at or before T.
+
+ALTER TABLE features ADD COLUMN IF NOT EXISTS timeframe VARCHAR(5) NOT NULL DEFAULT '1d';
+ALTER TABLE features ADD COLUMN IF NOT EXISTS feature_version VARCHAR(40) NOT NULL DEFAULT 'legacy';
+ALTER TABLE features ADD COLUMN IF NOT EXISTS known_at TIMESTAMP WITH TIME ZONE;
+UPDATE features SET known_at = COALESCE(updated_at, created_at, timestamp) WHERE known_at IS NULL;
+ALTER TABLE features ALTER COLUMN known_at SET DEFAULT NOW();
+ALTER TABLE features ALTER COLUMN known_at SET NOT NULL;
+
+-- A bar keeps every revision of its features, one per version and known_at
+ALTER TABLE features DROP CONSTRAINT IF EXISTS features_symbol_timestamp_key;
+ALTER TABLE features DROP CONSTRAINT IF EXISTS features_point_in_time_key;
+ALTER TABLE features ADD CONSTRAINT features_point_in_time_key
+    UNIQUE (symbol, timeframe, feature_version, timestamp, known_at);
+
+CREATE INDEX IF NOT EXISTS idx_features_as_of ON features (feature_version, timeframe, symbol, timestamp DESC, known_at DESC);
+
+-- Definitions behind each feature version
+CREATE TABLE IF NOT EXISTS feature_versions (
+    version VARCHAR(40) PRIMARY KEY,
+    code_version INTEGER NOT NULL,
+    definitions JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Recomputation of stored history under a feature version
+CREATE TABLE IF NOT EXISTS feature_recompute_jobs (
+    id SERIAL PRIMARY KEY,
+    feature_version VARCHAR(40) NOT NULL,
+    timeframe VARCHAR(5) NOT NULL DEFAULT '1d',
+    symbols TEXT[] NOT NULL,
+    start_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    end_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    cursor_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED')),
+    rows_written INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_feature_recompute_jobs_version ON feature_recompute_jobs (feature_version, timeframe, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_feature_recompute_jobs_updated_at ON feature_recompute_jobs;
+CREATE TRIGGER update_feature_recompute_jobs_updated_at BEFORE UPDATE ON feature_recompute_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,43 @@
+-- Elysian Trading System - Multi-Currency Support
+-- FX rates fed by the data ingestor, per-currency cash from trades and
+-- currency conversions, and snapshots valued in a configurable base currency.
+
+CREATE TABLE IF NOT EXISTS fx_rates (
+    id SERIAL PRIMARY KEY,
+    base_currency VARCHAR(10) NOT NULL,
+    quote_currency VARCHAR(10) NOT NULL,
+    rate DECIMAL(20,10) NOT NULL CHECK (rate > 0),
+    source VARCHAR(50) NOT NULL,
+    timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (base_currency, quote_currency, timestamp)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_pair_timestamp ON fx_rates (base_currency, quote_currency, timestamp DESC);
+
+-- Cash moved between currency balances, e.g. base currency converted to
+-- fund a buy in an instrument's own currency
+CREATE TABLE IF NOT EXISTS cash_conversions (
+    id SERIAL PRIMARY KEY,
+    from_currency VARCHAR(10) NOT NULL,
+    to_currency VARCHAR(10) NOT NULL,
+    from_amount DECIMAL(20,8) NOT NULL CHECK (from_amount > 0),
+    to_amount DECIMAL(20,8) NOT NULL CHECK (to_amount > 0),
+    rate DECIMAL(20,10) NOT NULL,
+    reason VARCHAR(100),
+    timestamp TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cash_conversions_timestamp ON cash_conversions (timestamp DESC);
+
+-- Trades settle in the instrument's currency
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS currency VARCHAR(10);
+
+ALTER TABLE portfolio_snapshots ADD COLUMN IF NOT EXISTS base_currency VARCHAR(10) DEFAULT 'USD';
+ALTER TABLE portfolio_snapshots ADD COLUMN IF NOT EXISTS cash_balances JSONB DEFAULT '{}';
+
+INSERT INTO system_config (config_key, config_value, description) VALUES
+    ('fx_config',
+     '{"base_currency": "USD", "pegs": {"USDT": "USD", "USDC": "USD", "BUSD": "USD"}, "max_rate_age_ms": 86400000}',
+     'Base currency for portfolio valuation, stablecoins converted 1:1, and the age after which an FX rate is reported stale')
+ON CONFLICT (config_key) DO NOTHING;
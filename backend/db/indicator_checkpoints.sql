@@ -0,0 +1,17 @@
+-- Elysian Trading System - Incremental Indicator Checkpoints
+-- Streaming indicator state per consumer (features engine, AI decision
+-- engine), symbol and timeframe, so a restart resumes from the last bar
+-- instead of recomputing from history. `signature` identifies the indicator
+-- definitions the state was built with; a mismatch forces a rebuild.
+
+CREATE TABLE IF NOT EXISTS indicator_checkpoints (
+    consumer VARCHAR(50) NOT NULL,
+    symbol VARCHAR(20) NOT NULL,
+    timeframe VARCHAR(10) NOT NULL,
+    signature VARCHAR(64) NOT NULL,
+    bar_count INTEGER NOT NULL DEFAULT 0,
+    last_bar_at TIMESTAMP WITH TIME ZONE,
+    state JSONB NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (consumer, symbol, timeframe)
+);
@@ -0,0 +1,43 @@
+-- Elysian Trading System - Instrument Master
+-- One row per tradable symbol: classification, currency, venue and the
+-- tick size / lot size / min notional that orders are rounded and checked
+-- against. Rows are upserted from db/instruments.json at startup.
+
+CREATE TABLE IF NOT EXISTS instruments (
+    symbol VARCHAR(20) PRIMARY KEY,
+    name VARCHAR(100),
+    asset_class VARCHAR(10) NOT NULL DEFAULT 'equity',
+    sector VARCHAR(50),
+    industry VARCHAR(100),
+    currency VARCHAR(10) NOT NULL DEFAULT 'USD',
+    tick_size DECIMAL(20,10) NOT NULL DEFAULT 0.01,
+    lot_size DECIMAL(20,10) NOT NULL DEFAULT 1,
+    min_notional DECIMAL(15,4) NOT NULL DEFAULT 0,
+    venue VARCHAR(20),
+    base_asset VARCHAR(10),
+    quote_asset VARCHAR(10),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_instruments_asset_class ON instruments (asset_class, sector);
+
+-- Carry over crypto pairs that are not in the seed file; precision digits
+-- become tick and lot sizes
+INSERT INTO instruments (symbol, asset_class, sector, currency, tick_size, lot_size, min_notional, venue, base_asset, quote_asset, is_active)
+SELECT symbol, 'crypto', 'Digital Assets', quote_asset,
+       POWER(10::numeric, -price_precision), POWER(10::numeric, -quantity_precision),
+       0, 'BINANCE', base_asset, quote_asset, is_active
+FROM crypto_pairs
+ON CONFLICT (symbol) DO NOTHING;
+
+-- Crypto lot sizes are fractional (BTCUSDT 0.00001), so order and position
+-- quantities are too; INTEGER rejected or truncated them
+DROP VIEW IF EXISTS v_active_positions;
+
+ALTER TABLE trades ALTER COLUMN quantity TYPE DECIMAL(28,8);
+ALTER TABLE positions ALTER COLUMN quantity TYPE DECIMAL(28,8);
+
+CREATE OR REPLACE VIEW v_active_positions AS
+SELECT * FROM positions WHERE quantity != 0;
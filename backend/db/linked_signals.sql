@@ -0,0 +1,7 @@
+-- Elysian Trading System - Linked Signals
+-- Multi-leg strategies (e.g. `pairs`) store one signal per leg, tied together
+-- by metadata.link.group_id; execution loads all legs of a group at once.
+
+CREATE INDEX IF NOT EXISTS idx_signals_link_group
+    ON signals ((metadata->'link'->>'group_id'))
+    WHERE metadata ? 'link';
@@ -0,0 +1,47 @@
+-- Elysian Trading System - Gap Detection Schema
+-- Missing bar ranges found by the gap scanner and per-symbol coverage from the latest scan
+
+CREATE TABLE IF NOT EXISTS market_data_gaps (
+    id SERIAL PRIMARY KEY,
+    symbol VARCHAR(20) NOT NULL,
+    market_type VARCHAR(10) NOT NULL DEFAULT 'equity',
+    timeframe VARCHAR(5) NOT NULL DEFAULT '1d',
+    gap_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    gap_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    missing_bars INTEGER NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'repairing', 'repaired', 'unfillable')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    backfill_job_id INTEGER REFERENCES backfill_jobs(id) ON DELETE SET NULL,
+    detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_scanned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    repaired_at TIMESTAMP WITH TIME ZONE,
+
+    UNIQUE(symbol, timeframe, gap_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_data_gaps_status ON market_data_gaps (status, symbol, timeframe);
+
+CREATE TABLE IF NOT EXISTS market_data_coverage (
+    symbol VARCHAR(20) NOT NULL,
+    market_type VARCHAR(10) NOT NULL DEFAULT 'equity',
+    timeframe VARCHAR(5) NOT NULL DEFAULT '1d',
+    range_start TIMESTAMP WITH TIME ZONE,
+    range_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    expected_bars INTEGER NOT NULL DEFAULT 0,
+    present_bars INTEGER NOT NULL DEFAULT 0,
+    missing_bars INTEGER NOT NULL DEFAULT 0,
+    coverage_pct DECIMAL(6,2) NOT NULL DEFAULT 0,
+    open_gaps INTEGER NOT NULL DEFAULT 0,
+    scanned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    PRIMARY KEY (symbol, timeframe)
+);
+
+-- Repair backfills are tied to their gap so they don't resume unrelated jobs
+ALTER TABLE backfill_jobs ADD COLUMN IF NOT EXISTS gap_id INTEGER;
+
+INSERT INTO system_config (config_key, config_value, description) VALUES
+    ('gap_scanner',
+     '{"timeframes": {"equity": ["1d"], "crypto": ["1d", "1h"]}, "lookback_days": {"1m": 2, "5m": 7, "15m": 14, "1h": 30, "1d": 365}, "max_repair_attempts": 3, "max_missing_pct_for_features": 10}',
+     'Gap scanner: timeframes scanned per market, how far back, repair attempts per gap and the missing-bar share above which features are not computed')
+ON CONFLICT (config_key) DO NOTHING;
@@ -0,0 +1,9 @@
+-- Elysian Trading System - Market Data Provider Priority
+-- Provider order per market, with optional per-symbol overrides.
+-- Providers not listed here are still tried last if they serve the market.
+
+INSERT INTO system_config (config_key, config_value, description) VALUES
+    ('market_data_providers',
+     '{"markets": {"equity": ["yahoo", "alphavantage"], "crypto": ["binance"]}, "symbols": {}}',
+     'Market data provider priority per market type and per symbol')
+ON CONFLICT (config_key) DO NOTHING;
@@ -0,0 +1,22 @@
+-- Elysian Trading System - News and Sentiment
+-- Headlines from files, RSS/Atom feeds and the news webhook, tagged with the
+-- symbols they mention and scored by the configured sentiment model.
+
+CREATE TABLE IF NOT EXISTS news_articles (
+    id SERIAL PRIMARY KEY,
+    content_hash VARCHAR(64) NOT NULL UNIQUE,
+    headline TEXT NOT NULL,
+    summary TEXT,
+    url TEXT,
+    source VARCHAR(100) NOT NULL,
+    published_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    symbols TEXT[] NOT NULL DEFAULT '{}',
+    sentiment_score DECIMAL(6,4) NOT NULL,
+    sentiment_magnitude DECIMAL(8,4) NOT NULL DEFAULT 0,
+    sentiment_model VARCHAR(50) NOT NULL,
+    matched_terms JSONB DEFAULT '[]',
+    ingested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_news_articles_symbols ON news_articles USING GIN (symbols);
+CREATE INDEX IF NOT EXISTS idx_news_articles_published ON news_articles (published_at DESC);
@@ -0,0 +1,14 @@
+-- Elysian Trading System - Data Provenance Policy
+-- Provenance itself is stored in the metadata JSONB of signals and trades,
+-- and of trades_executed for the realtime executor
+
+CREATE INDEX IF NOT EXISTS idx_signals_created_at ON signals (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_trades_created_at ON trades (created_at DESC);
+
+ALTER TABLE IF EXISTS trades_executed ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}';
+
+INSERT INTO system_config (config_key, config_value, description) VALUES
+    ('provenance_policy',
+     '{"block_synthetic_execution": true, "block_unknown_provenance": false, "synthetic_providers": ["fallback", "mock", "synthetic"]}',
+     'Data provenance: providers treated as synthetic and whether signals built on synthetic or unknown inputs may execute')
+ON CONFLICT (config_key) DO NOTHING;
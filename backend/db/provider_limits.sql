@@ -0,0 +1,9 @@
+-- Elysian Trading System - Provider Rate Limits and Circuit Breakers
+-- Token bucket, retry backoff and breaker settings per market data venue.
+-- "default" applies to every provider; per-provider keys override it.
+
+INSERT INTO system_config (config_key, config_value, description) VALUES
+    ('provider_limits',
+     '{"default": {"max_wait_ms": 5000, "max_retries": 2, "backoff_base_ms": 500, "backoff_max_ms": 8000, "failure_threshold": 5, "open_ms": 30000, "max_open_ms": 600000}, "binance": {"requests_per_second": 15, "burst": 30}, "yahoo": {"requests_per_second": 2, "burst": 5}, "alphavantage": {"requests_per_second": 0.083, "burst": 2, "max_wait_ms": 1000, "max_retries": 0}, "coingecko": {"requests_per_second": 0.5, "burst": 3, "max_retries": 1}}',
+     'Per-provider token buckets, retry backoff on 429/5xx and circuit breaker thresholds for market data venues')
+ON CONFLICT (config_key) DO NOTHING;
@@ -0,0 +1,29 @@
+-- Elysian Trading System - Market Regimes
+-- Trend / range / crisis labels per symbol and per market type, from rolling
+-- volatility, ADX and the average correlation of returns across the universe,
+-- and the strategy weight multipliers the signal engine applies per regime.
+
+CREATE TABLE IF NOT EXISTS regimes (
+    id SERIAL PRIMARY KEY,
+    scope VARCHAR(10) NOT NULL CHECK (scope IN ('symbol', 'market')),
+    subject VARCHAR(20) NOT NULL,
+    timeframe VARCHAR(5) NOT NULL DEFAULT '1d',
+    timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    regime VARCHAR(10) NOT NULL CHECK (regime IN ('trend', 'range', 'crisis')),
+    metrics JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (scope, subject, timeframe, timestamp)
+);
+
+CREATE INDEX IF NOT EXISTS idx_regimes_subject_timestamp ON regimes (subject, timeframe, timestamp DESC);
+
+INSERT INTO system_config (config_key, config_value, description) VALUES
+    ('regime_config',
+     '{"volatility_feature": "volatility_20", "trend_feature": "adx_14", "trend_adx": 25, "volatility_low": 15, "volatility_high": 30, "crisis_volatility": 60, "crisis_correlation": 0.7, "correlation_window": 60, "trend_share": 0.5, "markets": {"crypto": {"volatility_low": 40, "volatility_high": 80, "crisis_volatility": 150}}}',
+     'Thresholds for the trend / range / crisis regime classifier, with per-market overrides'),
+    ('strategy_regimes',
+     '{"weights": {"trend": {"mean_reversion": 0.5}, "range": {"momentum_crossover": 0.5, "breakout": 0.5, "mean_reversion": 1.5}, "crisis": {"momentum_crossover": 0, "breakout": 0, "candlestick_patterns": 0, "mean_reversion": 0.5}}}',
+     'Strategy weight multipliers per regime (0 disables a strategy in that regime)')
+ON CONFLICT (config_key) DO NOTHING;
@@ -0,0 +1,40 @@
+-- Elysian Trading System - Signal Outcomes
+-- What happened after each BUY/SELL signal: target or stop hit first, time to
+-- resolution, maximum favorable/adverse excursion and forward returns after
+-- 1, 5 and 20 bars. Excursions and returns are direction-signed fractions of
+-- the entry price (the close of the bar the signal was generated on).
+
+CREATE TABLE IF NOT EXISTS signal_outcomes (
+    signal_id INTEGER PRIMARY KEY REFERENCES signals(id) ON DELETE CASCADE,
+    symbol VARCHAR(20) NOT NULL,
+    source VARCHAR(100) NOT NULL,
+    signal_type VARCHAR(10) NOT NULL CHECK (signal_type IN ('BUY', 'SELL')),
+    signal_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    timeframe VARCHAR(5) NOT NULL DEFAULT '1d',
+    entry_price DECIMAL(18,8) NOT NULL,
+    target_price DECIMAL(18,8),
+    stop_price DECIMAL(18,8),
+    outcome VARCHAR(10) NOT NULL CHECK (outcome IN ('target', 'stop', 'ambiguous', 'expired', 'open')),
+    status VARCHAR(10) NOT NULL CHECK (status IN ('OPEN', 'CLOSED')),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    bars_to_resolution INTEGER,
+    resolution_seconds INTEGER,
+    mfe DECIMAL(12,6) NOT NULL DEFAULT 0,
+    mae DECIMAL(12,6) NOT NULL DEFAULT 0,
+    forward_return_1 DECIMAL(12,6),
+    forward_return_5 DECIMAL(12,6),
+    forward_return_20 DECIMAL(12,6),
+    bars_observed INTEGER NOT NULL DEFAULT 0,
+    synthetic BOOLEAN NOT NULL DEFAULT FALSE,
+    labeled_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_signal_outcomes_source_timestamp ON signal_outcomes (source, signal_timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_signal_outcomes_open ON signal_outcomes (labeled_at) WHERE status = 'OPEN';
+
+INSERT INTO system_config (config_key, config_value, description) VALUES
+    ('signal_labeling',
+     '{"timeframe": "1d", "max_bars": 60, "lookback_days": 365, "batch_size": 200}',
+     'Signal outcome labeling: bar timeframe, bars before an unresolved signal expires, and signals labeled per pass')
+ON CONFLICT (config_key) DO NOTHING;
@@ -0,0 +1,13 @@
+-- Elysian Trading System - Strategy Instances
+-- Strategy instances run on top of the built-in defaults (one instance of each
+-- built-in strategy). Each entry is {"name": "...", "type": "...", "params":
+-- {...}, "weight": 0.2, "enabled": true}; the name defaults to the type, and an
+-- entry named like a default instance replaces it, e.g.
+-- {"name": "momentum_fast", "type": "momentum_crossover", "params": {"ema_fast": 9, "ema_slow": 21}}
+-- runs a faster momentum variant next to the default one.
+
+INSERT INTO system_config (config_key, config_value, description) VALUES
+    ('strategy_instances',
+     '{"instances": []}',
+     'Extra or tuned strategy instances for the signal engine, merged over the built-in defaults by name')
+ON CONFLICT (config_key) DO NOTHING;
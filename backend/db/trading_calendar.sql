@@ -0,0 +1,72 @@
+-- Elysian Trading System - Exchange Trading Calendar
+-- Session hours are local to market_config.timezone, so daylight-saving changes are handled by the zone
+
+ALTER TABLE market_config ADD COLUMN IF NOT EXISTS exchange VARCHAR(20);
+ALTER TABLE market_config ADD COLUMN IF NOT EXISTS pre_market_open TIME;
+ALTER TABLE market_config ADD COLUMN IF NOT EXISTS regular_open TIME;
+ALTER TABLE market_config ADD COLUMN IF NOT EXISTS regular_close TIME;
+ALTER TABLE market_config ADD COLUMN IF NOT EXISTS post_market_close TIME;
+
+UPDATE market_config
+SET exchange = 'XNYS',
+    timezone = 'America/New_York',
+    pre_market_open = '04:00',
+    regular_open = '09:30',
+    regular_close = '16:00',
+    post_market_close = '20:00'
+WHERE market_type = 'equity' AND exchange IS NULL;
+
+UPDATE market_config
+SET exchange = 'CRYPTO'
+WHERE market_type = 'crypto' AND exchange IS NULL;
+
+-- Full closures have no early_close; half-days close the regular session at early_close
+CREATE TABLE IF NOT EXISTS exchange_holidays (
+    id SERIAL PRIMARY KEY,
+    exchange VARCHAR(20) NOT NULL,
+    holiday_date DATE NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    early_close TIME,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(exchange, holiday_date)
+);
+
+INSERT INTO exchange_holidays (exchange, holiday_date, name, early_close) VALUES
+    ('XNYS', '2025-01-01', 'New Year''s Day', NULL),
+    ('XNYS', '2025-01-20', 'Martin Luther King Jr. Day', NULL),
+    ('XNYS', '2025-02-17', 'Washington''s Birthday', NULL),
+    ('XNYS', '2025-04-18', 'Good Friday', NULL),
+    ('XNYS', '2025-05-26', 'Memorial Day', NULL),
+    ('XNYS', '2025-06-19', 'Juneteenth', NULL),
+    ('XNYS', '2025-07-03', 'Independence Day Eve', '13:00'),
+    ('XNYS', '2025-07-04', 'Independence Day', NULL),
+    ('XNYS', '2025-09-01', 'Labor Day', NULL),
+    ('XNYS', '2025-11-27', 'Thanksgiving Day', NULL),
+    ('XNYS', '2025-11-28', 'Day after Thanksgiving', '13:00'),
+    ('XNYS', '2025-12-24', 'Christmas Eve', '13:00'),
+    ('XNYS', '2025-12-25', 'Christmas Day', NULL),
+    ('XNYS', '2026-01-01', 'New Year''s Day', NULL),
+    ('XNYS', '2026-01-19', 'Martin Luther King Jr. Day', NULL),
+    ('XNYS', '2026-02-16', 'Washington''s Birthday', NULL),
+    ('XNYS', '2026-04-03', 'Good Friday', NULL),
+    ('XNYS', '2026-05-25', 'Memorial Day', NULL),
+    ('XNYS', '2026-06-19', 'Juneteenth', NULL),
+    ('XNYS', '2026-07-03', 'Independence Day (observed)', NULL),
+    ('XNYS', '2026-09-07', 'Labor Day', NULL),
+    ('XNYS', '2026-11-26', 'Thanksgiving Day', NULL),
+    ('XNYS', '2026-11-27', 'Day after Thanksgiving', '13:00'),
+    ('XNYS', '2026-12-24', 'Christmas Eve', '13:00'),
+    ('XNYS', '2026-12-25', 'Christmas Day', NULL),
+    ('XNYS', '2027-01-01', 'New Year''s Day', NULL),
+    ('XNYS', '2027-01-18', 'Martin Luther King Jr. Day', NULL),
+    ('XNYS', '2027-02-15', 'Washington''s Birthday', NULL),
+    ('XNYS', '2027-03-26', 'Good Friday', NULL),
+    ('XNYS', '2027-05-31', 'Memorial Day', NULL),
+    ('XNYS', '2027-06-18', 'Juneteenth (observed)', NULL),
+    ('XNYS', '2027-07-05', 'Independence Day (observed)', NULL),
+    ('XNYS', '2027-09-06', 'Labor Day', NULL),
+    ('XNYS', '2027-11-25', 'Thanksgiving Day', NULL),
+    ('XNYS', '2027-11-26', 'Day after Thanksgiving', '13:00'),
+    ('XNYS', '2027-12-24', 'Christmas Day (observed)', NULL)
+ON CONFLICT (exchange, holiday_date) DO NOTHING;
@@ -3,6 +3,11 @@
  */
 import { logger } from '../../utils/logger';
 import { DatabaseManager } from '../../utils/database';
+import { MarketData } from '../../data_ingestor';
+import { BAR_INTERVAL_MS, BarInterval } from '../../data/providers';
+import { indicatorRegistry, ResolvedIndicator } from '../../features/indicator-registry';
+import { FeatureStreamCache } from '../../features/feature-stream';
+import { DataProvenance, provenanceService } from '../../data/provenance';
 import { EventEmitter } from 'events';
 
 export interface MarketFeatures {
@@ -18,6 +23,8 @@ export interface MarketFeatures {
   price_change_24h: number;
   volatility: number;
   market_cap?: number;
+  // Bars the latest values were computed on
+  provenance?: DataProvenance;
 }
 
 export interface AISignal {
@@ -30,14 +37,36 @@ export interface AISignal {
   price_at_signal: number;
   target_price?: number;
   stop_loss?: number;
+  provenance?: DataProvenance;
 }
 
 export class AIDecisionEngine extends EventEmitter {
   private isRunning = false;
   private analysisInterval = 30000; // 30 seconds for crypto, 5 minutes for equity
+  private featureTimeframe: BarInterval = (process.env.AI_FEATURE_TIMEFRAME as BarInterval) || '5m';
+  private barsPerDay: number;
+  private indicators: ResolvedIndicator[];
+  private streams = new FeatureStreamCache('ai_decision_engine');
 
   constructor() {
     super();
+
+    const barMs = BAR_INTERVAL_MS[this.featureTimeframe];
+    const barsPerHour = Math.max(1, Math.round(BAR_INTERVAL_MS['1h'] / barMs));
+    this.barsPerDay = Math.max(1, Math.round(BAR_INTERVAL_MS['1d'] / barMs));
+    this.indicators = indicatorRegistry.resolve([
+      { name: 'price', type: 'price' },
+      { name: 'rsi', type: 'rsi', params: { period: 14 } },
+      { name: 'macd', type: 'macd', params: { fast: 12, slow: 26, signal: 9 } },
+      { name: 'bb', type: 'bollinger', params: { period: 20, std_dev: 2 } },
+      { name: 'volume', type: 'field', params: { field: 'volume' } },
+      { name: 'volume_sma', type: 'sma', params: { period: 20, source: 'volume' } },
+      { name: 'volume_sma_ratio', type: 'ratio', params: { numerator: 'volume', denominator: 'volume_sma', fallback: 1 } },
+      { name: 'price_change_1h', type: 'change', params: { period: barsPerHour } },
+      { name: 'price_change_24h', type: 'change', params: { period: this.barsPerDay } },
+      // Standard deviation of the last 19 bar returns, not annualised
+      { name: 'volatility', type: 'volatility', params: { period: 19, periods_per_year: 1 } }
+    ]);
   }
 
   async start(): Promise<void> {
@@ -55,6 +84,13 @@ export class AIDecisionEngine extends EventEmitter {
     logger.info('🧠 AI Decision Engine stopped');
   }
 
+  /**
+   * Rebuild incremental indicator state from stored bars on the next cycle.
+   */
+  async resetStreams(symbol?: string): Promise<number> {
+    return this.streams.reset(symbol);
+  }
+
   private async runContinuousAnalysis(): Promise<void> {
     while (this.isRunning) {
       try {
@@ -81,7 +117,7 @@ export class AIDecisionEngine extends EventEmitter {
       
       for (const asset of assetsResult.rows) {
         try {
-          const features = await this.calculateFeatures(asset.symbol, asset.asset_type);
+          const features = await this.calculateFeatures(asset.symbol, asset.asset_type, parseFloat(asset.price));
           if (features) {
             const signal = await this.generateSignal(features);
             if (signal && signal.signal_type !== 'HOLD') {
@@ -99,49 +135,40 @@ export class AIDecisionEngine extends EventEmitter {
     }
   }
 
-  private async calculateFeatures(symbol: string, assetType: 'crypto' | 'equity'): Promise<MarketFeatures | null> {
+  /**
+   * Indicators are kept per symbol and updated only with bars stored since
+   * the previous cycle. The live price from assets_live is applied to the
+   * forming bar with `peek`, so price features move between bar closes.
+   */
+  private async calculateFeatures(symbol: string, assetType: 'crypto' | 'equity', livePrice: number): Promise<MarketFeatures | null> {
     try {
-      // Get recent price data
-      const priceQuery = `
-        SELECT close, volume, timestamp
-        FROM price_feeds
-        WHERE symbol = $1 AND asset_type = $2
-        ORDER BY timestamp DESC
-        LIMIT 100
-      `;
-      
-      const priceResult = await DatabaseManager.query(priceQuery, [symbol, assetType]);
+      // Enough history for the indicators to settle and to cover 24h at the feature timeframe
+      const warmupBars = Math.max(indicatorRegistry.warmupBars(this.indicators), this.barsPerDay + 1);
+      const { stream, forming } = await this.streams.sync(symbol, this.featureTimeframe, this.indicators, warmupBars, 2);
       
-      if (priceResult.rows.length < 20) {
+      if (stream.barCount < 20) {
         return null; // Not enough data
       }
       
-      const prices = priceResult.rows.map(row => parseFloat(row.close));
-      const volumes = priceResult.rows.map(row => parseFloat(row.volume || 0));
-      const currentPrice = prices[0];
-      const currentVolume = volumes[0];
-      
-      // Calculate technical indicators
-      const rsi = this.calculateRSI(prices, 14);
-      const macd = this.calculateMACD(prices);
-      const bollingerPosition = this.calculateBollingerPosition(prices, 20);
-      const volumeSMAR = this.calculateVolumeSMAR(volumes, 20);
-      const priceChange1h = this.calculatePriceChange(prices, 1);
-      const priceChange24h = this.calculatePriceChange(prices, 24);
-      const volatility = this.calculateVolatility(prices, 20);
+      const closed = stream.values();
+      const lastBar = stream.recentBars().pop()!;
+      const price = livePrice > 0 ? livePrice : forming?.close;
+      const live = price ? stream.peek(this.formingBar(lastBar, forming, price)) : closed;
       
       return {
         symbol,
         asset_type: assetType,
-        price: currentPrice,
-        volume: currentVolume,
-        rsi,
-        macd,
-        bollinger_position: bollingerPosition,
-        volume_sma_ratio: volumeSMAR,
-        price_change_1h: priceChange1h,
-        price_change_24h: priceChange24h,
-        volatility
+        price: live.price as number,
+        // The forming bar's volume is incomplete, so volume features come from closed bars
+        volume: closed.volume as number,
+        rsi: (live.rsi as number) ?? 50,
+        macd: live.macd_line as number,
+        bollinger_position: live.bb_percent_b as number,
+        volume_sma_ratio: closed.volume_sma_ratio as number,
+        price_change_1h: (live.price_change_1h as number) ?? 0,
+        price_change_24h: (live.price_change_24h as number) ?? 0,
+        volatility: live.volatility as number,
+        provenance: await provenanceService.fromBars(forming ? [...stream.recentBars(), forming] : stream.recentBars())
       };
       
     } catch (error) {
@@ -150,6 +177,18 @@ export class AIDecisionEngine extends EventEmitter {
     }
   }
 
+  private formingBar(lastBar: MarketData, forming: MarketData | null, price: number): MarketData {
+    const bar = forming || {
+      ...lastBar,
+      timestamp: new Date(lastBar.timestamp.getTime() + BAR_INTERVAL_MS[this.featureTimeframe]),
+      open: price,
+      high: price,
+      low: price,
+      volume: 0
+    };
+    return { ...bar, high: Math.max(bar.high, price), low: Math.min(bar.low, price), close: price };
+  }
+
   private async generateSignal(features: MarketFeatures): Promise<AISignal | null> {
     try {
       // Advanced AI reasoning logic
@@ -234,7 +273,8 @@ export class AIDecisionEngine extends EventEmitter {
         features,
         price_at_signal: features.price,
         target_price: this.calculateTargetPrice(features, signalType),
-        stop_loss: this.calculateStopLoss(features, signalType)
+        stop_loss: this.calculateStopLoss(features, signalType),
+        provenance: features.provenance
       };
       
     } catch (error) {
@@ -306,102 +346,6 @@ export class AIDecisionEngine extends EventEmitter {
     }
   }
 
-  // Technical indicator calculations
-  private calculateRSI(prices: number[], period: number = 14): number {
-    if (prices.length < period + 1) return 50;
-    
-    let gains = 0;
-    let losses = 0;
-    
-    for (let i = 1; i <= period; i++) {
-      const change = prices[i - 1] - prices[i];
-      if (change > 0) {
-        gains += change;
-      } else {
-        losses -= change;
-      }
-    }
-    
-    const avgGain = gains / period;
-    const avgLoss = losses / period;
-    
-    if (avgLoss === 0) return 100;
-    
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
-  }
-
-  private calculateMACD(prices: number[]): number {
-    if (prices.length < 26) return 0;
-    
-    const ema12 = this.calculateEMA(prices.slice(0, 12), 12);
-    const ema26 = this.calculateEMA(prices.slice(0, 26), 26);
-    
-    return ema12 - ema26;
-  }
-
-  private calculateEMA(prices: number[], period: number): number {
-    if (prices.length === 0) return 0;
-    
-    const multiplier = 2 / (period + 1);
-    let ema = prices[prices.length - 1];
-    
-    for (let i = prices.length - 2; i >= 0; i--) {
-      ema = (prices[i] * multiplier) + (ema * (1 - multiplier));
-    }
-    
-    return ema;
-  }
-
-  private calculateBollingerPosition(prices: number[], period: number = 20): number {
-    if (prices.length < period) return 0.5;
-    
-    const recentPrices = prices.slice(0, period);
-    const sma = recentPrices.reduce((sum, p) => sum + p, 0) / period;
-    const variance = recentPrices.reduce((sum, p) => sum + Math.pow(p - sma, 2), 0) / period;
-    const stdDev = Math.sqrt(variance);
-    
-    const upperBand = sma + (2 * stdDev);
-    const lowerBand = sma - (2 * stdDev);
-    
-    const currentPrice = prices[0];
-    return (currentPrice - lowerBand) / (upperBand - lowerBand);
-  }
-
-  private calculateVolumeSMAR(volumes: number[], period: number = 20): number {
-    if (volumes.length < period) return 1;
-    
-    const currentVolume = volumes[0];
-    const avgVolume = volumes.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
-    
-    return avgVolume > 0 ? currentVolume / avgVolume : 1;
-  }
-
-  private calculatePriceChange(prices: number[], periods: number): number {
-    if (prices.length <= periods) return 0;
-    
-    const currentPrice = prices[0];
-    const pastPrice = prices[periods];
-    
-    return ((currentPrice - pastPrice) / pastPrice) * 100;
-  }
-
-  private calculateVolatility(prices: number[], period: number = 20): number {
-    if (prices.length < period) return 0;
-    
-    const recentPrices = prices.slice(0, period);
-    const returns = [];
-    
-    for (let i = 1; i < recentPrices.length; i++) {
-      returns.push((recentPrices[i - 1] - recentPrices[i]) / recentPrices[i]);
-    }
-    
-    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const variance = returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length;
-    
-    return Math.sqrt(variance) * 100;
-  }
-
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
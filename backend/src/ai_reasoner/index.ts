@@ -1,9 +1,10 @@
 /**
  * Elysian Trading System - AI Reasoner
- * Mock implementation for development
+ * Market sentiment from recent scored news per symbol
  */
 import { logger } from '../utils/logger';
 import { DatabaseManager } from '../utils/database';
+import { newsIngestor, SymbolSentiment } from '../data/news/news-ingestor';
 
 export interface AIAnalysis {
   id?: string;
@@ -17,27 +18,40 @@ export interface AIAnalysis {
   recommendations: any;
 }
 
+// Net news sentiment needed before the reasoner leans one way
+const SENTIMENT_ACTION_THRESHOLD = 0.25;
+
 class AIReasoner {
   async analyzeMarket(symbol: string, marketData: any, features: any, signals: any): Promise<AIAnalysis> {
-    logger.debug(`AI analysis for ${symbol} (mock implementation)`);
-    
-    // Generate mock analysis
+    logger.debug(`AI analysis for ${symbol} from recent news`);
+
+    const sentiment = await this.getNewsSentiment(symbol);
+    const action = sentiment.score >= SENTIMENT_ACTION_THRESHOLD ? 'BUY'
+      : sentiment.score <= -SENTIMENT_ACTION_THRESHOLD ? 'SELL'
+      : 'HOLD';
+
     const analysis: AIAnalysis = {
       symbol,
       timestamp: new Date(),
       analysis_type: 'market_sentiment',
-      sentiment_score: Math.random() * 2 - 1, // -1 to 1
-      confidence_score: 0.3 + Math.random() * 0.4, // 0.3 to 0.7
-      reasoning: `Mock AI analysis for ${symbol}: Market conditions appear neutral with moderate volatility.`,
+      sentiment_score: sentiment.score,
+      confidence_score: sentiment.confidence,
+      reasoning: this.describeSentiment(sentiment),
       market_context: {
-        market_regime: 'neutral',
-        volatility: 'moderate',
-        trend: 'sideways'
+        news_sentiment: sentiment.score >= SENTIMENT_ACTION_THRESHOLD ? 'positive'
+          : sentiment.score <= -SENTIMENT_ACTION_THRESHOLD ? 'negative'
+          : 'neutral',
+        article_count: sentiment.article_count,
+        window_hours: sentiment.window_hours,
+        latest_article_at: sentiment.latest_at,
+        sentiment_model: newsIngestor.getSentimentModel().name
       },
       recommendations: {
-        action: 'HOLD',
-        confidence: 0.5,
-        reasoning: 'Insufficient signal strength for directional bias'
+        action,
+        confidence: sentiment.confidence,
+        reasoning: action === 'HOLD'
+          ? 'News flow gives no clear directional bias'
+          : `News flow is ${action === 'BUY' ? 'positive' : 'negative'} across ${sentiment.article_count} recent articles`
       }
     };
 
@@ -74,6 +88,30 @@ class AIReasoner {
     }
   }
 
+  private async getNewsSentiment(symbol: string): Promise<SymbolSentiment> {
+    try {
+      return await newsIngestor.getSymbolSentiment(symbol);
+    } catch (error: any) {
+      logger.warn(`Failed to read news sentiment for ${symbol}:`, error.message);
+      return { symbol, score: 0, confidence: 0, article_count: 0, window_hours: 0, latest_at: null, headlines: [] };
+    }
+  }
+
+  private describeSentiment(sentiment: SymbolSentiment): string {
+    if (sentiment.article_count === 0) {
+      return `No scored news for ${sentiment.symbol} in the last ${sentiment.window_hours}h; sentiment treated as neutral.`;
+    }
+
+    const tone = sentiment.score >= SENTIMENT_ACTION_THRESHOLD ? 'positive'
+      : sentiment.score <= -SENTIMENT_ACTION_THRESHOLD ? 'negative'
+      : 'mixed/neutral';
+    const headlines = sentiment.headlines
+      .map(h => `"${h.headline}" (${h.score >= 0 ? '+' : ''}${h.score.toFixed(2)}, ${h.source})`)
+      .join('; ');
+
+    return `News sentiment for ${sentiment.symbol} is ${tone} (${sentiment.score.toFixed(2)}) across ${sentiment.article_count} articles in the last ${sentiment.window_hours}h. Strongest: ${headlines}`;
+  }
+
   private async storeAnalysis(analysis: AIAnalysis): Promise<void> {
     try {
       const query = `
@@ -101,8 +139,8 @@ class AIReasoner {
 
   async healthCheck(): Promise<boolean> {
     try {
-      // Mock health check - always returns true for development
-      logger.debug('AI reasoner health check: OK (mock)');
+      // Scoring is offline; only the news store needs to be reachable
+      await DatabaseManager.query(`SELECT 1 FROM news_articles LIMIT 1`);
       return true;
     } catch (error) {
       logger.error('AI reasoner health check failed:', error);
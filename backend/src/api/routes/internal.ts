@@ -5,6 +5,30 @@ import { Router } from 'express';
 import { logger } from '../../utils/logger';
 import { DatabaseManager } from '../../utils/database';
 import { tradingRunner } from '../../runner';
+import { backfillService } from '../../data/backfill/backfill-service';
+import { dataQualityGate } from '../../data/quality/data-quality-gate';
+import { provenanceService } from '../../data/provenance';
+import { tradingCalendar } from '../../data/calendar/trading-calendar';
+import { gapScanner, GapStatus } from '../../data/gaps/gap-scanner';
+import { BAR_INTERVAL_MS, BarInterval } from '../../data/providers';
+import { instrumentMaster } from '../../data/instruments/instrument-master';
+import { fxRates } from '../../data/fx/fx-rates';
+import { dataIngestor } from '../../data_ingestor';
+import { portfolioManager } from '../../portfolio';
+import { newsIngestor, RawNewsItem } from '../../data/news/news-ingestor';
+import { featuresEngine, FEATURE_INDICATORS_CONFIG_KEY } from '../../features';
+import { DEFAULT_INDICATORS, IndicatorConfigError, indicatorRegistry } from '../../features/indicator-registry';
+import { FeatureStreamCache } from '../../features/feature-stream';
+import { featureStore } from '../../features/feature-store';
+import { featureRecompute } from '../../features/feature-recompute';
+import { regimeClassifier, RegimeRecord } from '../../features/regime';
+import { signalEngine, STRATEGY_INSTANCES_CONFIG_KEY } from '../../signal_engine';
+import { strategyRegistry } from '../../signal_engine/strategy-registry';
+import { StrategyConfigError } from '../../signal_engine/strategy-sdk';
+import { ensembleWeighting } from '../../signal_engine/ensemble-weights';
+import { signalLabeler } from '../../signal_engine/signal-labeler';
+import { aiDecisionEngine } from '../../ai/reasoning/decision-engine';
+import { setSystemConfig } from '../../utils/systemConfig';
 
 const router = Router();
 
@@ -98,4 +122,1003 @@ router.post('/runner/cycle', async (req, res) => {
   }
 });
 
+// Queue historical backfill
+router.post('/backfill', async (req, res) => {
+  try {
+    const { symbols, market_type = 'equity', timeframe = '1d', years = 2 } = req.body;
+    const symbolList: any[] = Array.isArray(symbols) ? symbols : symbols ? [symbols] : [];
+
+    if (symbolList.length === 0) {
+      return res.status(400).json({
+        error: 'Missing required parameters',
+        required: ['symbols'],
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (!symbolList.every(symbol => typeof symbol === 'string' && symbol.trim() !== '')) {
+      return res.status(400).json({
+        error: 'symbols must be non-empty strings',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (!['equity', 'crypto'].includes(market_type) || !Object.keys(BAR_INTERVAL_MS).includes(timeframe)) {
+      return res.status(400).json({
+        error: 'Invalid market_type or timeframe',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const jobs = [];
+    for (const symbol of symbolList) {
+      jobs.push(await backfillService.backfill({
+        symbol: symbol.trim().toUpperCase(),
+        market_type,
+        timeframe,
+        years: Math.min(Math.max(parseFloat(years) || 2, 0.01), 20)
+      }));
+    }
+
+    res.status(202).json({
+      data: jobs,
+      message: `Backfill queued for ${jobs.length} symbols`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error('Failed to queue backfill:', error);
+    res.status(500).json({
+      error: 'Failed to queue backfill',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// List backfill jobs
+router.get('/backfill/jobs', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const jobs = await backfillService.listJobs(limit);
+    res.json({
+      data: jobs,
+      count: jobs.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list backfill jobs',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Get backfill job progress
+router.get('/backfill/jobs/:id', async (req, res) => {
+  try {
+    const job = await backfillService.getJob(parseInt(req.params.id));
+    if (!job) {
+      return res.status(404).json({
+        error: 'Backfill job not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+    res.json({
+      data: job,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get backfill job',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Bars rejected by the data quality gate
+router.get('/data-quality/quarantine', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    const symbol = req.query.symbol ? (req.query.symbol as string).toUpperCase() : undefined;
+    const bars = await dataQualityGate.listQuarantine(limit, symbol);
+    res.json({
+      data: bars,
+      count: bars.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list quarantined bars',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Share of recent decisions built only on real market data
+router.get('/provenance/summary', async (req, res) => {
+  try {
+    const hours = Math.min(parseInt(req.query.hours as string) || 24, 24 * 30);
+    const summary = await provenanceService.getSummary(hours);
+    res.json({
+      data: summary,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to compute provenance summary',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Market session status with next open/close
+router.get('/calendar/:market', async (req, res) => {
+  try {
+    const market = req.params.market;
+    if (market !== 'equity' && market !== 'crypto') {
+      return res.status(400).json({
+        error: 'Invalid market',
+        message: 'market must be equity or crypto',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const at = req.query.at ? new Date(req.query.at as string) : new Date();
+    if (isNaN(at.getTime())) {
+      return res.status(400).json({
+        error: 'Invalid at',
+        message: 'at must be an ISO timestamp',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const status = await tradingCalendar.getStatus(market, at);
+    const day = await tradingCalendar.getTradingDay(market, (req.query.date as string) || at);
+    res.json({
+      data: { ...status, trading_day: day },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to read trading calendar',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Load holiday and half-day definitions for an exchange
+router.post('/calendar/:exchange/holidays', async (req, res) => {
+  try {
+    const holidays = req.body?.holidays;
+    if (!Array.isArray(holidays) || holidays.length === 0) {
+      return res.status(400).json({
+        error: 'Invalid holidays',
+        message: 'holidays must be a non-empty array of { date, name, early_close? }',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const stored = await tradingCalendar.loadHolidays(req.params.exchange.toUpperCase(), holidays);
+    res.json({
+      message: `Loaded ${stored} holiday definitions`,
+      exchange: req.params.exchange.toUpperCase(),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to load holidays',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Bar coverage per symbol and timeframe from the latest gap scan
+router.get('/coverage', async (req, res) => {
+  try {
+    const symbol = req.query.symbol ? (req.query.symbol as string).toUpperCase() : undefined;
+    const coverage = await gapScanner.getCoverage(symbol);
+    res.json({
+      data: coverage,
+      count: coverage.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get coverage',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Detected market_data gaps and their repair state
+router.get('/gaps', async (req, res) => {
+  try {
+    const gaps = await gapScanner.listGaps({
+      symbol: req.query.symbol ? (req.query.symbol as string).toUpperCase() : undefined,
+      status: req.query.status as GapStatus | undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 100, 1000)
+    });
+    res.json({
+      data: gaps,
+      count: gaps.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list gaps',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Scan one series, or every runner ticker when no symbol is given
+router.post('/gaps/scan', async (req, res) => {
+  try {
+    const { symbol, market_type, timeframe = '1d', repair = true } = req.body || {};
+
+    if (!symbol) {
+      const reports = await tradingRunner.runGapScan(repair !== false);
+      return res.json({
+        data: reports,
+        count: reports.length,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (!['equity', 'crypto'].includes(market_type) || !['1m', '5m', '15m', '1h', '1d'].includes(timeframe)) {
+      return res.status(400).json({
+        error: 'Invalid market_type or timeframe',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const report = await gapScanner.scanSymbol(symbol.toUpperCase(), market_type, timeframe, repair !== false);
+    res.json({
+      data: report,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Gap scan failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Instrument master: classification, currency, venue, tick/lot size, min notional
+router.get('/instruments', async (req, res) => {
+  try {
+    const assetClass = req.query.asset_class as string | undefined;
+    if (assetClass && !['equity', 'crypto'].includes(assetClass)) {
+      return res.status(400).json({
+        error: 'Invalid asset_class',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const instruments = await instrumentMaster.list({
+      asset_class: assetClass as 'equity' | 'crypto' | undefined,
+      sector: req.query.sector as string | undefined
+    });
+    res.json({
+      data: instruments,
+      count: instruments.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list instruments',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.get('/instruments/:symbol', async (req, res) => {
+  try {
+    const instrument = await instrumentMaster.get(req.params.symbol);
+    if (!instrument) {
+      return res.status(404).json({
+        error: `Unknown instrument ${req.params.symbol.toUpperCase()}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    res.json({
+      data: instrument,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get instrument',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Re-read db/instruments.json (or INSTRUMENTS_SEED_FILE) into the instruments table
+router.post('/instruments/reload', async (req, res) => {
+  try {
+    const loaded = await instrumentMaster.loadSeed();
+    res.json({
+      data: { loaded },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to reload instruments',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Latest FX rates and the base currency portfolios are valued in
+router.get('/fx/rates', async (req, res) => {
+  try {
+    const rates = await fxRates.listRates();
+    res.json({
+      data: {
+        base_currency: await fxRates.getBaseCurrency(),
+        rates
+      },
+      count: rates.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list FX rates',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Record a rate by hand: 1 base = rate quote
+router.post('/fx/rates', async (req, res) => {
+  try {
+    const { base, quote, rate, source } = req.body || {};
+    if (typeof base !== 'string' || typeof quote !== 'string' || !(Number(rate) > 0)) {
+      return res.status(400).json({
+        error: 'base, quote and a positive rate are required',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const recorded = await fxRates.recordRate(base, quote, Number(rate), source || 'manual');
+    res.json({
+      data: recorded,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to record FX rate',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.post('/fx/refresh', async (req, res) => {
+  try {
+    const rates = await dataIngestor.refreshFxRates();
+    res.json({
+      data: rates,
+      count: rates.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to refresh FX rates',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Move cash between currency balances at the current rate
+router.post('/fx/convert', async (req, res) => {
+  try {
+    const { from, to, amount } = req.body || {};
+    if (typeof from !== 'string' || typeof to !== 'string' || !(Number(amount) > 0)) {
+      return res.status(400).json({
+        error: 'from, to and a positive amount are required',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const conversion = await portfolioManager.convertCash(from, to, Number(amount), 'Manual conversion');
+    res.json({
+      data: {
+        ...conversion,
+        balances: (await portfolioManager.getCashBalances()).balances
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to convert cash',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// News webhook: a single item or { items: [...] }, tagged and scored on arrival
+router.post('/news', async (req, res) => {
+  try {
+    const body = req.body || {};
+    const items: RawNewsItem[] = Array.isArray(body.items) ? body.items : [body];
+    if (items.length === 0 || items.some(item => typeof item?.headline !== 'string')) {
+      return res.status(400).json({
+        error: 'Each news item needs a headline',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const isSymbolList = (symbols: any) => Array.isArray(symbols) && symbols.every(symbol => typeof symbol === 'string');
+    if (items.some(item => item.symbols !== undefined && !isSymbolList(item.symbols))) {
+      return res.status(400).json({
+        error: 'News item symbols must be an array of strings',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await newsIngestor.ingest(items, body.source || 'webhook');
+    res.json({
+      data: result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to ingest news',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.get('/news', async (req, res) => {
+  try {
+    const articles = await newsIngestor.getRecentNews({
+      symbol: req.query.symbol as string | undefined,
+      hours: parseFloat(req.query.hours as string) || 24,
+      limit: parseInt(req.query.limit as string) || 50
+    });
+    res.json({
+      data: articles,
+      count: articles.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list news',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.get('/news/sentiment/:symbol', async (req, res) => {
+  try {
+    const hours = parseFloat(req.query.hours as string) || undefined;
+    const sentiment = await newsIngestor.getSymbolSentiment(req.params.symbol, hours);
+    res.json({
+      data: sentiment,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get news sentiment',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Read the inbox directory and feeds now instead of waiting for the schedule
+router.post('/news/poll', async (req, res) => {
+  try {
+    const result = await newsIngestor.poll();
+    res.json({
+      data: result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to poll news',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Indicator kinds and the active feature definitions (defaults plus configured)
+router.get('/features/indicators', async (req, res) => {
+  try {
+    const indicators = await featuresEngine.getIndicators();
+    res.json({
+      data: {
+        kinds: indicatorRegistry.listKinds(),
+        indicators,
+        default_count: DEFAULT_INDICATORS.length
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list indicators',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Replace the configured indicators ({ "indicators": [...] }); validated before saving
+router.put('/features/indicators', async (req, res) => {
+  try {
+    const indicators = req.body?.indicators;
+    if (!Array.isArray(indicators)) {
+      return res.status(400).json({
+        error: 'indicators must be an array',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const resolved = indicatorRegistry.resolve([...DEFAULT_INDICATORS, ...indicators]);
+    await setSystemConfig(FEATURE_INDICATORS_CONFIG_KEY, { indicators });
+    featuresEngine.reloadIndicators();
+
+    res.json({
+      data: resolved.slice(DEFAULT_INDICATORS.length),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (error instanceof IndicatorConfigError) {
+      return res.status(400).json({
+        error: error.message,
+        timestamp: new Date().toISOString()
+      });
+    }
+    res.status(500).json({
+      error: 'Failed to update indicators',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Incremental indicator state saved by the features and AI decision engines
+router.get('/features/checkpoints', async (req, res) => {
+  try {
+    const checkpoints = await FeatureStreamCache.listCheckpoints();
+    res.json({
+      data: checkpoints,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list indicator checkpoints',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Discard indicator state ({ "symbol": "AAPL" } or everything) so it is rebuilt from stored bars
+router.post('/features/checkpoints/reset', async (req, res) => {
+  try {
+    const symbol = req.body?.symbol;
+    const deleted = await featuresEngine.resetStreams(symbol) + await aiDecisionEngine.resetStreams(symbol);
+
+    logger.info(`🔁 Reset indicator checkpoints${symbol ? ` for ${symbol}` : ''}`);
+    res.json({
+      data: { symbol: symbol || null, deleted },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to reset indicator checkpoints',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Feature versions with the definitions behind each and their stored history
+router.get('/features/versions', async (req, res) => {
+  try {
+    const { version } = await featuresEngine.getFeatureVersion();
+    const versions = await featureStore.listVersions();
+    res.json({
+      data: { current: version, versions },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list feature versions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Features per symbol as known at a point in time (?symbols=AAPL,MSFT&as_of=...&timeframe=1d&version=...)
+router.get('/features/as-of', async (req, res) => {
+  try {
+    const symbols = ((req.query.symbols as string) || '').split(',').map(symbol => symbol.trim().toUpperCase()).filter(Boolean);
+    if (symbols.length === 0) {
+      return res.status(400).json({
+        error: 'Missing required parameters',
+        required: ['symbols'],
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const asOf = req.query.as_of ? new Date(req.query.as_of as string) : new Date();
+    const timeframe = (req.query.timeframe as string) || '1d';
+    if (isNaN(asOf.getTime()) || !['1m', '5m', '15m', '1h', '1d'].includes(timeframe)) {
+      return res.status(400).json({
+        error: 'Invalid as_of or timeframe',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const features = await featuresEngine.getFeaturesAsOf(symbols, asOf, timeframe as BarInterval, req.query.version as string | undefined);
+    res.json({
+      data: features,
+      as_of: asOf.toISOString(),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get features',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// One symbol's features per bar (?from=...&to=...&as_of=...&timeframe=1d&version=...)
+router.get('/features/history/:symbol', async (req, res) => {
+  try {
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+    const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+    const asOf = req.query.as_of ? new Date(req.query.as_of as string) : new Date();
+    const timeframe = (req.query.timeframe as string) || '1d';
+    if ([from, to, asOf].some(date => isNaN(date.getTime())) || !['1m', '5m', '15m', '1h', '1d'].includes(timeframe)) {
+      return res.status(400).json({
+        error: 'Invalid from, to, as_of or timeframe',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const version = (req.query.version as string) || (await featuresEngine.getFeatureVersion()).version;
+    const features = await featureStore.getHistory(req.params.symbol.toUpperCase(), from, to, timeframe as BarInterval, version, asOf);
+    res.json({
+      data: features,
+      count: features.length,
+      feature_version: version,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get feature history',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Recompute stored features under the current definitions ({ "symbols": [...], "timeframe": "1d", "from": ..., "to": ... })
+router.post('/features/recompute', async (req, res) => {
+  try {
+    const { symbols, timeframe = '1d', from, to } = req.body || {};
+    const symbolList: string[] = (Array.isArray(symbols) ? symbols : symbols ? [symbols] : []).map((symbol: string) => symbol.toUpperCase());
+
+    if (symbolList.length === 0 || !from) {
+      return res.status(400).json({
+        error: 'Missing required parameters',
+        required: ['symbols', 'from'],
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const start = new Date(from);
+    const end = to ? new Date(to) : new Date();
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end || !['1m', '5m', '15m', '1h', '1d'].includes(timeframe)) {
+      return res.status(400).json({
+        error: 'Invalid from, to or timeframe',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const job = await featureRecompute.recompute({ symbols: symbolList, timeframe, start, end });
+    res.status(202).json({
+      data: job,
+      message: `Feature recompute queued for ${job.symbols.length} symbols`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error('Failed to queue feature recompute:', error);
+    res.status(500).json({
+      error: 'Failed to queue feature recompute',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// List feature recompute jobs
+router.get('/features/recompute/jobs', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const jobs = await featureRecompute.listJobs(limit);
+    res.json({
+      data: jobs,
+      count: jobs.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list feature recompute jobs',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Latest regime per symbol and market (?scope=symbol|market&timeframe=1d)
+router.get('/regimes', async (req, res) => {
+  try {
+    const scope = req.query.scope as RegimeRecord['scope'] | undefined;
+    const timeframe = (req.query.timeframe as string) || '1d';
+    if ((scope && !['symbol', 'market'].includes(scope)) || !['1m', '5m', '15m', '1h', '1d'].includes(timeframe)) {
+      return res.status(400).json({
+        error: 'Invalid scope or timeframe',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const regimes = await regimeClassifier.getLatest(scope, timeframe as BarInterval);
+    res.json({
+      data: regimes,
+      count: regimes.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get regimes',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Regime history for a symbol or market type (equity, crypto)
+router.get('/regimes/:subject', async (req, res) => {
+  try {
+    const timeframe = (req.query.timeframe as string) || '1d';
+    if (!['1m', '5m', '15m', '1h', '1d'].includes(timeframe)) {
+      return res.status(400).json({
+        error: 'Invalid timeframe',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+    const subject = ['equity', 'crypto'].includes(req.params.subject) ? req.params.subject : req.params.subject.toUpperCase();
+    const regimes = await regimeClassifier.getHistory(subject, timeframe as BarInterval, limit);
+    res.json({
+      data: regimes,
+      count: regimes.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get regime history',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Strategy types with their parameter schemas, and the active instances (defaults plus configured)
+router.get('/strategies', async (req, res) => {
+  try {
+    const instances = await signalEngine.getStrategyInstances();
+    res.json({
+      data: {
+        types: strategyRegistry.listTypes(),
+        instances
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list strategies',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Replace the configured strategy instances ({ "instances": [...] }); validated before saving
+router.put('/strategies', async (req, res) => {
+  try {
+    const instances = req.body?.instances;
+    if (!Array.isArray(instances)) {
+      return res.status(400).json({
+        error: 'instances must be an array',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const resolved = strategyRegistry.resolve(instances);
+    await setSystemConfig(STRATEGY_INSTANCES_CONFIG_KEY, { instances });
+    signalEngine.reloadStrategies();
+
+    res.json({
+      data: resolved,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (error instanceof StrategyConfigError) {
+      return res.status(400).json({
+        error: error.message,
+        timestamp: new Date().toISOString()
+      });
+    }
+    res.status(500).json({
+      error: 'Failed to update strategies',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Current ensemble weights with the measured strategy performance behind them
+router.get('/ensemble/weights', async (req, res) => {
+  try {
+    const [latest, config] = await Promise.all([ensembleWeighting.getLatest(), ensembleWeighting.getConfig()]);
+    res.json({
+      data: { config, latest },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get ensemble weights',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.get('/ensemble/weights/history', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    const history = await ensembleWeighting.getHistory(limit);
+    res.json({
+      data: history,
+      count: history.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get ensemble weight history',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Re-measure strategy performance and recompute the ensemble weights now
+router.post('/ensemble/weights/recompute', async (req, res) => {
+  try {
+    const snapshot = await signalEngine.recomputeEnsembleWeights();
+    res.json({
+      data: snapshot,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to recompute ensemble weights',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Signal outcomes per strategy: target/stop rates, excursions and forward returns (?days=90&source=breakout)
+router.get('/signals/outcomes/summary', async (req, res) => {
+  try {
+    const days = Math.min(parseInt(req.query.days as string) || 90, 3650);
+    const summary = await signalLabeler.getSummary(days, req.query.source as string | undefined);
+    res.json({
+      data: summary,
+      days,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get signal outcome summary',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Labeled signals, newest first (?source=&symbol=&limit=100)
+router.get('/signals/outcomes', async (req, res) => {
+  try {
+    const outcomes = await signalLabeler.getOutcomes({
+      source: req.query.source as string | undefined,
+      symbol: req.query.symbol ? (req.query.symbol as string).toUpperCase() : undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 100, 1000)
+    });
+    res.json({
+      data: outcomes,
+      count: outcomes.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get signal outcomes',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Label pending signals now instead of waiting for the next cycle
+router.post('/signals/outcomes/label', async (req, res) => {
+  try {
+    const labeled = await signalLabeler.labelPending();
+    res.json({
+      data: { labeled },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to label signals',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Linked (multi-leg) signals
+router.get('/signals/linked/:groupId', async (req, res) => {
+  try {
+    const legs = await signalEngine.getLinkedSignals(req.params.groupId);
+    if (legs.length === 0) {
+      return res.status(404).json({
+        error: `Unknown linked signal ${req.params.groupId}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    res.json({
+      data: { group_id: req.params.groupId, link: legs[0].metadata.link, legs },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get linked signal',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
 export default router;
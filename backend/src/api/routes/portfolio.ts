@@ -91,6 +91,25 @@ router.get('/positions', async (req, res) => {
   }
 });
 
+// Get exposure by sector, asset class, currency and venue
+router.get('/exposure', async (req, res) => {
+  try {
+    const exposure = await portfolioManager.getExposureReport();
+    
+    res.json({
+      data: exposure,
+      timestamp: new Date().toISOString()
+    });
+    
+  } catch (error) {
+    logger.error('Failed to get portfolio exposure:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve exposure',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Get portfolio metrics
 router.get('/metrics', async (req, res) => {
   try {
@@ -134,15 +153,17 @@ router.get('/metrics', async (req, res) => {
   }
 });
 
-// Get cash balance
+// Get cash balance, in total (base currency) and per currency
 router.get('/cash', async (req, res) => {
   try {
-    const cash = await portfolioManager.getCashBalance();
+    const cash = await portfolioManager.getCashBalances();
     
     res.json({
       data: {
-        cash_balance: cash,
-        currency: 'USD'
+        cash_balance: Math.max(cash.total_base, 0),
+        currency: cash.base_currency,
+        balances: cash.balances,
+        unconverted: cash.unconverted
       },
       timestamp: new Date().toISOString()
     });
@@ -31,7 +31,7 @@ router.get('/', async (req, res) => {
       id: row.id,
       symbol: row.symbol,
       side: row.side,
-      quantity: parseInt(row.quantity),
+      quantity: parseFloat(row.quantity),
       price: parseFloat(row.price),
       executed_price: parseFloat(row.executed_price),
       timestamp: new Date(row.timestamp),
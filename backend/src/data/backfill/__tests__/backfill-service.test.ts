@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const day = (n: number) => new Date(Date.UTC(2024, 0, 1) + n * DAY_MS);
+
+// In-memory backfill_jobs behind DatabaseManager.query, newest last
+let jobs: any[];
+
+async function query(sql: string, params: any[] = []): Promise<{ rows: any[] }> {
+  if (sql.includes('SELECT * FROM backfill_jobs')) {
+    const rows = jobs.filter(job =>
+      job.symbol === params[0] && job.timeframe === params[1] && job.gap_id === params[2] &&
+      ['PENDING', 'RUNNING', 'FAILED'].includes(job.status));
+    return { rows: rows.reverse() };
+  }
+  if (sql.includes('UPDATE backfill_jobs')) {
+    const job = jobs.find(row => row.id === params[0]);
+    const [start, end] = [params[1] as Date, params[2] as Date];
+    if (start < job.start_date) job.start_date = start;
+    if (end > job.end_date) job.end_date = end;
+    if (start < job.cursor_date) job.cursor_date = start;
+    return { rows: [job] };
+  }
+  if (sql.includes('INSERT INTO backfill_jobs')) {
+    const job = {
+      id: jobs.length + 1,
+      symbol: params[0],
+      market_type: params[1],
+      timeframe: params[2],
+      start_date: params[3],
+      end_date: params[4],
+      cursor_date: params[3],
+      status: 'PENDING',
+      gap_id: params[5],
+      chunks_completed: 0,
+      bars_written: 0
+    };
+    jobs.push(job);
+    return { rows: [job] };
+  }
+  return { rows: [] };
+}
+
+jest.mock('../../../utils/database', () => ({
+  DatabaseManager: { query: (sql: string, params?: any[]) => query(sql, params) }
+}));
+
+jest.mock('../../../data_ingestor', () => ({ dataIngestor: {} }));
+jest.mock('../../providers', () => ({ providerRegistry: {} }));
+jest.mock('../../quality/data-quality-gate', () => ({ dataQualityGate: {} }));
+
+import { backfillService } from '../backfill-service';
+
+function existingJob(status: string, start: Date, end: Date, cursor: Date = start) {
+  jobs.push({
+    id: jobs.length + 1,
+    symbol: 'AAPL',
+    market_type: 'equity',
+    timeframe: '1d',
+    start_date: start,
+    end_date: end,
+    cursor_date: cursor,
+    status,
+    gap_id: null,
+    chunks_completed: 0,
+    bars_written: 0
+  });
+}
+
+const request = (start: Date, end: Date) =>
+  backfillService.createJob({ symbol: 'AAPL', market_type: 'equity', timeframe: '1d', start, end });
+
+describe('BackfillService.createJob', () => {
+  beforeEach(() => {
+    jobs = [];
+  });
+
+  it('resumes an unfinished job whose range covers the request', async () => {
+    existingJob('FAILED', day(0), day(100), day(40));
+
+    const job = await request(day(10), day(90));
+
+    expect(job.id).toBe(1);
+    expect(job.cursor_date).toEqual(day(40));
+    expect(jobs).toHaveLength(1);
+  });
+
+  it('widens a pending or failed job to a wider request and rewinds its cursor', async () => {
+    existingJob('FAILED', day(50), day(100), day(70));
+
+    const job = await request(day(0), day(120));
+
+    expect(job.id).toBe(1);
+    expect([job.start_date, job.end_date, job.cursor_date]).toEqual([day(0), day(120), day(0)]);
+    expect(jobs).toHaveLength(1);
+  });
+
+  it('queues only the uncovered part next to a running job', async () => {
+    existingJob('RUNNING', day(0), day(100), day(30));
+
+    const later = await request(day(50), day(150));
+    expect(later.id).toBe(2);
+    expect([later.start_date, later.end_date]).toEqual([day(100), day(150)]);
+
+    // A repeat request widens the queued job instead of adding a third
+    const repeat = await request(day(50), day(160));
+    expect(repeat.id).toBe(2);
+    expect([repeat.start_date, repeat.end_date]).toEqual([day(100), day(160)]);
+    expect(jobs.find(job => job.id === 1).end_date).toEqual(day(100));
+  });
+});
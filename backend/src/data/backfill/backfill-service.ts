@@ -0,0 +1,310 @@
+/**
+ * Historical OHLCV Backfill
+ * Pulls bars in rate-limited chunks and records a cursor so interrupted jobs resume
+ */
+import { logger } from '../../utils/logger';
+import { DatabaseManager } from '../../utils/database';
+import { dataIngestor } from '../../data_ingestor';
+import { providerRegistry, BarInterval, MarketType } from '../providers';
+import { dataQualityGate } from '../quality/data-quality-gate';
+
+export interface BackfillRequest {
+  symbol: string;
+  market_type: MarketType;
+  timeframe?: BarInterval;
+  years?: number;
+  start?: Date;
+  end?: Date;
+  // Set when the job repairs a gap found by the gap scanner
+  gap_id?: number;
+}
+
+export interface BackfillJob {
+  id: number;
+  symbol: string;
+  market_type: MarketType;
+  timeframe: BarInterval;
+  start_date: Date;
+  end_date: Date;
+  cursor_date: Date;
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  chunks_completed: number;
+  bars_written: number;
+  bars_quarantined: number;
+  gap_id?: number;
+  last_error?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Chunk spans keep every request under the 1000-bar limit of the strictest provider
+const CHUNK_SPAN_MS: { [key in BarInterval]: number } = {
+  '1m': 12 * 60 * 60 * 1000,
+  '5m': 3 * DAY_MS,
+  '15m': 10 * DAY_MS,
+  '1h': 40 * DAY_MS,
+  '1d': 365 * DAY_MS
+};
+
+export class BackfillService {
+  private readonly CHUNK_DELAY_MS = parseInt(process.env.BACKFILL_CHUNK_DELAY_MS || '1500');
+  private readonly MAX_CHUNK_RETRIES = 3;
+  private readonly MIN_DAILY_BARS = 50;
+  private queue: Promise<void> = Promise.resolve();
+  private queuedJobs: Set<number> = new Set();
+
+  /**
+   * Create a job, or reuse an unfinished one for the same symbol/timeframe
+   * (and gap, for repairs). A job whose range covers the request is resumed;
+   * otherwise a PENDING or FAILED job is widened to include the request, and
+   * only when the sole unfinished job is running does a new job take the part
+   * it does not cover.
+   */
+  async createJob(request: BackfillRequest): Promise<BackfillJob> {
+    const timeframe = request.timeframe || '1d';
+    let end = request.end || new Date();
+    let start = request.start || new Date(end.getTime() - (request.years || 2) * 365 * DAY_MS);
+
+    const existing = await DatabaseManager.query(
+      `SELECT * FROM backfill_jobs
+       WHERE symbol = $1 AND timeframe = $2 AND gap_id IS NOT DISTINCT FROM $3
+         AND status IN ('PENDING', 'RUNNING', 'FAILED')
+       ORDER BY created_at DESC`,
+      [request.symbol, timeframe, request.gap_id ?? null]
+    );
+    const unfinished: BackfillJob[] = existing.rows.map((row: any) => this.mapJob(row));
+
+    const covering = unfinished.find(job => job.start_date <= start && job.end_date >= end);
+    if (covering) {
+      logger.info(`⏯️ Resuming backfill job ${covering.id} for ${covering.symbol} ${covering.timeframe} from ${covering.cursor_date.toISOString()}`);
+      return covering;
+    }
+
+    // A running job has already read its range, so leave out what it covers
+    // when the request only reaches past one end of it
+    const running = unfinished.find(job => job.status === 'RUNNING');
+    if (running && start >= running.start_date) {
+      start = new Date(Math.max(start.getTime(), running.end_date.getTime()));
+    } else if (running && end <= running.end_date) {
+      end = new Date(Math.min(end.getTime(), running.start_date.getTime()));
+    }
+
+    const idle = unfinished.find(job => job.status !== 'RUNNING');
+    if (idle) {
+      const widened = await DatabaseManager.query(
+        `UPDATE backfill_jobs
+         SET start_date = LEAST(start_date, $2), end_date = GREATEST(end_date, $3),
+             cursor_date = LEAST(cursor_date, $2)
+         WHERE id = $1
+         RETURNING *`,
+        [idle.id, start, end]
+      );
+      const job = this.mapJob(widened.rows[0]);
+      logger.info(`⏯️ Extended backfill job ${job.id} for ${job.symbol} ${job.timeframe} to ${job.start_date.toISOString()} → ${job.end_date.toISOString()}`);
+      return job;
+    }
+
+    const result = await DatabaseManager.query(
+      `INSERT INTO backfill_jobs (symbol, market_type, timeframe, start_date, end_date, cursor_date, status, gap_id)
+       VALUES ($1, $2, $3, $4, $5, $4, 'PENDING', $6)
+       RETURNING *`,
+      [request.symbol, request.market_type, timeframe, start, end, request.gap_id ?? null]
+    );
+
+    return this.mapJob(result.rows[0]);
+  }
+
+  /**
+   * Queue a job for execution. Jobs run one at a time so chunk pacing
+   * holds across symbols as well as within a symbol.
+   */
+  enqueue(job: BackfillJob): void {
+    if (this.queuedJobs.has(job.id)) return;
+
+    this.queuedJobs.add(job.id);
+    this.queue = this.queue
+      .then(() => this.runJob(job.id))
+      .then(() => undefined)
+      .catch(error => logger.error(`Backfill job ${job.id} crashed:`, error))
+      .finally(() => this.queuedJobs.delete(job.id));
+  }
+
+  async backfill(request: BackfillRequest): Promise<BackfillJob> {
+    const job = await this.createJob(request);
+    this.enqueue(job);
+    return job;
+  }
+
+  async runJob(jobId: number): Promise<BackfillJob> {
+    let job = await this.getJob(jobId);
+    if (!job) throw new Error(`Backfill job ${jobId} not found`);
+    if (job.status === 'COMPLETED') return job;
+
+    await this.updateJob(job.id, { status: 'RUNNING', last_error: null });
+    logger.info(`📚 Backfilling ${job.symbol} ${job.timeframe} ${job.cursor_date.toISOString()} → ${job.end_date.toISOString()}`);
+
+    const span = CHUNK_SPAN_MS[job.timeframe];
+    let cursor = job.cursor_date;
+
+    while (cursor < job.end_date) {
+      const chunkEnd = new Date(Math.min(cursor.getTime() + span, job.end_date.getTime()));
+
+      let result: { written: number; quarantined: number };
+      try {
+        result = await this.fetchChunk(job, cursor, chunkEnd);
+      } catch (error: any) {
+        await this.updateJob(job.id, { status: 'FAILED', last_error: error.message });
+        logger.error(`❌ Backfill job ${job.id} failed at ${cursor.toISOString()}: ${error.message}`);
+        return (await this.getJob(job.id))!;
+      }
+
+      cursor = chunkEnd;
+      await DatabaseManager.query(
+        `UPDATE backfill_jobs
+         SET cursor_date = $2, chunks_completed = chunks_completed + 1,
+             bars_written = bars_written + $3, bars_quarantined = bars_quarantined + $4
+         WHERE id = $1`,
+        [job.id, cursor, result.written, result.quarantined]
+      );
+
+      if (cursor < job.end_date) {
+        await this.sleep(this.CHUNK_DELAY_MS);
+      }
+    }
+
+    await this.updateJob(job.id, { status: 'COMPLETED' });
+    job = (await this.getJob(job.id))!;
+    logger.info(`✅ Backfill complete for ${job.symbol} ${job.timeframe}: ${job.bars_written} bars in ${job.chunks_completed} chunks (${job.bars_quarantined} quarantined)`);
+    return job;
+  }
+
+  private async fetchChunk(job: BackfillJob, start: Date, end: Date): Promise<{ written: number; quarantined: number }> {
+    let lastError: any;
+
+    for (let attempt = 1; attempt <= this.MAX_CHUNK_RETRIES; attempt++) {
+      try {
+        const bars = await providerRegistry.getBars(job.symbol, job.market_type, {
+          interval: job.timeframe,
+          start,
+          end
+        });
+
+        // An empty chunk is normal before listing or across long market closures
+        const inRange = bars.filter(bar => bar.timestamp >= start && bar.timestamp < end);
+        const { accepted, rejected } = await dataQualityGate.validateSeries(inRange);
+
+        for (const { bar, issues } of rejected) {
+          await dataQualityGate.quarantine(bar, issues);
+        }
+
+        return { written: await dataIngestor.storeBars(accepted), quarantined: rejected.length };
+      } catch (error) {
+        lastError = error;
+        const backoff = this.CHUNK_DELAY_MS * Math.pow(2, attempt);
+        logger.warn(`Backfill chunk retry ${attempt}/${this.MAX_CHUNK_RETRIES} for ${job.symbol} in ${backoff}ms`);
+        await this.sleep(backoff);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Re-queue jobs left PENDING or RUNNING by a previous process.
+   */
+  async resumeInterruptedJobs(): Promise<number> {
+    try {
+      const result = await DatabaseManager.query(
+        `SELECT * FROM backfill_jobs WHERE status IN ('PENDING', 'RUNNING') ORDER BY created_at ASC`
+      );
+
+      for (const row of result.rows) {
+        this.enqueue(this.mapJob(row));
+      }
+
+      if (result.rows.length > 0) {
+        logger.info(`⏯️ Resumed ${result.rows.length} interrupted backfill jobs`);
+      }
+      return result.rows.length;
+    } catch (error) {
+      logger.error('Failed to resume backfill jobs:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Tickers without enough daily history for the features engine.
+   */
+  async findSymbolsNeedingBackfill(symbols: string[]): Promise<string[]> {
+    const result = await DatabaseManager.query(
+      `SELECT symbol, COUNT(*) AS bars
+       FROM market_data
+       WHERE symbol = ANY($1) AND timeframe = '1d'
+       GROUP BY symbol`,
+      [symbols]
+    );
+
+    const counts = new Map<string, number>(result.rows.map((row: any) => [row.symbol, parseInt(row.bars)]));
+    return symbols.filter(symbol => (counts.get(symbol) || 0) < this.MIN_DAILY_BARS);
+  }
+
+  async backfillNewTickers(symbols: string[], marketType: MarketType, years: number = 2): Promise<BackfillJob[]> {
+    const missing = await this.findSymbolsNeedingBackfill(symbols);
+    const jobs: BackfillJob[] = [];
+
+    for (const symbol of missing) {
+      jobs.push(await this.backfill({ symbol, market_type: marketType, timeframe: '1d', years }));
+    }
+
+    if (jobs.length > 0) {
+      logger.info(`📚 Queued ${marketType} backfill for new tickers: ${missing.join(', ')}`);
+    }
+    return jobs;
+  }
+
+  async getJob(jobId: number): Promise<BackfillJob | null> {
+    const result = await DatabaseManager.query(`SELECT * FROM backfill_jobs WHERE id = $1`, [jobId]);
+    return result.rows.length > 0 ? this.mapJob(result.rows[0]) : null;
+  }
+
+  async listJobs(limit: number = 50): Promise<BackfillJob[]> {
+    const result = await DatabaseManager.query(
+      `SELECT * FROM backfill_jobs ORDER BY created_at DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map((row: any) => this.mapJob(row));
+  }
+
+  private async updateJob(jobId: number, fields: { status?: BackfillJob['status']; last_error?: string | null }): Promise<void> {
+    await DatabaseManager.query(
+      `UPDATE backfill_jobs
+       SET status = COALESCE($2, status), last_error = $3
+       WHERE id = $1`,
+      [jobId, fields.status || null, fields.last_error === undefined ? null : fields.last_error]
+    );
+  }
+
+  private mapJob(row: any): BackfillJob {
+    return {
+      id: row.id,
+      symbol: row.symbol,
+      market_type: row.market_type,
+      timeframe: row.timeframe,
+      start_date: new Date(row.start_date),
+      end_date: new Date(row.end_date),
+      cursor_date: new Date(row.cursor_date),
+      status: row.status,
+      chunks_completed: parseInt(row.chunks_completed),
+      bars_written: parseInt(row.bars_written),
+      bars_quarantined: parseInt(row.bars_quarantined || 0),
+      gap_id: row.gap_id || undefined,
+      last_error: row.last_error || undefined
+    };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export const backfillService = new BackfillService();
@@ -0,0 +1,376 @@
+/**
+ * Tick-to-Bar Aggregator
+ * Builds 1m/5m/15m/1h/1d OHLCV candles from the tick streams and persists them
+ * to market_data with their timeframe
+ */
+import { EventEmitter } from 'events';
+import { logger } from '../../utils/logger';
+import { dataIngestor, MarketData } from '../../data_ingestor';
+import { dataQualityGate } from '../quality/data-quality-gate';
+import { BAR_INTERVAL_MS, BarInterval, MarketType } from '../providers/types';
+
+export interface AggregatorTick {
+  symbol: string;
+  asset_type: MarketType;
+  price: number;
+  quantity: number;
+  timestamp: number;
+  // Ticker feeds report running volume totals rather than trade sizes
+  cumulative_volume?: boolean;
+}
+
+interface BuildingBar extends MarketData {
+  timeframe: BarInterval;
+  first_tick: number;
+  last_tick: number;
+  filled: boolean;
+}
+
+interface BarUpdate {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  first: number;
+  last: number;
+}
+
+export const AGGREGATOR_PROVIDER = 'tick_aggregator';
+
+export class BarAggregator extends EventEmitter {
+  private readonly timeframes: BarInterval[] = ['1m', '5m', '15m', '1h', '1d'];
+  private readonly ALLOWED_LATENESS_MS = parseInt(process.env.BAR_ALLOWED_LATENESS_MS || '5000');
+  private readonly RETAINED_CLOSED_BARS = 3;
+  private readonly MAX_FILL_BARS = 500;
+  private readonly FLUSH_INTERVAL_MS = 5000;
+
+  private building: Map<string, BuildingBar> = new Map();
+  private closed: Map<string, BuildingBar[]> = new Map();
+  private lastCumulative: Map<string, number> = new Map();
+  private pending: Map<string, MarketData> = new Map();
+  private watermark = 0;
+  private flushInterval: NodeJS.Timeout | null = null;
+
+  private stats = {
+    ticks_ingested: 0,
+    bars_closed: 0,
+    bars_filled: 0,
+    bars_quarantined: 0,
+    late_updates_merged: 0,
+    late_updates_dropped: 0
+  };
+
+  start(): void {
+    if (this.flushInterval) return;
+
+    this.flushInterval = setInterval(() => {
+      this.closeExpiredBars();
+      this.flush().catch(error => logger.error('Failed to persist aggregated bars:', error));
+    }, this.FLUSH_INTERVAL_MS);
+
+    logger.info(`🕯️ Bar aggregator started (${this.timeframes.join(', ')})`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+
+    this.closeExpiredBars();
+    await this.flush();
+    logger.info(`🕯️ Bar aggregator stopped (${this.building.size} partial bars discarded)`);
+  }
+
+  ingest(tick: AggregatorTick): void {
+    if (!(tick.price > 0) || !tick.timestamp) return;
+
+    this.stats.ticks_ingested++;
+    this.watermark = Math.max(this.watermark, tick.timestamp);
+
+    const volume = tick.cumulative_volume ? this.volumeIncrement(tick) : Math.max(0, tick.quantity || 0);
+    const update: BarUpdate = {
+      open: tick.price,
+      high: tick.price,
+      low: tick.price,
+      close: tick.price,
+      volume,
+      first: tick.timestamp,
+      last: tick.timestamp
+    };
+
+    for (const timeframe of this.timeframes) {
+      this.apply(tick.symbol, tick.asset_type, timeframe, update);
+    }
+  }
+
+  /**
+   * Roll a finished bar into every timeframe at least as coarse as its own,
+   * e.g. replayed 1m candles into 5m/15m/1h/1d.
+   */
+  ingestBar(bar: MarketData): void {
+    const sourceSpan = BAR_INTERVAL_MS[bar.timeframe || '1d'];
+    const start = bar.timestamp.getTime();
+
+    this.watermark = Math.max(this.watermark, start + sourceSpan - 1);
+
+    const update: BarUpdate = {
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume,
+      first: start,
+      last: start + sourceSpan - 1
+    };
+
+    for (const timeframe of this.timeframes) {
+      if (BAR_INTERVAL_MS[timeframe] >= sourceSpan) {
+        this.apply(bar.symbol, bar.market_type, timeframe, update);
+      }
+    }
+  }
+
+  private apply(symbol: string, marketType: MarketType, timeframe: BarInterval, update: BarUpdate): void {
+    const key = `${symbol}:${timeframe}`;
+    const span = BAR_INTERVAL_MS[timeframe];
+    const bucket = Math.floor(update.first / span) * span;
+    const current = this.building.get(key);
+
+    if (!current) {
+      const previous = this.lastClosed(key);
+      if (previous && bucket <= previous.timestamp.getTime()) {
+        this.mergeLate(key, bucket, update);
+        return;
+      }
+      if (previous) {
+        this.fillGap(key, previous, bucket);
+      }
+      this.building.set(key, this.newBar(symbol, marketType, timeframe, bucket, update));
+      return;
+    }
+
+    const currentBucket = current.timestamp.getTime();
+
+    if (bucket === currentBucket) {
+      this.merge(current, update);
+    } else if (bucket > currentBucket) {
+      this.close(key, current);
+      this.fillGap(key, current, bucket);
+      this.building.set(key, this.newBar(symbol, marketType, timeframe, bucket, update));
+    } else {
+      this.mergeLate(key, bucket, update);
+    }
+  }
+
+  /**
+   * Late ticks update a recently closed bar and re-persist it; anything older
+   * than the retained window is dropped rather than rewriting settled history.
+   */
+  private mergeLate(key: string, bucket: number, update: BarUpdate): void {
+    const target = (this.closed.get(key) || []).find(bar => bar.timestamp.getTime() === bucket);
+
+    if (!target) {
+      this.stats.late_updates_dropped++;
+      return;
+    }
+
+    this.merge(target, update);
+    this.queue(target);
+    this.stats.late_updates_merged++;
+  }
+
+  private merge(bar: BuildingBar, update: BarUpdate): void {
+    if (bar.filled) {
+      // First real trade in a gap-filled interval replaces the placeholder prices
+      bar.open = update.open;
+      bar.high = update.high;
+      bar.low = update.low;
+      bar.close = update.close;
+      bar.volume = update.volume;
+      bar.first_tick = update.first;
+      bar.last_tick = update.last;
+      bar.filled = false;
+      return;
+    }
+
+    if (update.first < bar.first_tick) {
+      bar.open = update.open;
+      bar.first_tick = update.first;
+    }
+    if (update.last >= bar.last_tick) {
+      bar.close = update.close;
+      bar.last_tick = update.last;
+    }
+    bar.high = Math.max(bar.high, update.high);
+    bar.low = Math.min(bar.low, update.low);
+    bar.volume += update.volume;
+  }
+
+  /**
+   * Continuous markets get flat zero-volume bars for intervals without trades
+   * so indicators see evenly spaced candles. Equity gaps are session closures
+   * and are left empty.
+   */
+  private fillGap(key: string, previous: BuildingBar, nextBucket: number): void {
+    if (previous.market_type !== 'crypto') return;
+
+    const span = BAR_INTERVAL_MS[previous.timeframe];
+    const missing = Math.round((nextBucket - previous.timestamp.getTime()) / span) - 1;
+    if (missing <= 0) return;
+
+    if (missing > this.MAX_FILL_BARS) {
+      logger.debug(`Gap of ${missing} ${previous.timeframe} bars for ${previous.symbol} too large to fill`);
+      return;
+    }
+
+    for (let i = 1; i <= missing; i++) {
+      const bucket = previous.timestamp.getTime() + i * span;
+      const filler = this.newBar(previous.symbol, previous.market_type, previous.timeframe, bucket, {
+        open: previous.close,
+        high: previous.close,
+        low: previous.close,
+        close: previous.close,
+        volume: 0,
+        first: bucket,
+        last: bucket
+      });
+      filler.filled = true;
+      this.close(key, filler);
+      this.stats.bars_filled++;
+    }
+  }
+
+  private close(key: string, bar: BuildingBar): void {
+    this.building.delete(key);
+
+    const history = this.closed.get(key) || [];
+    history.push(bar);
+    if (history.length > this.RETAINED_CLOSED_BARS) {
+      history.shift();
+    }
+    this.closed.set(key, history);
+
+    this.queue(bar);
+    this.stats.bars_closed++;
+    this.emit('bar', this.toMarketData(bar));
+  }
+
+  /**
+   * Close bars whose interval ended before the event-time watermark, so
+   * symbols that go quiet still produce candles. Using event time rather than
+   * the wall clock keeps replays deterministic.
+   */
+  private closeExpiredBars(): void {
+    const cutoff = this.watermark - this.ALLOWED_LATENESS_MS;
+
+    for (const [key, bar] of Array.from(this.building.entries())) {
+      if (bar.timestamp.getTime() + BAR_INTERVAL_MS[bar.timeframe] <= cutoff) {
+        this.close(key, bar);
+      }
+    }
+  }
+
+  /**
+   * Persist queued bars that pass the data quality gate and quarantine the
+   * rest, as for vendor bars. Zero volume is allowed: gap-fill bars carry
+   * none by design, and ticker feeds only yield volume as differences of
+   * running totals, so a quiet interval is not a bad bar.
+   */
+  async flush(): Promise<number> {
+    if (this.pending.size === 0) return 0;
+
+    const bars = Array.from(this.pending.values());
+    this.pending.clear();
+
+    try {
+      const series = new Map<string, MarketData[]>();
+      for (const bar of bars) {
+        const key = `${bar.symbol}:${bar.timeframe}`;
+        series.set(key, [...(series.get(key) || []), bar]);
+      }
+
+      const accepted: MarketData[] = [];
+      for (const seriesBars of Array.from(series.values())) {
+        const result = await dataQualityGate.validateSeries(seriesBars, { allowZeroVolume: true });
+        for (const { bar, issues } of result.rejected) {
+          await dataQualityGate.quarantine(bar, issues);
+        }
+        this.stats.bars_quarantined += result.rejected.length;
+        accepted.push(...result.accepted);
+      }
+
+      return await dataIngestor.storeBars(accepted);
+    } catch (error) {
+      // Put them back so the next flush retries; newer versions of a bar win
+      for (const bar of bars) {
+        const key = `${bar.symbol}:${bar.timeframe}:${bar.timestamp.getTime()}`;
+        if (!this.pending.has(key)) this.pending.set(key, bar);
+      }
+      throw error;
+    }
+  }
+
+  private queue(bar: BuildingBar): void {
+    this.pending.set(`${bar.symbol}:${bar.timeframe}:${bar.timestamp.getTime()}`, this.toMarketData(bar));
+  }
+
+  private volumeIncrement(tick: AggregatorTick): number {
+    const previous = this.lastCumulative.get(tick.symbol);
+    this.lastCumulative.set(tick.symbol, tick.quantity);
+
+    // Totals reset (daily volume) or roll off (24h windows); neither is new trading
+    if (previous === undefined || tick.quantity < previous) return 0;
+    return tick.quantity - previous;
+  }
+
+  private lastClosed(key: string): BuildingBar | undefined {
+    const history = this.closed.get(key);
+    return history && history.length > 0 ? history[history.length - 1] : undefined;
+  }
+
+  private newBar(symbol: string, marketType: MarketType, timeframe: BarInterval, bucket: number, update: BarUpdate): BuildingBar {
+    return {
+      symbol,
+      timestamp: new Date(bucket),
+      open: update.open,
+      high: update.high,
+      low: update.low,
+      close: update.close,
+      volume: update.volume,
+      provider: AGGREGATOR_PROVIDER,
+      market_type: marketType,
+      timeframe,
+      first_tick: update.first,
+      last_tick: update.last,
+      filled: false
+    };
+  }
+
+  private toMarketData(bar: BuildingBar): MarketData {
+    return {
+      symbol: bar.symbol,
+      timestamp: bar.timestamp,
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume,
+      provider: bar.provider,
+      market_type: bar.market_type,
+      timeframe: bar.timeframe
+    };
+  }
+
+  getStats() {
+    return {
+      ...this.stats,
+      open_bars: this.building.size,
+      pending_writes: this.pending.size,
+      watermark: this.watermark ? new Date(this.watermark) : null
+    };
+  }
+}
+
+export const barAggregator = new BarAggregator();
@@ -0,0 +1,320 @@
+/**
+ * Exchange Trading Calendar
+ * Session hours per market from market_config (in the exchange's local time),
+ * holidays and early closes from exchange_holidays, and next open/close lookups
+ */
+import { logger } from '../../utils/logger';
+import { DatabaseManager } from '../../utils/database';
+import { MarketType } from '../providers/types';
+import { addDays, parseTimeOfDay, weekdayOf, zonedParts, zonedTimeToUtc } from './zoned-time';
+
+export type MarketSession = 'pre_market' | 'regular' | 'post_market' | 'closed';
+
+export interface SessionHours {
+  pre_market_open?: string;
+  regular_open: string;
+  regular_close: string;
+  post_market_close?: string;
+}
+
+export interface ExchangeHoliday {
+  date: string;
+  name: string;
+  // Set for half-days: the market opens but the regular session ends early
+  early_close?: string;
+}
+
+export interface ExchangeCalendar {
+  market_type: MarketType;
+  exchange: string;
+  timezone: string;
+  is_24h: boolean;
+  hours?: SessionHours;
+  holidays: Map<string, ExchangeHoliday>;
+}
+
+export interface SessionWindow {
+  session: Exclude<MarketSession, 'closed'>;
+  open: Date;
+  close: Date;
+}
+
+export interface TradingDay {
+  exchange: string;
+  date: string;
+  is_trading_day: boolean;
+  holiday?: string;
+  early_close: boolean;
+  sessions: SessionWindow[];
+}
+
+export interface MarketStatus {
+  market_type: MarketType;
+  exchange: string;
+  timezone: string;
+  session: MarketSession;
+  is_open: boolean;
+  next_open: Date | null;
+  next_close: Date | null;
+}
+
+const DEFAULT_CALENDARS: { [key in MarketType]: Omit<ExchangeCalendar, 'holidays'> } = {
+  equity: {
+    market_type: 'equity',
+    exchange: 'XNYS',
+    timezone: 'America/New_York',
+    is_24h: false,
+    hours: {
+      pre_market_open: '04:00',
+      regular_open: '09:30',
+      regular_close: '16:00',
+      post_market_close: '20:00'
+    }
+  },
+  crypto: {
+    market_type: 'crypto',
+    exchange: 'CRYPTO',
+    timezone: 'UTC',
+    is_24h: true
+  }
+};
+
+export class TradingCalendar {
+  private calendars: Map<MarketType, ExchangeCalendar> = new Map();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+  private readonly CALENDAR_TTL_MS = 60 * 60 * 1000;
+  // Longest stretch searched for the next session (covers long holiday weekends)
+  private readonly MAX_LOOKAHEAD_DAYS = 14;
+
+  async getSession(marketType: MarketType, at: Date = new Date()): Promise<MarketSession> {
+    const calendar = await this.getCalendar(marketType);
+    if (calendar.is_24h) return 'regular';
+
+    const today = zonedParts(at, calendar.timezone).date;
+    const window = this.buildSessions(calendar, today).find(s => at >= s.open && at < s.close);
+    return window ? window.session : 'closed';
+  }
+
+  /**
+   * Whether the market is trading. Pre- and post-market only count when
+   * `extended` is set.
+   */
+  async isOpen(marketType: MarketType, options: { at?: Date; extended?: boolean } = {}): Promise<boolean> {
+    const session = await this.getSession(marketType, options.at);
+    if (session === 'regular') return true;
+    return !!options.extended && session !== 'closed';
+  }
+
+  /**
+   * Start of the next session strictly after `from`; null for 24h markets.
+   */
+  async nextOpen(marketType: MarketType, from: Date = new Date(), extended: boolean = false): Promise<Date | null> {
+    const calendar = await this.getCalendar(marketType);
+    if (calendar.is_24h) return null;
+
+    const window = this.findWindow(calendar, from, extended, w => w.open > from);
+    return window ? window.open : null;
+  }
+
+  /**
+   * End of the current session, or of the next one if the market is closed;
+   * null for 24h markets.
+   */
+  async nextClose(marketType: MarketType, from: Date = new Date(), extended: boolean = false): Promise<Date | null> {
+    const calendar = await this.getCalendar(marketType);
+    if (calendar.is_24h) return null;
+
+    const window = this.findWindow(calendar, from, extended, w => w.close > from);
+    return window ? window.close : null;
+  }
+
+  /**
+   * Sessions for a local exchange date (YYYY-MM-DD), or for the exchange's
+   * current date at the given instant.
+   */
+  async getTradingDay(marketType: MarketType, day: string | Date = new Date()): Promise<TradingDay> {
+    const calendar = await this.getCalendar(marketType);
+    const date = typeof day === 'string' ? day : zonedParts(day, calendar.timezone).date;
+    const holiday = calendar.holidays.get(date);
+    const sessions = calendar.is_24h ? [] : this.buildSessions(calendar, date);
+
+    return {
+      exchange: calendar.exchange,
+      date,
+      is_trading_day: calendar.is_24h || sessions.length > 0,
+      holiday: holiday ? holiday.name : undefined,
+      early_close: !!holiday?.early_close,
+      sessions
+    };
+  }
+
+  async getStatus(marketType: MarketType, at: Date = new Date()): Promise<MarketStatus> {
+    const calendar = await this.getCalendar(marketType);
+    const session = await this.getSession(marketType, at);
+
+    return {
+      market_type: marketType,
+      exchange: calendar.exchange,
+      timezone: calendar.timezone,
+      session,
+      is_open: session === 'regular',
+      next_open: await this.nextOpen(marketType, at),
+      next_close: await this.nextClose(marketType, at)
+    };
+  }
+
+  /**
+   * Insert or replace holiday and half-day definitions for an exchange.
+   */
+  async loadHolidays(exchange: string, holidays: ExchangeHoliday[]): Promise<number> {
+    let stored = 0;
+
+    for (const holiday of holidays) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(holiday.date)) {
+        throw new Error(`Invalid holiday date '${holiday.date}', expected YYYY-MM-DD`);
+      }
+      if (holiday.early_close && !/^\d{2}:\d{2}(:\d{2})?$/.test(holiday.early_close)) {
+        throw new Error(`Invalid early close '${holiday.early_close}' for ${holiday.date}, expected HH:MM`);
+      }
+
+      await DatabaseManager.query(`
+        INSERT INTO exchange_holidays (exchange, holiday_date, name, early_close)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (exchange, holiday_date) DO UPDATE SET
+          name = EXCLUDED.name,
+          early_close = EXCLUDED.early_close
+      `, [exchange, holiday.date, holiday.name, holiday.early_close || null]);
+      stored++;
+    }
+
+    this.loadedAt = 0;
+    logger.info(`📅 Loaded ${stored} holiday definitions for ${exchange}`);
+    return stored;
+  }
+
+  async getCalendar(marketType: MarketType): Promise<ExchangeCalendar> {
+    if (Date.now() - this.loadedAt > this.CALENDAR_TTL_MS) {
+      if (!this.loading) {
+        this.loading = this.load().finally(() => {
+          this.loading = null;
+        });
+      }
+      await this.loading;
+    }
+
+    return this.calendars.get(marketType) || { ...DEFAULT_CALENDARS[marketType], holidays: new Map() };
+  }
+
+  private findWindow(
+    calendar: ExchangeCalendar,
+    from: Date,
+    extended: boolean,
+    predicate: (window: { open: Date; close: Date }) => boolean
+  ): { open: Date; close: Date } | null {
+    const start = zonedParts(from, calendar.timezone).date;
+
+    for (let offset = 0; offset <= this.MAX_LOOKAHEAD_DAYS; offset++) {
+      const sessions = this.buildSessions(calendar, addDays(start, offset))
+        .filter(s => extended || s.session === 'regular');
+      if (sessions.length === 0) continue;
+
+      // Extended sessions are contiguous, so the day is one window
+      const window = { open: sessions[0].open, close: sessions[sessions.length - 1].close };
+      if (predicate(window)) return window;
+    }
+
+    return null;
+  }
+
+  private buildSessions(calendar: ExchangeCalendar, date: string): SessionWindow[] {
+    const weekday = weekdayOf(date);
+    if (weekday === 0 || weekday === 6 || !calendar.hours) return [];
+
+    const holiday = calendar.holidays.get(date);
+    if (holiday && !holiday.early_close) return [];
+
+    const hours = calendar.hours;
+    const at = (time: string) => zonedTimeToUtc(date, time, calendar.timezone);
+    const regularClose = holiday?.early_close || hours.regular_close;
+    const sessions: SessionWindow[] = [];
+
+    if (hours.pre_market_open) {
+      sessions.push({ session: 'pre_market', open: at(hours.pre_market_open), close: at(hours.regular_open) });
+    }
+
+    sessions.push({ session: 'regular', open: at(hours.regular_open), close: at(regularClose) });
+
+    if (hours.post_market_close) {
+      // On half-days the post-market session keeps its normal length after the early close
+      const postLength = parseTimeOfDay(hours.post_market_close) - parseTimeOfDay(hours.regular_close);
+      const postClose = new Date(at(regularClose).getTime() + postLength * 60 * 1000);
+      sessions.push({ session: 'post_market', open: at(regularClose), close: postClose });
+    }
+
+    return sessions;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const configResult = await DatabaseManager.query(`
+        SELECT market_type, exchange, is_24h, timezone,
+               pre_market_open, regular_open, regular_close, post_market_close
+        FROM market_config
+        WHERE is_active = true
+        ORDER BY id
+      `);
+
+      const holidayResult = await DatabaseManager.query(`
+        SELECT exchange, TO_CHAR(holiday_date, 'YYYY-MM-DD') AS holiday_date, name, early_close
+        FROM exchange_holidays
+      `);
+
+      const holidaysByExchange: Map<string, Map<string, ExchangeHoliday>> = new Map();
+      for (const row of holidayResult.rows) {
+        const holidays = holidaysByExchange.get(row.exchange) || new Map();
+        holidays.set(row.holiday_date, {
+          date: row.holiday_date,
+          name: row.name,
+          early_close: row.early_close || undefined
+        });
+        holidaysByExchange.set(row.exchange, holidays);
+      }
+
+      const calendars: Map<MarketType, ExchangeCalendar> = new Map();
+      for (const row of configResult.rows) {
+        const marketType = row.market_type as MarketType;
+        if (calendars.has(marketType) || !DEFAULT_CALENDARS[marketType]) continue;
+
+        const defaults = DEFAULT_CALENDARS[marketType];
+        const exchange = row.exchange || defaults.exchange;
+
+        calendars.set(marketType, {
+          market_type: marketType,
+          exchange,
+          timezone: row.timezone || defaults.timezone,
+          is_24h: !!row.is_24h,
+          hours: row.regular_open && row.regular_close
+            ? {
+                pre_market_open: row.pre_market_open || undefined,
+                regular_open: row.regular_open,
+                regular_close: row.regular_close,
+                post_market_close: row.post_market_close || undefined
+              }
+            : defaults.hours,
+          holidays: holidaysByExchange.get(exchange) || new Map()
+        });
+      }
+
+      this.calendars = calendars;
+      this.loadedAt = Date.now();
+      logger.debug(`📅 Trading calendar loaded (${calendars.size} markets, ${holidayResult.rows.length} holidays)`);
+    } catch (error: any) {
+      // Keep whatever was loaded before; retry on the next lookup after a short pause
+      logger.warn('Failed to load trading calendar, using built-in session hours without holidays:', error.message);
+      this.loadedAt = Date.now() - this.CALENDAR_TTL_MS + 60 * 1000;
+    }
+  }
+}
+
+export const tradingCalendar = new TradingCalendar();
@@ -0,0 +1,96 @@
+/**
+ * Time zone helpers for exchange calendars (IANA zones via Intl, DST-aware)
+ */
+
+export interface ZonedParts {
+  date: string;      // YYYY-MM-DD in the zone
+  minutes: number;   // minutes since local midnight
+  weekday: number;   // 0 = Sunday
+}
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short'
+    });
+    formatters.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+function rawParts(at: Date, timeZone: string): { [key: string]: string } {
+  const parts: { [key: string]: string } = {};
+  for (const part of formatter(timeZone).formatToParts(at)) {
+    parts[part.type] = part.value;
+  }
+  return parts;
+}
+
+export function zonedParts(at: Date, timeZone: string): ZonedParts {
+  const p = rawParts(at, timeZone);
+  return {
+    date: `${p.year}-${p.month}-${p.day}`,
+    minutes: parseInt(p.hour) * 60 + parseInt(p.minute),
+    weekday: WEEKDAYS.indexOf(p.weekday)
+  };
+}
+
+/**
+ * Offset of the zone from UTC at the given instant, in milliseconds.
+ */
+function offsetMs(at: Date, timeZone: string): number {
+  const p = rawParts(at, timeZone);
+  const asUtc = Date.UTC(
+    parseInt(p.year),
+    parseInt(p.month) - 1,
+    parseInt(p.day),
+    parseInt(p.hour),
+    parseInt(p.minute),
+    parseInt(p.second)
+  );
+  return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a local wall-clock time (HH:MM or HH:MM:SS) on a local date to the
+ * UTC instant. Re-checks the offset once so DST transitions resolve correctly.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(n => parseInt(n));
+  const [hour, minute, second] = time.split(':').map(n => parseInt(n));
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second || 0);
+
+  let instant = wallClock - offsetMs(new Date(wallClock), timeZone);
+  const corrected = wallClock - offsetMs(new Date(instant), timeZone);
+  if (corrected !== instant) {
+    instant = corrected;
+  }
+  return new Date(instant);
+}
+
+export function parseTimeOfDay(time: string): number {
+  const [hour, minute] = time.split(':').map(n => parseInt(n));
+  return hour * 60 + minute;
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(n => parseInt(n));
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+export function weekdayOf(date: string): number {
+  const [year, month, day] = date.split('-').map(n => parseInt(n));
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
@@ -0,0 +1,220 @@
+/**
+ * FX Rates
+ * Latest conversion rates between currencies, fed by the data ingestor and
+ * kept in the fx_rates table. Portfolio values are converted into the base
+ * currency from the `fx_config` system config key.
+ */
+import { logger } from '../../utils/logger';
+import { DatabaseManager } from '../../utils/database';
+import { getSystemConfig } from '../../utils/systemConfig';
+
+export const FX_CONFIG_KEY = 'fx_config';
+
+export interface FxConfig {
+  base_currency: string;
+  pegs: { [currency: string]: string };  // converted 1:1, e.g. USDT -> USD
+  max_rate_age_ms: number;
+}
+
+/**
+ * One unit of `base` is worth `rate` units of `quote`.
+ */
+export interface FxRate {
+  base: string;
+  quote: string;
+  rate: number;
+  source: string;
+  timestamp: Date;
+  stale?: boolean;
+}
+
+export class FxRateUnavailableError extends Error {
+  constructor(public readonly from: string, public readonly to: string) {
+    super(`No FX rate available for ${from}/${to}`);
+    this.name = 'FxRateUnavailableError';
+  }
+}
+
+const DEFAULT_FX_CONFIG: FxConfig = {
+  base_currency: 'USD',
+  pegs: { USDT: 'USD', USDC: 'USD', BUSD: 'USD' },
+  max_rate_age_ms: 24 * 60 * 60 * 1000
+};
+
+export class FxRateService {
+  private rates: Map<string, FxRate> = new Map();
+  private config: FxConfig = DEFAULT_FX_CONFIG;
+  private configLoadedAt = 0;
+  private ratesLoaded = false;
+  private readonly CONFIG_TTL_MS = 5 * 60 * 1000;
+
+  async getConfig(): Promise<FxConfig> {
+    if (Date.now() - this.configLoadedAt > this.CONFIG_TTL_MS) {
+      const config = await getSystemConfig<Partial<FxConfig>>(FX_CONFIG_KEY, {});
+      this.config = {
+        base_currency: (config.base_currency || DEFAULT_FX_CONFIG.base_currency).toUpperCase(),
+        pegs: { ...DEFAULT_FX_CONFIG.pegs, ...(config.pegs || {}) },
+        max_rate_age_ms: config.max_rate_age_ms || DEFAULT_FX_CONFIG.max_rate_age_ms
+      };
+      this.configLoadedAt = Date.now();
+    }
+    return this.config;
+  }
+
+  async getBaseCurrency(): Promise<string> {
+    return (await this.getConfig()).base_currency;
+  }
+
+  /**
+   * Currencies from the list that need a quoted rate against the base
+   * currency, i.e. neither the base itself nor pegged to it.
+   */
+  async currenciesToQuote(currencies: string[]): Promise<string[]> {
+    const config = await this.getConfig();
+    const base = this.resolvePeg(config.base_currency, config);
+    const needed = new Set<string>();
+    for (const currency of currencies) {
+      const resolved = this.resolvePeg(currency.toUpperCase(), config);
+      if (resolved !== base) needed.add(resolved);
+    }
+    return Array.from(needed).sort();
+  }
+
+  async recordRate(base: string, quote: string, rate: number, source: string, timestamp: Date = new Date()): Promise<FxRate> {
+    if (!(rate > 0) || !isFinite(rate)) {
+      throw new Error(`Invalid FX rate ${rate} for ${base}/${quote}`);
+    }
+
+    const fxRate: FxRate = { base: base.toUpperCase(), quote: quote.toUpperCase(), rate, source, timestamp };
+    this.rates.set(this.key(fxRate.base, fxRate.quote), fxRate);
+
+    try {
+      await DatabaseManager.query(
+        `INSERT INTO fx_rates (base_currency, quote_currency, rate, source, timestamp)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (base_currency, quote_currency, timestamp) DO UPDATE SET
+           rate = EXCLUDED.rate,
+           source = EXCLUDED.source`,
+        [fxRate.base, fxRate.quote, rate, source, timestamp]
+      );
+    } catch (error: any) {
+      logger.warn(`Failed to store FX rate ${fxRate.base}/${fxRate.quote}:`, error.message);
+    }
+
+    return fxRate;
+  }
+
+  /**
+   * Rate to convert `from` into `to`: pegged currencies convert 1:1, then a
+   * direct or inverted quote is used, then a cross through the base currency.
+   */
+  async getRate(from: string, to: string): Promise<FxRate | null> {
+    const config = await this.getConfig();
+    await this.ensureRatesLoaded();
+
+    const source = this.resolvePeg(from.toUpperCase(), config);
+    const target = this.resolvePeg(to.toUpperCase(), config);
+
+    if (source === target) {
+      return { base: from.toUpperCase(), quote: to.toUpperCase(), rate: 1, source: 'peg', timestamp: new Date() };
+    }
+
+    const direct = this.lookup(source, target);
+    if (direct) return this.withStaleness(direct, config);
+
+    const base = this.resolvePeg(config.base_currency, config);
+    if (source !== base && target !== base) {
+      const leg1 = this.lookup(source, base);
+      const leg2 = this.lookup(base, target);
+      if (leg1 && leg2) {
+        return this.withStaleness({
+          base: source,
+          quote: target,
+          rate: leg1.rate * leg2.rate,
+          source: `${leg1.source}+${leg2.source}`,
+          timestamp: leg1.timestamp < leg2.timestamp ? leg1.timestamp : leg2.timestamp
+        }, config);
+      }
+    }
+
+    return null;
+  }
+
+  async convert(amount: number, from: string, to: string): Promise<number> {
+    if (amount === 0) return 0;
+    const rate = await this.getRate(from, to);
+    if (!rate) throw new FxRateUnavailableError(from, to);
+    return amount * rate.rate;
+  }
+
+  async toBase(amount: number, currency: string): Promise<number> {
+    return this.convert(amount, currency, await this.getBaseCurrency());
+  }
+
+  async listRates(): Promise<FxRate[]> {
+    const config = await this.getConfig();
+    await this.ensureRatesLoaded();
+    return Array.from(this.rates.values())
+      .map(rate => this.withStaleness(rate, config))
+      .sort((a, b) => this.key(a.base, a.quote).localeCompare(this.key(b.base, b.quote)));
+  }
+
+  private lookup(from: string, to: string): FxRate | null {
+    const direct = this.rates.get(this.key(from, to));
+    if (direct) return direct;
+
+    const inverse = this.rates.get(this.key(to, from));
+    if (inverse) {
+      return { base: from, quote: to, rate: 1 / inverse.rate, source: inverse.source, timestamp: inverse.timestamp };
+    }
+
+    return null;
+  }
+
+  private withStaleness(rate: FxRate, config: FxConfig): FxRate {
+    return { ...rate, stale: Date.now() - rate.timestamp.getTime() > config.max_rate_age_ms };
+  }
+
+  private resolvePeg(currency: string, config: FxConfig): string {
+    return config.pegs[currency] || currency;
+  }
+
+  private key(base: string, quote: string): string {
+    return `${base}/${quote}`;
+  }
+
+  private async ensureRatesLoaded(): Promise<void> {
+    if (this.ratesLoaded) return;
+    this.ratesLoaded = true;
+
+    try {
+      const result = await DatabaseManager.query(`
+        SELECT DISTINCT ON (base_currency, quote_currency)
+          base_currency, quote_currency, rate, source, timestamp
+        FROM fx_rates
+        ORDER BY base_currency, quote_currency, timestamp DESC
+      `);
+
+      for (const row of result.rows) {
+        const key = this.key(row.base_currency, row.quote_currency);
+        const timestamp = new Date(row.timestamp);
+        const existing = this.rates.get(key);
+        // Rates recorded since startup are newer than anything stored
+        if (existing && existing.timestamp >= timestamp) continue;
+        this.rates.set(key, {
+          base: row.base_currency,
+          quote: row.quote_currency,
+          rate: parseFloat(row.rate),
+          source: row.source,
+          timestamp
+        });
+      }
+
+      logger.debug(`💱 Loaded ${result.rows.length} FX rates`);
+    } catch (error: any) {
+      logger.warn('Failed to load FX rates:', error.message);
+    }
+  }
+}
+
+export const fxRates = new FxRateService();
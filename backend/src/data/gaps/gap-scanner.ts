@@ -0,0 +1,491 @@
+/**
+ * Market Data Gap Scanner
+ * Compares stored bars against the bars the trading calendar says should exist,
+ * records missing ranges, queues targeted backfills and keeps per-symbol coverage
+ */
+import { logger } from '../../utils/logger';
+import { DatabaseManager } from '../../utils/database';
+import { getSystemConfig } from '../../utils/systemConfig';
+import { MarketData } from '../../data_ingestor';
+import { BAR_INTERVAL_MS, BarInterval, MarketType } from '../providers/types';
+import { backfillService } from '../backfill/backfill-service';
+import { tradingCalendar } from '../calendar/trading-calendar';
+import { addDays } from '../calendar/zoned-time';
+
+export type GapStatus = 'open' | 'repairing' | 'repaired' | 'unfillable';
+
+export interface MarketDataGap {
+  id: number;
+  symbol: string;
+  market_type: MarketType;
+  timeframe: BarInterval;
+  gap_start: Date;
+  gap_end: Date;
+  missing_bars: number;
+  status: GapStatus;
+  attempts: number;
+  backfill_job_id?: number;
+  detected_at: Date;
+  repaired_at?: Date;
+}
+
+export interface CoverageReport {
+  symbol: string;
+  market_type: MarketType;
+  timeframe: BarInterval;
+  range_start: Date | null;
+  range_end: Date;
+  expected_bars: number;
+  present_bars: number;
+  missing_bars: number;
+  coverage_pct: number;
+  open_gaps: number;
+  scanned_at: Date;
+}
+
+export interface GapScannerConfig {
+  timeframes: { [key in MarketType]: BarInterval[] };
+  lookback_days: { [key in BarInterval]: number };
+  max_repair_attempts: number;
+  max_missing_pct_for_features: number;
+}
+
+interface DetectedGap {
+  start: number;
+  end: number;
+  missing: number;
+}
+
+export const GAP_SCANNER_CONFIG_KEY = 'gap_scanner';
+
+const DEFAULT_CONFIG: GapScannerConfig = {
+  timeframes: { equity: ['1d'], crypto: ['1d', '1h'] },
+  lookback_days: { '1m': 2, '5m': 7, '15m': 14, '1h': 30, '1d': 365 },
+  max_repair_attempts: 3,
+  max_missing_pct_for_features: 10
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class GapScanner {
+  private config: GapScannerConfig = DEFAULT_CONFIG;
+  private configLoadedAt = 0;
+  private readonly CONFIG_TTL_MS = 5 * 60 * 1000;
+  private scanning = false;
+
+  /**
+   * Scan every configured timeframe for the given symbols and queue repairs.
+   * Overlapping calls are skipped rather than run twice.
+   */
+  async scanAll(symbolsByMarket: { [key in MarketType]?: string[] }, repair: boolean = true): Promise<CoverageReport[]> {
+    if (this.scanning) {
+      logger.debug('Gap scan already in progress, skipping');
+      return [];
+    }
+
+    this.scanning = true;
+    const reports: CoverageReport[] = [];
+
+    try {
+      const config = await this.getConfig();
+
+      for (const marketType of Object.keys(symbolsByMarket) as MarketType[]) {
+        for (const symbol of symbolsByMarket[marketType] || []) {
+          for (const timeframe of config.timeframes[marketType] || []) {
+            try {
+              reports.push(await this.scanSymbol(symbol, marketType, timeframe, repair));
+            } catch (error) {
+              logger.error(`Gap scan failed for ${symbol} ${timeframe}:`, error);
+            }
+          }
+        }
+      }
+
+      const gappy = reports.filter(r => r.open_gaps > 0);
+      logger.info(`🕳️ Gap scan complete: ${reports.length} series, ${gappy.length} with gaps (${gappy.reduce((sum, r) => sum + r.missing_bars, 0)} missing bars)`);
+      return reports;
+    } finally {
+      this.scanning = false;
+    }
+  }
+
+  async scanSymbol(symbol: string, marketType: MarketType, timeframe: BarInterval, repair: boolean = true): Promise<CoverageReport> {
+    const config = await this.getConfig();
+    const span = BAR_INTERVAL_MS[timeframe];
+
+    // Only completed bars are expected; history before the first stored bar is the backfill's job
+    const rangeEnd = new Date(Math.floor(Date.now() / span) * span);
+    const lookbackStart = new Date(rangeEnd.getTime() - config.lookback_days[timeframe] * DAY_MS);
+
+    const firstResult = await DatabaseManager.query(
+      `SELECT MIN(timestamp) AS first_bar FROM market_data WHERE symbol = $1 AND timeframe = $2`,
+      [symbol, timeframe]
+    );
+    const firstBar = firstResult.rows[0]?.first_bar ? new Date(firstResult.rows[0].first_bar) : null;
+
+    if (!firstBar || firstBar >= rangeEnd) {
+      return this.storeCoverage({
+        symbol,
+        market_type: marketType,
+        timeframe,
+        range_start: null,
+        range_end: rangeEnd,
+        expected_bars: 0,
+        present_bars: 0,
+        missing_bars: 0,
+        coverage_pct: 0,
+        open_gaps: 0,
+        scanned_at: new Date()
+      });
+    }
+
+    const rangeStart = firstBar > lookbackStart ? firstBar : lookbackStart;
+    const expected = await this.expectedBarKeys(marketType, timeframe, rangeStart, rangeEnd);
+
+    const presentResult = await DatabaseManager.query(
+      `SELECT DISTINCT timestamp FROM market_data
+       WHERE symbol = $1 AND timeframe = $2 AND timestamp >= $3 AND timestamp < $4`,
+      [symbol, timeframe, rangeStart, rangeEnd]
+    );
+    const present = new Set<number>(presentResult.rows.map((row: any) => this.barKey(new Date(row.timestamp), timeframe)));
+
+    const gaps = this.groupMissing(expected, present);
+    const missing = gaps.reduce((sum, gap) => sum + gap.missing, 0);
+
+    await this.recordGaps(symbol, marketType, timeframe, gaps, rangeStart, rangeEnd, config.max_repair_attempts);
+
+    if (repair) {
+      await this.queueRepairs(symbol, timeframe);
+    }
+
+    return this.storeCoverage({
+      symbol,
+      market_type: marketType,
+      timeframe,
+      range_start: rangeStart,
+      range_end: rangeEnd,
+      expected_bars: expected.length,
+      present_bars: expected.length - missing,
+      missing_bars: missing,
+      coverage_pct: expected.length > 0 ? ((expected.length - missing) / expected.length) * 100 : 100,
+      open_gaps: gaps.length,
+      scanned_at: new Date()
+    });
+  }
+
+  /**
+   * Count bars missing inside an already-loaded series, e.g. the window the
+   * features engine is about to compute indicators over.
+   */
+  async countMissingBars(marketType: MarketType, timeframe: BarInterval, bars: MarketData[]): Promise<number> {
+    if (bars.length < 2) return 0;
+
+    const first = bars[0].timestamp;
+    const last = bars[bars.length - 1].timestamp;
+    const expected = await this.expectedBarKeys(marketType, timeframe, first, new Date(last.getTime() + 1));
+    const present = new Set(bars.map(bar => this.barKey(bar.timestamp, timeframe)));
+
+    return expected.filter(key => !present.has(key)).length;
+  }
+
+  async getMaxMissingPctForFeatures(): Promise<number> {
+    return (await this.getConfig()).max_missing_pct_for_features;
+  }
+
+  /**
+   * Bar keys the calendar says should exist in [start, end): every interval
+   * for continuous markets, session buckets on trading days otherwise.
+   * Daily bars are keyed by UTC date since providers stamp them at midnight
+   * or at the open.
+   */
+  private async expectedBarKeys(marketType: MarketType, timeframe: BarInterval, start: Date, end: Date): Promise<number[]> {
+    const span = BAR_INTERVAL_MS[timeframe];
+    const keys: number[] = [];
+    const calendar = await tradingCalendar.getCalendar(marketType);
+
+    if (timeframe === '1d') {
+      const lastDate = new Date(end.getTime() - 1).toISOString().slice(0, 10);
+      for (let date = start.toISOString().slice(0, 10); date <= lastDate; date = addDays(date, 1)) {
+        const key = Date.parse(`${date}T00:00:00Z`);
+        if (calendar.is_24h || (await tradingCalendar.getTradingDay(marketType, date)).is_trading_day) {
+          keys.push(key);
+        }
+      }
+      return keys;
+    }
+
+    if (calendar.is_24h) {
+      for (let key = Math.ceil(start.getTime() / span) * span; key < end.getTime(); key += span) {
+        keys.push(key);
+      }
+      return keys;
+    }
+
+    const seen = new Set<number>();
+    const lastDate = new Date(end.getTime() - 1).toISOString().slice(0, 10);
+    // Exchange-local dates can trail UTC by a day, so start one day early
+    for (let date = addDays(start.toISOString().slice(0, 10), -1); date <= lastDate; date = addDays(date, 1)) {
+      const day = await tradingCalendar.getTradingDay(marketType, date);
+      const regular = day.sessions.find(s => s.session === 'regular');
+      if (!regular) continue;
+
+      for (let key = Math.floor(regular.open.getTime() / span) * span; key < regular.close.getTime(); key += span) {
+        if (key >= Math.floor(start.getTime() / span) * span && key < end.getTime() && !seen.has(key)) {
+          seen.add(key);
+          keys.push(key);
+        }
+      }
+    }
+
+    return keys.sort((a, b) => a - b);
+  }
+
+  private barKey(timestamp: Date, timeframe: BarInterval): number {
+    if (timeframe === '1d') {
+      return Date.parse(`${timestamp.toISOString().slice(0, 10)}T00:00:00Z`);
+    }
+    const span = BAR_INTERVAL_MS[timeframe];
+    return Math.floor(timestamp.getTime() / span) * span;
+  }
+
+  /**
+   * Runs of consecutive expected bars that are missing. Consecutive in the
+   * expected sequence, so a gap spanning a weekend stays one gap.
+   */
+  private groupMissing(expected: number[], present: Set<number>): DetectedGap[] {
+    const gaps: DetectedGap[] = [];
+    let current: DetectedGap | null = null;
+
+    for (const key of expected) {
+      if (present.has(key)) {
+        current = null;
+        continue;
+      }
+
+      if (current) {
+        current.end = key;
+        current.missing++;
+      } else {
+        current = { start: key, end: key, missing: 1 };
+        gaps.push(current);
+      }
+    }
+
+    return gaps;
+  }
+
+  /**
+   * Upsert detected gaps and advance their repair state: gaps no longer
+   * detected are repaired; gaps still missing after their backfill finished
+   * reopen, or become unfillable once attempts run out.
+   */
+  private async recordGaps(
+    symbol: string,
+    marketType: MarketType,
+    timeframe: BarInterval,
+    gaps: DetectedGap[],
+    rangeStart: Date,
+    rangeEnd: Date,
+    maxAttempts: number
+  ): Promise<void> {
+    const existingResult = await DatabaseManager.query(`
+      SELECT g.id, g.gap_start, g.status, g.attempts, j.status AS job_status
+      FROM market_data_gaps g
+      LEFT JOIN backfill_jobs j ON j.id = g.backfill_job_id
+      WHERE g.symbol = $1 AND g.timeframe = $2 AND g.status IN ('open', 'repairing')
+    `, [symbol, timeframe]);
+
+    const existing = new Map<number, any>(existingResult.rows.map((row: any) => [new Date(row.gap_start).getTime(), row]));
+
+    for (const gap of gaps) {
+      const previous = existing.get(gap.start);
+      existing.delete(gap.start);
+
+      let status: GapStatus | null = null;
+      if (previous && previous.status === 'repairing' && ['COMPLETED', 'FAILED', null].includes(previous.job_status)) {
+        status = parseInt(previous.attempts) >= maxAttempts ? 'unfillable' : 'open';
+      }
+
+      await DatabaseManager.query(`
+        INSERT INTO market_data_gaps (symbol, market_type, timeframe, gap_start, gap_end, missing_bars)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (symbol, timeframe, gap_start) DO UPDATE SET
+          gap_end = EXCLUDED.gap_end,
+          missing_bars = EXCLUDED.missing_bars,
+          status = CASE
+            WHEN market_data_gaps.status = 'repaired' THEN 'open'
+            ELSE COALESCE($7, market_data_gaps.status)
+          END,
+          last_scanned_at = NOW()
+      `, [symbol, marketType, timeframe, new Date(gap.start), new Date(gap.end), gap.missing, status]);
+
+      if (status === 'unfillable') {
+        logger.warn(`🕳️ Gap ${symbol} ${timeframe} ${new Date(gap.start).toISOString()} still missing after ${previous.attempts} repairs, marking unfillable`);
+      }
+    }
+
+    // Whatever was open in the scanned range and is no longer detected has been filled
+    const filled = Array.from(existing.values())
+      .filter(row => new Date(row.gap_start) >= rangeStart && new Date(row.gap_start) < rangeEnd)
+      .map(row => row.id);
+
+    if (filled.length > 0) {
+      await DatabaseManager.query(
+        `UPDATE market_data_gaps SET status = 'repaired', repaired_at = NOW(), last_scanned_at = NOW() WHERE id = ANY($1)`,
+        [filled]
+      );
+      logger.info(`🩹 ${filled.length} gaps filled for ${symbol} ${timeframe}`);
+    }
+  }
+
+  private async queueRepairs(symbol: string, timeframe: BarInterval): Promise<void> {
+    const result = await DatabaseManager.query(
+      `SELECT * FROM market_data_gaps WHERE symbol = $1 AND timeframe = $2 AND status = 'open' ORDER BY gap_start`,
+      [symbol, timeframe]
+    );
+
+    for (const row of result.rows) {
+      const gap = this.mapGap(row);
+
+      try {
+        const job = await backfillService.backfill({
+          symbol: gap.symbol,
+          market_type: gap.market_type,
+          timeframe: gap.timeframe,
+          start: gap.gap_start,
+          end: new Date(gap.gap_end.getTime() + BAR_INTERVAL_MS[gap.timeframe]),
+          gap_id: gap.id
+        });
+
+        await DatabaseManager.query(
+          `UPDATE market_data_gaps SET status = 'repairing', attempts = attempts + 1, backfill_job_id = $2 WHERE id = $1`,
+          [gap.id, job.id]
+        );
+      } catch (error) {
+        logger.warn(`Failed to queue repair for gap ${gap.id} (${gap.symbol} ${gap.timeframe}):`, error);
+      }
+    }
+
+    if (result.rows.length > 0) {
+      logger.info(`🩹 Queued ${result.rows.length} gap repairs for ${symbol} ${timeframe}`);
+    }
+  }
+
+  private async storeCoverage(report: CoverageReport): Promise<CoverageReport> {
+    await DatabaseManager.query(`
+      INSERT INTO market_data_coverage
+        (symbol, market_type, timeframe, range_start, range_end, expected_bars, present_bars, missing_bars, coverage_pct, open_gaps, scanned_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (symbol, timeframe) DO UPDATE SET
+        market_type = EXCLUDED.market_type,
+        range_start = EXCLUDED.range_start,
+        range_end = EXCLUDED.range_end,
+        expected_bars = EXCLUDED.expected_bars,
+        present_bars = EXCLUDED.present_bars,
+        missing_bars = EXCLUDED.missing_bars,
+        coverage_pct = EXCLUDED.coverage_pct,
+        open_gaps = EXCLUDED.open_gaps,
+        scanned_at = EXCLUDED.scanned_at
+    `, [
+      report.symbol,
+      report.market_type,
+      report.timeframe,
+      report.range_start,
+      report.range_end,
+      report.expected_bars,
+      report.present_bars,
+      report.missing_bars,
+      report.coverage_pct,
+      report.open_gaps,
+      report.scanned_at
+    ]);
+
+    return report;
+  }
+
+  async getCoverage(symbol?: string): Promise<CoverageReport[]> {
+    const params: any[] = [];
+    let where = '';
+    if (symbol) {
+      where = 'WHERE symbol = $1';
+      params.push(symbol);
+    }
+
+    const result = await DatabaseManager.query(
+      `SELECT * FROM market_data_coverage ${where} ORDER BY symbol, timeframe`,
+      params
+    );
+
+    return result.rows.map((row: any) => ({
+      symbol: row.symbol,
+      market_type: row.market_type,
+      timeframe: row.timeframe,
+      range_start: row.range_start ? new Date(row.range_start) : null,
+      range_end: new Date(row.range_end),
+      expected_bars: parseInt(row.expected_bars),
+      present_bars: parseInt(row.present_bars),
+      missing_bars: parseInt(row.missing_bars),
+      coverage_pct: parseFloat(row.coverage_pct),
+      open_gaps: parseInt(row.open_gaps),
+      scanned_at: new Date(row.scanned_at)
+    }));
+  }
+
+  async listGaps(options: { symbol?: string; status?: GapStatus; limit?: number } = {}): Promise<MarketDataGap[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (options.symbol) {
+      params.push(options.symbol);
+      conditions.push(`symbol = $${params.length}`);
+    }
+    if (options.status) {
+      params.push(options.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    params.push(options.limit || 100);
+
+    const result = await DatabaseManager.query(
+      `SELECT * FROM market_data_gaps
+       ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+       ORDER BY gap_start DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapGap(row));
+  }
+
+  private mapGap(row: any): MarketDataGap {
+    return {
+      id: row.id,
+      symbol: row.symbol,
+      market_type: row.market_type,
+      timeframe: row.timeframe,
+      gap_start: new Date(row.gap_start),
+      gap_end: new Date(row.gap_end),
+      missing_bars: parseInt(row.missing_bars),
+      status: row.status,
+      attempts: parseInt(row.attempts),
+      backfill_job_id: row.backfill_job_id || undefined,
+      detected_at: new Date(row.detected_at),
+      repaired_at: row.repaired_at ? new Date(row.repaired_at) : undefined
+    };
+  }
+
+  private async getConfig(): Promise<GapScannerConfig> {
+    if (Date.now() - this.configLoadedAt > this.CONFIG_TTL_MS) {
+      const config = await getSystemConfig<Partial<GapScannerConfig>>(GAP_SCANNER_CONFIG_KEY, {});
+      this.config = {
+        ...DEFAULT_CONFIG,
+        ...config,
+        timeframes: { ...DEFAULT_CONFIG.timeframes, ...(config.timeframes || {}) },
+        lookback_days: { ...DEFAULT_CONFIG.lookback_days, ...(config.lookback_days || {}) }
+      };
+      this.configLoadedAt = Date.now();
+    }
+    return this.config;
+  }
+}
+
+export const gapScanner = new GapScanner();
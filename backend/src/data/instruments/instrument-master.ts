@@ -0,0 +1,344 @@
+/**
+ * Instrument Master
+ * Reference data per symbol (asset class, sector/industry, currency, tick size,
+ * lot size, min notional, venue) from the instruments table, seeded from
+ * db/instruments.json. Orders are rounded and checked against it and exposure
+ * is grouped by it.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../../utils/logger';
+import { DatabaseManager } from '../../utils/database';
+import { MarketType } from '../providers/types';
+
+export interface Instrument {
+  symbol: string;
+  name?: string;
+  asset_class: MarketType;
+  sector: string | null;
+  industry: string | null;
+  currency: string;
+  tick_size: number;
+  lot_size: number;
+  min_notional: number;
+  venue: string | null;
+  base_asset?: string;
+  quote_asset?: string;
+  is_active: boolean;
+}
+
+export interface OrderCheck {
+  valid: boolean;
+  quantity: number;    // rounded down to the lot size
+  price: number;       // rounded to the tick size
+  notional: number;
+  reason?: string;
+}
+
+export interface ExposureBucket {
+  value: number;
+  pct: number;
+  symbols: string[];
+}
+
+export interface ExposureReport {
+  total_value: number;
+  cash: number;
+  by_sector: { [sector: string]: ExposureBucket };
+  by_asset_class: { [assetClass: string]: ExposureBucket };
+  by_currency: { [currency: string]: ExposureBucket };
+  by_venue: { [venue: string]: ExposureBucket };
+  unclassified: string[];
+}
+
+const UNCLASSIFIED = 'Unclassified';
+
+function seedFilePath(): string {
+  return process.env.INSTRUMENTS_SEED_FILE || path.resolve(__dirname, '../../../db/instruments.json');
+}
+
+/**
+ * Decimal places in a tick or lot size (0.001 -> 3).
+ */
+export function stepDecimals(step: number): number {
+  const text = step.toString();
+  if (text.includes('e-')) return parseInt(text.split('e-')[1]);
+  return text.includes('.') ? text.split('.')[1].length : 0;
+}
+
+/**
+ * Round to a multiple of `step` without floating-point residue.
+ */
+export function roundToStep(value: number, step: number, mode: 'down' | 'nearest' = 'nearest'): number {
+  if (!(step > 0)) return value;
+  const units = value / step;
+  // Tolerate representation error just below a whole number of steps
+  const rounded = mode === 'down' ? Math.floor(units + 1e-9) : Math.round(units);
+  return parseFloat((rounded * step).toFixed(stepDecimals(step)));
+}
+
+export class InstrumentMaster {
+  private instruments: Map<string, Instrument> = new Map();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+  private readonly INSTRUMENTS_TTL_MS = 60 * 60 * 1000;
+
+  /**
+   * Upsert the seed file into the instruments table. The file is the source
+   * of truth for the fields it sets; rows not in it are left alone.
+   */
+  async loadSeed(file: string = seedFilePath()): Promise<number> {
+    const seed = this.readSeedFile(file);
+
+    const query = `
+      INSERT INTO instruments (
+        symbol, name, asset_class, sector, industry, currency,
+        tick_size, lot_size, min_notional, venue, base_asset, quote_asset, is_active
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      ON CONFLICT (symbol) DO UPDATE SET
+        name = EXCLUDED.name,
+        asset_class = EXCLUDED.asset_class,
+        sector = EXCLUDED.sector,
+        industry = EXCLUDED.industry,
+        currency = EXCLUDED.currency,
+        tick_size = EXCLUDED.tick_size,
+        lot_size = EXCLUDED.lot_size,
+        min_notional = EXCLUDED.min_notional,
+        venue = EXCLUDED.venue,
+        base_asset = EXCLUDED.base_asset,
+        quote_asset = EXCLUDED.quote_asset,
+        is_active = EXCLUDED.is_active,
+        updated_at = NOW()
+    `;
+
+    for (const instrument of seed) {
+      await DatabaseManager.query(query, [
+        instrument.symbol,
+        instrument.name || null,
+        instrument.asset_class,
+        instrument.sector,
+        instrument.industry,
+        instrument.currency,
+        instrument.tick_size,
+        instrument.lot_size,
+        instrument.min_notional,
+        instrument.venue,
+        instrument.base_asset || null,
+        instrument.quote_asset || null,
+        instrument.is_active
+      ]);
+    }
+
+    this.loadedAt = 0;
+    logger.info(`🗂️ Loaded ${seed.length} instruments from ${path.basename(file)}`);
+    return seed.length;
+  }
+
+  async get(symbol: string): Promise<Instrument | null> {
+    await this.ensureLoaded();
+    return this.instruments.get(symbol.toUpperCase()) || null;
+  }
+
+  /**
+   * Instruments for the given symbols; unknown symbols are omitted.
+   */
+  async getMany(symbols: string[]): Promise<Map<string, Instrument>> {
+    await this.ensureLoaded();
+    const found: Map<string, Instrument> = new Map();
+    for (const symbol of symbols) {
+      const instrument = this.instruments.get(symbol.toUpperCase());
+      if (instrument) found.set(symbol, instrument);
+    }
+    return found;
+  }
+
+  async list(filter: { asset_class?: MarketType; sector?: string; active_only?: boolean } = {}): Promise<Instrument[]> {
+    await this.ensureLoaded();
+    return Array.from(this.instruments.values())
+      .filter(i => !filter.asset_class || i.asset_class === filter.asset_class)
+      .filter(i => !filter.sector || i.sector === filter.sector)
+      .filter(i => !filter.active_only || i.is_active)
+      .sort((a, b) => a.symbol.localeCompare(b.symbol));
+  }
+
+  async getSector(symbol: string): Promise<string | null> {
+    return (await this.get(symbol))?.sector || null;
+  }
+
+  /**
+   * Round an order to the instrument's lot and tick sizes and check it
+   * against the minimum notional. Unknown symbols get conservative defaults
+   * for their market (whole shares, 8-decimal crypto).
+   */
+  async checkOrder(symbol: string, quantity: number, price: number, marketType?: MarketType): Promise<OrderCheck> {
+    const instrument = (await this.get(symbol)) || this.defaultInstrument(symbol, marketType);
+
+    const roundedQuantity = roundToStep(Math.max(0, quantity), instrument.lot_size, 'down');
+    const roundedPrice = roundToStep(price, instrument.tick_size);
+    const notional = roundedQuantity * roundedPrice;
+
+    if (!instrument.is_active) {
+      return { valid: false, quantity: 0, price: roundedPrice, notional: 0, reason: `${symbol} is not active in the instrument master` };
+    }
+
+    if (roundedQuantity <= 0) {
+      return { valid: false, quantity: 0, price: roundedPrice, notional: 0, reason: `Quantity below lot size ${instrument.lot_size}` };
+    }
+
+    if (notional < instrument.min_notional) {
+      return {
+        valid: false,
+        quantity: roundedQuantity,
+        price: roundedPrice,
+        notional,
+        reason: `Notional ${notional.toFixed(2)} below minimum ${instrument.min_notional} ${instrument.currency}`
+      };
+    }
+
+    return { valid: true, quantity: roundedQuantity, price: roundedPrice, notional };
+  }
+
+  async roundPrice(symbol: string, price: number, marketType?: MarketType): Promise<number> {
+    const instrument = (await this.get(symbol)) || this.defaultInstrument(symbol, marketType);
+    return roundToStep(price, instrument.tick_size);
+  }
+
+  /**
+   * Group position values by sector, asset class, currency and venue.
+   * Percentages are of positions plus cash.
+   */
+  async getExposure(positions: { symbol: string; market_value: number }[], cash: number = 0): Promise<ExposureReport> {
+    const instruments = await this.getMany(positions.map(p => p.symbol));
+    const totalValue = cash + positions.reduce((sum, p) => sum + p.market_value, 0);
+
+    const report: ExposureReport = {
+      total_value: totalValue,
+      cash,
+      by_sector: {},
+      by_asset_class: {},
+      by_currency: {},
+      by_venue: {},
+      unclassified: []
+    };
+
+    const add = (buckets: { [key: string]: ExposureBucket }, key: string, symbol: string, value: number) => {
+      const bucket = buckets[key] || (buckets[key] = { value: 0, pct: 0, symbols: [] });
+      bucket.value += value;
+      if (!bucket.symbols.includes(symbol)) bucket.symbols.push(symbol);
+    };
+
+    for (const position of positions) {
+      const instrument = instruments.get(position.symbol);
+      if (!instrument) report.unclassified.push(position.symbol);
+
+      add(report.by_sector, instrument?.sector || UNCLASSIFIED, position.symbol, position.market_value);
+      add(report.by_asset_class, instrument?.asset_class || UNCLASSIFIED, position.symbol, position.market_value);
+      add(report.by_currency, instrument?.currency || UNCLASSIFIED, position.symbol, position.market_value);
+      add(report.by_venue, instrument?.venue || UNCLASSIFIED, position.symbol, position.market_value);
+    }
+
+    for (const buckets of [report.by_sector, report.by_asset_class, report.by_currency, report.by_venue]) {
+      for (const bucket of Object.values(buckets)) {
+        bucket.pct = totalValue > 0 ? (bucket.value / totalValue) * 100 : 0;
+      }
+    }
+
+    return report;
+  }
+
+  private defaultInstrument(symbol: string, marketType?: MarketType): Instrument {
+    const isCrypto = marketType ? marketType === 'crypto' : /USDT$|USDC$|BUSD$/.test(symbol);
+    return {
+      symbol,
+      asset_class: isCrypto ? 'crypto' : 'equity',
+      sector: null,
+      industry: null,
+      currency: isCrypto ? 'USDT' : 'USD',
+      tick_size: isCrypto ? 0.00000001 : 0.01,
+      lot_size: isCrypto ? 0.00000001 : 1,
+      min_notional: 0,
+      venue: null,
+      is_active: true
+    };
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt <= this.INSTRUMENTS_TTL_MS) return;
+
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null;
+      });
+    }
+    await this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const result = await DatabaseManager.query(`SELECT * FROM instruments`);
+      const instruments: Map<string, Instrument> = new Map();
+
+      for (const row of result.rows) {
+        instruments.set(row.symbol, {
+          symbol: row.symbol,
+          name: row.name || undefined,
+          asset_class: row.asset_class,
+          sector: row.sector,
+          industry: row.industry,
+          currency: row.currency,
+          tick_size: parseFloat(row.tick_size),
+          lot_size: parseFloat(row.lot_size),
+          min_notional: parseFloat(row.min_notional),
+          venue: row.venue,
+          base_asset: row.base_asset || undefined,
+          quote_asset: row.quote_asset || undefined,
+          is_active: row.is_active !== false
+        });
+      }
+
+      this.instruments = instruments;
+      logger.debug(`🗂️ Instrument master loaded (${instruments.size} instruments)`);
+    } catch (error: any) {
+      logger.warn('Failed to load instruments table, using the seed file:', error.message);
+      try {
+        this.instruments = new Map(this.readSeedFile(seedFilePath()).map(i => [i.symbol, i]));
+      } catch (seedError: any) {
+        logger.error('Failed to read instrument seed file:', seedError.message);
+      }
+    }
+
+    this.loadedAt = Date.now();
+  }
+
+  private readSeedFile(file: string): Instrument[] {
+    const rows = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!Array.isArray(rows)) {
+      throw new Error(`Instrument seed file ${file} must hold an array`);
+    }
+
+    return rows.map((row: any): Instrument => {
+      if (!row.symbol || !(row.tick_size > 0) || !(row.lot_size > 0)) {
+        throw new Error(`Instrument seed row ${JSON.stringify(row)} needs symbol, tick_size and lot_size`);
+      }
+
+      return {
+        symbol: String(row.symbol).toUpperCase(),
+        name: row.name,
+        asset_class: row.asset_class === 'crypto' ? 'crypto' : 'equity',
+        sector: row.sector || null,
+        industry: row.industry || null,
+        currency: row.currency || 'USD',
+        tick_size: Number(row.tick_size),
+        lot_size: Number(row.lot_size),
+        min_notional: Number(row.min_notional) || 0,
+        venue: row.venue || null,
+        base_asset: row.base_asset,
+        quote_asset: row.quote_asset,
+        is_active: row.is_active !== false
+      };
+    });
+  }
+}
+
+export const instrumentMaster = new InstrumentMaster();
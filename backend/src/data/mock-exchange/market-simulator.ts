@@ -0,0 +1,205 @@
+/**
+ * Mock Exchange Market Simulator
+ * Prices are a pure function of (symbol, time): a seeded baseline of slow
+ * cycles plus per-minute noise, shifted by the running scenario's drift and
+ * jumps. Any bar can be rebuilt on demand, so klines, charts, tickers and the
+ * WebSocket all agree.
+ */
+import { Scenario, ScenarioFault, ScenarioPhase } from './scenarios';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const BASE_PRICES: { [symbol: string]: number } = {
+  BTCUSDT: 65000,
+  ETHUSDT: 3200,
+  ADAUSDT: 0.45,
+  DOTUSDT: 6.5,
+  LINKUSDT: 14,
+  AAPL: 190,
+  MSFT: 420,
+  GOOGL: 170,
+  NVDA: 120,
+  TSLA: 250
+};
+
+export interface SimulatedBar {
+  open_time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface ActivePhase {
+  phase: ScenarioPhase;
+  index: number;
+  started_at: number;
+  ends_at: number;
+}
+
+export class MarketSimulator {
+  private scenario: Scenario;
+  private startedAt: number;
+  private readonly seed: number;
+
+  constructor(scenario: Scenario, seed: number = 42, startedAt: number = Date.now()) {
+    this.scenario = scenario;
+    this.seed = seed;
+    this.startedAt = startedAt;
+  }
+
+  /**
+   * Switch scenario; its timeline starts now. Price effects of the previous
+   * scenario are dropped, so a switch mid-crash snaps back to baseline.
+   */
+  setScenario(scenario: Scenario, startedAt: number = Date.now()): void {
+    this.scenario = scenario;
+    this.startedAt = startedAt;
+  }
+
+  getScenario(): Scenario {
+    return this.scenario;
+  }
+
+  getStartedAt(): number {
+    return this.startedAt;
+  }
+
+  private cycleMs(): number {
+    return this.scenario.phases.reduce((sum, phase) => sum + phase.duration_s * 1000, 0);
+  }
+
+  /**
+   * Phase in effect at `at`, or null before the scenario starts and after a
+   * non-looping scenario ends.
+   */
+  activePhase(at: number = Date.now()): ActivePhase | null {
+    const elapsed = at - this.startedAt;
+    const cycle = this.cycleMs();
+    if (elapsed < 0 || cycle <= 0) return null;
+    if (!this.scenario.loop && elapsed >= cycle) return null;
+
+    const cycleStart = this.startedAt + Math.floor(elapsed / cycle) * cycle;
+    let offset = elapsed % cycle;
+    let phaseStart = cycleStart;
+
+    for (let index = 0; index < this.scenario.phases.length; index++) {
+      const phase = this.scenario.phases[index];
+      const duration = phase.duration_s * 1000;
+      if (offset < duration) {
+        return { phase, index, started_at: phaseStart, ends_at: phaseStart + duration };
+      }
+      offset -= duration;
+      phaseStart += duration;
+    }
+
+    return null;
+  }
+
+  faultAt(at: number = Date.now()): ScenarioFault | null {
+    return this.activePhase(at)?.phase.fault || null;
+  }
+
+  price(symbol: string, at: number): number {
+    const base = BASE_PRICES[symbol] || 20 + this.hash(`${symbol}:base`) * 180;
+    const phaseShift = this.hash(`${symbol}:phase`) * 2 * Math.PI;
+
+    const cycles =
+      0.08 * Math.sin((2 * Math.PI * at) / (30 * DAY_MS) + phaseShift) +
+      0.03 * Math.sin((2 * Math.PI * at) / (5 * DAY_MS) + phaseShift * 2) +
+      0.01 * Math.sin((2 * Math.PI * at) / (6 * HOUR_MS) + phaseShift * 3);
+
+    const minute = Math.floor(at / MINUTE_MS);
+    const noise = 0.002 * this.volatility(symbol, at) * (this.hash(`${symbol}:${minute}`) * 2 - 1);
+
+    return base * Math.exp(cycles + noise + this.scenarioShift(symbol, at));
+  }
+
+  /**
+   * OHLCV for [openTime, openTime + spanMs), sampled at up to 60 points.
+   * Bars still in progress end at `now`.
+   */
+  bar(symbol: string, openTime: number, spanMs: number, now: number = Date.now()): SimulatedBar {
+    const end = Math.min(openTime + spanMs - 1, now);
+    const steps = Math.max(1, Math.min(60, Math.round((end - openTime) / MINUTE_MS)));
+
+    const open = this.price(symbol, openTime);
+    const close = this.price(symbol, end);
+    let high = Math.max(open, close);
+    let low = Math.min(open, close);
+
+    for (let i = 1; i < steps; i++) {
+      const p = this.price(symbol, openTime + ((end - openTime) * i) / steps);
+      high = Math.max(high, p);
+      low = Math.min(low, p);
+    }
+
+    const minutes = Math.max(1, (end - openTime + 1) / MINUTE_MS);
+    const perMinute = this.baseVolumePerMinute(symbol) * (0.5 + this.hash(`${symbol}:vol:${openTime}`));
+    const volume = perMinute * minutes * this.volatility(symbol, openTime);
+
+    return { open_time: openTime, open, high, low, close, volume };
+  }
+
+  /**
+   * Cumulative log-price shift from the scenario's drift and jumps up to `at`.
+   */
+  private scenarioShift(symbol: string, at: number): number {
+    if (at <= this.startedAt) return 0;
+
+    const cycle = this.cycleMs();
+    if (cycle <= 0) return 0;
+
+    const elapsed = at - this.startedAt;
+    const fullCycles = this.scenario.loop ? Math.floor(elapsed / cycle) : 0;
+    const remainder = this.scenario.loop ? elapsed % cycle : Math.min(elapsed, cycle);
+
+    return fullCycles * this.shiftWithinCycle(symbol, cycle) + this.shiftWithinCycle(symbol, remainder);
+  }
+
+  private shiftWithinCycle(symbol: string, elapsedMs: number): number {
+    let shift = 0;
+    let remaining = elapsedMs;
+
+    for (const phase of this.scenario.phases) {
+      if (remaining <= 0) break;
+      const applies = !phase.symbols || phase.symbols.includes(symbol);
+      const inPhase = Math.min(remaining, phase.duration_s * 1000);
+
+      if (applies) {
+        if (phase.jump_pct) shift += Math.log(1 + phase.jump_pct / 100);
+        if (phase.drift_pct_per_hour) shift += Math.log(1 + phase.drift_pct_per_hour / 100) * (inPhase / HOUR_MS);
+      }
+      remaining -= inPhase;
+    }
+
+    return shift;
+  }
+
+  private volatility(symbol: string, at: number): number {
+    const active = this.activePhase(at);
+    if (!active || (active.phase.symbols && !active.phase.symbols.includes(symbol))) return 1;
+    return active.phase.volatility || 1;
+  }
+
+  private baseVolumePerMinute(symbol: string): number {
+    // Roughly a few million dollars a minute regardless of unit price
+    return 3000000 / (BASE_PRICES[symbol] || 100);
+  }
+
+  // FNV-1a over the seed and key, mapped to [0, 1)
+  private hash(key: string): number {
+    let h = 0x811c9dc5 ^ this.seed;
+    for (let i = 0; i < key.length; i++) {
+      h ^= key.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    h ^= h >>> 13;
+    h = Math.imul(h, 0x5bd1e995);
+    h ^= h >>> 15;
+    return (h >>> 0) / 4294967296;
+  }
+}
@@ -0,0 +1,471 @@
+/**
+ * Mock Exchange Server
+ * Serves the Binance REST (ping, ticker/24hr, klines), Binance combined
+ * WebSocket, Yahoo v8 chart and CoinGecko simple/price shapes the data layer
+ * consumes, driven by a scripted scenario (trends, crashes, outages, malformed
+ * payloads, 429s).
+ *
+ * Run with `npm run mock:exchange`, then point the backend at it:
+ *   BINANCE_REST_URL=http://127.0.0.1:9555
+ *   BINANCE_WS_URL=ws://127.0.0.1:9555
+ *   YAHOO_CHART_URL=http://127.0.0.1:9555/v8/finance/chart
+ *   COINGECKO_API_URL=http://127.0.0.1:9555
+ * Its prices are simulated, so use it against a scratch database.
+ */
+import express, { NextFunction, Request, Response } from 'express';
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { logger } from '../../utils/logger';
+import { BAR_INTERVAL_MS, BarInterval } from '../providers/types';
+import { addDays, weekdayOf, zonedParts, zonedTimeToUtc } from '../calendar/zoned-time';
+import { BinanceStandInServer } from '../websocket/binance-standin';
+import { MarketSimulator } from './market-simulator';
+import { BUILT_IN_SCENARIOS, loadScenario, Scenario, ScenarioFault } from './scenarios';
+
+export interface MockExchangeOptions {
+  port?: number;          // 0 picks a free port
+  scenario?: Scenario;
+  seed?: number;
+  wsIntervalMs?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_KLINES = 1000;
+
+const YAHOO_INTERVALS: { [key: string]: BarInterval } = {
+  '1m': '1m',
+  '5m': '5m',
+  '15m': '15m',
+  '60m': '1h',
+  '1h': '1h',
+  '1d': '1d'
+};
+
+const YAHOO_RANGES_DAYS: { [key: string]: number } = {
+  '1d': 1, '2d': 2, '5d': 5, '1mo': 30, '3mo': 91, '6mo': 182, '1y': 365, '2y': 730, '5y': 1826
+};
+
+const COINGECKO_IDS: { [id: string]: string } = {
+  bitcoin: 'BTCUSDT',
+  ethereum: 'ETHUSDT',
+  cardano: 'ADAUSDT',
+  polkadot: 'DOTUSDT',
+  chainlink: 'LINKUSDT'
+};
+
+// US equity sessions, without holidays: the mock has no database
+const EQUITY_TIMEZONE = 'America/New_York';
+const EQUITY_OPEN = '09:30';
+const EQUITY_CLOSE = '16:00';
+
+export class MockExchangeServer {
+  private app = express();
+  private server: HttpServer;
+  private standIn: BinanceStandInServer;
+  private simulator: MarketSimulator;
+  private faultInterval: NodeJS.Timeout | null = null;
+  private currentFault: ScenarioFault | null = null;
+  private requestCount = 0;
+  private readonly port: number;
+
+  private stats = {
+    requests: 0,
+    outage_responses: 0,
+    rate_limited_responses: 0,
+    malformed_responses: 0
+  };
+
+  constructor(options: MockExchangeOptions = {}) {
+    this.port = options.port ?? 9555;
+    this.simulator = new MarketSimulator(options.scenario || BUILT_IN_SCENARIOS.calm, options.seed ?? 42);
+    this.server = createServer(this.app);
+    this.standIn = new BinanceStandInServer({
+      server: this.server,
+      intervalMs: options.wsIntervalMs ?? 250,
+      seed: options.seed ?? 42,
+      priceSource: (symbol, at) => this.simulator.price(symbol, at)
+    });
+
+    this.setupRoutes();
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.port, '127.0.0.1', () => resolve());
+    });
+    await this.standIn.start();
+
+    this.syncFault();
+    this.faultInterval = setInterval(() => this.syncFault(), 1000);
+
+    const url = this.getUrl();
+    logger.info(`🧪 Mock exchange listening on ${url} (scenario: ${this.simulator.getScenario().name})`);
+    return url;
+  }
+
+  async stop(): Promise<void> {
+    if (this.faultInterval) {
+      clearInterval(this.faultInterval);
+      this.faultInterval = null;
+    }
+
+    await this.standIn.stop();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  getUrl(): string {
+    const address = this.server.address() as AddressInfo | null;
+    return `http://127.0.0.1:${address ? address.port : this.port}`;
+  }
+
+  setScenario(scenario: Scenario): void {
+    this.simulator.setScenario(scenario);
+    this.requestCount = 0;
+    this.syncFault();
+    logger.info(`🧪 Mock exchange scenario: ${scenario.name}`);
+  }
+
+  /**
+   * Mirror the scenario's fault onto the WebSocket side.
+   */
+  private syncFault(): void {
+    const fault = this.simulator.faultAt();
+    if (fault === this.currentFault) return;
+
+    this.standIn.setAvailable(fault !== 'outage');
+    this.standIn.setMalformed(fault === 'malformed');
+    if (fault !== 'rate_limit') this.requestCount = 0;
+
+    logger.info(`🧪 Mock exchange fault: ${this.currentFault || 'none'} → ${fault || 'none'}`);
+    this.currentFault = fault;
+  }
+
+  private setupRoutes(): void {
+    this.app.use(express.json());
+
+    // Scenario control is exempt from injected faults
+    this.app.get('/scenario', (req, res) => {
+      const active = this.simulator.activePhase();
+      res.json({
+        scenario: this.simulator.getScenario(),
+        started_at: new Date(this.simulator.getStartedAt()).toISOString(),
+        active_phase: active ? { ...active.phase, ends_at: new Date(active.ends_at).toISOString() } : null,
+        available: Object.keys(BUILT_IN_SCENARIOS),
+        stats: this.stats
+      });
+    });
+
+    this.app.post('/scenario', (req, res) => {
+      try {
+        const scenario: Scenario = req.body?.phases ? req.body : loadScenario(req.body?.name);
+        this.setScenario(scenario);
+        res.json({ scenario });
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid scenario' });
+      }
+    });
+
+    this.app.use((req, res, next) => this.applyFault(req, res, next));
+
+    this.app.get('/api/v3/ping', (req, res) => res.json({}));
+    this.app.get('/api/v3/time', (req, res) => res.json({ serverTime: Date.now() }));
+    this.app.get('/api/v3/ticker/24hr', (req, res) => this.handleTicker(req, res));
+    this.app.get('/api/v3/klines', (req, res) => this.handleKlines(req, res));
+    this.app.get('/api/v3/simple/price', (req, res) => this.handleCoinGecko(req, res));
+    this.app.get('/v8/finance/chart/:symbol', (req, res) => this.handleChart(req, res));
+
+    this.app.use((req, res) => res.status(404).json({ code: -1, msg: `No mock for ${req.method} ${req.path}` }));
+  }
+
+  private applyFault(req: Request, res: Response, next: NextFunction): void {
+    this.stats.requests++;
+    const active = this.simulator.activePhase();
+    const fault = active?.phase.fault;
+
+    if (fault === 'outage') {
+      this.stats.outage_responses++;
+      res.status(503).json({ code: -1001, msg: 'Service unavailable (scripted outage)' });
+      return;
+    }
+
+    if (fault === 'rate_limit') {
+      this.requestCount++;
+      const every = Math.max(1, active.phase.rate_limit_every || 3);
+      if (this.requestCount % every === 0) {
+        this.stats.rate_limited_responses++;
+        res.set('Retry-After', '1');
+        res.status(429).json({ code: -1003, msg: 'Too many requests; current limit is exceeded (scripted).' });
+        return;
+      }
+    }
+
+    res.locals.malformed = fault === 'malformed';
+    next();
+  }
+
+  /**
+   * Send a body, or under the malformed fault a damaged version of it:
+   * alternately truncated JSON and the endpoint's own field-level corruption.
+   */
+  private send(res: Response, body: any, corrupt: (body: any) => any): void {
+    if (!res.locals.malformed) {
+      res.json(body);
+      return;
+    }
+
+    this.stats.malformed_responses++;
+    if (this.stats.malformed_responses % 2 === 0) {
+      const text = JSON.stringify(body);
+      res.type('application/json').send(text.slice(0, Math.max(1, Math.floor(text.length / 2))));
+    } else {
+      res.json(corrupt(JSON.parse(JSON.stringify(body))));
+    }
+  }
+
+  private handleTicker(req: Request, res: Response): void {
+    const now = Date.now();
+    const requested = req.query.symbol as string | undefined;
+    const symbols = requested ? [requested.toUpperCase()] : ['BTCUSDT', 'ETHUSDT', 'ADAUSDT', 'DOTUSDT', 'LINKUSDT'];
+
+    const tickers = symbols.map(symbol => {
+      const last = this.simulator.price(symbol, now);
+      const open = this.simulator.price(symbol, now - DAY_MS);
+      const day = this.simulator.bar(symbol, now - DAY_MS, DAY_MS, now);
+      return {
+        symbol,
+        priceChange: (last - open).toFixed(8),
+        priceChangePercent: (((last - open) / open) * 100).toFixed(3),
+        weightedAvgPrice: ((day.high + day.low + last) / 3).toFixed(8),
+        prevClosePrice: open.toFixed(8),
+        lastPrice: last.toFixed(8),
+        openPrice: open.toFixed(8),
+        highPrice: day.high.toFixed(8),
+        lowPrice: day.low.toFixed(8),
+        volume: day.volume.toFixed(8),
+        quoteVolume: (day.volume * last).toFixed(8),
+        openTime: now - DAY_MS,
+        closeTime: now,
+        count: Math.round(day.volume)
+      };
+    });
+
+    this.send(res, requested ? tickers[0] : tickers, body => {
+      const list = Array.isArray(body) ? body : [body];
+      list.forEach((ticker: any, i: number) => {
+        if (i % 2 === 0) ticker.lastPrice = 'NaN';
+        else delete ticker.lastPrice;
+        ticker.volume = null;
+      });
+      return body;
+    });
+  }
+
+  private handleKlines(req: Request, res: Response): void {
+    const symbol = (req.query.symbol as string || '').toUpperCase();
+    const interval = req.query.interval as BarInterval;
+    if (!symbol || !(interval in BAR_INTERVAL_MS)) {
+      res.status(400).json({ code: -1120, msg: 'Invalid interval or symbol.' });
+      return;
+    }
+
+    const span = BAR_INTERVAL_MS[interval];
+    const now = Date.now();
+    const limit = Math.min(parseInt(req.query.limit as string) || 500, MAX_KLINES);
+    const endTime = req.query.endTime ? parseInt(req.query.endTime as string) : now;
+    const startTime = req.query.startTime ? parseInt(req.query.startTime as string) : undefined;
+
+    const lastOpen = Math.floor(Math.min(endTime, now) / span) * span;
+    const firstOpen = startTime !== undefined
+      ? Math.ceil(startTime / span) * span
+      : lastOpen - (limit - 1) * span;
+
+    const klines: any[] = [];
+    for (let openTime = firstOpen; openTime <= lastOpen && klines.length < limit; openTime += span) {
+      const bar = this.simulator.bar(symbol, openTime, span, now);
+      klines.push([
+        openTime,
+        bar.open.toFixed(8),
+        bar.high.toFixed(8),
+        bar.low.toFixed(8),
+        bar.close.toFixed(8),
+        bar.volume.toFixed(8),
+        openTime + span - 1,
+        (bar.volume * bar.close).toFixed(8),
+        Math.round(bar.volume),
+        (bar.volume / 2).toFixed(8),
+        ((bar.volume * bar.close) / 2).toFixed(8),
+        '0'
+      ]);
+    }
+
+    this.send(res, klines, body => {
+      body.forEach((kline: any[], i: number) => {
+        if (i % 3 === 0) {
+          kline[4] = null;
+        } else if (i % 3 === 1) {
+          kline[2] = (parseFloat(kline[3]) / 2).toFixed(8); // high below low
+        }
+      });
+      return body;
+    });
+  }
+
+  private handleCoinGecko(req: Request, res: Response): void {
+    const now = Date.now();
+    const ids = ((req.query.ids as string) || '').split(',').filter(id => COINGECKO_IDS[id]);
+    const body: { [id: string]: any } = {};
+
+    for (const id of ids) {
+      const symbol = COINGECKO_IDS[id];
+      const last = this.simulator.price(symbol, now);
+      const open = this.simulator.price(symbol, now - DAY_MS);
+      body[id] = {
+        usd: parseFloat(last.toFixed(8)),
+        usd_24h_vol: this.simulator.bar(symbol, now - DAY_MS, DAY_MS, now).volume * last,
+        usd_24h_change: ((last - open) / open) * 100
+      };
+    }
+
+    this.send(res, body, corrupt => {
+      for (const id of Object.keys(corrupt)) corrupt[id].usd = 'unavailable';
+      return corrupt;
+    });
+  }
+
+  private handleChart(req: Request, res: Response): void {
+    const symbol = req.params.symbol.toUpperCase();
+    const interval = YAHOO_INTERVALS[(req.query.interval as string) || '1d'];
+    if (!interval) {
+      res.status(400).json({ chart: { result: null, error: { code: 'Bad Request', description: `Invalid interval ${req.query.interval}` } } });
+      return;
+    }
+
+    const now = Date.now();
+    let start: number;
+    let end: number;
+    if (req.query.period1) {
+      start = parseInt(req.query.period1 as string) * 1000;
+      end = req.query.period2 ? Math.min(parseInt(req.query.period2 as string) * 1000, now) : now;
+    } else {
+      end = now;
+      start = now - (YAHOO_RANGES_DAYS[(req.query.range as string) || '5d'] || 5) * DAY_MS;
+    }
+
+    const opens = this.equityBarOpens(interval, start, end);
+    const span = BAR_INTERVAL_MS[interval];
+    const bars = opens.map(open => {
+      // Daily bars cover the regular session, not the calendar day
+      const length = interval === '1d' ? this.sessionLength(open) : span;
+      return this.simulator.bar(symbol, open, length, now);
+    });
+
+    const last = this.simulator.price(symbol, now);
+    const previousClose = bars.length > 1 ? bars[bars.length - 2].close : this.simulator.price(symbol, now - DAY_MS);
+
+    const body = {
+      chart: {
+        result: [{
+          meta: {
+            currency: 'USD',
+            symbol,
+            exchangeName: 'NMS',
+            instrumentType: 'EQUITY',
+            regularMarketPrice: parseFloat(last.toFixed(4)),
+            regularMarketTime: Math.floor(now / 1000),
+            regularMarketVolume: Math.round(bars.length > 0 ? bars[bars.length - 1].volume : 0),
+            chartPreviousClose: parseFloat(previousClose.toFixed(4)),
+            exchangeTimezoneName: EQUITY_TIMEZONE,
+            dataGranularity: req.query.interval || '1d'
+          },
+          timestamp: opens.map(open => Math.floor(open / 1000)),
+          indicators: {
+            quote: [{
+              open: bars.map(bar => parseFloat(bar.open.toFixed(4))),
+              high: bars.map(bar => parseFloat(bar.high.toFixed(4))),
+              low: bars.map(bar => parseFloat(bar.low.toFixed(4))),
+              close: bars.map(bar => parseFloat(bar.close.toFixed(4))),
+              volume: bars.map(bar => Math.round(bar.volume))
+            }]
+          }
+        }],
+        error: null
+      }
+    };
+
+    this.send(res, body, corrupt => {
+      const quote = corrupt.chart.result[0].indicators.quote[0];
+      for (let i = 0; i < quote.close.length; i += 2) {
+        quote.close[i] = null;
+        quote.open[i] = 'n/a';
+      }
+      delete corrupt.chart.result[0].meta.regularMarketPrice;
+      return corrupt;
+    });
+  }
+
+  /**
+   * Bar open times inside regular weekday sessions, as Yahoo reports them:
+   * daily bars at the session open, intraday bars from the open on.
+   */
+  private equityBarOpens(interval: BarInterval, start: number, end: number): number[] {
+    const opens: number[] = [];
+    const span = BAR_INTERVAL_MS[interval];
+    const lastDate = zonedParts(new Date(end), EQUITY_TIMEZONE).date;
+
+    for (let date = zonedParts(new Date(start), EQUITY_TIMEZONE).date; date <= lastDate; date = addDays(date, 1)) {
+      const weekday = weekdayOf(date);
+      if (weekday === 0 || weekday === 6) continue;
+
+      const open = zonedTimeToUtc(date, EQUITY_OPEN, EQUITY_TIMEZONE).getTime();
+      const close = zonedTimeToUtc(date, EQUITY_CLOSE, EQUITY_TIMEZONE).getTime();
+
+      if (interval === '1d') {
+        if (open >= start && open <= end) opens.push(open);
+        continue;
+      }
+
+      for (let t = open; t < close; t += span) {
+        if (t >= start && t <= end) opens.push(t);
+      }
+    }
+
+    return opens;
+  }
+
+  private sessionLength(open: number): number {
+    const date = zonedParts(new Date(open), EQUITY_TIMEZONE).date;
+    return zonedTimeToUtc(date, EQUITY_CLOSE, EQUITY_TIMEZONE).getTime() - open;
+  }
+}
+
+if (require.main === module) {
+  let scenario: Scenario;
+  try {
+    scenario = loadScenario(process.env.MOCK_EXCHANGE_SCENARIO || 'calm');
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : 'Invalid scenario');
+    process.exit(1);
+  }
+
+  const mockExchange = new MockExchangeServer({
+    port: parseInt(process.env.MOCK_EXCHANGE_PORT || '9555'),
+    scenario,
+    seed: parseInt(process.env.MOCK_EXCHANGE_SEED || '42')
+  });
+
+  mockExchange.start()
+    .then(url => {
+      const ws = url.replace('http://', 'ws://');
+      logger.info(`Point the backend at it with BINANCE_REST_URL=${url} BINANCE_WS_URL=${ws} YAHOO_CHART_URL=${url}/v8/finance/chart COINGECKO_API_URL=${url}`);
+    })
+    .catch(error => {
+      logger.error('Failed to start mock exchange:', error);
+      process.exit(1);
+    });
+
+  process.on('SIGINT', async () => {
+    await mockExchange.stop();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,116 @@
+/**
+ * Mock Exchange Scenarios
+ * A scenario is a timeline of phases, each shaping prices (drift, volatility,
+ * one-off jumps) and optionally injecting a fault into every endpoint
+ */
+import * as fs from 'fs';
+
+export type ScenarioFault = 'outage' | 'malformed' | 'rate_limit';
+
+export interface ScenarioPhase {
+  name: string;
+  duration_s: number;
+  drift_pct_per_hour?: number;
+  volatility?: number;           // multiplier on the baseline noise
+  jump_pct?: number;             // applied once at the start of the phase
+  fault?: ScenarioFault;
+  rate_limit_every?: number;     // with fault 'rate_limit': every Nth request gets a 429
+  symbols?: string[];            // price effects only apply to these symbols when set
+}
+
+export interface Scenario {
+  name: string;
+  description: string;
+  phases: ScenarioPhase[];
+  loop?: boolean;
+}
+
+export const BUILT_IN_SCENARIOS: { [name: string]: Scenario } = {
+  calm: {
+    name: 'calm',
+    description: 'Sideways market with baseline noise',
+    phases: [{ name: 'calm', duration_s: 3600 }],
+    loop: true
+  },
+  bull_trend: {
+    name: 'bull_trend',
+    description: 'Steady uptrend of about 2% per hour',
+    phases: [{ name: 'rally', duration_s: 3600, drift_pct_per_hour: 2 }],
+    loop: true
+  },
+  bear_trend: {
+    name: 'bear_trend',
+    description: 'Steady downtrend of about 2% per hour',
+    phases: [{ name: 'selloff', duration_s: 3600, drift_pct_per_hour: -2 }],
+    loop: true
+  },
+  flash_crash: {
+    name: 'flash_crash',
+    description: 'Calm, a 25% gap down with high volatility, then a partial recovery',
+    phases: [
+      { name: 'calm', duration_s: 300 },
+      { name: 'crash', duration_s: 120, jump_pct: -25, volatility: 6 },
+      { name: 'recovery', duration_s: 900, drift_pct_per_hour: 20, volatility: 2 },
+      { name: 'settle', duration_s: 3600 }
+    ]
+  },
+  exchange_outage: {
+    name: 'exchange_outage',
+    description: 'Every endpoint returns 503 and WebSockets drop for two minutes out of ten',
+    phases: [
+      { name: 'up', duration_s: 480 },
+      { name: 'outage', duration_s: 120, fault: 'outage' }
+    ],
+    loop: true
+  },
+  malformed_payloads: {
+    name: 'malformed_payloads',
+    description: 'Responses carry nulls, wrong types and truncated JSON',
+    phases: [{ name: 'malformed', duration_s: 3600, fault: 'malformed' }],
+    loop: true
+  },
+  rate_limited: {
+    name: 'rate_limited',
+    description: 'Every third request is answered with 429 and Retry-After',
+    phases: [{ name: 'throttled', duration_s: 3600, fault: 'rate_limit', rate_limit_every: 3 }],
+    loop: true
+  },
+  stress: {
+    name: 'stress',
+    description: 'Trend, crash, outage, malformed payloads and rate limits in sequence',
+    phases: [
+      { name: 'rally', duration_s: 300, drift_pct_per_hour: 5 },
+      { name: 'crash', duration_s: 120, jump_pct: -20, volatility: 5 },
+      { name: 'outage', duration_s: 120, fault: 'outage' },
+      { name: 'malformed', duration_s: 180, fault: 'malformed', volatility: 2 },
+      { name: 'throttled', duration_s: 180, fault: 'rate_limit', rate_limit_every: 2 },
+      { name: 'recovery', duration_s: 600, drift_pct_per_hour: 3 }
+    ],
+    loop: true
+  }
+};
+
+/**
+ * Load a scenario by built-in name, or from a JSON file holding a Scenario.
+ */
+export function loadScenario(nameOrPath: string): Scenario {
+  if (BUILT_IN_SCENARIOS[nameOrPath]) {
+    return BUILT_IN_SCENARIOS[nameOrPath];
+  }
+
+  if (!fs.existsSync(nameOrPath)) {
+    throw new Error(`Unknown scenario '${nameOrPath}' (built-in: ${Object.keys(BUILT_IN_SCENARIOS).join(', ')})`);
+  }
+
+  const scenario = JSON.parse(fs.readFileSync(nameOrPath, 'utf8')) as Scenario;
+  if (!Array.isArray(scenario.phases) || scenario.phases.length === 0) {
+    throw new Error(`Scenario file ${nameOrPath} has no phases`);
+  }
+  for (const phase of scenario.phases) {
+    if (!(phase.duration_s > 0)) {
+      throw new Error(`Scenario phase '${phase.name}' needs a positive duration_s`);
+    }
+  }
+
+  return { ...scenario, name: scenario.name || nameOrPath };
+}
@@ -0,0 +1,385 @@
+/**
+ * News Ingestor
+ * Reads headlines from an inbox directory (JSON, JSONL or plain text), from
+ * RSS/Atom feeds and from the news webhook, tags them with the symbols they
+ * mention, scores them with the sentiment model and stores them in
+ * news_articles. The AI reasoner reads recent per-symbol sentiment from here.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import axios from 'axios';
+import { logger } from '../../utils/logger';
+import { DatabaseManager } from '../../utils/database';
+import { instrumentMaster } from '../instruments/instrument-master';
+import { getProviderGuard } from '../providers/provider-guard';
+import { LexiconSentimentModel, SentimentModel } from './sentiment-model';
+
+export interface RawNewsItem {
+  headline: string;
+  summary?: string;
+  url?: string;
+  source?: string;
+  published_at?: string | Date;
+  symbols?: string[];
+}
+
+export interface NewsArticle {
+  id?: number;
+  headline: string;
+  summary: string | null;
+  url: string | null;
+  source: string;
+  published_at: Date;
+  symbols: string[];
+  sentiment_score: number;
+  sentiment_magnitude: number;
+  sentiment_model: string;
+  matched_terms: string[];
+}
+
+export interface IngestResult {
+  received: number;
+  stored: number;
+  duplicates: number;
+  rejected: number;
+}
+
+export interface SymbolSentiment {
+  symbol: string;
+  score: number;          // recency-weighted mean, -1 to 1
+  confidence: number;     // 0 to 1, grows with article count and agreement
+  article_count: number;
+  window_hours: number;
+  latest_at: Date | null;
+  headlines: { headline: string; score: number; source: string; published_at: Date }[];
+}
+
+interface SymbolAlias {
+  symbol: string;
+  pattern: RegExp;
+}
+
+const ALIASES_TTL_MS = 60 * 60 * 1000;
+const NAME_SUFFIXES = /(,?\s+(inc\.?|corporation|corp\.?|co\.?|& co\.?|plc|ltd\.?|class [a-z]|platforms|trust))+$/i;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Inbox files are hand-written, so `symbols` may be a single ticker or hold non-strings
+function normalizeSymbols(symbols: unknown): string[] {
+  const list = Array.isArray(symbols) ? symbols : [symbols];
+  return list.filter((symbol): symbol is string => typeof symbol === 'string' && symbol.trim() !== '')
+    .map(symbol => symbol.trim());
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
+    .replace(/&amp;/g, '&')
+    // Descriptions often carry escaped HTML
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function xmlTag(block: string, tags: string[]): string | undefined {
+  for (const tag of tags) {
+    const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+    if (match) return decodeXml(match[1]);
+  }
+  return undefined;
+}
+
+/**
+ * Items of an RSS 2.0 or Atom document.
+ */
+export function parseFeed(xml: string, source: string): RawNewsItem[] {
+  const blocks = xml.match(/<item[\s>][\s\S]*?<\/item>|<entry[\s>][\s\S]*?<\/entry>/gi) || [];
+
+  return blocks.map(block => {
+    const atomLink = block.match(/<link[^>]*href="([^"]+)"/i);
+    return {
+      headline: xmlTag(block, ['title']) || '',
+      summary: xmlTag(block, ['description', 'summary', 'content']),
+      url: xmlTag(block, ['link']) || atomLink?.[1],
+      published_at: xmlTag(block, ['pubDate', 'published', 'updated', 'dc:date']),
+      source
+    };
+  });
+}
+
+export class NewsIngestor {
+  private model: SentimentModel = LexiconSentimentModel.fromFile(process.env.NEWS_SENTIMENT_LEXICON);
+  private aliases: SymbolAlias[] = [];
+  private aliasesLoadedAt = 0;
+  private processedFiles: Map<string, number> = new Map();
+  private readonly halfLifeHours = parseFloat(process.env.NEWS_HALF_LIFE_HOURS || '6');
+
+  setSentimentModel(model: SentimentModel): void {
+    this.model = model;
+    logger.info(`📰 News sentiment model set to '${model.name}'`);
+  }
+
+  getSentimentModel(): SentimentModel {
+    return this.model;
+  }
+
+  /**
+   * Tag, score and store a batch. Items are deduplicated on URL, or on
+   * source and headline when there is no URL.
+   */
+  async ingest(items: RawNewsItem[], defaultSource: string): Promise<IngestResult> {
+    const result: IngestResult = { received: items.length, stored: 0, duplicates: 0, rejected: 0 };
+
+    for (const item of items) {
+      const headline = (item?.headline || '').trim();
+      const publishedAt = item?.published_at ? new Date(item.published_at) : new Date();
+      if (!headline || isNaN(publishedAt.getTime())) {
+        result.rejected++;
+        continue;
+      }
+
+      const source = item.source || defaultSource;
+      const summary = item.summary?.trim() || null;
+      const sentiment = this.model.score(summary ? `${headline}. ${summary}` : headline);
+      const symbols = await this.tagSymbols(`${headline} ${summary || ''}`, normalizeSymbols(item.symbols));
+      const hash = crypto.createHash('sha256')
+        .update(item.url || `${source}|${headline}`)
+        .digest('hex');
+
+      try {
+        const inserted = await DatabaseManager.query(
+          `INSERT INTO news_articles (
+            content_hash, headline, summary, url, source, published_at, symbols,
+            sentiment_score, sentiment_magnitude, sentiment_model, matched_terms
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          ON CONFLICT (content_hash) DO NOTHING
+          RETURNING id`,
+          [
+            hash, headline, summary, item.url || null, source, publishedAt, symbols,
+            sentiment.score, sentiment.magnitude, this.model.name, JSON.stringify(sentiment.terms)
+          ]
+        );
+
+        if (inserted.rows.length > 0) {
+          result.stored++;
+        } else {
+          result.duplicates++;
+        }
+      } catch (error: any) {
+        logger.warn(`Failed to store news item '${headline.slice(0, 60)}':`, error.message);
+        result.rejected++;
+      }
+    }
+
+    if (result.stored > 0) {
+      logger.info(`📰 Ingested ${result.stored} news items from ${defaultSource} (${result.duplicates} duplicates, ${result.rejected} rejected)`);
+    }
+    return result;
+  }
+
+  /**
+   * New or changed files in the inbox directory. `.json` holds an array (or
+   * `{ "items": [...] }`), `.jsonl` one item per line, and `.txt` one
+   * headline per line stamped with the file's modification time.
+   */
+  async ingestDirectory(dir: string | undefined = process.env.NEWS_INBOX_DIR): Promise<IngestResult> {
+    const total: IngestResult = { received: 0, stored: 0, duplicates: 0, rejected: 0 };
+    if (!dir || !fs.existsSync(dir)) return total;
+
+    for (const name of fs.readdirSync(dir).sort()) {
+      const file = path.join(dir, name);
+      const extension = path.extname(name).toLowerCase();
+      if (!['.json', '.jsonl', '.txt'].includes(extension)) continue;
+
+      const stat = fs.statSync(file);
+      if (!stat.isFile() || this.processedFiles.get(file) === stat.mtimeMs) continue;
+
+      try {
+        const items = this.readNewsFile(file, extension, stat.mtime);
+        const result = await this.ingest(items, `file:${name}`);
+        total.received += result.received;
+        total.stored += result.stored;
+        total.duplicates += result.duplicates;
+        total.rejected += result.rejected;
+        this.processedFiles.set(file, stat.mtimeMs);
+      } catch (error: any) {
+        logger.error(`Failed to read news file ${name}:`, error.message);
+      }
+    }
+
+    return total;
+  }
+
+  async ingestFeed(url: string): Promise<IngestResult> {
+    const response = await getProviderGuard('news').execute(() => axios.get(url, {
+      responseType: 'text',
+      headers: { 'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml' },
+      timeout: 10000
+    }));
+
+    return this.ingest(parseFeed(String(response.data), new URL(url).hostname), url);
+  }
+
+  /**
+   * One pass over the inbox directory and every URL in NEWS_FEED_URLS.
+   */
+  async poll(): Promise<IngestResult> {
+    const total = await this.ingestDirectory();
+
+    const feeds = (process.env.NEWS_FEED_URLS || '').split(',').map(url => url.trim()).filter(Boolean);
+    for (const feed of feeds) {
+      try {
+        const result = await this.ingestFeed(feed);
+        total.received += result.received;
+        total.stored += result.stored;
+        total.duplicates += result.duplicates;
+        total.rejected += result.rejected;
+      } catch (error: any) {
+        logger.warn(`Failed to poll news feed ${feed}:`, error.message);
+      }
+    }
+
+    return total;
+  }
+
+  async getRecentNews(filter: { symbol?: string; hours?: number; limit?: number } = {}): Promise<NewsArticle[]> {
+    const params: any[] = [filter.hours || 24];
+    let query = `
+      SELECT * FROM news_articles
+      WHERE published_at >= NOW() - ($1 || ' hours')::interval
+    `;
+
+    if (filter.symbol) {
+      params.push(filter.symbol.toUpperCase());
+      query += ` AND $${params.length} = ANY(symbols)`;
+    }
+
+    params.push(Math.min(filter.limit || 50, 500));
+    query += ` ORDER BY published_at DESC LIMIT $${params.length}`;
+
+    const result = await DatabaseManager.query(query, params);
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      headline: row.headline,
+      summary: row.summary,
+      url: row.url,
+      source: row.source,
+      published_at: new Date(row.published_at),
+      symbols: row.symbols || [],
+      sentiment_score: parseFloat(row.sentiment_score),
+      sentiment_magnitude: parseFloat(row.sentiment_magnitude),
+      sentiment_model: row.sentiment_model,
+      matched_terms: typeof row.matched_terms === 'string' ? JSON.parse(row.matched_terms) : (row.matched_terms || [])
+    }));
+  }
+
+  /**
+   * Recency-weighted sentiment for a symbol (weights halve every
+   * NEWS_HALF_LIFE_HOURS). Confidence rises with the weight of evidence and
+   * falls when the articles disagree.
+   */
+  async getSymbolSentiment(symbol: string, hours: number = parseFloat(process.env.NEWS_LOOKBACK_HOURS || '24')): Promise<SymbolSentiment> {
+    const articles = await this.getRecentNews({ symbol, hours, limit: 200 });
+    const now = Date.now();
+
+    let weightSum = 0;
+    let weightedScore = 0;
+    let weightedAbsScore = 0;
+    for (const article of articles) {
+      const ageHours = Math.max(0, (now - article.published_at.getTime()) / 3600000);
+      const weight = Math.pow(0.5, ageHours / this.halfLifeHours);
+      weightSum += weight;
+      weightedScore += weight * article.sentiment_score;
+      weightedAbsScore += weight * Math.abs(article.sentiment_score);
+    }
+
+    const score = weightSum > 0 ? weightedScore / weightSum : 0;
+    const agreement = weightedAbsScore > 0 ? Math.abs(weightedScore) / weightedAbsScore : 0;
+    const evidence = 1 - Math.exp(-weightSum / 3);
+
+    return {
+      symbol: symbol.toUpperCase(),
+      score,
+      confidence: evidence * (0.5 + 0.5 * agreement),
+      article_count: articles.length,
+      window_hours: hours,
+      latest_at: articles.length > 0 ? articles[0].published_at : null,
+      headlines: articles
+        .slice()
+        .sort((a, b) => Math.abs(b.sentiment_score) - Math.abs(a.sentiment_score))
+        .slice(0, 3)
+        .map(a => ({ headline: a.headline, score: a.sentiment_score, source: a.source, published_at: a.published_at }))
+    };
+  }
+
+  /**
+   * Symbols mentioned in the text: `$TICKER` cashtags, tickers of three or
+   * more letters, crypto base assets and instrument names, plus any symbols
+   * the item already carries.
+   */
+  async tagSymbols(text: string, explicit: string[] = []): Promise<string[]> {
+    const symbols = new Set(explicit.map(symbol => symbol.toUpperCase()));
+    for (const alias of await this.getAliases()) {
+      if (alias.pattern.test(text)) symbols.add(alias.symbol);
+    }
+    return Array.from(symbols).sort();
+  }
+
+  private async getAliases(): Promise<SymbolAlias[]> {
+    if (Date.now() - this.aliasesLoadedAt <= ALIASES_TTL_MS) return this.aliases;
+
+    const aliases: SymbolAlias[] = [];
+    for (const instrument of await instrumentMaster.list({ active_only: true })) {
+      const terms: string[] = [];
+      const caseSensitive: string[] = [`\\$${escapeRegExp(instrument.symbol)}`];
+
+      if (instrument.asset_class === 'crypto' && instrument.base_asset) {
+        caseSensitive.push(`\\$${escapeRegExp(instrument.base_asset)}`);
+        if (instrument.base_asset.length >= 3) caseSensitive.push(escapeRegExp(instrument.base_asset));
+      } else if (instrument.symbol.length >= 3) {
+        caseSensitive.push(escapeRegExp(instrument.symbol));
+      }
+
+      if (instrument.name) {
+        const name = instrument.name.split(' / ')[0].replace(/\.com$/i, '').replace(NAME_SUFFIXES, '').trim();
+        if (name.length >= 3) terms.push(escapeRegExp(name));
+      }
+
+      aliases.push({ symbol: instrument.symbol, pattern: new RegExp(`(?<![A-Za-z0-9])(${caseSensitive.join('|')})(?![A-Za-z0-9])`) });
+      if (terms.length > 0) {
+        aliases.push({ symbol: instrument.symbol, pattern: new RegExp(`\\b(${terms.join('|')})\\b`, 'i') });
+      }
+    }
+
+    this.aliases = aliases;
+    this.aliasesLoadedAt = Date.now();
+    return aliases;
+  }
+
+  private readNewsFile(file: string, extension: string, modifiedAt: Date): RawNewsItem[] {
+    const content = fs.readFileSync(file, 'utf8');
+
+    if (extension === '.json') {
+      const parsed = JSON.parse(content);
+      return Array.isArray(parsed) ? parsed : (parsed.items || []);
+    }
+
+    const lines = content.split('\n').map(line => line.trim()).filter(Boolean);
+    if (extension === '.jsonl') {
+      return lines.map(line => JSON.parse(line));
+    }
+
+    return lines.map(headline => ({ headline, published_at: modifiedAt }));
+  }
+}
+
+export const newsIngestor = new NewsIngestor();
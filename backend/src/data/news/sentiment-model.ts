@@ -0,0 +1,127 @@
+/**
+ * Sentiment Models
+ * Offline headline scoring. The default is a finance lexicon with negation
+ * and intensifier handling; any model implementing SentimentModel can be
+ * swapped in on the news ingestor.
+ */
+import * as fs from 'fs';
+import { logger } from '../../utils/logger';
+
+export interface SentimentResult {
+  score: number;        // -1 (very negative) to 1 (very positive)
+  magnitude: number;    // sum of absolute term weights before normalisation
+  terms: string[];      // lexicon entries that matched, signed, e.g. "-downgrade"
+}
+
+export interface SentimentModel {
+  readonly name: string;
+  score(text: string): SentimentResult;
+}
+
+export interface Lexicon {
+  [term: string]: number;
+}
+
+// Weights are in [-1, 1]; multi-word entries match as phrases
+export const FINANCE_LEXICON: Lexicon = {
+  'beat': 0.6, 'beats': 0.6, 'beat estimates': 0.8, 'tops estimates': 0.8,
+  'record': 0.4, 'record high': 0.7, 'all-time high': 0.7,
+  'surge': 0.7, 'surges': 0.7, 'soar': 0.7, 'soars': 0.7, 'rally': 0.6, 'rallies': 0.6,
+  'jump': 0.5, 'jumps': 0.5, 'gain': 0.4, 'gains': 0.4, 'rise': 0.3, 'rises': 0.3,
+  'upgrade': 0.7, 'upgrades': 0.7, 'upgraded': 0.7, 'outperform': 0.6, 'buy rating': 0.6,
+  'raises guidance': 0.8, 'raised guidance': 0.8, 'price target raised': 0.6,
+  'growth': 0.4, 'profit': 0.4, 'profitable': 0.5, 'strong': 0.4, 'robust': 0.4,
+  'bullish': 0.6, 'optimistic': 0.5, 'expansion': 0.3, 'partnership': 0.3,
+  'approval': 0.5, 'approved': 0.5, 'breakthrough': 0.6, 'buyback': 0.4, 'dividend increase': 0.5,
+  'adoption': 0.4, 'inflows': 0.4, 'etf approval': 0.7,
+
+  'miss': -0.6, 'misses': -0.6, 'missed estimates': -0.8, 'falls short': -0.6,
+  'plunge': -0.8, 'plunges': -0.8, 'tumble': -0.7, 'tumbles': -0.7, 'slump': -0.6, 'slumps': -0.6,
+  'drop': -0.5, 'drops': -0.5, 'fall': -0.4, 'falls': -0.4, 'decline': -0.4, 'declines': -0.4,
+  'downgrade': -0.7, 'downgrades': -0.7, 'downgraded': -0.7, 'underperform': -0.6, 'sell rating': -0.6,
+  'cuts guidance': -0.8, 'cut guidance': -0.8, 'lowers guidance': -0.8, 'price target cut': -0.6,
+  'loss': -0.5, 'losses': -0.5, 'weak': -0.4, 'weakness': -0.4, 'bearish': -0.6,
+  'lawsuit': -0.5, 'probe': -0.5, 'investigation': -0.5, 'fine': -0.4, 'fined': -0.5,
+  'recall': -0.5, 'layoffs': -0.4, 'bankruptcy': -0.9, 'default': -0.7, 'fraud': -0.9,
+  'hack': -0.8, 'hacked': -0.8, 'exploit': -0.7, 'outage': -0.5, 'ban': -0.6, 'banned': -0.6,
+  'delisting': -0.8, 'outflows': -0.4, 'selloff': -0.6, 'sell-off': -0.6, 'crash': -0.9
+};
+
+const NEGATORS = new Set(['not', 'no', 'never', 'without', "isn't", "wasn't", "doesn't", "didn't", "won't", 'fails', 'failed']);
+const INTENSIFIERS: { [term: string]: number } = {
+  'sharply': 1.5, 'significantly': 1.4, 'strongly': 1.4, 'massive': 1.5, 'huge': 1.4, 'slightly': 0.6, 'modestly': 0.7
+};
+const NEGATION_WINDOW = 3;
+const NEGATION_FACTOR = -0.75;
+
+// Same normalisation as VADER: score = sum / sqrt(sum^2 + alpha)
+const NORMALISATION_ALPHA = 4;
+
+export class LexiconSentimentModel implements SentimentModel {
+  readonly name = 'lexicon';
+  private lexicon: Lexicon;
+  private maxPhraseLength: number;
+
+  constructor(lexicon: Lexicon = FINANCE_LEXICON) {
+    this.lexicon = {};
+    for (const [term, weight] of Object.entries(lexicon)) {
+      this.lexicon[term.toLowerCase()] = weight;
+    }
+    this.maxPhraseLength = Math.max(1, ...Object.keys(this.lexicon).map(term => term.split(' ').length));
+  }
+
+  /**
+   * Built-in lexicon with entries from a JSON file (`{"term": weight}`)
+   * merged over it.
+   */
+  static fromFile(file?: string): LexiconSentimentModel {
+    if (!file) return new LexiconSentimentModel();
+
+    try {
+      const overrides = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return new LexiconSentimentModel({ ...FINANCE_LEXICON, ...overrides });
+    } catch (error: any) {
+      logger.warn(`Failed to read sentiment lexicon ${file}, using the built-in one:`, error.message);
+      return new LexiconSentimentModel();
+    }
+  }
+
+  score(text: string): SentimentResult {
+    const tokens = text.toLowerCase().match(/[a-z][a-z'-]*/g) || [];
+    const terms: string[] = [];
+    let sum = 0;
+    let magnitude = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+      // Longest phrase starting at this token wins
+      let matched: string | null = null;
+      let length = 0;
+      for (let n = Math.min(this.maxPhraseLength, tokens.length - i); n >= 1; n--) {
+        const phrase = tokens.slice(i, i + n).join(' ');
+        if (this.lexicon[phrase] !== undefined) {
+          matched = phrase;
+          length = n;
+          break;
+        }
+      }
+      if (!matched) continue;
+
+      let weight = this.lexicon[matched];
+      const previous = tokens.slice(Math.max(0, i - NEGATION_WINDOW), i);
+      const intensifier = INTENSIFIERS[tokens[i - 1]] || INTENSIFIERS[tokens[i + length]];
+      if (intensifier) weight *= intensifier;
+      if (previous.some(token => NEGATORS.has(token))) weight *= NEGATION_FACTOR;
+
+      sum += weight;
+      magnitude += Math.abs(weight);
+      terms.push(`${weight >= 0 ? '+' : '-'}${matched}`);
+      i += length - 1;
+    }
+
+    return {
+      score: sum === 0 ? 0 : sum / Math.sqrt(sum * sum + NORMALISATION_ALPHA),
+      magnitude,
+      terms
+    };
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Data Provenance
+ * Tracks which providers fed a feature set, signal or trade, and whether any
+ * input was synthetic, and enforces the execution policy for synthetic inputs
+ */
+import { logger } from '../../utils/logger';
+import { DatabaseManager } from '../../utils/database';
+import { getSystemConfig } from '../../utils/systemConfig';
+import { MarketData } from '../../data_ingestor';
+
+export interface DataProvenance {
+  providers: string[];
+  synthetic: boolean;
+  synthetic_share: number;
+  input_count: number;
+  latest_input_at?: string;
+}
+
+export interface ProvenancePolicy {
+  block_synthetic_execution: boolean;
+  block_unknown_provenance: boolean;
+  synthetic_providers: string[];
+}
+
+export interface ProvenanceSummary {
+  hours: number;
+  signals: DecisionBreakdown;
+  trades: DecisionBreakdown;
+  live_trades: DecisionBreakdown;
+}
+
+interface DecisionBreakdown {
+  total: number;
+  real: number;
+  synthetic: number;
+  unknown: number;
+  real_pct: number;
+}
+
+export const PROVENANCE_POLICY_CONFIG_KEY = 'provenance_policy';
+
+const DEFAULT_POLICY: ProvenancePolicy = {
+  block_synthetic_execution: true,
+  block_unknown_provenance: false,
+  synthetic_providers: ['fallback', 'mock', 'synthetic']
+};
+
+export class ProvenanceService {
+  private policy: ProvenancePolicy = DEFAULT_POLICY;
+  private policyLoadedAt = 0;
+  private readonly POLICY_TTL_MS = 5 * 60 * 1000;
+
+  /**
+   * Summarize the bars behind a computation.
+   */
+  async fromBars(bars: MarketData[]): Promise<DataProvenance> {
+    await this.getPolicy();
+
+    const providers = [...new Set(bars.map(bar => bar.provider || 'unknown'))].sort();
+    const syntheticCount = bars.filter(bar => this.isSynthetic(bar.provider)).length;
+    const latest = bars.reduce<Date | null>(
+      (max, bar) => (!max || bar.timestamp > max ? bar.timestamp : max),
+      null
+    );
+
+    return {
+      providers,
+      synthetic: syntheticCount > 0,
+      synthetic_share: bars.length > 0 ? syntheticCount / bars.length : 0,
+      input_count: bars.length,
+      latest_input_at: latest ? latest.toISOString() : undefined
+    };
+  }
+
+  isSynthetic(provider: string | undefined): boolean {
+    return this.policy.synthetic_providers.includes(provider || 'unknown');
+  }
+
+  /**
+   * Decide whether a decision built on this provenance may be executed.
+   */
+  async checkExecution(provenance: DataProvenance | undefined): Promise<{ allowed: boolean; reason?: string }> {
+    const policy = await this.getPolicy();
+
+    if (!provenance) {
+      return policy.block_unknown_provenance
+        ? { allowed: false, reason: 'Input provenance unknown' }
+        : { allowed: true };
+    }
+
+    if (provenance.synthetic && policy.block_synthetic_execution) {
+      return {
+        allowed: false,
+        reason: `Synthetic inputs (${(provenance.synthetic_share * 100).toFixed(0)}% from ${provenance.providers.join(', ')})`
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  async getPolicy(): Promise<ProvenancePolicy> {
+    if (Date.now() - this.policyLoadedAt > this.POLICY_TTL_MS) {
+      const config = await getSystemConfig<Partial<ProvenancePolicy>>(PROVENANCE_POLICY_CONFIG_KEY, {});
+      this.policy = { ...DEFAULT_POLICY, ...config };
+      this.policyLoadedAt = Date.now();
+    }
+    return this.policy;
+  }
+
+  /**
+   * Share of recent ensemble signals, cycle trades and realtime trades
+   * (`trades_executed`) whose inputs were all real.
+   */
+  async getSummary(hours: number = 24): Promise<ProvenanceSummary> {
+    const breakdown = async (
+      table: 'signals' | 'trades' | 'trades_executed',
+      extraWhere: string,
+      timeColumn: string = 'created_at'
+    ): Promise<DecisionBreakdown> => {
+      const result = await DatabaseManager.query(`
+        SELECT
+          COUNT(*) AS total,
+          COUNT(*) FILTER (WHERE metadata->'provenance' IS NULL) AS unknown,
+          COUNT(*) FILTER (WHERE (metadata->'provenance'->>'synthetic')::boolean = true) AS synthetic
+        FROM ${table}
+        WHERE ${timeColumn} >= NOW() - ($1 || ' hours')::INTERVAL ${extraWhere}
+      `, [hours.toString()]);
+
+      const row = result.rows[0];
+      const total = parseInt(row.total);
+      const unknown = parseInt(row.unknown);
+      const synthetic = parseInt(row.synthetic);
+      const real = total - unknown - synthetic;
+
+      return {
+        total,
+        real,
+        synthetic,
+        unknown,
+        real_pct: total > 0 ? (real / total) * 100 : 0
+      };
+    };
+
+    try {
+      return {
+        hours,
+        signals: await breakdown('signals', `AND source = 'ensemble'`),
+        trades: await breakdown('trades', ''),
+        live_trades: await breakdown('trades_executed', '', 'timestamp')
+      };
+    } catch (error) {
+      logger.error('Failed to compute provenance summary:', error);
+      throw error;
+    }
+  }
+}
+
+export const provenanceService = new ProvenanceService();
@@ -0,0 +1,130 @@
+/**
+ * Alpha Vantage provider (equities, secondary source)
+ */
+import axios from 'axios';
+import { MarketData } from '../../data_ingestor';
+import { BarInterval, BarRequest, MarketDataProvider, MarketQuote, MarketType, ProviderHealth } from './types';
+import { getProviderGuard, ProviderRequestError } from './provider-guard';
+import { zonedTimeToUtc } from '../calendar/zoned-time';
+
+const INTRADAY_INTERVALS: { [key in BarInterval]?: string } = {
+  '1m': '1min',
+  '5m': '5min',
+  '15m': '15min',
+  '1h': '60min'
+};
+
+const EXCHANGE_TIME_ZONE = 'America/New_York';
+
+export class AlphaVantageProvider implements MarketDataProvider {
+  readonly name = 'alphavantage';
+  readonly marketTypes: MarketType[] = ['equity'];
+  readonly guard = getProviderGuard('alphavantage');
+
+  private baseUrl = 'https://www.alphavantage.co/query';
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    const data = await this.request({ function: 'GLOBAL_QUOTE', symbol });
+    const quote = data?.['Global Quote'];
+    if (!quote || !quote['05. price']) return null;
+
+    const price = parseFloat(quote['05. price']);
+    if (!(price > 0)) return null;
+
+    return {
+      symbol,
+      price,
+      volume: parseInt(quote['06. volume']) || 0,
+      change_pct: parseFloat(quote['10. change percent']?.replace('%', '')) || 0,
+      timestamp: new Date(),
+      provider: this.name,
+      market_type: 'equity'
+    };
+  }
+
+  async getBars(symbol: string, request: BarRequest): Promise<MarketData[]> {
+    const isDaily = request.interval === '1d';
+    const params: { [key: string]: string } = isDaily
+      ? { function: 'TIME_SERIES_DAILY', symbol, outputsize: request.start ? 'full' : 'compact' }
+      : { function: 'TIME_SERIES_INTRADAY', symbol, interval: INTRADAY_INTERVALS[request.interval], outputsize: 'full' };
+
+    const data = await this.request(params);
+    const seriesKey = Object.keys(data || {}).find(key => key.startsWith('Time Series'));
+    if (!seriesKey) return [];
+
+    const series = data[seriesKey];
+    const bars: MarketData[] = Object.keys(series)
+      .map(time => ({
+        symbol,
+        timestamp: this.parseTimestamp(time, isDaily),
+        open: parseFloat(series[time]['1. open']),
+        high: parseFloat(series[time]['2. high']),
+        low: parseFloat(series[time]['3. low']),
+        close: parseFloat(series[time]['4. close']),
+        volume: parseInt(series[time]['5. volume']) || 0,
+        provider: this.name,
+        market_type: 'equity' as const,
+        timeframe: request.interval
+      }))
+      .filter(bar => bar.close > 0)
+      .filter(bar => !request.start || bar.timestamp >= request.start)
+      .filter(bar => !request.end || bar.timestamp <= request.end)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    return request.limit ? bars.slice(-request.limit) : bars;
+  }
+
+  /**
+   * Daily bars are keyed by date only; intraday ones by US/Eastern wall-clock
+   * time (`2024-07-01 09:30:00`), converted with the DST offset in effect.
+   */
+  private parseTimestamp(time: string, isDaily: boolean): Date {
+    if (isDaily) return new Date(`${time}T00:00:00Z`);
+    const [date, clock] = time.split(' ');
+    return zonedTimeToUtc(date, clock, EXCHANGE_TIME_ZONE);
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    const startTime = Date.now();
+    try {
+      const quote = await this.getQuote('IBM');
+      return {
+        provider: this.name,
+        status: quote ? 'healthy' : 'degraded',
+        latency_ms: Date.now() - startTime
+      };
+    } catch (error: any) {
+      return {
+        provider: this.name,
+        status: 'unhealthy',
+        latency_ms: Date.now() - startTime,
+        error: error.message
+      };
+    }
+  }
+
+  private async request(params: { [key: string]: string }): Promise<any> {
+    return this.guard.execute(async () => {
+      let response;
+      try {
+        response = await axios.get(this.baseUrl, {
+          params: { ...params, apikey: process.env.ALPHA_VANTAGE_KEY || 'demo' },
+          timeout: 8000
+        });
+      } catch (error: any) {
+        throw ProviderRequestError.from('Alpha Vantage request failed', error);
+      }
+
+      // Alpha Vantage reports throttling and bad symbols with HTTP 200
+      const throttled = response.data?.Note || response.data?.Information;
+      if (throttled) {
+        throw new ProviderRequestError(throttled, { status: 429, retryAfterMs: 60000 });
+      }
+      if (response.data?.['Error Message']) {
+        throw new Error(response.data['Error Message']);
+      }
+
+      return response.data;
+    });
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Binance REST provider (crypto spot pairs)
+ */
+import axios from 'axios';
+import { logger } from '../../utils/logger';
+import { MarketData } from '../../data_ingestor';
+import { BarRequest, MarketDataProvider, MarketQuote, MarketType, ProviderHealth } from './types';
+import { binanceRestUrls } from './endpoints';
+import { getProviderGuard, isTransientError, ProviderRequestError } from './provider-guard';
+
+export class BinanceProvider implements MarketDataProvider {
+  readonly name = 'binance';
+  readonly marketTypes: MarketType[] = ['crypto'];
+  readonly guard = getProviderGuard('binance');
+
+  private readonly MAX_KLINES_PER_REQUEST = 1000;
+  private preferredUrl = 0;
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    const data = await this.request('/api/v3/ticker/24hr', { symbol });
+    if (!data || data.symbol !== symbol) return null;
+
+    const price = parseFloat(data.lastPrice);
+    if (!(price > 0)) return null;
+
+    return {
+      symbol,
+      price,
+      volume: parseFloat(data.volume) || 0,
+      change_pct: parseFloat(data.priceChangePercent) || 0,
+      timestamp: new Date(parseInt(data.closeTime) || Date.now()),
+      provider: this.name,
+      market_type: 'crypto'
+    };
+  }
+
+  async getBars(symbol: string, request: BarRequest): Promise<MarketData[]> {
+    const params: { [key: string]: string | number } = {
+      symbol,
+      interval: request.interval,
+      limit: Math.min(request.limit || this.MAX_KLINES_PER_REQUEST, this.MAX_KLINES_PER_REQUEST)
+    };
+    if (request.start) params.startTime = request.start.getTime();
+    if (request.end) params.endTime = request.end.getTime();
+
+    const klines = await this.request('/api/v3/klines', params);
+    if (!Array.isArray(klines)) return [];
+
+    const bars: MarketData[] = [];
+    for (const kline of klines) {
+      const bar: MarketData = {
+        symbol,
+        timestamp: new Date(kline[0]),
+        open: parseFloat(kline[1]),
+        high: parseFloat(kline[2]),
+        low: parseFloat(kline[3]),
+        close: parseFloat(kline[4]),
+        volume: parseFloat(kline[5]),
+        provider: this.name,
+        market_type: 'crypto',
+        timeframe: request.interval
+      };
+
+      if (bar.close <= 0 || bar.volume < 0 || bar.high < bar.low) {
+        logger.warn(`Invalid Binance kline for ${symbol} at ${bar.timestamp.toISOString()}, skipping`);
+        continue;
+      }
+
+      bars.push(bar);
+    }
+
+    return bars;
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    const startTime = Date.now();
+    try {
+      await this.request('/api/v3/ping', {});
+      return { provider: this.name, status: 'healthy', latency_ms: Date.now() - startTime };
+    } catch (error: any) {
+      return {
+        provider: this.name,
+        status: 'unhealthy',
+        latency_ms: Date.now() - startTime,
+        error: error.message
+      };
+    }
+  }
+
+  private async request(path: string, params: { [key: string]: string | number }): Promise<any> {
+    return this.guard.execute(() => this.requestAnyMirror(path, params));
+  }
+
+  /**
+   * Try each mirror, starting from the last one that answered. A 429 or a bad
+   * request is returned straight away: mirrors share the same limits.
+   */
+  private async requestAnyMirror(path: string, params: { [key: string]: string | number }): Promise<any> {
+    const baseUrls = binanceRestUrls();
+    const start = this.preferredUrl < baseUrls.length ? this.preferredUrl : 0;
+    let lastError: any;
+
+    for (let i = 0; i < baseUrls.length; i++) {
+      const index = (start + i) % baseUrls.length;
+      const baseUrl = baseUrls[index];
+      try {
+        const response = await axios.get(`${baseUrl}${path}`, {
+          params,
+          timeout: 8000,
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (compatible; Elysian-Trading/1.0)',
+            'Accept': 'application/json'
+          }
+        });
+        this.preferredUrl = index;
+        return response.data;
+      } catch (error: any) {
+        lastError = error;
+        logger.debug(`Binance endpoint ${baseUrl}${path} failed:`, error.message);
+
+        const status = error.response?.status;
+        if (!isTransientError(error) || status === 429 || status === 418) {
+          throw ProviderRequestError.from(`Binance ${path} failed`, error);
+        }
+      }
+    }
+
+    throw ProviderRequestError.from('All Binance endpoints failed', lastError);
+  }
+}
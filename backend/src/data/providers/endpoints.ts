@@ -0,0 +1,38 @@
+/**
+ * Venue base URLs
+ * Each can be overridden from the environment (comma-separated where fallbacks
+ * are tried in order) so providers and streams can target the mock exchange.
+ */
+
+function fromEnv(name: string, defaults: string[]): string[] {
+  const value = process.env[name];
+  if (!value) return defaults;
+
+  const urls = value.split(',').map(url => url.trim().replace(/\/$/, '')).filter(Boolean);
+  return urls.length > 0 ? urls : defaults;
+}
+
+export function binanceRestUrls(): string[] {
+  return fromEnv('BINANCE_REST_URL', [
+    'https://api.binance.com',
+    'https://api1.binance.com',
+    'https://api2.binance.com',
+    'https://api3.binance.com',
+    'https://data-api.binance.vision'
+  ]);
+}
+
+export function binanceWsUrl(): string {
+  return fromEnv('BINANCE_WS_URL', ['wss://stream.binance.com:9443'])[0];
+}
+
+export function yahooChartUrls(): string[] {
+  return fromEnv('YAHOO_CHART_URL', [
+    'https://query1.finance.yahoo.com/v8/finance/chart',
+    'https://query2.finance.yahoo.com/v8/finance/chart'
+  ]);
+}
+
+export function coinGeckoUrl(): string {
+  return fromEnv('COINGECKO_API_URL', ['https://api.coingecko.com'])[0];
+}
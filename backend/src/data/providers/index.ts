@@ -0,0 +1,27 @@
+/**
+ * Market Data Providers
+ * Built-in providers are registered here; additional venues can call
+ * providerRegistry.register() at startup. In replay mode only the file-backed
+ * provider is registered so nothing reaches the network.
+ */
+import { providerRegistry } from './registry';
+import { YahooFinanceProvider } from './yahoo-provider';
+import { AlphaVantageProvider } from './alpha-vantage-provider';
+import { BinanceProvider } from './binance-provider';
+import { isReplayMode, replayProvider } from '../replay';
+
+if (isReplayMode()) {
+  providerRegistry.register(replayProvider);
+} else {
+  providerRegistry.register(new YahooFinanceProvider());
+  providerRegistry.register(new AlphaVantageProvider());
+  providerRegistry.register(new BinanceProvider());
+}
+
+export * from './types';
+export * from './endpoints';
+export { ProviderGuard, ProviderGuardStatus, ProviderLimits, ProviderRequestError, getProviderGuard, getProviderGuardStatuses, PROVIDER_LIMITS_CONFIG_KEY } from './provider-guard';
+export { providerRegistry, MarketDataProviderRegistry, ProviderPriorityConfig, PROVIDER_PRIORITY_CONFIG_KEY } from './registry';
+export { YahooFinanceProvider } from './yahoo-provider';
+export { AlphaVantageProvider } from './alpha-vantage-provider';
+export { BinanceProvider } from './binance-provider';
@@ -0,0 +1,378 @@
+/**
+ * Provider Guard
+ * Per-provider token bucket, retry with exponential backoff on 429/5xx and
+ * network errors, and a circuit breaker that opens after repeated failures
+ * and half-opens after a cooldown. Limits come from system_config
+ * 'provider_limits' ({ default: {...}, <provider>: {...} }).
+ */
+import { logger } from '../../utils/logger';
+import { getSystemConfig } from '../../utils/systemConfig';
+
+export const PROVIDER_LIMITS_CONFIG_KEY = 'provider_limits';
+
+export interface ProviderLimits {
+  requests_per_second: number;
+  burst: number;
+  max_wait_ms: number;          // give up rather than wait longer than this for a token
+  max_retries: number;
+  backoff_base_ms: number;
+  backoff_max_ms: number;
+  failure_threshold: number;    // consecutive failed requests that open the circuit
+  open_ms: number;              // first cooldown; doubles on each failed half-open trial
+  max_open_ms: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderGuardStatus {
+  provider: string;
+  circuit: {
+    state: CircuitState;
+    consecutive_failures: number;
+    opened_at: string | null;
+    retry_at: string | null;
+    times_opened: number;
+  };
+  rate_limit: {
+    tokens: number;
+    capacity: number;
+    requests_per_second: number;
+  };
+  requests: number;
+  failures: number;
+  retries: number;
+  throttled: number;            // 429s received
+  rejected: number;             // refused locally: circuit open or no token in time
+  last_error: string | null;
+  last_success_at: string | null;
+  last_failure_at: string | null;
+}
+
+const DEFAULT_LIMITS: ProviderLimits = {
+  requests_per_second: 5,
+  burst: 10,
+  max_wait_ms: 5000,
+  max_retries: 2,
+  backoff_base_ms: 500,
+  backoff_max_ms: 8000,
+  failure_threshold: 5,
+  open_ms: 30000,
+  max_open_ms: 10 * 60 * 1000
+};
+
+const PROVIDER_DEFAULTS: { [provider: string]: Partial<ProviderLimits> } = {
+  // 1200 request weight per minute
+  binance: { requests_per_second: 15, burst: 30 },
+  yahoo: { requests_per_second: 2, burst: 5 },
+  // Free tier: 5 requests per minute
+  alphavantage: { requests_per_second: 5 / 60, burst: 2, max_wait_ms: 1000, max_retries: 0 },
+  coingecko: { requests_per_second: 0.5, burst: 3, max_retries: 1 }
+};
+
+const NETWORK_ERROR_CODES = ['ECONNABORTED', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH', 'ERR_NETWORK'];
+
+/**
+ * Error carrying what the guard needs to decide whether to retry: the HTTP
+ * status, the network error code and any Retry-After the venue sent.
+ */
+export class ProviderRequestError extends Error {
+  status?: number;
+  code?: string;
+  retryAfterMs?: number;
+
+  constructor(message: string, details: { status?: number; code?: string; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'ProviderRequestError';
+    this.status = details.status;
+    this.code = details.code;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  /**
+   * Wrap an axios (or other) error, keeping its status, code and Retry-After.
+   */
+  static from(message: string, cause: any): ProviderRequestError {
+    const retryAfter = cause?.response?.headers?.['retry-after'];
+    const retryAfterSeconds = retryAfter !== undefined ? parseFloat(retryAfter) : NaN;
+
+    return new ProviderRequestError(`${message}: ${cause?.message || 'unknown error'}`, {
+      status: cause?.status ?? cause?.response?.status,
+      code: cause?.code,
+      retryAfterMs: cause?.retryAfterMs ?? (Number.isFinite(retryAfterSeconds) ? retryAfterSeconds * 1000 : undefined)
+    });
+  }
+}
+
+/**
+ * Whether an error says the venue is throttled, failing or unreachable, as
+ * opposed to a bad request that would fail the same way on retry.
+ */
+export function isTransientError(error: any): boolean {
+  const status = error?.status ?? error?.response?.status;
+  if (status !== undefined) {
+    return status === 429 || status === 418 || status >= 500;
+  }
+  return NETWORK_ERROR_CODES.includes(error?.code);
+}
+
+function isThrottled(error: any): boolean {
+  const status = error?.status ?? error?.response?.status;
+  return status === 429 || status === 418;
+}
+
+export class ProviderGuard {
+  readonly provider: string;
+  private limits: ProviderLimits;
+  private limitsLoadedAt: number = 0;
+  private readonly LIMITS_TTL_MS = 5 * 60 * 1000;
+
+  private tokens: number;
+  private lastRefill: number = Date.now();
+
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private retryAt: number | null = null;
+  private currentOpenMs: number;
+  private timesOpened = 0;
+  private halfOpenTrialInFlight = false;
+
+  private counters = { requests: 0, failures: 0, retries: 0, throttled: 0, rejected: 0 };
+  private lastError: string | null = null;
+  private lastSuccessAt: number | null = null;
+  private lastFailureAt: number | null = null;
+
+  constructor(provider: string, limits: Partial<ProviderLimits> = {}) {
+    this.provider = provider;
+    this.limits = { ...DEFAULT_LIMITS, ...(PROVIDER_DEFAULTS[provider] || {}), ...limits };
+    this.tokens = this.limits.burst;
+    this.currentOpenMs = this.limits.open_ms;
+  }
+
+  /**
+   * Run a request under the guard. Fails fast while the circuit is open or
+   * when no token frees up within max_wait_ms, so callers can move on to the
+   * next provider instead of waiting on this one.
+   */
+  async execute<T>(request: () => Promise<T>): Promise<T> {
+    await this.refreshLimits();
+
+    if (!this.allowRequest()) {
+      this.counters.rejected++;
+      throw new ProviderRequestError(
+        `${this.provider} circuit open until ${new Date(this.retryAt!).toISOString()}`,
+        { code: 'CIRCUIT_OPEN' }
+      );
+    }
+
+    let attempt = 0;
+    while (true) {
+      if (!(await this.takeToken())) {
+        this.counters.rejected++;
+        this.releaseHalfOpenTrial();
+        throw new ProviderRequestError(`${this.provider} rate limit budget exhausted`, { code: 'RATE_LIMITED_LOCAL' });
+      }
+
+      this.counters.requests++;
+      try {
+        const result = await request();
+        this.recordSuccess();
+        return result;
+      } catch (error: any) {
+        if (!isTransientError(error)) {
+          // The venue answered, so it is up; the request itself was bad
+          this.recordSuccess();
+          throw error;
+        }
+
+        if (isThrottled(error)) {
+          this.counters.throttled++;
+          // Drain the bucket so concurrent callers back off too
+          this.tokens = 0;
+        }
+
+        const delay = this.backoffDelay(attempt, error);
+        if (attempt >= this.limits.max_retries || delay === null || this.state === 'half_open') {
+          this.recordFailure(error);
+          throw error;
+        }
+
+        attempt++;
+        this.counters.retries++;
+        logger.debug(`⏳ ${this.provider} request failed (${error.message}), retry ${attempt}/${this.limits.max_retries} in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  isOpen(): boolean {
+    return this.state === 'open' && this.retryAt !== null && Date.now() < this.retryAt;
+  }
+
+  getStatus(): ProviderGuardStatus {
+    this.refill();
+    // Report a cooled-down breaker as half-open even before the next request
+    const state: CircuitState = this.state === 'open' && !this.isOpen() ? 'half_open' : this.state;
+
+    return {
+      provider: this.provider,
+      circuit: {
+        state,
+        consecutive_failures: this.consecutiveFailures,
+        opened_at: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+        retry_at: this.retryAt ? new Date(this.retryAt).toISOString() : null,
+        times_opened: this.timesOpened
+      },
+      rate_limit: {
+        tokens: parseFloat(this.tokens.toFixed(2)),
+        capacity: this.limits.burst,
+        requests_per_second: this.limits.requests_per_second
+      },
+      ...this.counters,
+      last_error: this.lastError,
+      last_success_at: this.lastSuccessAt ? new Date(this.lastSuccessAt).toISOString() : null,
+      last_failure_at: this.lastFailureAt ? new Date(this.lastFailureAt).toISOString() : null
+    };
+  }
+
+  getLimits(): ProviderLimits {
+    return { ...this.limits };
+  }
+
+  private allowRequest(): boolean {
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'open') {
+      if (this.isOpen()) return false;
+      this.state = 'half_open';
+      logger.info(`🟡 ${this.provider} circuit half-open, sending a trial request`);
+    }
+
+    // Half-open: a single trial request at a time
+    if (this.halfOpenTrialInFlight) return false;
+    this.halfOpenTrialInFlight = true;
+    return true;
+  }
+
+  private releaseHalfOpenTrial(): void {
+    this.halfOpenTrialInFlight = false;
+  }
+
+  private recordSuccess(): void {
+    if (this.state === 'half_open') {
+      logger.info(`🟢 ${this.provider} circuit closed after a successful trial`);
+    }
+
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.retryAt = null;
+    this.currentOpenMs = this.limits.open_ms;
+    this.halfOpenTrialInFlight = false;
+    this.lastSuccessAt = Date.now();
+  }
+
+  private recordFailure(error: any): void {
+    this.counters.failures++;
+    this.consecutiveFailures++;
+    this.lastError = error?.message || 'unknown error';
+    this.lastFailureAt = Date.now();
+
+    if (this.state === 'half_open') {
+      this.currentOpenMs = Math.min(this.currentOpenMs * 2, this.limits.max_open_ms);
+      this.open();
+    } else if (this.consecutiveFailures >= this.limits.failure_threshold) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    const now = Date.now();
+    this.state = 'open';
+    this.openedAt = now;
+    this.retryAt = now + this.currentOpenMs;
+    this.timesOpened++;
+    this.halfOpenTrialInFlight = false;
+    logger.warn(`🔴 ${this.provider} circuit open for ${Math.round(this.currentOpenMs / 1000)}s after ${this.consecutiveFailures} consecutive failures: ${this.lastError}`);
+  }
+
+  /**
+   * Exponential backoff with jitter; a Retry-After longer than backoff_max_ms
+   * means this request is not worth retrying (null).
+   */
+  private backoffDelay(attempt: number, error: any): number | null {
+    const retryAfterMs: number | undefined = error?.retryAfterMs;
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs > this.limits.backoff_max_ms ? null : retryAfterMs;
+    }
+
+    const exponential = Math.min(this.limits.backoff_base_ms * Math.pow(2, attempt), this.limits.backoff_max_ms);
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.limits.burst, this.tokens + elapsedSeconds * this.limits.requests_per_second);
+    this.lastRefill = now;
+  }
+
+  private async takeToken(): Promise<boolean> {
+    this.refill();
+
+    if (this.tokens < 1) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.limits.requests_per_second) * 1000);
+      if (waitMs > this.limits.max_wait_ms) return false;
+
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+      this.refill();
+      if (this.tokens < 1) return false;
+    }
+
+    this.tokens -= 1;
+    return true;
+  }
+
+  private async refreshLimits(): Promise<void> {
+    if (Date.now() - this.limitsLoadedAt < this.LIMITS_TTL_MS) return;
+    this.limitsLoadedAt = Date.now();
+
+    const config = await getSystemConfig<{ [key: string]: Partial<ProviderLimits> }>(PROVIDER_LIMITS_CONFIG_KEY, {});
+    const previousOpenMs = this.limits.open_ms;
+
+    this.limits = {
+      ...DEFAULT_LIMITS,
+      ...(PROVIDER_DEFAULTS[this.provider] || {}),
+      ...(config.default || {}),
+      ...(config[this.provider] || {})
+    };
+    this.tokens = Math.min(this.tokens, this.limits.burst);
+    if (this.currentOpenMs === previousOpenMs) {
+      this.currentOpenMs = this.limits.open_ms;
+    }
+  }
+}
+
+const guards: Map<string, ProviderGuard> = new Map();
+
+/**
+ * The shared guard for a venue. Everything that calls the venue (providers,
+ * stream fallbacks) should go through the same guard so its budget and
+ * breaker reflect all traffic.
+ */
+export function getProviderGuard(provider: string): ProviderGuard {
+  let guard = guards.get(provider);
+  if (!guard) {
+    guard = new ProviderGuard(provider);
+    guards.set(provider, guard);
+  }
+  return guard;
+}
+
+export function getProviderGuardStatuses(): { [provider: string]: ProviderGuardStatus } {
+  const statuses: { [provider: string]: ProviderGuardStatus } = {};
+  for (const [name, guard] of guards.entries()) {
+    statuses[name] = guard.getStatus();
+  }
+  return statuses;
+}
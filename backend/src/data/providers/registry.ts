@@ -0,0 +1,164 @@
+/**
+ * Market Data Provider Registry
+ * Resolves per-symbol / per-market provider priority from system_config
+ */
+import { logger } from '../../utils/logger';
+import { getSystemConfig } from '../../utils/systemConfig';
+import { MarketData } from '../../data_ingestor';
+import { BarRequest, MarketDataProvider, MarketQuote, MarketType, ProviderHealth } from './types';
+
+export interface ProviderPriorityConfig {
+  markets: { [key in MarketType]: string[] };
+  symbols: { [symbol: string]: string[] };
+}
+
+export const PROVIDER_PRIORITY_CONFIG_KEY = 'market_data_providers';
+
+const DEFAULT_PRIORITY: ProviderPriorityConfig = {
+  markets: {
+    equity: ['yahoo', 'alphavantage'],
+    crypto: ['binance']
+  },
+  symbols: {}
+};
+
+export class MarketDataProviderRegistry {
+  private providers: Map<string, MarketDataProvider> = new Map();
+  private priority: ProviderPriorityConfig = DEFAULT_PRIORITY;
+  private priorityLoadedAt: number = 0;
+  private readonly PRIORITY_TTL_MS = 5 * 60 * 1000;
+
+  register(provider: MarketDataProvider): void {
+    if (this.providers.has(provider.name)) {
+      logger.warn(`Replacing registered market data provider '${provider.name}'`);
+    }
+    this.providers.set(provider.name, provider);
+    logger.debug(`🔌 Registered market data provider '${provider.name}' (${provider.marketTypes.join(', ')})`);
+  }
+
+  unregister(name: string): void {
+    this.providers.delete(name);
+  }
+
+  get(name: string): MarketDataProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  list(): MarketDataProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  async reloadPriority(): Promise<ProviderPriorityConfig> {
+    const config = await getSystemConfig<Partial<ProviderPriorityConfig>>(PROVIDER_PRIORITY_CONFIG_KEY, {});
+
+    this.priority = {
+      markets: { ...DEFAULT_PRIORITY.markets, ...(config.markets || {}) },
+      symbols: { ...(config.symbols || {}) }
+    };
+    this.priorityLoadedAt = Date.now();
+
+    return this.priority;
+  }
+
+  /**
+   * Ordered providers for a symbol: symbol overrides first, then the market
+   * default, then any other registered provider that serves the market.
+   */
+  async getProvidersFor(symbol: string, marketType: MarketType): Promise<MarketDataProvider[]> {
+    if (Date.now() - this.priorityLoadedAt > this.PRIORITY_TTL_MS) {
+      await this.reloadPriority();
+    }
+
+    const names = [
+      ...(this.priority.symbols[symbol] || []),
+      ...(this.priority.markets[marketType] || []),
+      ...this.list().filter(p => p.marketTypes.includes(marketType)).map(p => p.name)
+    ];
+
+    const ordered: MarketDataProvider[] = [];
+    for (const name of names) {
+      const provider = this.providers.get(name);
+      if (provider && provider.marketTypes.includes(marketType) && !ordered.includes(provider)) {
+        ordered.push(provider);
+      }
+    }
+
+    return ordered;
+  }
+
+  async getQuote(symbol: string, marketType: MarketType): Promise<MarketQuote | null> {
+    for (const provider of await this.getProvidersFor(symbol, marketType)) {
+      try {
+        const quote = await provider.getQuote(symbol);
+        if (quote) return quote;
+      } catch (error: any) {
+        logger.debug(`Provider ${provider.name} quote failed for ${symbol}:`, error.message);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * First non-empty result wins. Throws only when every provider errored, so
+   * callers can tell an outage apart from a range that simply has no bars.
+   */
+  async getBars(symbol: string, marketType: MarketType, request: BarRequest): Promise<MarketData[]> {
+    let answered = false;
+    let lastError: any;
+
+    for (const provider of await this.getProvidersFor(symbol, marketType)) {
+      try {
+        const bars = await provider.getBars(symbol, request);
+        answered = true;
+        if (bars.length > 0) return bars;
+      } catch (error: any) {
+        lastError = error;
+        logger.debug(`Provider ${provider.name} bars failed for ${symbol}:`, error.message);
+      }
+    }
+
+    if (!answered && lastError) {
+      throw lastError;
+    }
+    return [];
+  }
+
+  async getLatestBar(symbol: string, marketType: MarketType): Promise<MarketData | null> {
+    try {
+      const bars = await this.getBars(symbol, marketType, { interval: '1d', limit: 2 });
+      return bars.length > 0 ? bars[bars.length - 1] : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Providers whose circuit is open are reported without being called, so a
+   * venue outage doesn't hold up the health check.
+   */
+  async healthCheck(): Promise<{ [provider: string]: ProviderHealth }> {
+    const results: { [provider: string]: ProviderHealth } = {};
+
+    for (const provider of this.list()) {
+      if (provider.guard?.isOpen()) {
+        const guard = provider.guard.getStatus();
+        results[provider.name] = {
+          provider: provider.name,
+          status: 'unhealthy',
+          latency_ms: 0,
+          error: `Circuit open until ${guard.circuit.retry_at}: ${guard.last_error}`,
+          guard
+        };
+        continue;
+      }
+
+      const health = await provider.healthCheck();
+      results[provider.name] = provider.guard ? { ...health, guard: provider.guard.getStatus() } : health;
+    }
+
+    return results;
+  }
+}
+
+export const providerRegistry = new MarketDataProviderRegistry();
@@ -0,0 +1,52 @@
+/**
+ * Market Data Provider Contract
+ */
+import { MarketData } from '../../data_ingestor';
+import { ProviderGuard, ProviderGuardStatus } from './provider-guard';
+
+export type MarketType = 'equity' | 'crypto';
+
+export type BarInterval = '1m' | '5m' | '15m' | '1h' | '1d';
+
+export const BAR_INTERVAL_MS: { [key in BarInterval]: number } = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+export interface MarketQuote {
+  symbol: string;
+  price: number;
+  volume: number;
+  change_pct: number;
+  timestamp: Date;
+  provider: string;
+  market_type: MarketType;
+}
+
+export interface BarRequest {
+  interval: BarInterval;
+  start?: Date;
+  end?: Date;
+  limit?: number;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  latency_ms: number;
+  error?: string;
+  guard?: ProviderGuardStatus;
+}
+
+export interface MarketDataProvider {
+  readonly name: string;
+  readonly marketTypes: MarketType[];
+  readonly guard?: ProviderGuard;      // network providers: rate limit and circuit breaker
+
+  getQuote(symbol: string): Promise<MarketQuote | null>;
+  getBars(symbol: string, request: BarRequest): Promise<MarketData[]>;
+  healthCheck(): Promise<ProviderHealth>;
+}
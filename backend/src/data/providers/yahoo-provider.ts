@@ -0,0 +1,151 @@
+/**
+ * Yahoo Finance v8 chart provider (equities)
+ */
+import axios from 'axios';
+import { logger } from '../../utils/logger';
+import { MarketData } from '../../data_ingestor';
+import { BarInterval, BarRequest, MarketDataProvider, MarketQuote, MarketType, ProviderHealth } from './types';
+import { yahooChartUrls } from './endpoints';
+import { getProviderGuard, isTransientError, ProviderRequestError } from './provider-guard';
+
+const YAHOO_INTERVALS: { [key in BarInterval]: string } = {
+  '1m': '1m',
+  '5m': '5m',
+  '15m': '15m',
+  '1h': '60m',
+  '1d': '1d'
+};
+
+export class YahooFinanceProvider implements MarketDataProvider {
+  readonly name = 'yahoo';
+  readonly marketTypes: MarketType[] = ['equity'];
+  readonly guard = getProviderGuard('yahoo');
+
+  private preferredEndpoint = 0;
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    const result = await this.fetchChart(symbol, { interval: '1d', range: '2d' });
+    if (!result) return null;
+
+    const meta = result.meta || {};
+    const quote = result.indicators?.quote?.[0] || {};
+    const closes: number[] = (quote.close || []).filter((c: number | null) => c != null);
+    const volumes: number[] = (quote.volume || []).filter((v: number | null) => v != null);
+
+    const price = meta.regularMarketPrice || closes[closes.length - 1];
+    if (!price || price <= 0) return null;
+
+    const previousClose = meta.chartPreviousClose || meta.previousClose;
+    const changePct = previousClose ? ((price - previousClose) / previousClose) * 100 : 0;
+
+    return {
+      symbol,
+      price,
+      volume: meta.regularMarketVolume || volumes[volumes.length - 1] || 0,
+      change_pct: changePct,
+      timestamp: meta.regularMarketTime ? new Date(meta.regularMarketTime * 1000) : new Date(),
+      provider: this.name,
+      market_type: 'equity'
+    };
+  }
+
+  async getBars(symbol: string, request: BarRequest): Promise<MarketData[]> {
+    const params: { [key: string]: string } = { interval: YAHOO_INTERVALS[request.interval] };
+
+    if (request.start) {
+      params.period1 = Math.floor(request.start.getTime() / 1000).toString();
+      params.period2 = Math.floor((request.end || new Date()).getTime() / 1000).toString();
+    } else {
+      params.range = request.interval === '1d' ? '5d' : '1d';
+    }
+
+    const result = await this.fetchChart(symbol, params);
+    if (!result) return [];
+
+    const timestamps: number[] = result.timestamp || [];
+    const quotes = result.indicators?.quote?.[0];
+    if (!quotes || timestamps.length === 0) return [];
+
+    const bars: MarketData[] = [];
+    for (let i = 0; i < timestamps.length; i++) {
+      const open = quotes.open?.[i];
+      const high = quotes.high?.[i];
+      const low = quotes.low?.[i];
+      const close = quotes.close?.[i];
+
+      // Yahoo pads halted or partial intervals with nulls
+      if (!open || !high || !low || !close || open <= 0 || close <= 0) continue;
+
+      bars.push({
+        symbol,
+        timestamp: new Date(timestamps[i] * 1000),
+        open: parseFloat(open.toFixed(4)),
+        high: parseFloat(high.toFixed(4)),
+        low: parseFloat(low.toFixed(4)),
+        close: parseFloat(close.toFixed(4)),
+        volume: parseInt(quotes.volume?.[i]) || 0,
+        provider: this.name,
+        market_type: 'equity',
+        timeframe: request.interval
+      });
+    }
+
+    return request.limit ? bars.slice(-request.limit) : bars;
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    const startTime = Date.now();
+    try {
+      const quote = await this.getQuote('AAPL');
+      return {
+        provider: this.name,
+        status: quote ? 'healthy' : 'degraded',
+        latency_ms: Date.now() - startTime
+      };
+    } catch (error: any) {
+      return {
+        provider: this.name,
+        status: 'unhealthy',
+        latency_ms: Date.now() - startTime,
+        error: error.message
+      };
+    }
+  }
+
+  private async fetchChart(symbol: string, params: { [key: string]: string }): Promise<any | null> {
+    return this.guard.execute(() => this.fetchChartAnyEndpoint(symbol, params));
+  }
+
+  private async fetchChartAnyEndpoint(symbol: string, params: { [key: string]: string }): Promise<any | null> {
+    const endpoints = yahooChartUrls();
+    const start = this.preferredEndpoint < endpoints.length ? this.preferredEndpoint : 0;
+    let lastError: any;
+
+    for (let i = 0; i < endpoints.length; i++) {
+      const index = (start + i) % endpoints.length;
+      const endpoint = endpoints[index];
+      try {
+        const response = await axios.get(`${endpoint}/${symbol}`, {
+          params,
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+          },
+          timeout: 10000
+        });
+
+        this.preferredEndpoint = index;
+        return response.data?.chart?.result?.[0] || null;
+      } catch (error: any) {
+        lastError = error;
+        logger.debug(`Yahoo endpoint ${endpoint} failed for ${symbol}:`, error.message);
+
+        // Unknown symbols and throttling look the same on every endpoint
+        if (!isTransientError(error) || error.response?.status === 429) {
+          throw ProviderRequestError.from(`Yahoo Finance chart for ${symbol} failed`, error);
+        }
+      }
+    }
+
+    throw ProviderRequestError.from('All Yahoo Finance endpoints failed', lastError);
+  }
+}
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { MarketData } from '../../../data_ingestor';
+
+const query = jest.fn<(sql: string, params?: any[]) => Promise<{ rows: any[] }>>();
+
+jest.mock('../../../utils/database', () => ({
+  DatabaseManager: { query: (sql: string, params?: any[]) => query(sql, params) }
+}));
+
+import { DataQualityGate } from '../data-quality-gate';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+function bar(day: number, close: number): MarketData {
+  return {
+    symbol: 'AAPL',
+    timestamp: new Date(START + day * DAY_MS),
+    open: close,
+    high: close * 1.002,
+    low: close * 0.998,
+    close,
+    volume: 1000,
+    provider: 'test',
+    market_type: 'equity',
+    timeframe: '1d'
+  };
+}
+
+// 21 stored closes oscillating around 100 (about 0.5% daily moves)
+const storedCloses = Array.from({ length: 21 }, (_, i) => 100 + (i % 2 === 0 ? 0.5 : -0.5));
+
+function mockDatabase(quarantined: number[] = []): void {
+  query.mockImplementation(async (sql: string) => {
+    if (sql.includes('system_config')) return { rows: [] };
+    if (sql.includes('market_data_quarantine')) {
+      return { rows: [...quarantined].reverse().map(close => ({ close: String(close) })) };
+    }
+    // Stored history comes back newest first
+    return { rows: [...storedCloses].reverse().map(close => ({ close: String(close) })) };
+  });
+}
+
+describe('DataQualityGate spike check', () => {
+  let gate: DataQualityGate;
+
+  beforeEach(() => {
+    query.mockReset();
+    gate = new DataQualityGate();
+  });
+
+  it('rejects a one-bar spike that reverts', async () => {
+    mockDatabase();
+    const { accepted, rejected } = await gate.validateSeries([bar(21, 150), bar(22, 100.2)]);
+
+    expect(rejected.map(r => r.bar.close)).toEqual([150]);
+    expect(rejected[0].issues.map(issue => issue.check)).toEqual(['price_spike']);
+    expect(accepted.map(b => b.close)).toEqual([100.2]);
+  });
+
+  it('accepts a gap once the next bar confirms the new level', async () => {
+    mockDatabase();
+    const { accepted, rejected } = await gate.validateSeries([
+      bar(21, 120),
+      bar(22, 120.5),
+      bar(23, 121),
+      bar(24, 120.4)
+    ]);
+
+    expect(rejected.map(r => r.bar.close)).toEqual([120]);
+    expect(accepted.map(b => b.close)).toEqual([120.5, 121, 120.4]);
+  });
+
+  it('does not confirm a level from spikes in opposite directions', async () => {
+    mockDatabase();
+    const { accepted, rejected } = await gate.validateSeries([bar(21, 120), bar(22, 80)]);
+
+    expect(accepted).toEqual([]);
+    expect(rejected.map(r => r.bar.close)).toEqual([120, 80]);
+  });
+
+  it('accepts a live bar confirmed by a spike quarantined since the last stored close', async () => {
+    mockDatabase();
+    expect((await gate.validate(bar(21, 120))).issues.map(issue => issue.check)).toContain('price_spike');
+
+    mockDatabase([120]);
+    const result = await gate.validate(bar(22, 120.5));
+    expect(result.issues.filter(issue => issue.check === 'price_spike')).toEqual([]);
+  });
+
+  it('still flags zero volume unless the series allows it', async () => {
+    mockDatabase();
+    const quiet = { ...bar(21, 100.1), volume: 0 };
+
+    expect((await gate.validateSeries([quiet])).rejected[0].issues.map(issue => issue.check)).toEqual(['zero_volume']);
+    expect((await gate.validateSeries([quiet], { allowZeroVolume: true })).accepted).toHaveLength(1);
+  });
+});
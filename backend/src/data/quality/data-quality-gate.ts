@@ -0,0 +1,320 @@
+/**
+ * Data Quality Gate
+ * Validates incoming bars before they reach market_data; failures are quarantined with a reason
+ */
+import { logger } from '../../utils/logger';
+import { DatabaseManager } from '../../utils/database';
+import { getSystemConfig } from '../../utils/systemConfig';
+import { MarketData } from '../../data_ingestor';
+import { BAR_INTERVAL_MS, MarketType } from '../providers/types';
+import { isReplayMode, replayDataSet } from '../replay';
+
+export type QualityCheck = 'ohlc_consistency' | 'zero_volume' | 'stale' | 'price_spike';
+
+export interface QualityIssue {
+  check: QualityCheck;
+  detail: string;
+}
+
+export interface QualityResult {
+  passed: boolean;
+  issues: QualityIssue[];
+}
+
+export interface DataQualityThresholds {
+  spike_sigma: number;
+  min_spike_pct: number;
+  spike_lookback_bars: number;
+  spike_confirm_bars: number;
+  min_history_bars: number;
+  max_age_hours: { [key in MarketType]: number };
+}
+
+export interface QuarantinedBar extends MarketData {
+  id: number;
+  reasons: QualityIssue[];
+  occurrences: number;
+  first_seen_at: Date;
+  last_seen_at: Date;
+}
+
+export const DATA_QUALITY_CONFIG_KEY = 'data_quality_thresholds';
+
+const DEFAULT_THRESHOLDS: DataQualityThresholds = {
+  spike_sigma: 6,
+  min_spike_pct: 5,
+  spike_lookback_bars: 20,
+  spike_confirm_bars: 2,
+  min_history_bars: 10,
+  max_age_hours: { equity: 96, crypto: 36 }
+};
+
+export class DataQualityGate {
+  private thresholds: DataQualityThresholds = DEFAULT_THRESHOLDS;
+  private thresholdsLoadedAt = 0;
+  private readonly THRESHOLDS_TTL_MS = 5 * 60 * 1000;
+
+  /**
+   * Validate the latest bar for a symbol, including staleness and a spike
+   * check against recent verified history in market_data and the spike bars
+   * quarantined since.
+   */
+  async validate(bar: MarketData): Promise<QualityResult> {
+    const thresholds = await this.getThresholds();
+    const history = await this.getRecentCloses(bar, thresholds.spike_lookback_bars + 1);
+    const unconfirmed = await this.getUnconfirmedSpikes(bar, thresholds.spike_confirm_bars);
+
+    const issues = [
+      ...this.checkBar(bar),
+      ...this.checkStaleness(bar, thresholds),
+      ...this.checkSpike(bar, history, unconfirmed, thresholds)
+    ];
+
+    return { passed: issues.length === 0, issues };
+  }
+
+  /**
+   * Validate a historical series (e.g. a backfill chunk). Staleness does not
+   * apply; each bar's spike check uses the bars accepted before it and the
+   * spike bars rejected since.
+   * `allowZeroVolume` skips the volume check for sources where an empty
+   * interval is legitimate, such as tick-aggregated bars.
+   */
+  async validateSeries(
+    bars: MarketData[],
+    options: { allowZeroVolume?: boolean } = {}
+  ): Promise<{ accepted: MarketData[]; rejected: { bar: MarketData; issues: QualityIssue[] }[] }> {
+    const accepted: MarketData[] = [];
+    const rejected: { bar: MarketData; issues: QualityIssue[] }[] = [];
+    if (bars.length === 0) return { accepted, rejected };
+
+    const thresholds = await this.getThresholds();
+    const sorted = [...bars].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const closes = await this.getRecentCloses(sorted[0], thresholds.spike_lookback_bars + 1);
+    let unconfirmed = await this.getUnconfirmedSpikes(sorted[0], thresholds.spike_confirm_bars);
+
+    for (const bar of sorted) {
+      const issues = [
+        ...this.checkBar(bar, options.allowZeroVolume),
+        ...this.checkSpike(bar, closes.slice(-(thresholds.spike_lookback_bars + 1)), unconfirmed, thresholds)
+      ];
+
+      if (issues.length === 0) {
+        accepted.push(bar);
+        closes.push(bar.close);
+        unconfirmed = [];
+      } else {
+        rejected.push({ bar, issues });
+        if (issues.every(issue => issue.check === 'price_spike')) {
+          unconfirmed.push(bar.close);
+        }
+      }
+    }
+
+    return { accepted, rejected };
+  }
+
+  private checkBar(bar: MarketData, allowZeroVolume: boolean = false): QualityIssue[] {
+    const issues: QualityIssue[] = [];
+    const prices = [bar.open, bar.high, bar.low, bar.close];
+
+    if (prices.some(p => !isFinite(p) || p <= 0)) {
+      issues.push({ check: 'ohlc_consistency', detail: 'non-positive or missing price' });
+    } else if (bar.high < Math.max(bar.open, bar.close) || bar.low > Math.min(bar.open, bar.close)) {
+      issues.push({
+        check: 'ohlc_consistency',
+        detail: `high ${bar.high} / low ${bar.low} do not bracket open ${bar.open} / close ${bar.close}`
+      });
+    }
+
+    if (!allowZeroVolume && !(bar.volume > 0)) {
+      issues.push({ check: 'zero_volume', detail: `volume ${bar.volume}` });
+    }
+
+    return issues;
+  }
+
+  private checkStaleness(bar: MarketData, thresholds: DataQualityThresholds): QualityIssue[] {
+    const now = this.currentTime();
+    if (!now) return [];
+
+    // A bar is dated at its open, so allow its own span on top of the market limit
+    const span = BAR_INTERVAL_MS[bar.timeframe || '1d'];
+    const maxAgeMs = thresholds.max_age_hours[bar.market_type] * 60 * 60 * 1000 + span;
+    const ageMs = now.getTime() - bar.timestamp.getTime();
+
+    if (ageMs > maxAgeMs) {
+      return [{ check: 'stale', detail: `bar is ${(ageMs / 3600000).toFixed(1)}h old` }];
+    }
+    return [];
+  }
+
+  /**
+   * Flag a close whose move from the previous close is far outside recent
+   * volatility. Needs enough history to estimate volatility; otherwise passes.
+   * A move that holds is a new level (e.g. an earnings gap) rather than a bad
+   * print: the bar passes once the last `spike_confirm_bars - 1` rejected
+   * spike closes since the reference all sit within the limit of it.
+   */
+  private checkSpike(bar: MarketData, closes: number[], unconfirmed: number[], thresholds: DataQualityThresholds): QualityIssue[] {
+    if (closes.length < thresholds.min_history_bars + 1 || !(bar.close > 0)) return [];
+
+    const returns: number[] = [];
+    for (let i = 1; i < closes.length; i++) {
+      returns.push(Math.log(closes[i] / closes[i - 1]));
+    }
+
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const sigma = Math.sqrt(returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / returns.length);
+
+    const previous = closes[closes.length - 1];
+    const move = Math.abs(Math.log(bar.close / previous));
+    const limit = Math.max(thresholds.spike_sigma * sigma, Math.log(1 + thresholds.min_spike_pct / 100));
+
+    if (move > limit) {
+      const confirming = unconfirmed.slice(-(thresholds.spike_confirm_bars - 1));
+      const confirmed = thresholds.spike_confirm_bars > 1 &&
+        confirming.length === thresholds.spike_confirm_bars - 1 &&
+        confirming.every(close => Math.abs(Math.log(bar.close / close)) <= limit);
+      if (confirmed) {
+        logger.info(`📶 ${bar.symbol} ${bar.timeframe || '1d'} level change from ${previous} to ${bar.close} confirmed over ${thresholds.spike_confirm_bars} bars`);
+        return [];
+      }
+
+      return [{
+        check: 'price_spike',
+        detail: `${((Math.exp(move) - 1) * 100).toFixed(2)}% move vs ${previous}, limit ${((Math.exp(limit) - 1) * 100).toFixed(2)}%`
+      }];
+    }
+    return [];
+  }
+
+  async quarantine(bar: MarketData, issues: QualityIssue[]): Promise<void> {
+    try {
+      await DatabaseManager.query(`
+        INSERT INTO market_data_quarantine
+          (symbol, market_type, timeframe, timestamp, open, high, low, close, volume, provider, reasons)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        ON CONFLICT (symbol, timeframe, timestamp, provider) DO UPDATE SET
+          reasons = EXCLUDED.reasons,
+          occurrences = market_data_quarantine.occurrences + 1,
+          last_seen_at = NOW()
+      `, [
+        bar.symbol,
+        bar.market_type,
+        bar.timeframe || '1d',
+        bar.timestamp,
+        isFinite(bar.open) ? bar.open : null,
+        isFinite(bar.high) ? bar.high : null,
+        isFinite(bar.low) ? bar.low : null,
+        isFinite(bar.close) ? bar.close : null,
+        isFinite(bar.volume) ? bar.volume : null,
+        bar.provider,
+        JSON.stringify(issues)
+      ]);
+
+      logger.warn(`🚧 Quarantined ${bar.symbol} ${bar.timeframe || '1d'} bar from ${bar.provider}: ${issues.map(i => `${i.check} (${i.detail})`).join('; ')}`);
+    } catch (error) {
+      logger.error(`Failed to quarantine bar for ${bar.symbol}:`, error);
+    }
+  }
+
+  async listQuarantine(limit: number = 50, symbol?: string): Promise<QuarantinedBar[]> {
+    const params: any[] = [limit];
+    let where = '';
+    if (symbol) {
+      where = 'WHERE symbol = $2';
+      params.push(symbol);
+    }
+
+    const result = await DatabaseManager.query(
+      `SELECT * FROM market_data_quarantine ${where} ORDER BY last_seen_at DESC LIMIT $1`,
+      params
+    );
+
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      symbol: row.symbol,
+      market_type: row.market_type,
+      timeframe: row.timeframe,
+      timestamp: new Date(row.timestamp),
+      open: parseFloat(row.open),
+      high: parseFloat(row.high),
+      low: parseFloat(row.low),
+      close: parseFloat(row.close),
+      volume: parseFloat(row.volume),
+      provider: row.provider,
+      reasons: typeof row.reasons === 'string' ? JSON.parse(row.reasons) : row.reasons,
+      occurrences: parseInt(row.occurrences),
+      first_seen_at: new Date(row.first_seen_at),
+      last_seen_at: new Date(row.last_seen_at)
+    }));
+  }
+
+  private async getRecentCloses(bar: MarketData, limit: number): Promise<number[]> {
+    try {
+      const result = await DatabaseManager.query(`
+        SELECT DISTINCT ON (timestamp) timestamp, close
+        FROM market_data
+        WHERE symbol = $1 AND timeframe = $2 AND timestamp < $3
+        ORDER BY timestamp DESC, (provider = 'tick_aggregator') ASC
+        LIMIT $4
+      `, [bar.symbol, bar.timeframe || '1d', bar.timestamp, limit]);
+
+      return result.rows.reverse().map((row: any) => parseFloat(row.close));
+    } catch (error) {
+      logger.debug(`Failed to load history for spike check on ${bar.symbol}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Closes of the most recent bars quarantined only for a price spike after
+   * the last stored bar before `bar`, oldest first: the candidates for a new
+   * price level.
+   */
+  private async getUnconfirmedSpikes(bar: MarketData, limit: number): Promise<number[]> {
+    try {
+      const result = await DatabaseManager.query(`
+        SELECT DISTINCT ON (q.timestamp) q.timestamp, q.close
+        FROM market_data_quarantine q
+        WHERE q.symbol = $1 AND q.timeframe = $2 AND q.timestamp < $3
+          AND q.timestamp > COALESCE((
+            SELECT MAX(timestamp) FROM market_data
+            WHERE symbol = $1 AND timeframe = $2 AND timestamp < $3
+          ), '-infinity')
+          AND q.reasons @> '[{"check": "price_spike"}]' AND jsonb_array_length(q.reasons) = 1
+        ORDER BY q.timestamp DESC, q.last_seen_at DESC
+        LIMIT $4
+      `, [bar.symbol, bar.timeframe || '1d', bar.timestamp, limit]);
+
+      return result.rows.reverse().map((row: any) => parseFloat(row.close));
+    } catch (error) {
+      logger.debug(`Failed to load quarantined spikes for ${bar.symbol}:`, error);
+      return [];
+    }
+  }
+
+  private async getThresholds(): Promise<DataQualityThresholds> {
+    if (Date.now() - this.thresholdsLoadedAt > this.THRESHOLDS_TTL_MS) {
+      const config = await getSystemConfig<Partial<DataQualityThresholds>>(DATA_QUALITY_CONFIG_KEY, {});
+      this.thresholds = {
+        ...DEFAULT_THRESHOLDS,
+        ...config,
+        max_age_hours: { ...DEFAULT_THRESHOLDS.max_age_hours, ...(config.max_age_hours || {}) }
+      };
+      this.thresholdsLoadedAt = Date.now();
+    }
+    return this.thresholds;
+  }
+
+  /**
+   * Reference time for staleness: the replay clock in replay mode (none until
+   * playback starts), otherwise the wall clock.
+   */
+  private currentTime(): Date | null {
+    return isReplayMode() ? replayDataSet.getCursor() : new Date();
+  }
+}
+
+export const dataQualityGate = new DataQualityGate();
@@ -0,0 +1,42 @@
+/**
+ * Offline Replay Mode
+ * MARKET_DATA_MODE=replay swaps live feeds for recorded CSV/JSONL files so the
+ * system runs deterministically without network access
+ */
+import { ReplayDataSet } from './replay-data';
+import { ReplayDataProvider } from './replay-provider';
+import { ReplayStream } from './replay-stream';
+
+export interface ReplayConfig {
+  dataDir: string;
+  speed: number;
+  maxGapMs: number;
+  loop: boolean;
+  start?: Date;
+  end?: Date;
+}
+
+export function isReplayMode(): boolean {
+  return process.env.MARKET_DATA_MODE === 'replay';
+}
+
+export function getReplayConfig(): ReplayConfig {
+  return {
+    dataDir: process.env.REPLAY_DATA_DIR || './data/replay',
+    speed: parseFloat(process.env.REPLAY_SPEED || '60'),
+    maxGapMs: parseInt(process.env.REPLAY_MAX_GAP_MS || '5000'),
+    loop: process.env.REPLAY_LOOP === 'true',
+    start: process.env.REPLAY_START ? new Date(process.env.REPLAY_START) : undefined,
+    end: process.env.REPLAY_END ? new Date(process.env.REPLAY_END) : undefined
+  };
+}
+
+const replayConfig = getReplayConfig();
+
+export const replayDataSet = new ReplayDataSet(replayConfig.dataDir);
+export const replayProvider = new ReplayDataProvider(replayDataSet);
+export const replayStream = new ReplayStream(replayDataSet, replayConfig);
+
+export { ReplayDataSet, ReplayRecord } from './replay-data';
+export { ReplayDataProvider } from './replay-provider';
+export { ReplayStream, ReplayStreamOptions, ReplayTick } from './replay-stream';
@@ -1,9 +1,11 @@
 /**
- * Equity Data Fetcher with Multiple Fallbacks
+ * Equity Data Fetcher backed by the market data provider registry
  */
-import axios from 'axios';
 import { logger } from '../../utils/logger';
 import { DatabaseManager } from '../../utils/database';
+import { providerRegistry } from '../providers';
+import { barAggregator } from '../bars/bar-aggregator';
+import { tradingCalendar } from '../calendar/trading-calendar';
 
 export interface EquityData {
   symbol: string;
@@ -11,6 +13,7 @@ export interface EquityData {
   volume: number;
   change: number;
   timestamp: Date;
+  source: string;
 }
 
 export class EquityDataFetcher {
@@ -23,9 +26,9 @@ export class EquityDataFetcher {
     // Immediate fetch
     await this.fetchAllEquityData();
     
-    // Then fetch every 2 minutes during market hours
+    // Then fetch every 2 minutes during the regular session
     this.fetchInterval = setInterval(async () => {
-      if (this.isMarketHours()) {
+      if (await tradingCalendar.isOpen('equity')) {
         await this.fetchAllEquityData();
       }
     }, 2 * 60 * 1000);
@@ -48,121 +51,25 @@ export class EquityDataFetcher {
   }
 
   private async fetchEquityData(symbol: string): Promise<EquityData | null> {
-    // Try multiple endpoints
-    const endpoints = [
-      () => this.fetchFromYahoo(symbol),
-      () => this.fetchFromAlphaVantage(symbol),
-      () => this.generateMockEquityData(symbol)
-    ];
-
-    for (const fetchMethod of endpoints) {
-      try {
-        const data = await fetchMethod();
-        if (data) {
-          return data;
-        }
-      } catch (error) {
-        logger.debug(`Endpoint failed for ${symbol}:`, error);
-        continue;
-      }
-    }
-
-    return null;
-  }
-
-  private async fetchFromYahoo(symbol: string): Promise<EquityData | null> {
     try {
-      const endpoints = [
-        `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}`,
-        `https://query2.finance.yahoo.com/v8/finance/chart/${symbol}`
-      ];
-
-      for (const endpoint of endpoints) {
-        try {
-          const response = await axios.get(endpoint, {
-            timeout: 8000,
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; ElysianTrading/2.0)'
-            }
-          });
-
-          const result = response.data?.chart?.result?.[0];
-          if (!result) continue;
-
-          const meta = result.meta;
-          const quote = result.indicators?.quote?.[0];
-          
-          if (meta && quote) {
-            return {
-              symbol,
-              price: meta.regularMarketPrice || quote.close?.[quote.close.length - 1] || 0,
-              volume: meta.regularMarketVolume || quote.volume?.[quote.volume.length - 1] || 0,
-              change: meta.regularMarketChangePercent || 0,
-              timestamp: new Date()
-            };
-          }
-        } catch (error) {
-          continue;
-        }
-      }
-
-      return null;
-    } catch (error) {
-      throw error;
-    }
-  }
-
-  private async fetchFromAlphaVantage(symbol: string): Promise<EquityData | null> {
-    try {
-      // Free tier Alpha Vantage (if API key available)
-      const apiKey = process.env.ALPHA_VANTAGE_KEY || 'demo';
-      
-      const response = await axios.get(`https://www.alphavantage.co/query`, {
-        params: {
-          function: 'GLOBAL_QUOTE',
-          symbol,
-          apikey: apiKey
-        },
-        timeout: 8000
-      });
-
-      const quote = response.data?.['Global Quote'];
+      const quote = await providerRegistry.getQuote(symbol, 'equity');
       if (quote) {
         return {
           symbol,
-          price: parseFloat(quote['05. price']) || 0,
-          volume: parseInt(quote['06. volume']) || 0,
-          change: parseFloat(quote['10. change percent']?.replace('%', '')) || 0,
-          timestamp: new Date()
+          price: quote.price,
+          volume: quote.volume,
+          change: quote.change_pct,
+          timestamp: quote.timestamp,
+          source: quote.provider
         };
       }
-
-      return null;
     } catch (error) {
-      throw error;
+      logger.debug(`Equity providers failed for ${symbol}:`, error);
     }
-  }
-
-  private generateMockEquityData(symbol: string): EquityData {
-    const basePrices: { [key: string]: number } = {
-      'AAPL': 175.50,
-      'MSFT': 330.20,
-      'GOOGL': 135.80,
-      'NVDA': 450.30,
-      'TSLA': 240.75
-    };
 
-    const basePrice = basePrices[symbol] || 100;
-    const change = (Math.random() - 0.5) * 4; // +/- 2%
-    const price = basePrice * (1 + change / 100);
-
-    return {
-      symbol,
-      price,
-      volume: Math.floor(Math.random() * 10000000) + 1000000,
-      change,
-      timestamp: new Date()
-    };
+    // No synthetic quotes: the symbol simply gets no update this round
+    logger.debug(`No equity quote for ${symbol}, skipping`);
+    return null;
   }
 
   private async storeEquityData(data: EquityData): Promise<void> {
@@ -170,39 +77,41 @@ export class EquityDataFetcher {
       // Update assets_live
       const query1 = `
         INSERT INTO assets_live (symbol, asset_type, price, volume, change_24h, last_updated, data_source)
-        VALUES ($1, 'equity', $2, $3, $4, NOW(), 'yahoo')
+        VALUES ($1, 'equity', $2, $3, $4, NOW(), $5)
         ON CONFLICT (symbol, asset_type) 
         DO UPDATE SET 
           price = EXCLUDED.price,
           volume = EXCLUDED.volume,
           change_24h = EXCLUDED.change_24h,
-          last_updated = EXCLUDED.last_updated
+          last_updated = EXCLUDED.last_updated,
+          data_source = EXCLUDED.data_source
       `;
       
-      await DatabaseManager.query(query1, [data.symbol, data.price, data.volume, data.change]);
+      await DatabaseManager.query(query1, [data.symbol, data.price, data.volume, data.change, data.source]);
 
       // Store price feed
       const query2 = `
         INSERT INTO price_feeds (symbol, asset_type, timestamp, close, volume, source)
-        VALUES ($1, 'equity', NOW(), $2, $3, 'yahoo')
+        VALUES ($1, 'equity', NOW(), $2, $3, $4)
       `;
       
-      await DatabaseManager.query(query2, [data.symbol, data.price, data.volume]);
+      await DatabaseManager.query(query2, [data.symbol, data.price, data.volume, data.source]);
+
+      // Quote volume is the session total so far
+      barAggregator.ingest({
+        symbol: data.symbol,
+        asset_type: 'equity',
+        price: data.price,
+        quantity: data.volume,
+        timestamp: data.timestamp.getTime(),
+        cumulative_volume: true
+      });
 
     } catch (error) {
       logger.debug('Failed to store equity data:', error);
     }
   }
 
-  private isMarketHours(): boolean {
-    const now = new Date();
-    const utcHours = now.getUTCHours();
-    const dayOfWeek = now.getUTCDay();
-    
-    // NYSE hours: 14:30 - 21:00 UTC (9:30 AM - 4:00 PM EST)
-    return dayOfWeek >= 1 && dayOfWeek <= 5 && utcHours >= 14 && utcHours < 21;
-  }
-
   stop(): void {
     if (this.fetchInterval) {
       clearInterval(this.fetchInterval);
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+let activePairs: string[] = [];
+
+jest.mock('../../../utils/database', () => ({
+  DatabaseManager: {
+    query: async (sql: string) => sql.includes('crypto_pairs')
+      ? { rows: activePairs.map(symbol => ({ symbol })) }
+      : { rows: [] }
+  }
+}));
+
+// REST fallback runs while the socket is down; keep it offline
+jest.mock('../../providers/provider-guard', () => ({
+  ...(jest.requireActual('../../providers/provider-guard') as object),
+  getProviderGuard: () => ({ execute: () => Promise.reject(new Error('offline in tests')) })
+}));
+
+import { BinanceStandInServer } from '../binance-standin';
+import { BinanceWebSocketStream, CryptoTrade, StreamGap } from '../binance-stream';
+
+function waitFor<T>(stream: BinanceWebSocketStream, event: string, predicate: (value: T) => boolean = () => true): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out waiting for '${event}'`)), 5000);
+    const listener = (value: T) => {
+      if (!predicate(value)) return;
+      clearTimeout(timer);
+      stream.off(event, listener);
+      resolve(value);
+    };
+    stream.on(event, listener);
+  });
+}
+
+async function until(condition: () => boolean): Promise<void> {
+  const deadline = Date.now() + 5000;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('BinanceWebSocketStream against the stand-in server', () => {
+  let standIn: BinanceStandInServer;
+  let stream: BinanceWebSocketStream;
+
+  beforeEach(async () => {
+    standIn = new BinanceStandInServer({ port: 0, intervalMs: 20 });
+    process.env.BINANCE_WS_URL = await standIn.start();
+    activePairs = ['BTCUSDT', 'ETHUSDT'];
+    stream = new BinanceWebSocketStream([]);
+    // Reconnect quickly instead of after the production backoff
+    (stream as any).reconnectDelay = 20;
+  });
+
+  afterEach(async () => {
+    await stream.stop();
+    await standIn.stop();
+    delete process.env.BINANCE_WS_URL;
+  });
+
+  it('subscribes every active pair on one combined stream and follows pair changes', async () => {
+    await stream.start();
+
+    expect(standIn.getSubscriptions()).toEqual([
+      'btcusdt@aggTrade', 'btcusdt@depth10@100ms', 'btcusdt@ticker',
+      'ethusdt@aggTrade', 'ethusdt@depth10@100ms', 'ethusdt@ticker'
+    ]);
+
+    activePairs = ['ADAUSDT', 'BTCUSDT'];
+    await stream.refreshSymbols();
+    await until(() => standIn.getSubscriptions().join() === [
+      'adausdt@aggTrade', 'adausdt@depth10@100ms', 'adausdt@ticker',
+      'btcusdt@aggTrade', 'btcusdt@depth10@100ms', 'btcusdt@ticker'
+    ].join());
+
+    await waitFor<CryptoTrade>(stream, 'trade', trade => trade.symbol === 'ADAUSDT');
+    expect(stream.getStreamStats().resubscriptions).toBe(1);
+  });
+
+  it('resubscribes the current pairs after a dropped connection', async () => {
+    await stream.start();
+    activePairs = ['BTCUSDT', 'LINKUSDT'];
+    await stream.refreshSymbols();
+
+    const reconnected = waitFor(stream, 'connected');
+    standIn.dropConnections();
+    await waitFor(stream, 'disconnected');
+    await reconnected;
+
+    expect(standIn.getSubscriptions()).toEqual([
+      'btcusdt@aggTrade', 'btcusdt@depth10@100ms', 'btcusdt@ticker',
+      'linkusdt@aggTrade', 'linkusdt@depth10@100ms', 'linkusdt@ticker'
+    ]);
+    await waitFor<CryptoTrade>(stream, 'trade', trade => trade.symbol === 'LINKUSDT');
+    expect(stream.getStreamStats().reconnects).toBe(1);
+  });
+
+  it('reports skipped aggregate trade ids as a gap', async () => {
+    await stream.start();
+    await waitFor<CryptoTrade>(stream, 'trade', trade => trade.symbol === 'BTCUSDT');
+
+    standIn.skipTrades('BTCUSDT', 5);
+    const gap = await waitFor<StreamGap>(stream, 'gap');
+
+    expect(gap.stream).toBe('btcusdt@aggTrade');
+    expect(gap.missing).toBe(5);
+    expect(gap.received - gap.expected).toBe(5);
+    expect(stream.getStreamStats()).toMatchObject({ gaps_detected: 1, missing_trades: 5 });
+  });
+});
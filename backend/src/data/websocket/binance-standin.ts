@@ -0,0 +1,352 @@
+/**
+ * Binance Combined-Stream Stand-in
+ * Local WebSocket server speaking the Binance /stream protocol (ticker, aggTrade,
+ * partial depth, SUBSCRIBE/UNSUBSCRIBE) so BinanceWebSocketStream can be exercised
+ * offline. Prices are a seeded random walk; gaps and disconnects can be injected.
+ *
+ * Run with `npm run binance:standin`, then start the backend with
+ * BINANCE_WS_URL=ws://127.0.0.1:9444. For local testing only: its prices are
+ * recorded as binance_ws data.
+ */
+import { Server as WebSocketServer } from 'ws';
+import WebSocket from 'ws';
+import { IncomingMessage, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { logger } from '../../utils/logger';
+
+export interface StandInOptions {
+  port?: number;           // 0 picks a free port
+  intervalMs?: number;     // time between message rounds
+  seed?: number;
+  startPrices?: { [symbol: string]: number };
+  server?: HttpServer;     // share an existing HTTP server instead of listening
+  priceSource?: (symbol: string, at: number) => number;  // replaces the random walk
+}
+
+interface SymbolState {
+  price: number;
+  openPrice: number;
+  volume: number;
+  tradeId: number;
+  updateId: number;
+}
+
+const DEFAULT_START_PRICES: { [symbol: string]: number } = {
+  BTCUSDT: 65000,
+  ETHUSDT: 3200,
+  ADAUSDT: 0.45,
+  DOTUSDT: 6.5,
+  LINKUSDT: 14
+};
+
+export class BinanceStandInServer {
+  private wss: WebSocketServer | null = null;
+  private interval: NodeJS.Timeout | null = null;
+  private subscriptions: Map<WebSocket, Set<string>> = new Map();
+  private symbols: Map<string, SymbolState> = new Map();
+  private pendingSkips: Map<string, number> = new Map();
+  private rngState: number;
+  private available = true;
+  private malformed = false;
+  private readonly options: Required<Omit<StandInOptions, 'server' | 'priceSource'>> & Pick<StandInOptions, 'server' | 'priceSource'>;
+
+  constructor(options: StandInOptions = {}) {
+    this.options = {
+      port: options.port ?? 9444,
+      intervalMs: options.intervalMs ?? 250,
+      seed: options.seed ?? 42,
+      startPrices: { ...DEFAULT_START_PRICES, ...(options.startPrices || {}) },
+      server: options.server,
+      priceSource: options.priceSource
+    };
+    this.rngState = this.options.seed;
+  }
+
+  /**
+   * Start listening; resolves with the base URL to use as BINANCE_WS_URL.
+   */
+  async start(): Promise<string> {
+    if (this.options.server) {
+      this.wss = new WebSocketServer({ server: this.options.server });
+    } else {
+      await new Promise<void>((resolve, reject) => {
+        this.wss = new WebSocketServer({ port: this.options.port, host: '127.0.0.1' });
+        this.wss.once('listening', () => resolve());
+        this.wss.once('error', reject);
+      });
+    }
+
+    this.wss.on('connection', (ws: WebSocket, request: IncomingMessage) => this.handleConnection(ws, request));
+    this.interval = setInterval(() => this.publishRound(), this.options.intervalMs);
+
+    const url = this.getUrl();
+    logger.info(`🧪 Binance stand-in listening on ${url}`);
+    return url;
+  }
+
+  async stop(): Promise<void> {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+
+    if (this.wss) {
+      for (const client of Array.from(this.wss.clients)) {
+        client.terminate();
+      }
+      await new Promise<void>(resolve => this.wss!.close(() => resolve()));
+      this.wss = null;
+    }
+
+    this.subscriptions.clear();
+  }
+
+  getUrl(): string {
+    const address = (this.options.server ? this.options.server.address() : this.wss?.address()) as AddressInfo | null;
+    return `ws://127.0.0.1:${address ? address.port : this.options.port}`;
+  }
+
+  getSubscriptions(): string[] {
+    const all = new Set<string>();
+    for (const streams of this.subscriptions.values()) {
+      streams.forEach(stream => all.add(stream));
+    }
+    return Array.from(all).sort();
+  }
+
+  /**
+   * Skip the next `count` aggregate trade ids for a symbol, as if the client
+   * had missed them.
+   */
+  skipTrades(symbol: string, count: number): void {
+    const key = symbol.toUpperCase();
+    this.pendingSkips.set(key, (this.pendingSkips.get(key) || 0) + count);
+  }
+
+  /**
+   * Drop every client connection without a close handshake.
+   */
+  dropConnections(): void {
+    if (!this.wss) return;
+    for (const client of Array.from(this.wss.clients)) {
+      client.terminate();
+    }
+  }
+
+  /**
+   * While unavailable, existing clients are dropped, new connections are
+   * refused and nothing is published.
+   */
+  setAvailable(available: boolean): void {
+    if (this.available && !available) {
+      this.dropConnections();
+    }
+    this.available = available;
+  }
+
+  /**
+   * While set, about one message in five is broken: truncated JSON or a payload
+   * with missing and mistyped fields.
+   */
+  setMalformed(malformed: boolean): void {
+    this.malformed = malformed;
+  }
+
+  private handleConnection(ws: WebSocket, request: IncomingMessage): void {
+    if (!this.available) {
+      ws.close(1013, 'Service unavailable');
+      return;
+    }
+
+    const url = new URL(request.url || '/', 'ws://localhost');
+    if (url.pathname !== '/stream') {
+      ws.close(1008, 'Only the combined /stream endpoint is supported');
+      return;
+    }
+
+    const streams = new Set((url.searchParams.get('streams') || '').split('/').filter(Boolean));
+    this.subscriptions.set(ws, streams);
+
+    ws.on('message', (data: Buffer) => this.handleRequest(ws, data));
+    ws.on('close', () => this.subscriptions.delete(ws));
+  }
+
+  private handleRequest(ws: WebSocket, data: Buffer): void {
+    let request: any;
+    try {
+      request = JSON.parse(data.toString());
+    } catch {
+      ws.send(JSON.stringify({ error: { code: 2, msg: 'Invalid JSON' }, id: null }));
+      return;
+    }
+
+    const streams = this.subscriptions.get(ws) || new Set<string>();
+    const params: string[] = Array.isArray(request.params) ? request.params : [];
+
+    switch (request.method) {
+      case 'SUBSCRIBE':
+        params.forEach(stream => streams.add(stream));
+        ws.send(JSON.stringify({ result: null, id: request.id }));
+        break;
+      case 'UNSUBSCRIBE':
+        params.forEach(stream => streams.delete(stream));
+        ws.send(JSON.stringify({ result: null, id: request.id }));
+        break;
+      case 'LIST_SUBSCRIPTIONS':
+        ws.send(JSON.stringify({ result: Array.from(streams), id: request.id }));
+        break;
+      default:
+        ws.send(JSON.stringify({ error: { code: 2, msg: `Unknown method ${request.method}` }, id: request.id }));
+    }
+
+    this.subscriptions.set(ws, streams);
+  }
+
+  /**
+   * Advance every subscribed symbol one step and send each client the
+   * messages for its streams. All clients see the same market.
+   */
+  private publishRound(): void {
+    if (!this.available) return;
+
+    const now = Date.now();
+    const subscribedSymbols = new Set(this.getSubscriptions().map(stream => stream.split('@')[0].toUpperCase()));
+    const roundMessages: Map<string, any> = new Map();
+
+    for (const symbol of subscribedSymbols) {
+      const state = this.advance(symbol);
+      const lower = symbol.toLowerCase();
+      const quantity = Number((this.random() * 2).toFixed(5)) || 0.00001;
+      state.volume += quantity;
+
+      roundMessages.set(`${lower}@aggTrade`, {
+        e: 'aggTrade',
+        E: now,
+        s: symbol,
+        a: state.tradeId,
+        p: state.price.toFixed(8),
+        q: quantity.toFixed(8),
+        f: state.tradeId * 3,
+        l: state.tradeId * 3 + 2,
+        T: now,
+        m: this.random() < 0.5,
+        M: true
+      });
+
+      roundMessages.set(`${lower}@ticker`, {
+        e: '24hrTicker',
+        E: now,
+        s: symbol,
+        o: state.openPrice.toFixed(8),
+        c: state.price.toFixed(8),
+        p: (state.price - state.openPrice).toFixed(8),
+        P: (((state.price - state.openPrice) / state.openPrice) * 100).toFixed(3),
+        v: state.volume.toFixed(8),
+        L: state.tradeId * 3 + 2
+      });
+
+      roundMessages.set(`${lower}@depth`, this.buildDepth(state));
+    }
+
+    for (const [ws, streams] of this.subscriptions.entries()) {
+      if (ws.readyState !== WebSocket.OPEN) continue;
+
+      for (const stream of streams) {
+        const [symbolPart, channel] = stream.split('@');
+        const key = channel && channel.startsWith('depth') ? `${symbolPart}@depth` : stream;
+        const data = roundMessages.get(key);
+        if (!data) continue;
+
+        const payload = key.endsWith('@depth') ? this.trimDepth(data, channel) : data;
+        ws.send(this.malformed && this.random() < 0.2 ? this.corrupt(stream, payload) : JSON.stringify({ stream, data: payload }));
+      }
+    }
+  }
+
+  private advance(symbol: string): SymbolState {
+    let state = this.symbols.get(symbol);
+    if (!state) {
+      // The ticker's 24h change is measured from here
+      const start = this.options.priceSource
+        ? this.options.priceSource(symbol, Date.now() - 24 * 60 * 60 * 1000)
+        : this.options.startPrices[symbol] || 100;
+      state = { price: start, openPrice: start, volume: 0, tradeId: 1000, updateId: 5000 };
+      this.symbols.set(symbol, state);
+    }
+
+    if (this.options.priceSource) {
+      state.price = this.options.priceSource(symbol, Date.now());
+    } else {
+      // ~0.05% steps keep the walk within the data quality gate's spike limits
+      const step = (this.random() - 0.5) * 0.001;
+      state.price = Math.max(state.price * (1 + step), 0.00000001);
+    }
+
+    const skip = this.pendingSkips.get(symbol) || 0;
+    this.pendingSkips.delete(symbol);
+    state.tradeId += 1 + skip;
+    state.updateId += 1 + Math.floor(this.random() * 20);
+
+    return state;
+  }
+
+  private buildDepth(state: SymbolState): { lastUpdateId: number; bids: string[][]; asks: string[][] } {
+    const tick = state.price * 0.0001;
+    const bids: string[][] = [];
+    const asks: string[][] = [];
+
+    for (let level = 1; level <= 20; level++) {
+      bids.push([(state.price - tick * level).toFixed(8), (this.random() * 5).toFixed(8)]);
+      asks.push([(state.price + tick * level).toFixed(8), (this.random() * 5).toFixed(8)]);
+    }
+
+    return { lastUpdateId: state.updateId, bids, asks };
+  }
+
+  private trimDepth(depth: { lastUpdateId: number; bids: string[][]; asks: string[][] }, channel: string) {
+    const levels = parseInt(channel.replace('depth', '')) || 10;
+    return { lastUpdateId: depth.lastUpdateId, bids: depth.bids.slice(0, levels), asks: depth.asks.slice(0, levels) };
+  }
+
+  private corrupt(stream: string, payload: any): string {
+    if (this.random() < 0.5) {
+      const text = JSON.stringify({ stream, data: payload });
+      return text.slice(0, Math.floor(text.length / 2));
+    }
+
+    const broken = { ...payload };
+    delete broken.s;
+    for (const field of ['p', 'c', 'q', 'a', 'lastUpdateId']) {
+      if (field in broken) broken[field] = this.random() < 0.5 ? null : 'NaN';
+    }
+    return JSON.stringify({ stream, data: broken });
+  }
+
+  // mulberry32: small, fast and reproducible across runs for a given seed
+  private random(): number {
+    this.rngState = (this.rngState + 0x6D2B79F5) | 0;
+    let t = this.rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+if (require.main === module) {
+  const standIn = new BinanceStandInServer({
+    port: parseInt(process.env.BINANCE_STANDIN_PORT || '9444'),
+    intervalMs: parseInt(process.env.BINANCE_STANDIN_INTERVAL_MS || '250')
+  });
+
+  standIn.start()
+    .then(url => logger.info(`Set BINANCE_WS_URL=${url} to stream from the stand-in`))
+    .catch(error => {
+      logger.error('Failed to start Binance stand-in:', error);
+      process.exit(1);
+    });
+
+  process.on('SIGINT', async () => {
+    await standIn.stop();
+    process.exit(0);
+  });
+}
@@ -1,11 +1,15 @@
 /**
  * Binance WebSocket with Robust Fallback System
+ * One combined-stream connection carries ticker, aggTrade and partial-depth
+ * channels for every active crypto pair; REST polling covers outages
  */
 import WebSocket from 'ws';
 import axios from 'axios';
 import { logger } from '../../utils/logger';
 import { DatabaseManager } from '../../utils/database';
 import { EventEmitter } from 'events';
+import { binanceRestUrls, binanceWsUrl, coinGeckoUrl } from '../providers/endpoints';
+import { getProviderGuard, isTransientError, ProviderRequestError } from '../providers/provider-guard';
 
 export interface CryptoTick {
   symbol: string;
@@ -15,15 +19,64 @@ export interface CryptoTick {
   isBuyerMaker: boolean;
 }
 
+export interface CryptoTrade extends CryptoTick {
+  trade_id: number;
+}
+
+export interface OrderBookSnapshot {
+  symbol: string;
+  last_update_id: number;
+  bids: [number, number][];
+  asks: [number, number][];
+  timestamp: number;
+}
+
+export interface StreamGap {
+  stream: string;
+  expected: number;
+  received: number;
+  missing: number;
+  detected_at: Date;
+}
+
+export type StreamChannel = 'ticker' | 'aggTrade' | 'depth';
+
+const DEPTH_LEVELS = parseInt(process.env.BINANCE_DEPTH_LEVELS || '10');
+
 export class BinanceWebSocketStream extends EventEmitter {
   private ws: WebSocket | null = null;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5; // Reduced attempts
-  private reconnectDelay = 10000; // Increased initial delay
+  private reconnectDelay = 10000; // Initial delay, doubled per failed attempt
+  private readonly MAX_RECONNECT_DELAY_MS = 5 * 60 * 1000;
+  private readonly STALE_CONNECTION_MS = 60 * 1000;
+  private readonly SYMBOL_REFRESH_MS = parseInt(process.env.CRYPTO_PAIRS_REFRESH_MS || '60000');
+  private readonly MAX_RECENT_GAPS = 100;
   private symbols: string[] = [];
   private isConnected = false;
   private fallbackInterval: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private watchdogInterval: NodeJS.Timeout | null = null;
+  private symbolRefreshInterval: NodeJS.Timeout | null = null;
   private useFallback = false;
+  private stopping = false;
+
+  private subscribedStreams: Set<string> = new Set();
+  private requestId = 0;
+  // Last aggTrade id, depth update id or ticker event time per stream
+  private sequences: Map<string, number> = new Map();
+  private orderBooks: Map<string, OrderBookSnapshot> = new Map();
+  private recentGaps: StreamGap[] = [];
+  private lastMessageAt = 0;
+
+  private stats = {
+    messages_received: 0,
+    gaps_detected: 0,
+    missing_trades: 0,
+    duplicate_messages: 0,
+    stale_messages: 0,
+    reconnects: 0,
+    resubscriptions: 0
+  };
 
   constructor(symbols: string[] = ['btcusdt', 'ethusdt', 'adausdt', 'dotusdt', 'linkusdt']) {
     super();
@@ -31,83 +84,96 @@ export class BinanceWebSocketStream extends EventEmitter {
   }
 
   async start(): Promise<void> {
+    this.stopping = false;
+    await this.refreshSymbols();
+
+    this.symbolRefreshInterval = setInterval(() => {
+      this.refreshSymbols().catch(error => logger.debug('Crypto pair refresh failed:', error));
+    }, this.SYMBOL_REFRESH_MS);
+
+    this.watchdogInterval = setInterval(() => this.checkStaleConnection(), this.STALE_CONNECTION_MS / 2);
+
     try {
-      // Try WebSocket first, but don't crash if it fails
       await this.tryWebSocketConnection();
-      
-      // Always start fallback as backup
-      this.startFallbackPolling();
     } catch (error) {
       logger.warn('WebSocket connection failed, using REST API fallback:', error);
       this.useFallback = true;
       this.startFallbackPolling();
+      this.scheduleReconnect();
     }
   }
 
+  private streamsFor(symbol: string): string[] {
+    const s = symbol.toLowerCase();
+    return [`${s}@ticker`, `${s}@aggTrade`, `${s}@depth${DEPTH_LEVELS}@100ms`];
+  }
+
   private async tryWebSocketConnection(): Promise<void> {
+    const streams = this.symbols.flatMap(symbol => this.streamsFor(symbol));
+    const streamUrl = `${binanceWsUrl()}/stream?streams=${streams.join('/')}`;
+
     return new Promise((resolve, reject) => {
       try {
-        // Use individual connections instead of multi-stream
-        const symbol = this.symbols[0]; // Start with just BTC
-        const streamUrl = `wss://stream.binance.com:9443/ws/${symbol}@ticker`;
-        
-        logger.info(`🔌 Attempting Binance WebSocket: ${streamUrl}`);
-        
-        this.ws = new WebSocket(streamUrl, {
+        logger.info(`🔌 Connecting Binance combined stream (${this.symbols.length} pairs, ${streams.length} streams)`);
+
+        const ws = new WebSocket(streamUrl, {
           headers: {
             'User-Agent': 'Mozilla/5.0 (compatible; ElysianTrading/2.0)',
           },
           handshakeTimeout: 10000,
           perMessageDeflate: false
         });
-        
+        this.ws = ws;
+
         const connectionTimeout = setTimeout(() => {
-          if (this.ws) {
-            this.ws.terminate();
-            reject(new Error('WebSocket connection timeout'));
-          }
+          ws.terminate();
+          reject(new Error('WebSocket connection timeout'));
         }, 15000);
 
-        this.ws.on('open', () => {
+        ws.on('open', () => {
           clearTimeout(connectionTimeout);
           this.isConnected = true;
           this.reconnectAttempts = 0;
           this.useFallback = false;
+          this.lastMessageAt = Date.now();
+          this.subscribedStreams = new Set(streams);
+          this.stopFallbackPolling();
           logger.info('✅ Binance WebSocket connected successfully');
           this.emit('connected');
           resolve();
         });
 
-        this.ws.on('message', async (data: Buffer) => {
+        ws.on('message', async (data: Buffer) => {
           try {
             const message = JSON.parse(data.toString());
-            await this.handleTickerMessage(message);
+            await this.handleMessage(message);
           } catch (error) {
             logger.debug('WebSocket message parse error:', error);
           }
         });
 
-        this.ws.on('close', (code: number, reason: string) => {
+        ws.on('close', (code: number, reason: Buffer) => {
           clearTimeout(connectionTimeout);
+          const wasConnected = this.isConnected;
           this.isConnected = false;
-          logger.warn(`Binance WebSocket closed: ${code} - ${reason}`);
-          
-          if (code === 1006 || code === 1001) {
-            // Abnormal closure, switch to fallback
-            this.useFallback = true;
-            this.startFallbackPolling();
+          if (this.ws === ws) this.ws = null;
+          if (this.stopping) return;
+
+          logger.warn(`Binance WebSocket closed: ${code} - ${reason.toString()}`);
+          if (wasConnected) {
+            this.emit('disconnected', code);
+          } else {
+            reject(new Error(`WebSocket closed before opening (${code})`));
           }
-        });
 
-        this.ws.on('error', (error: Error) => {
-          clearTimeout(connectionTimeout);
-          logger.warn('Binance WebSocket error (switching to fallback):', error.message);
           this.useFallback = true;
-          
-          // Don't reject here, just switch to fallback
-          if (!this.isConnected) {
-            resolve(); // Resolve anyway, fallback will handle data
-          }
+          this.startFallbackPolling();
+          this.scheduleReconnect();
+        });
+
+        ws.on('error', (error: Error) => {
+          // A 'close' event always follows and handles fallback and reconnection
+          logger.warn('Binance WebSocket error:', error.message);
         });
 
       } catch (error) {
@@ -116,11 +182,206 @@ export class BinanceWebSocketStream extends EventEmitter {
     });
   }
 
-  private startFallbackPolling(): void {
-    if (this.fallbackInterval) {
-      clearInterval(this.fallbackInterval);
+  private scheduleReconnect(): void {
+    if (this.stopping || this.reconnectTimer) return;
+
+    const delay = Math.min(this.reconnectDelay * Math.pow(2, this.reconnectAttempts), this.MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+    logger.info(`🔁 Reconnecting Binance stream in ${Math.round(delay / 1000)}s (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      this.stats.reconnects++;
+      try {
+        await this.tryWebSocketConnection();
+      } catch (error) {
+        logger.debug('Binance reconnect failed:', error.message);
+      }
+    }, delay);
+  }
+
+  /**
+   * Binance drops idle connections without a close frame now and then; force a
+   * reconnect when nothing has arrived for a while.
+   */
+  private checkStaleConnection(): void {
+    if (!this.isConnected || !this.ws) return;
+
+    if (Date.now() - this.lastMessageAt > this.STALE_CONNECTION_MS) {
+      logger.warn(`Binance stream silent for ${Math.round((Date.now() - this.lastMessageAt) / 1000)}s, reconnecting`);
+      this.ws.terminate();
+    }
+  }
+
+  /**
+   * Follow crypto_pairs: subscribe newly active pairs and drop deactivated
+   * ones on the live connection without reconnecting.
+   */
+  async refreshSymbols(): Promise<void> {
+    let active: string[];
+    try {
+      const result = await DatabaseManager.query(
+        `SELECT symbol FROM crypto_pairs WHERE is_active = true ORDER BY symbol`
+      );
+      active = result.rows.map((row: any) => row.symbol.toLowerCase());
+    } catch (error) {
+      logger.debug('Failed to load crypto pairs, keeping current symbols:', error.message);
+      return;
+    }
+
+    if (active.length === 0) return;
+
+    const added = active.filter(symbol => !this.symbols.includes(symbol));
+    const removed = this.symbols.filter(symbol => !active.includes(symbol));
+    if (added.length === 0 && removed.length === 0) return;
+
+    this.symbols = active;
+    logger.info(`🔄 Crypto pairs changed (+${added.join(',') || 'none'} / -${removed.join(',') || 'none'})`);
+
+    for (const symbol of removed) {
+      for (const stream of this.streamsFor(symbol)) {
+        this.sequences.delete(stream);
+      }
+      this.orderBooks.delete(symbol.toUpperCase());
+    }
+
+    if (this.isConnected) {
+      this.sendSubscription('UNSUBSCRIBE', removed.flatMap(symbol => this.streamsFor(symbol)));
+      this.sendSubscription('SUBSCRIBE', added.flatMap(symbol => this.streamsFor(symbol)));
+      this.stats.resubscriptions++;
+    }
+
+    this.emit('symbols_changed', { added, removed });
+  }
+
+  private sendSubscription(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', streams: string[]): void {
+    if (streams.length === 0 || !this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+    this.ws.send(JSON.stringify({ method, params: streams, id: ++this.requestId }));
+    for (const stream of streams) {
+      if (method === 'SUBSCRIBE') {
+        this.subscribedStreams.add(stream);
+      } else {
+        this.subscribedStreams.delete(stream);
+      }
+    }
+  }
+
+  private async handleMessage(message: any): Promise<void> {
+    this.lastMessageAt = Date.now();
+
+    // Replies to SUBSCRIBE/UNSUBSCRIBE requests
+    if (message.id !== undefined && !message.stream) {
+      if (message.error) {
+        logger.warn(`Binance subscription request ${message.id} failed: ${message.error.msg || JSON.stringify(message.error)}`);
+      }
+      return;
+    }
+
+    if (!message.stream || !message.data) return;
+    this.stats.messages_received++;
+
+    const [symbolPart, channelPart] = message.stream.split('@');
+    const channel: StreamChannel = channelPart.startsWith('depth') ? 'depth' : channelPart as StreamChannel;
+
+    switch (channel) {
+      case 'ticker':
+        await this.handleTickerMessage(message.stream, message.data);
+        break;
+      case 'aggTrade':
+        this.handleTradeMessage(message.stream, message.data);
+        break;
+      case 'depth':
+        this.handleDepthMessage(message.stream, symbolPart.toUpperCase(), message.data);
+        break;
+    }
+  }
+
+  /**
+   * Check a stream's sequence number. Aggregate trade ids are contiguous, so a
+   * jump means trades were missed; the other channels only need ordering.
+   * Returns false for duplicates and out-of-order messages, which are dropped.
+   */
+  private trackSequence(stream: string, sequence: number, contiguous: boolean): boolean {
+    if (!isFinite(sequence)) return true;
+
+    const previous = this.sequences.get(stream);
+    if (previous !== undefined) {
+      if (sequence <= previous) {
+        if (sequence === previous) {
+          this.stats.duplicate_messages++;
+        } else {
+          this.stats.stale_messages++;
+        }
+        return false;
+      }
+
+      if (contiguous && sequence > previous + 1) {
+        this.recordGap({
+          stream,
+          expected: previous + 1,
+          received: sequence,
+          missing: sequence - previous - 1,
+          detected_at: new Date()
+        });
+      }
     }
 
+    this.sequences.set(stream, sequence);
+    return true;
+  }
+
+  private recordGap(gap: StreamGap): void {
+    this.stats.gaps_detected++;
+    this.stats.missing_trades += gap.missing;
+    this.recentGaps.push(gap);
+    if (this.recentGaps.length > this.MAX_RECENT_GAPS) {
+      this.recentGaps.shift();
+    }
+
+    logger.warn(`⚠️ Sequence gap on ${gap.stream}: expected ${gap.expected}, got ${gap.received} (${gap.missing} missing)`);
+    this.emit('gap', gap);
+  }
+
+  private handleTradeMessage(stream: string, data: any): void {
+    const tradeId = parseInt(data.a);
+    if (!this.trackSequence(stream, tradeId, true)) return;
+
+    const trade: CryptoTrade = {
+      symbol: data.s,
+      price: parseFloat(data.p),
+      quantity: parseFloat(data.q),
+      timestamp: parseInt(data.T) || parseInt(data.E) || Date.now(),
+      isBuyerMaker: !!data.m,
+      trade_id: tradeId
+    };
+
+    if (!(trade.price > 0)) return;
+    this.emit('trade', trade);
+  }
+
+  private handleDepthMessage(stream: string, symbol: string, data: any): void {
+    const updateId = parseInt(data.lastUpdateId);
+    if (!this.trackSequence(stream, updateId, false)) return;
+
+    const toLevels = (levels: any[]): [number, number][] =>
+      (levels || []).map(([price, quantity]: [string, string]) => [parseFloat(price), parseFloat(quantity)]);
+
+    const book: OrderBookSnapshot = {
+      symbol,
+      last_update_id: updateId,
+      bids: toLevels(data.bids),
+      asks: toLevels(data.asks),
+      timestamp: Date.now()
+    };
+
+    this.orderBooks.set(symbol, book);
+    this.emit('depth', book);
+  }
+
+  private startFallbackPolling(): void {
+    if (this.fallbackInterval) return;
+
     logger.info('🔄 Starting REST API fallback polling (30s intervals)');
     
     // Immediate first call
@@ -132,35 +393,42 @@ export class BinanceWebSocketStream extends EventEmitter {
     }, 30000);
   }
 
+  private stopFallbackPolling(): void {
+    if (this.fallbackInterval) {
+      clearInterval(this.fallbackInterval);
+      this.fallbackInterval = null;
+      logger.info('⏹️ REST API fallback polling stopped (WebSocket live)');
+    }
+  }
+
   private async fetchRestData(): Promise<void> {
     try {
-      // Use multiple Binance endpoints as fallback
-      const endpoints = [
-        'https://api.binance.com/api/v3/ticker/24hr',
-        'https://api1.binance.com/api/v3/ticker/24hr',
-        'https://api2.binance.com/api/v3/ticker/24hr',
-        'https://data-api.binance.vision/api/v3/ticker/24hr'
-      ];
-
-      let response;
-      for (const endpoint of endpoints) {
-        try {
-          response = await axios.get(endpoint, {
-            timeout: 10000,
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; ElysianTrading/2.0)',
-              'Accept': 'application/json'
+      // Shares the Binance provider's rate limit and circuit breaker
+      const response = await getProviderGuard('binance').execute(async () => {
+        let lastError: any;
+
+        for (const endpoint of binanceRestUrls().map(baseUrl => `${baseUrl}/api/v3/ticker/24hr`)) {
+          try {
+            const result = await axios.get(endpoint, {
+              timeout: 10000,
+              headers: {
+                'User-Agent': 'Mozilla/5.0 (compatible; ElysianTrading/2.0)',
+                'Accept': 'application/json'
+              }
+            });
+
+            if (result.data && Array.isArray(result.data)) {
+              return result;
             }
-          });
-          
-          if (response.data && Array.isArray(response.data)) {
-            break;
+          } catch (endpointError: any) {
+            lastError = endpointError;
+            logger.debug(`REST endpoint ${endpoint} failed:`, endpointError.message);
+            if (!isTransientError(endpointError) || endpointError.response?.status === 429) break;
           }
-        } catch (endpointError) {
-          logger.debug(`REST endpoint ${endpoint} failed:`, endpointError.message);
-          continue;
         }
-      }
+
+        throw ProviderRequestError.from('All Binance REST endpoints failed', lastError);
+      });
 
       if (!response || !response.data) {
         // Try CoinGecko as final fallback
@@ -189,8 +457,8 @@ export class BinanceWebSocketStream extends EventEmitter {
 
       logger.debug(`📊 REST API data fetched: ${relevantTickers.length} symbols`);
 
-    } catch (error) {
-      logger.error('REST API fallback failed:', error);
+    } catch (error: any) {
+      logger.error(`REST API fallback failed: ${error.message}`);
       // Try CoinGecko as ultimate fallback
       await this.fetchCoinGeckoData();
     }
@@ -212,16 +480,22 @@ export class BinanceWebSocketStream extends EventEmitter {
         .filter(Boolean)
         .join(',');
 
-      const response = await axios.get(`https://api.coingecko.com/api/v3/simple/price`, {
-        params: {
-          ids,
-          vs_currencies: 'usd',
-          include_24hr_change: 'true',
-          include_24hr_vol: 'true'
-        },
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; ElysianTrading/2.0)'
+      const response = await getProviderGuard('coingecko').execute(async () => {
+        try {
+          return await axios.get(`${coinGeckoUrl()}/api/v3/simple/price`, {
+            params: {
+              ids,
+              vs_currencies: 'usd',
+              include_24hr_change: 'true',
+              include_24hr_vol: 'true'
+            },
+            timeout: 10000,
+            headers: {
+              'User-Agent': 'Mozilla/5.0 (compatible; ElysianTrading/2.0)'
+            }
+          });
+        } catch (error) {
+          throw ProviderRequestError.from('CoinGecko request failed', error);
         }
       });
 
@@ -250,49 +524,16 @@ export class BinanceWebSocketStream extends EventEmitter {
         logger.debug('📊 CoinGecko fallback data fetched successfully');
       }
 
-    } catch (error) {
-      logger.error('CoinGecko fallback failed:', error);
-      // Generate mock data as last resort
-      await this.generateMockData();
+    } catch (error: any) {
+      // No synthetic prices: consumers see no tick until a source recovers
+      logger.error(`CoinGecko fallback failed, no crypto prices this round: ${error.message}`);
     }
   }
 
-  private async generateMockData(): Promise<void> {
-    try {
-      const mockPrices: { [key: string]: number } = {
-        'BTCUSDT': 43250 + (Math.random() - 0.5) * 2000,
-        'ETHUSDT': 2341 + (Math.random() - 0.5) * 200,
-        'ADAUSDT': 0.45 + (Math.random() - 0.5) * 0.05,
-        'DOTUSDT': 5.2 + (Math.random() - 0.5) * 0.5,
-        'LINKUSDT': 14.5 + (Math.random() - 0.5) * 1.5
-      };
-
-      for (const symbol of this.symbols) {
-        const upperSymbol = symbol.toUpperCase();
-        if (mockPrices[upperSymbol]) {
-          const tick: CryptoTick = {
-            symbol: upperSymbol,
-            price: mockPrices[upperSymbol],
-            quantity: Math.random() * 1000000,
-            timestamp: Date.now(),
-            isBuyerMaker: Math.random() > 0.5
-          };
-
-          await this.updateLiveAsset(tick);
-          await this.storePriceFeed(tick);
-          this.emit('tick', tick);
-        }
-      }
-
-      logger.info('📊 Mock crypto data generated (all APIs failed)');
-    } catch (error) {
-      logger.error('Mock data generation failed:', error);
-    }
-  }
-
-  private async handleTickerMessage(message: any): Promise<void> {
+  private async handleTickerMessage(stream: string, message: any): Promise<void> {
     try {
       if (!message.s || !message.c) return;
+      if (!this.trackSequence(stream, parseInt(message.E), false)) return;
 
       const tick: CryptoTick = {
         symbol: message.s,
@@ -362,15 +603,21 @@ export class BinanceWebSocketStream extends EventEmitter {
 
 
   async stop(): Promise<void> {
+    this.stopping = true;
+
+    for (const timer of [this.reconnectTimer, this.watchdogInterval, this.symbolRefreshInterval]) {
+      if (timer) clearTimeout(timer);
+    }
+    this.reconnectTimer = null;
+    this.watchdogInterval = null;
+    this.symbolRefreshInterval = null;
+
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
     
-    if (this.fallbackInterval) {
-      clearInterval(this.fallbackInterval);
-      this.fallbackInterval = null;
-    }
+    this.stopFallbackPolling();
     
     this.isConnected = false;
     this.useFallback = false;
@@ -385,6 +632,30 @@ export class BinanceWebSocketStream extends EventEmitter {
     return this.symbols;
   }
 
+  getOrderBook(symbol: string): OrderBookSnapshot | undefined {
+    return this.orderBooks.get(symbol.toUpperCase());
+  }
+
+  /**
+   * True while trades arrive over the WebSocket, so consumers can prefer real
+   * trade sizes over the rolling ticker volume.
+   */
+  isStreamingTrades(): boolean {
+    return this.isConnected;
+  }
+
+  getStreamStats() {
+    return {
+      ...this.stats,
+      connected: this.isConnected,
+      data_source: this.getDataSource(),
+      symbols: this.symbols.length,
+      subscribed_streams: this.subscribedStreams.size,
+      last_message_at: this.lastMessageAt ? new Date(this.lastMessageAt) : null,
+      recent_gaps: this.recentGaps.slice(-10)
+    };
+  }
+
   getDataSource(): string {
     if (this.isConnected) return 'websocket';
     if (this.useFallback) return 'rest_api';
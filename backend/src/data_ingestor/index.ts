@@ -1,10 +1,14 @@
 /**
  * Elysian Trading System - Dual-Market Data Ingestor
- * Supports both equities (Yahoo Finance) and crypto (Binance)
+ * Routes equities and crypto through the market data provider registry
  */
-import axios from 'axios';
+import { EventEmitter } from 'events';
 import { logger } from '../utils/logger';
 import { DatabaseManager } from '../utils/database';
+import { providerRegistry, BarInterval } from '../data/providers';
+import { dataQualityGate } from '../data/quality/data-quality-gate';
+import { instrumentMaster, stepDecimals } from '../data/instruments/instrument-master';
+import { FxRate, fxRates } from '../data/fx/fx-rates';
 
 export interface MarketData {
   symbol: string;
@@ -16,6 +20,17 @@ export interface MarketData {
   volume: number;
   provider: string;
   market_type: 'equity' | 'crypto';
+  timeframe?: BarInterval;
+}
+
+/**
+ * Earliest bar of one series that a store inserted or changed. Emitted as
+ * `bars_changed` so state built from older bars can be rebuilt.
+ */
+export interface BarsChanged {
+  symbol: string;
+  timeframe: BarInterval;
+  since: Date;
 }
 
 export interface CryptoPair {
@@ -27,424 +42,221 @@ export interface CryptoPair {
   quantity_precision: number;
 }
 
-class DataIngestor {
+class DataIngestor extends EventEmitter {
   private requestCount: number = 0;
-  private lastRequestTime: number = 0;
-  private readonly RATE_LIMIT_MS = 500;
   private cryptoPairs: CryptoPair[] = [];
   private initialized: boolean = false;
 
   constructor() {
+    super();
     // Don't initialize crypto pairs immediately - do it lazily
     this.initializeCryptoPairsAsync();
   }
 
   private async initializeCryptoPairsAsync(): Promise<void> {
-    try {
-      // Wait a bit to ensure database is initialized
-      setTimeout(async () => {
-        await this.initializeCryptoPairs();
-      }, 5000);
-    } catch (error) {
-      logger.warn('Failed to initialize crypto pairs, will retry later:', error);
-      this.cryptoPairs = [
-        { symbol: 'BTCUSDT', base_asset: 'BTC', quote_asset: 'USDT', min_trade_amount: 0.00001, price_precision: 2, quantity_precision: 5 },
-        { symbol: 'ETHUSDT', base_asset: 'ETH', quote_asset: 'USDT', min_trade_amount: 0.001, price_precision: 2, quantity_precision: 4 }
-      ];
-      this.initialized = true;
-    }
+    // Wait a bit to ensure database is initialized
+    setTimeout(async () => {
+      await this.initializeCryptoPairs();
+    }, 5000);
   }
 
+  /**
+   * Active crypto pairs from the instrument master (which falls back to its
+   * seed file when the database is unavailable).
+   */
   private async initializeCryptoPairs(): Promise<void> {
     if (this.initialized) return;
     
     try {
-      const query = `SELECT * FROM crypto_pairs WHERE is_active = true`;
-      const result = await DatabaseManager.query(query);
+      const instruments = await instrumentMaster.list({ asset_class: 'crypto', active_only: true });
       
-      this.cryptoPairs = result.rows.map((row: any) => ({
-        symbol: row.symbol,
-        base_asset: row.base_asset,
-        quote_asset: row.quote_asset,
-        min_trade_amount: parseFloat(row.min_trade_amount),
-        price_precision: parseInt(row.price_precision),
-        quantity_precision: parseInt(row.quantity_precision)
+      this.cryptoPairs = instruments.map(instrument => ({
+        symbol: instrument.symbol,
+        base_asset: instrument.base_asset || instrument.symbol.replace(instrument.currency, ''),
+        quote_asset: instrument.quote_asset || instrument.currency,
+        min_trade_amount: instrument.lot_size,
+        price_precision: stepDecimals(instrument.tick_size),
+        quantity_precision: stepDecimals(instrument.lot_size)
       }));
 
       logger.info(`📋 Loaded ${this.cryptoPairs.length} active crypto pairs`);
       this.initialized = true;
     } catch (error) {
       logger.error('Failed to load crypto pairs:', error);
-      this.cryptoPairs = [
-        { symbol: 'BTCUSDT', base_asset: 'BTC', quote_asset: 'USDT', min_trade_amount: 0.00001, price_precision: 2, quantity_precision: 5 },
-        { symbol: 'ETHUSDT', base_asset: 'ETH', quote_asset: 'USDT', min_trade_amount: 0.001, price_precision: 2, quantity_precision: 4 },
-        { symbol: 'ADAUSDT', base_asset: 'ADA', quote_asset: 'USDT', min_trade_amount: 10, price_precision: 4, quantity_precision: 0 },
-        { symbol: 'DOTUSDT', base_asset: 'DOT', quote_asset: 'USDT', min_trade_amount: 1, price_precision: 3, quantity_precision: 1 },
-        { symbol: 'LINKUSDT', base_asset: 'LINK', quote_asset: 'USDT', min_trade_amount: 0.1, price_precision: 3, quantity_precision: 2 }
-      ];
-      this.initialized = true;
     }
   }
 
+  /**
+   * Latest verified bar per symbol. Bars that fail the quality gate are
+   * quarantined and the symbol is skipped for this cycle; nothing is
+   * synthesized in their place.
+   */
   async fetchMarketData(symbols: string[], marketType: 'equity' | 'crypto' = 'equity'): Promise<MarketData[]> {
     const marketData: MarketData[] = [];
+    const skipped: string[] = [];
     
     logger.info(`📊 Fetching ${marketType} market data for ${symbols.length} symbols`);
     
     for (const symbol of symbols) {
       try {
-        await this.enforceRateLimit();
-        
-        let data: MarketData | null = null;
-        
-        if (marketType === 'crypto') {
-          data = await this.fetchCryptoData(symbol);
-        } else {
-          data = await this.fetchEquityData(symbol);
+        // Pacing, retries and circuit breaking are per provider (see ProviderGuard)
+        this.requestCount++;
+        const data = await providerRegistry.getLatestBar(symbol, marketType);
+
+        if (!data) {
+          logger.warn(`No ${marketType} provider returned data for ${symbol}, skipping`);
+          skipped.push(symbol);
+          continue;
+        }
+
+        const quality = await dataQualityGate.validate(data);
+        if (!quality.passed) {
+          await dataQualityGate.quarantine(data, quality.issues);
+          skipped.push(symbol);
+          continue;
         }
         
-        if (data) {
-          marketData.push(data);
-          try {
-            await this.storeMarketData(data);
-            logger.debug(`✅ Stored ${marketType} data for ${symbol}: $${data.close.toFixed(data.market_type === 'crypto' ? 2 : 2)}`);
-          } catch (storeError: any) {
-            logger.warn(`⚠️ Failed to store data for ${symbol}:`, storeError.message);
-          }
+        marketData.push(data);
+        try {
+          await this.storeMarketData(data);
+          logger.debug(`✅ Stored ${marketType} data for ${symbol}: $${data.close.toFixed(2)}`);
+        } catch (storeError: any) {
+          logger.warn(`⚠️ Failed to store data for ${symbol}:`, storeError.message);
         }
       } catch (error: any) {
         logger.error(`Failed to fetch ${marketType} data for ${symbol}:`, error.message);
-        
-        const fallbackData = await this.getFallbackData(symbol, marketType);
-        if (fallbackData) {
-          marketData.push(fallbackData);
-        }
+        skipped.push(symbol);
       }
       
       await new Promise(resolve => setTimeout(resolve, 100));
     }
     
-    logger.info(`📊 ${marketType.toUpperCase()} data fetch complete: ${marketData.length}/${symbols.length} successful`);
+    logger.info(`📊 ${marketType.toUpperCase()} data fetch complete: ${marketData.length}/${symbols.length} verified${skipped.length > 0 ? `, skipped ${skipped.join(', ')}` : ''}`);
     return marketData;
   }
 
-  private async fetchCryptoData(symbol: string): Promise<MarketData | null> {
+  private async storeMarketData(data: MarketData): Promise<void> {
     try {
-      if (!this.initialized) {
-        await this.initializeCryptoPairs();
-      }
-
-      const binanceUrls = [
-        `https://api.binance.com/api/v3/ticker/24hr?symbol=${symbol}`,
-        `https://api1.binance.com/api/v3/ticker/24hr?symbol=${symbol}`,
-        `https://api2.binance.com/api/v3/ticker/24hr?symbol=${symbol}`,
-        `https://api3.binance.com/api/v3/ticker/24hr?symbol=${symbol}`
-      ];
-
-      let response;
-      let lastError;
-
-      for (const url of binanceUrls) {
-        try {
-          response = await axios.get(url, {
-            timeout: 8000,
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; Elysian-Trading/1.0)',
-              'Accept': 'application/json'
-            }
-          });
-          
-          if (response.data && response.data.symbol === symbol) {
-            break;
-          }
-        } catch (error: any) {
-          lastError = error;
-          logger.debug(`Binance endpoint ${url} failed:`, error.message);
-          continue;
-        }
-      }
-
-      if (!response || !response.data || !response.data.symbol) {
-        logger.warn(`All Binance endpoints failed for ${symbol}, using fallback data`);
-        return this.generateCryptoFallbackData(symbol);
-      }
-
-      const data = response.data;
-      
-      let ohlcData = null;
-      try {
-        const klineResponse = await axios.get(
-          `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=1d&limit=2`,
-          { timeout: 5000 }
-        );
-        
-        if (klineResponse.data && klineResponse.data.length > 0) {
-          const latestKline = klineResponse.data[klineResponse.data.length - 1];
-          ohlcData = {
-            open: parseFloat(latestKline[1]),
-            high: parseFloat(latestKline[2]),
-            low: parseFloat(latestKline[3]),
-            close: parseFloat(latestKline[4])
-          };
-        }
-      } catch (klineError) {
-        logger.debug(`Kline data failed for ${symbol}, using ticker data`);
-      }
-
-      const marketData: MarketData = {
-        symbol,
-        timestamp: new Date(parseInt(data.closeTime)),
-        open: ohlcData ? ohlcData.open : parseFloat(data.openPrice),
-        high: parseFloat(data.highPrice),
-        low: parseFloat(data.lowPrice),
-        close: parseFloat(data.lastPrice),
-        volume: parseFloat(data.volume),
-        provider: 'binance',
-        market_type: 'crypto'
-      };
-
-      if (marketData.close <= 0 || marketData.volume < 0) {
-        logger.warn(`Invalid data for ${symbol}, using fallback`);
-        return this.generateCryptoFallbackData(symbol);
-      }
-
-      if (marketData.high < marketData.low) {
-        logger.warn(`Invalid OHLC for ${symbol}, using fallback`);
-        return this.generateCryptoFallbackData(symbol);
-      }
-
-      logger.debug(`🪙 Real crypto data for ${symbol}: $${marketData.close.toFixed(2)} (Vol: ${marketData.volume.toFixed(0)})`);
-      return marketData;
-
-    } catch (error: any) {
-      logger.error(`Crypto fetch completely failed for ${symbol}:`, error.message);
-      return this.generateCryptoFallbackData(symbol);
+      await this.storeBars([data]);
+    } catch (error) {
+      logger.error('Failed to store market data:', error);
+      throw error;
     }
   }
 
-  private generateCryptoFallbackData(symbol: string): MarketData {
-    const cryptoPrices: { [key: string]: number } = {
-      'BTCUSDT': 43250 + (Math.random() - 0.5) * 2000,
-      'ETHUSDT': 2341 + (Math.random() - 0.5) * 200,
-      'ADAUSDT': 0.45 + (Math.random() - 0.5) * 0.05,
-      'DOTUSDT': 5.2 + (Math.random() - 0.5) * 0.5,
-      'LINKUSDT': 14.5 + (Math.random() - 0.5) * 1.5
-    };
-
-    const basePrice = cryptoPrices[symbol] || (Math.random() * 100 + 50);
-    const volatility = 0.05;
-    const change = (Math.random() - 0.5) * 2 * volatility;
-    
-    const close = basePrice * (1 + change);
-    const open = basePrice;
-    const high = Math.max(open, close) * (1 + Math.random() * volatility);
-    const low = Math.min(open, close) * (1 - Math.random() * volatility);
-    const volume = Math.floor(Math.random() * 2000000) + 100000;
-
-    logger.info(`🎲 Generated fallback crypto data for ${symbol}: $${close.toFixed(2)}`);
-
-    return {
-      symbol,
-      timestamp: new Date(),
-      open: parseFloat(open.toFixed(6)),
-      high: parseFloat(high.toFixed(6)),
-      low: parseFloat(low.toFixed(6)),
-      close: parseFloat(close.toFixed(6)),
-      volume,
-      provider: 'fallback',
-      market_type: 'crypto'
-    };
-  }
-
-  private async fetchEquityData(symbol: string): Promise<MarketData | null> {
-    try {
-      const endpoints = [
-        `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?interval=1d&range=2d`,
-        `https://query2.finance.yahoo.com/v8/finance/chart/${symbol}?interval=1d&range=2d`,
-      ];
-
-      let response;
-      for (const endpoint of endpoints) {
-        try {
-          response = await axios.get(endpoint, {
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-            },
-            timeout: 10000
-          });
-          break;
-        } catch (endpointError) {
-          continue;
-        }
-      }
-
-      if (!response) {
-        throw new Error('All Yahoo Finance endpoints failed');
-      }
-
-      const result = response.data?.chart?.result?.[0];
-      if (!result) {
-        return null;
+  /**
+   * Idempotent bulk upsert keyed on (symbol, timeframe, timestamp, provider).
+   * Rows that were inserted or whose values changed are reported per series
+   * through `bars_changed`; re-storing identical bars reports nothing.
+   */
+  async storeBars(bars: MarketData[]): Promise<number> {
+    if (bars.length === 0) return 0;
+
+    const values: string[] = [];
+    const params: any[] = [];
+
+    bars.forEach((bar, i) => {
+      const offset = i * 10;
+      values.push(`($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9}, $${offset + 10})`);
+      params.push(
+        bar.symbol,
+        bar.timestamp,
+        bar.open,
+        bar.high,
+        bar.low,
+        bar.close,
+        bar.volume,
+        bar.provider,
+        bar.market_type,
+        bar.timeframe || '1d'
+      );
+    });
+
+    const query = `
+      INSERT INTO market_data (symbol, timestamp, open, high, low, close, volume, provider, market_type, timeframe)
+      VALUES ${values.join(', ')}
+      ON CONFLICT (symbol, timeframe, timestamp, provider) DO UPDATE SET
+        open = EXCLUDED.open,
+        high = EXCLUDED.high,
+        low = EXCLUDED.low,
+        close = EXCLUDED.close,
+        volume = EXCLUDED.volume,
+        market_type = EXCLUDED.market_type
+      WHERE (market_data.open, market_data.high, market_data.low, market_data.close, market_data.volume, market_data.market_type)
+        IS DISTINCT FROM (EXCLUDED.open, EXCLUDED.high, EXCLUDED.low, EXCLUDED.close, EXCLUDED.volume, EXCLUDED.market_type)
+      RETURNING symbol, timeframe, timestamp
+    `;
+
+    const result = await DatabaseManager.query(query, params);
+
+    const changes = new Map<string, BarsChanged>();
+    for (const row of result.rows || []) {
+      const key = `${row.symbol}:${row.timeframe}`;
+      const timestamp = new Date(row.timestamp);
+      const change = changes.get(key);
+      if (!change || timestamp < change.since) {
+        changes.set(key, { symbol: row.symbol, timeframe: row.timeframe, since: timestamp });
       }
-
-      const timestamps = result.timestamp;
-      const quotes = result.indicators?.quote?.[0];
-      
-      if (!timestamps || !quotes || timestamps.length === 0) {
-        return null;
-      }
-
-      const latestIndex = timestamps.length - 1;
-      const timestamp = timestamps[latestIndex];
-      
-      const open = quotes.open?.[latestIndex];
-      const high = quotes.high?.[latestIndex];
-      const low = quotes.low?.[latestIndex];
-      const close = quotes.close?.[latestIndex];
-      const volume = quotes.volume?.[latestIndex];
-
-      if (!open || !high || !low || !close || open <= 0 || close <= 0) {
-        return null;
-      }
-
-      const marketData: MarketData = {
-        symbol,
-        timestamp: new Date(timestamp * 1000),
-        open: parseFloat(open.toFixed(4)),
-        high: parseFloat(high.toFixed(4)),
-        low: parseFloat(low.toFixed(4)),
-        close: parseFloat(close.toFixed(4)),
-        volume: parseInt(volume) || 0,
-        provider: 'yahoo',
-        market_type: 'equity'
-      };
-
-      logger.debug(`📈 Equity data fetched for ${symbol}: $${marketData.close.toFixed(2)}`);
-      return marketData;
-
-    } catch (error: any) {
-      logger.error(`Yahoo Finance fetch failed for ${symbol}:`, error.message);
-      return null;
     }
-  }
+    changes.forEach(change => this.emit('bars_changed', change));
 
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    
-    if (timeSinceLastRequest < this.RATE_LIMIT_MS) {
-      const waitTime = this.RATE_LIMIT_MS - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-    
-    this.lastRequestTime = Date.now();
-    this.requestCount++;
+    return bars.length;
   }
 
-  private async getFallbackData(symbol: string, marketType: 'equity' | 'crypto'): Promise<MarketData | null> {
-    try {
-      const query = `
-        SELECT * FROM market_data 
-        WHERE symbol = $1 AND market_type = $2
-        ORDER BY timestamp DESC 
-        LIMIT 1
-      `;
-      
-      const result = await DatabaseManager.query(query, [symbol, marketType]);
-      
-      if (result.rows.length > 0) {
-        const row = result.rows[0];
-        const lastPrice = parseFloat(row.close);
-        
-        const volatility = marketType === 'crypto' ? 0.05 : 0.02;
-        const change = (Math.random() - 0.5) * 2 * volatility;
-        const newPrice = lastPrice * (1 + change);
-        
-        logger.info(`📈 Using fallback ${marketType} data for ${symbol}: $${newPrice.toFixed(2)}`);
-        
-        return {
-          symbol,
-          timestamp: new Date(),
-          open: newPrice * 0.999,
-          high: newPrice * (1 + Math.random() * 0.01),
-          low: newPrice * (1 - Math.random() * 0.01),
-          close: newPrice,
-          volume: Math.floor(Math.random() * (marketType === 'crypto' ? 1000000 : 5000000)) + 100000,
-          provider: 'fallback',
-          market_type: marketType
-        };
-      }
-      
-      return this.generateMockData(symbol, marketType);
-      
-    } catch (error) {
-      logger.error(`Fallback data failed for ${symbol}:`, error);
-      return this.generateMockData(symbol, marketType);
-    }
+  /**
+   * Latest bars for one timeframe, oldest first, optionally only those
+   * before `before`. Where a vendor bar and a tick-aggregated bar share a
+   * timestamp the vendor bar wins.
+   */
+  async getRecentBars(symbol: string, timeframe: BarInterval, limit: number, before?: Date): Promise<MarketData[]> {
+    const query = `
+      SELECT DISTINCT ON (timestamp) symbol, timestamp, open, high, low, close, volume, provider, market_type, timeframe
+      FROM market_data
+      WHERE symbol = $1 AND timeframe = $2 AND ($4::timestamptz IS NULL OR timestamp < $4)
+      ORDER BY timestamp DESC, (provider = 'tick_aggregator') ASC
+      LIMIT $3
+    `;
+
+    const result = await DatabaseManager.query(query, [symbol, timeframe, limit, before || null]);
+    return result.rows.reverse().map((row: any) => ({
+      symbol: row.symbol,
+      timestamp: new Date(row.timestamp),
+      open: parseFloat(row.open),
+      high: parseFloat(row.high),
+      low: parseFloat(row.low),
+      close: parseFloat(row.close),
+      volume: parseFloat(row.volume),
+      provider: row.provider,
+      market_type: row.market_type,
+      timeframe: row.timeframe
+    }));
   }
 
-  private generateMockData(symbol: string, marketType: 'equity' | 'crypto'): MarketData {
-    const basePrices: { [key: string]: number } = {
-      'AAPL': 175, 'MSFT': 330, 'GOOGL': 135, 'NVDA': 450, 'TSLA': 240,
-      'BTCUSDT': 43000, 'ETHUSDT': 2300, 'ADAUSDT': 0.45, 'DOTUSDT': 5.2, 'LINKUSDT': 14.5
-    };
-    
-    const basePrice = basePrices[symbol] || (marketType === 'crypto' ? 100 : 150);
-    const volatility = marketType === 'crypto' ? 0.08 : 0.02;
-    const change = (Math.random() - 0.5) * 2 * volatility;
-    
-    const close = basePrice * (1 + change);
-    const open = basePrice;
-    const high = Math.max(open, close) * (1 + Math.random() * volatility);
-    const low = Math.min(open, close) * (1 - Math.random() * volatility);
-    
-    const volumeRange = marketType === 'crypto' ? [50000, 2000000] : [1000000, 10000000];
-    const volume = Math.floor(Math.random() * (volumeRange[1] - volumeRange[0])) + volumeRange[0];
-    
-    logger.debug(`🎲 Mock ${marketType} data generated for ${symbol}: $${close.toFixed(2)}`);
-    
-    return {
-      symbol,
-      timestamp: new Date(),
-      open: parseFloat(open.toFixed(marketType === 'crypto' ? 6 : 4)),
-      high: parseFloat(high.toFixed(marketType === 'crypto' ? 6 : 4)),
-      low: parseFloat(low.toFixed(marketType === 'crypto' ? 6 : 4)),
-      close: parseFloat(close.toFixed(marketType === 'crypto' ? 6 : 4)),
-      volume,
-      provider: 'mock',
-      market_type: marketType
-    };
-  }
-
-  private async storeMarketData(data: MarketData): Promise<void> {
-    try {
-      const query = `
-        INSERT INTO market_data (symbol, timestamp, open, high, low, close, volume, provider, market_type)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-        ON CONFLICT (symbol, timestamp, provider) DO UPDATE SET
-          open = EXCLUDED.open,
-          high = EXCLUDED.high,
-          low = EXCLUDED.low,
-          close = EXCLUDED.close,
-          volume = EXCLUDED.volume,
-          market_type = EXCLUDED.market_type
-      `;
-      
-      await DatabaseManager.query(query, [
-        data.symbol,
-        data.timestamp,
-        data.open,
-        data.high,
-        data.low,
-        data.close,
-        data.volume,
-        data.provider,
-        data.market_type
-      ]);
-    } catch (error) {
-      logger.error('Failed to store market data:', error);
-      throw error;
-    }
+  /**
+   * Bars after `since`, oldest first, for catching up incremental state.
+   */
+  async getBarsSince(symbol: string, timeframe: BarInterval, since: Date, limit: number): Promise<MarketData[]> {
+    const query = `
+      SELECT DISTINCT ON (timestamp) symbol, timestamp, open, high, low, close, volume, provider, market_type, timeframe
+      FROM market_data
+      WHERE symbol = $1 AND timeframe = $2 AND timestamp > $3
+      ORDER BY timestamp ASC, (provider = 'tick_aggregator') ASC
+      LIMIT $4
+    `;
+
+    const result = await DatabaseManager.query(query, [symbol, timeframe, since, limit]);
+    return result.rows.map((row: any) => ({
+      symbol: row.symbol,
+      timestamp: new Date(row.timestamp),
+      open: parseFloat(row.open),
+      high: parseFloat(row.high),
+      low: parseFloat(row.low),
+      close: parseFloat(row.close),
+      volume: parseFloat(row.volume),
+      provider: row.provider,
+      market_type: row.market_type,
+      timeframe: row.timeframe
+    }));
   }
 
   async getHistoricalData(symbol: string, days: number, marketType?: 'equity' | 'crypto'): Promise<MarketData[]> {
@@ -480,17 +292,48 @@ class DataIngestor {
     }
   }
 
+  /**
+   * Quote every active instrument currency against the base currency
+   * (Yahoo-style `EURUSD=X` symbols) and record the rates. Currencies pegged
+   * to the base, such as USDT, need no quote.
+   */
+  async refreshFxRates(): Promise<FxRate[]> {
+    const base = await fxRates.getBaseCurrency();
+    const instruments = await instrumentMaster.list({ active_only: true });
+    const currencies = await fxRates.currenciesToQuote(instruments.map(i => i.currency));
+    const recorded: FxRate[] = [];
+
+    for (const currency of currencies) {
+      const symbol = `${currency}${base}=X`;
+      try {
+        this.requestCount++;
+        const quote = await providerRegistry.getQuote(symbol, 'equity');
+        if (!quote) {
+          logger.warn(`No provider returned an FX quote for ${symbol}`);
+          continue;
+        }
+        recorded.push(await fxRates.recordRate(currency, base, quote.price, quote.provider, quote.timestamp));
+      } catch (error: any) {
+        logger.error(`Failed to refresh FX rate ${currency}/${base}:`, error.message);
+      }
+    }
+
+    if (currencies.length > 0) {
+      logger.info(`💱 FX refresh: ${recorded.length}/${currencies.length} rates against ${base}`);
+    }
+    return recorded;
+  }
+
   async healthCheck(): Promise<{ status: string; details: any }> {
     try {
-      const equityTest = await this.fetchEquityData('AAPL');
-      const cryptoTest = await this.fetchCryptoData('BTCUSDT');
+      const providers = await providerRegistry.healthCheck();
       const dbHealthy = await DatabaseManager.healthCheck();
+      const anyProviderHealthy = Object.values(providers).some(p => p.status === 'healthy');
       
       return {
-        status: (equityTest || cryptoTest) && dbHealthy ? 'healthy' : 'degraded',
+        status: anyProviderHealthy && dbHealthy ? 'healthy' : 'degraded',
         details: {
-          equity_api: equityTest ? 'working' : 'failed',
-          crypto_api: cryptoTest ? 'working' : 'failed',
+          providers,
           database: dbHealthy ? 'connected' : 'disconnected',
           requests_made: this.requestCount,
           crypto_pairs_loaded: this.cryptoPairs.length
@@ -511,31 +354,6 @@ class DataIngestor {
   getCryptoPairs(): CryptoPair[] {
     return this.cryptoPairs;
   }
-
-  async isMarketOpen(marketType: 'equity' | 'crypto'): Promise<boolean> {
-    try {
-      if (marketType === 'crypto') {
-        return true;
-      }
-
-      const now = new Date();
-      const utcHours = now.getUTCHours();
-      const utcMinutes = now.getUTCMinutes();
-      const utcTime = utcHours * 60 + utcMinutes;
-      
-      const marketOpen = 14 * 60 + 30;
-      const marketClose = 21 * 60;
-      
-      const dayOfWeek = now.getUTCDay();
-      const isWeekday = dayOfWeek >= 1 && dayOfWeek <= 5;
-      
-      return isWeekday && utcTime >= marketOpen && utcTime <= marketClose;
-      
-    } catch (error) {
-      logger.error('Failed to check market hours:', error);
-      return false;
-    }
-  }
 }
 
 export const dataIngestor = new DataIngestor();
@@ -0,0 +1,205 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+interface StoredTrade {
+  id: string;
+  symbol: string;
+  side: string;
+  quantity: number;
+  metadata: any;
+}
+
+// In-memory positions and trades behind DatabaseManager.query
+let positions: Map<string, { quantity: number; avg_price: number }>;
+let trades: StoredTrade[];
+let failTradeFor: string | null;
+
+function positionRow(symbol: string) {
+  const position = positions.get(symbol)!;
+  return {
+    symbol,
+    quantity: String(position.quantity),
+    avg_price: String(position.avg_price),
+    current_price: String(position.avg_price),
+    market_value: String(position.quantity * position.avg_price),
+    unrealized_pnl: '0',
+    unrealized_pnl_pct: '0'
+  };
+}
+
+async function query(sql: string, params: any[] = []): Promise<{ rows: any[] }> {
+  if (sql.includes('INSERT INTO trades')) {
+    if (params[1] === failTradeFor) throw new Error('connection reset');
+    trades.push({ id: params[0], symbol: params[1], side: params[2], quantity: params[3], metadata: JSON.parse(params[11]) });
+    return { rows: [] };
+  }
+  if (sql.includes('SELECT * FROM positions WHERE symbol')) {
+    return { rows: positions.has(params[0]) ? [positionRow(params[0])] : [] };
+  }
+  if (sql.includes('SELECT * FROM positions')) {
+    return { rows: [...positions.keys()].map(positionRow) };
+  }
+  if (sql.includes('UPDATE positions')) {
+    positions.set(params[2], { quantity: params[0], avg_price: params[1] });
+    return { rows: [] };
+  }
+  if (sql.includes('INSERT INTO positions')) {
+    positions.set(params[0], { quantity: params[1], avg_price: params[2] });
+    return { rows: [] };
+  }
+  return { rows: [] };
+}
+
+jest.mock('../../utils/database', () => ({
+  DatabaseManager: { query: (sql: string, params?: any[]) => query(sql, params) }
+}));
+
+jest.mock('../../portfolio', () => ({
+  portfolioManager: {
+    ensureCurrencyCash: async () => undefined,
+    getLatestPortfolioSnapshot: async () => ({ cash: 50000, total_value: 100000 })
+  }
+}));
+
+jest.mock('../../data/provenance', () => ({
+  provenanceService: { checkExecution: async () => ({ allowed: true }) }
+}));
+
+// Orders are rounded to the lot and tick sizes seeded for production
+jest.mock('../../data/instruments/instrument-master', () => {
+  const actual = jest.requireActual('../../data/instruments/instrument-master') as any;
+  const seed: any[] = jest.requireActual('../../../db/instruments.json');
+  const instrument = (symbol: string) => seed.find(row => row.symbol === symbol);
+  return {
+    instrumentMaster: {
+      get: async () => null,
+      getSector: async () => null,
+      checkOrder: async (symbol: string, quantity: number, price: number) => {
+        const rounded = actual.roundToStep(quantity, instrument(symbol).lot_size, 'down');
+        return { valid: rounded * price >= instrument(symbol).min_notional, quantity: rounded };
+      },
+      roundPrice: async (symbol: string, price: number) => actual.roundToStep(price, instrument(symbol).tick_size)
+    }
+  };
+});
+
+jest.mock('../../data/fx/fx-rates', () => ({
+  fxRates: {
+    getBaseCurrency: async () => 'USD',
+    convert: async (amount: number) => amount
+  }
+}));
+
+jest.mock('../../signal_engine/ensemble-weights', () => ({
+  ensembleWeighting: { getKellyStats: async () => null }
+}));
+
+import { executionEngine } from '../index';
+
+const PORTFOLIO_VALUE = 100000;
+
+// Sell the rich ETHUSDT leg, buy the cheap BTCUSDT leg, equal hedge ratios.
+// The unit is 10% of the portfolio, so each leg is worth 5000 USDT.
+const ETH_PRICE = 3000;
+const BTC_PRICE = 60000;
+
+function linkedSignals() {
+  const link = {
+    group_id: 'pairs_test_1',
+    legs: [
+      { symbol: 'ETHUSDT', side: 'SELL', hedge_ratio: 1, price: ETH_PRICE },
+      { symbol: 'BTCUSDT', side: 'BUY', hedge_ratio: 1, price: BTC_PRICE }
+    ]
+  };
+  return link.legs.map(leg => ({
+    id: `signal_${leg.symbol}`,
+    symbol: leg.symbol,
+    signal_type: leg.side,
+    source: 'pairs',
+    strength: 0.8,
+    confidence: 0.8,
+    risk_score: 0.3,
+    target_price: leg.price * (leg.side === 'SELL' ? 0.95 : 1.05),
+    stop_loss: leg.price * (leg.side === 'SELL' ? 1.1 : 0.9),
+    market_type: 'crypto',
+    metadata: { link }
+  }));
+}
+
+describe('ExecutionEngine.evaluateAndExecuteLinked', () => {
+  beforeEach(() => {
+    positions = new Map();
+    trades = [];
+    failTradeFor = null;
+  });
+
+  it('rejects the whole signal when a SELL leg has no long position to sell', async () => {
+    const executed = await executionEngine.evaluateAndExecuteLinked(linkedSignals(), PORTFOLIO_VALUE);
+
+    expect(executed).toEqual([]);
+    expect(trades).toEqual([]);
+    expect(positions.size).toBe(0);
+  });
+
+  it('rejects the whole signal when the long is smaller than the SELL leg', async () => {
+    positions.set('ETHUSDT', { quantity: 1.5, avg_price: 2800 });
+
+    const executed = await executionEngine.evaluateAndExecuteLinked(linkedSignals(), PORTFOLIO_VALUE);
+
+    expect(executed).toEqual([]);
+    expect(trades).toEqual([]);
+    expect(positions.get('ETHUSDT')!.quantity).toBe(1.5);
+  });
+
+  it('trades fractional crypto lots when the SELL leg sells down an existing long', async () => {
+    positions.set('ETHUSDT', { quantity: 2, avg_price: 2800 });
+
+    const executed = await executionEngine.evaluateAndExecuteLinked(linkedSignals(), PORTFOLIO_VALUE);
+
+    expect(executed.map(trade => `${trade.side} ${trade.symbol}`)).toEqual(['SELL ETHUSDT', 'BUY BTCUSDT']);
+    expect(executed.every(trade => trade.metadata.link_group_id === 'pairs_test_1')).toBe(true);
+    const [sell, buy] = executed;
+    // 5000 USDT rounded down to the 0.0001 ETH and 0.00001 BTC lots
+    expect(sell.quantity).toBe(1.6666);
+    expect(buy.quantity).toBe(0.08333);
+    expect(positions.get('ETHUSDT')!.quantity).toBeCloseTo(2 - 1.6666, 8);
+    expect(positions.get('BTCUSDT')!.quantity).toBe(0.08333);
+  });
+
+  it('caps a BUY leg so the symbol stays within the position size limit', async () => {
+    positions.set('ETHUSDT', { quantity: 2, avg_price: 2800 });
+    // 8% of the portfolio already, so only 2% (2000 USDT) may be added
+    positions.set('BTCUSDT', { quantity: 0.16, avg_price: 50000 });
+
+    const executed = await executionEngine.evaluateAndExecuteLinked(linkedSignals(), PORTFOLIO_VALUE);
+
+    const buy = executed.find(trade => trade.symbol === 'BTCUSDT')!;
+    expect(buy.quantity).toBe(0.03333);
+    expect(buy.metadata.position_size_pct).toBeCloseTo(0.02, 10);
+    expect(positions.get('BTCUSDT')!.quantity).toBeCloseTo(0.16 + 0.03333, 8);
+  });
+
+  it('rejects the whole signal when a BUY leg symbol is already at the position size limit', async () => {
+    positions.set('ETHUSDT', { quantity: 2, avg_price: 2800 });
+    positions.set('BTCUSDT', { quantity: 0.2, avg_price: 50000 });
+
+    const executed = await executionEngine.evaluateAndExecuteLinked(linkedSignals(), PORTFOLIO_VALUE);
+
+    expect(executed).toEqual([]);
+    expect(trades).toEqual([]);
+    expect(positions.get('ETHUSDT')!.quantity).toBe(2);
+  });
+
+  it('reverses the filled legs when a later leg fails', async () => {
+    positions.set('ETHUSDT', { quantity: 2, avg_price: 2800 });
+    failTradeFor = 'BTCUSDT';
+
+    const executed = await executionEngine.evaluateAndExecuteLinked(linkedSignals(), PORTFOLIO_VALUE);
+
+    expect(executed).toEqual([]);
+    expect(trades.map(trade => `${trade.side} ${trade.symbol}`)).toEqual(['SELL ETHUSDT', 'BUY ETHUSDT']);
+    expect(trades[1].quantity).toBe(trades[0].quantity);
+    expect(trades[1].metadata.reverses_trade_id).toBe(trades[0].id);
+    expect(positions.get('ETHUSDT')!.quantity).toBeCloseTo(2, 8);
+    expect(positions.has('BTCUSDT')).toBe(false);
+  });
+});
@@ -5,6 +5,10 @@
 import { logger } from '../utils/logger';
 import { DatabaseManager } from '../utils/database';
 import { portfolioManager } from '../portfolio';
+import { DataProvenance, provenanceService } from '../data/provenance';
+import { instrumentMaster } from '../data/instruments/instrument-master';
+import { fxRates } from '../data/fx/fx-rates';
+import { ensembleWeighting } from '../signal_engine/ensemble-weights';
 
 export interface Trade {
   id?: string;
@@ -13,6 +17,7 @@ export interface Trade {
   quantity: number;
   price: number;
   executed_price: number;
+  currency: string;
   timestamp: Date;
   status: 'PENDING' | 'FILLED' | 'PARTIAL' | 'REJECTED' | 'CANCELLED';
   commission: number;
@@ -28,6 +33,10 @@ export interface Trade {
     take_profit?: number;
     expected_return: number;
     max_loss: number;
+    synthetic_inputs?: boolean;
+    provenance?: DataProvenance;
+    link_group_id?: string;
+    reverses_trade_id?: string;
   };
 }
 
@@ -96,6 +105,7 @@ class ExecutionEngine {
 
       // Get current market conditions for execution
       const executionPrice = await this.calculateExecutionPrice(signal);
+      const currency = await this.getInstrumentCurrency(signal.symbol);
       
       // Create trade with comprehensive metadata
       const trade: Trade = {
@@ -105,6 +115,7 @@ class ExecutionEngine {
         quantity: positionSizing.quantity,
         price: signal.target_price || executionPrice.target,
         executed_price: executionPrice.executed,
+        currency,
         timestamp: new Date(),
         status: 'FILLED',
         commission: this.COMMISSION_PER_TRADE,
@@ -119,7 +130,9 @@ class ExecutionEngine {
           stop_loss: positionSizing.stop_loss,
           take_profit: positionSizing.take_profit,
           expected_return: positionSizing.expected_return,
-          max_loss: positionSizing.max_loss
+          max_loss: positionSizing.max_loss,
+          synthetic_inputs: signal.metadata?.provenance ? signal.metadata.provenance.synthetic : undefined,
+          provenance: signal.metadata?.provenance
         }
       };
 
@@ -132,7 +145,7 @@ class ExecutionEngine {
       // Update daily trade count
       this.updateDailyTradeCount();
 
-      logger.info(`✅ TRADE EXECUTED: ${trade.side} ${trade.quantity} ${trade.symbol} @ $${trade.executed_price.toFixed(2)}`, {
+      logger.info(`✅ TRADE EXECUTED: ${trade.side} ${trade.quantity} ${trade.symbol} @ ${trade.executed_price.toFixed(2)} ${trade.currency}`, {
         position_size_pct: trade.metadata.position_size_pct,
         kelly_fraction: trade.metadata.kelly_fraction,
         expected_return: trade.metadata.expected_return,
@@ -147,6 +160,175 @@ class ExecutionEngine {
     }
   }
 
+  /**
+   * Execute the legs of a linked signal (e.g. both sides of a pairs trade) as
+   * one unit: every leg must pass the risk checks and produce a tradable
+   * order, or none is traded. The unit is Kelly-sized once, from the first
+   * leg, and split across the legs by hedge ratio; a BUY leg is further
+   * capped so the symbol stays within MAX_POSITION_SIZE. The portfolio does
+   * not hold short positions, so a SELL leg needs an existing long at least
+   * as large to sell down; otherwise the whole signal is rejected. If a leg
+   * fails to execute after earlier legs traded, those legs are reversed and
+   * nothing is returned.
+   */
+  async evaluateAndExecuteLinked(legs: any[], portfolioValue: number): Promise<Trade[]> {
+    const link = legs[0]?.metadata?.link;
+    if (!link) return [];
+
+    try {
+      logger.info(`🔗 Evaluating linked signal ${link.group_id}`, {
+        legs: link.legs.map((leg: any) => `${leg.side} ${leg.symbol}`)
+      });
+
+      const signals = link.legs.map((leg: any) =>
+        legs.find(signal => signal.symbol === leg.symbol && signal.signal_type === leg.side)
+      );
+      if (signals.some((signal: any) => !signal)) {
+        logger.warn(`❌ Linked signal ${link.group_id} rejected: missing legs`);
+        return [];
+      }
+
+      if (this.dailyTradeCount + signals.length > this.MAX_DAILY_TRADES) {
+        logger.warn(`❌ Linked signal ${link.group_id} rejected: Daily trade limit exceeded`);
+        return [];
+      }
+
+      for (const signal of signals) {
+        const riskChecks = await this.performRiskChecks(signal, portfolioValue);
+        if (!riskChecks.approved) {
+          logger.warn(`❌ Linked signal ${link.group_id} rejected on ${signal.symbol}: ${riskChecks.reason}`);
+          return [];
+        }
+      }
+
+      const { kellyFraction } = await this.calculateKellyFraction(signals[0]);
+      const unitSizePct = Math.min(kellyFraction * signals[0].strength, this.MAX_POSITION_SIZE);
+      const totalHedge = link.legs.reduce((sum: number, leg: any) => sum + Math.abs(leg.hedge_ratio), 0);
+      const baseCurrency = await fxRates.getBaseCurrency();
+
+      // Build every leg before trading any of them
+      const trades: Trade[] = [];
+      for (let i = 0; i < link.legs.length; i++) {
+        const leg = link.legs[i];
+        const signal = signals[i];
+        const existingPosition = await this.getExistingPosition(leg.symbol);
+        let positionSizePct = unitSizePct * Math.abs(leg.hedge_ratio) / totalHedge;
+
+        // A BUY leg may not take the symbol past the per-position limit
+        if (leg.side === 'BUY' && existingPosition) {
+          const currentAllocation = existingPosition.market_value / portfolioValue;
+          positionSizePct = Math.max(0, Math.min(positionSizePct, this.MAX_POSITION_SIZE - currentAllocation));
+        }
+
+        const currency = await this.getInstrumentCurrency(leg.symbol);
+        const positionValueLocal = await fxRates.convert(portfolioValue * positionSizePct, baseCurrency, currency);
+
+        const order = await instrumentMaster.checkOrder(leg.symbol, positionValueLocal / leg.price, leg.price, signal.market_type);
+        if (!order.valid || order.quantity === 0) {
+          logger.warn(`❌ Linked signal ${link.group_id} rejected: ${leg.symbol} not tradable: ${order.reason || 'zero quantity'}`);
+          return [];
+        }
+
+        if (leg.side === 'SELL') {
+          if (!existingPosition || existingPosition.quantity < order.quantity) {
+            logger.warn(`❌ Linked signal ${link.group_id} rejected: no ${leg.symbol} position of ${order.quantity} to sell (short positions are not supported)`);
+            return [];
+          }
+        }
+
+        // Legs trade at the current price; the signal's target is where the spread closes
+        const executionPrice = await this.calculateExecutionPrice({ ...signal, target_price: leg.price });
+        trades.push({
+          id: `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          symbol: leg.symbol,
+          side: leg.side,
+          quantity: order.quantity,
+          price: leg.price,
+          executed_price: executionPrice.executed,
+          currency,
+          timestamp: new Date(),
+          status: 'FILLED',
+          commission: this.COMMISSION_PER_TRADE,
+          slippage: executionPrice.slippage,
+          signal_id: signal.id,
+          metadata: {
+            position_size_pct: positionSizePct,
+            kelly_fraction: kellyFraction,
+            risk_score: signal.risk_score,
+            confidence: signal.confidence,
+            stop_loss: signal.stop_loss,
+            take_profit: signal.target_price,
+            expected_return: order.quantity * Math.abs(signal.target_price - leg.price),
+            max_loss: order.quantity * Math.abs(leg.price - signal.stop_loss),
+            synthetic_inputs: signal.metadata?.provenance ? signal.metadata.provenance.synthetic : undefined,
+            provenance: signal.metadata?.provenance,
+            link_group_id: link.group_id
+          }
+        });
+      }
+
+      // Stored legs, and those of them whose position was also updated
+      const executed: Trade[] = [];
+      const positioned = new Set<Trade>();
+      for (const trade of trades) {
+        try {
+          await this.executeTrade(trade);
+          executed.push(trade);
+          await this.updatePortfolioPositions(trade);
+          positioned.add(trade);
+          this.updateDailyTradeCount();
+        } catch (error) {
+          logger.error(`❌ Linked signal ${link.group_id} failed on ${trade.symbol} after ${positioned.size}/${trades.length} legs filled, reversing them`, error);
+          await this.reverseLinkedTrades(executed, positioned, link.group_id);
+          return [];
+        }
+      }
+
+      logger.info(`✅ LINKED TRADE EXECUTED: ${link.group_id}`, {
+        legs: executed.map(trade => `${trade.side} ${trade.quantity} ${trade.symbol} @ ${trade.executed_price.toFixed(2)} ${trade.currency}`),
+        unit_size_pct: unitSizePct
+      });
+
+      return executed;
+
+    } catch (error) {
+      logger.error(`❌ Linked trade execution failed for ${link.group_id}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Undo the legs of a linked signal, newest first, with offsetting trades
+   * at the current price, so the trade log, cash and positions all net out.
+   * A leg whose position update failed only has its cash flow offset.
+   */
+  private async reverseLinkedTrades(trades: Trade[], positioned: Set<Trade>, groupId: string): Promise<void> {
+    for (const trade of [...trades].reverse()) {
+      const side = trade.side === 'BUY' ? 'SELL' : 'BUY';
+      try {
+        const executionPrice = await this.calculateExecutionPrice({ symbol: trade.symbol, signal_type: side, target_price: trade.price });
+        const reversal: Trade = {
+          ...trade,
+          id: `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          side,
+          executed_price: executionPrice.executed,
+          timestamp: new Date(),
+          slippage: executionPrice.slippage,
+          metadata: { ...trade.metadata, reverses_trade_id: trade.id }
+        };
+
+        await this.executeTrade(reversal);
+        if (positioned.has(trade)) {
+          await this.updatePortfolioPositions(reversal);
+        }
+        this.updateDailyTradeCount();
+        logger.warn(`↩️ Reversed ${trade.side} ${trade.quantity} ${trade.symbol} of linked signal ${groupId}`);
+      } catch (error) {
+        logger.error(`❌ Failed to reverse ${trade.side} ${trade.quantity} ${trade.symbol} of linked signal ${groupId}, needs manual attention:`, error);
+      }
+    }
+  }
+
   private async performRiskChecks(signal: any, portfolioValue: number): Promise<{ approved: boolean; reason?: string }> {
     try {
       // 1. Signal quality checks
@@ -162,6 +344,12 @@ class ExecutionEngine {
         return { approved: false, reason: `Weak signal strength: ${signal.strength.toFixed(3)}` };
       }
 
+      // Inputs must satisfy the provenance policy
+      const provenanceCheck = await provenanceService.checkExecution(signal.metadata?.provenance);
+      if (!provenanceCheck.allowed) {
+        return { approved: false, reason: provenanceCheck.reason };
+      }
+
       // 2. Daily trade limits
       if (this.dailyTradeCount >= this.MAX_DAILY_TRADES) {
         return { approved: false, reason: 'Daily trade limit exceeded' };
@@ -221,29 +409,7 @@ class ExecutionEngine {
     take_profit: number;
   }> {
     try {
-      // Get historical performance for this type of signal
-      const historicalPerformance = await this.getSignalPerformanceStats(signal.source);
-      
-      // Use Kelly Criterion for position sizing
-      const winRate = historicalPerformance.win_rate || this.DEFAULT_WIN_RATE;
-      const avgWin = historicalPerformance.avg_win || this.DEFAULT_AVG_WIN;
-      const avgLoss = historicalPerformance.avg_loss || this.DEFAULT_AVG_LOSS;
-
-      // Kelly Fraction = (b*p - q) / b
-      // where b = avg_win/avg_loss, p = win_rate, q = 1-win_rate
-      const b = avgWin / avgLoss;
-      const p = winRate;
-      const q = 1 - winRate;
-      const rawKellyFraction = (b * p - q) / b;
-
-      // Apply confidence and risk adjustments
-      const confidenceAdjustment = signal.confidence;
-      const riskAdjustment = 1 - signal.risk_score;
-      
-      let kellyFraction = rawKellyFraction * confidenceAdjustment * riskAdjustment;
-
-      // Cap Kelly fraction for risk management
-      kellyFraction = Math.max(0, Math.min(kellyFraction, 0.25)); // Never more than 25%
+      const { kellyFraction, winRate, avgWin, avgLoss } = await this.calculateKellyFraction(signal);
 
       // Calculate position size percentage
       let positionSizePct = kellyFraction * signal.strength;
@@ -259,10 +425,20 @@ class ExecutionEngine {
         positionSizePct = Math.min(positionSizePct, maxAdditionalAllocation);
       }
 
-      // Calculate dollar amount and shares
+      // Size in the base currency, then convert to the instrument's currency
+      // and round to its lot size
       const positionValue = portfolioValue * positionSizePct;
+      const positionValueLocal = await fxRates.convert(
+        positionValue,
+        await fxRates.getBaseCurrency(),
+        await this.getInstrumentCurrency(signal.symbol)
+      );
       const targetPrice = signal.target_price || signal.price || 100;
-      const quantity = Math.floor(positionValue / targetPrice);
+      const order = await instrumentMaster.checkOrder(signal.symbol, positionValueLocal / targetPrice, targetPrice, signal.market_type);
+      if (!order.valid) {
+        logger.debug(`📏 Order for ${signal.symbol} not tradable: ${order.reason}`);
+      }
+      const quantity = order.valid ? order.quantity : 0;
 
       // Calculate risk metrics
       const stopLossDistance = targetPrice * 0.02; // 2% stop loss
@@ -314,6 +490,39 @@ class ExecutionEngine {
     }
   }
 
+  private async calculateKellyFraction(signal: any): Promise<{
+    kellyFraction: number;
+    winRate: number;
+    avgWin: number;
+    avgLoss: number;
+  }> {
+    // Get historical performance for this type of signal
+    const historicalPerformance = await this.getSignalPerformanceStats(signal.source);
+    
+    // Use Kelly Criterion for position sizing
+    const winRate = historicalPerformance.win_rate || this.DEFAULT_WIN_RATE;
+    const avgWin = historicalPerformance.avg_win || this.DEFAULT_AVG_WIN;
+    const avgLoss = historicalPerformance.avg_loss || this.DEFAULT_AVG_LOSS;
+
+    // Kelly Fraction = (b*p - q) / b
+    // where b = avg_win/avg_loss, p = win_rate, q = 1-win_rate
+    const b = avgWin / avgLoss;
+    const p = winRate;
+    const q = 1 - winRate;
+    const rawKellyFraction = (b * p - q) / b;
+
+    // Apply confidence and risk adjustments
+    const confidenceAdjustment = signal.confidence;
+    const riskAdjustment = 1 - signal.risk_score;
+    
+    let kellyFraction = rawKellyFraction * confidenceAdjustment * riskAdjustment;
+
+    // Cap Kelly fraction for risk management
+    kellyFraction = Math.max(0, Math.min(kellyFraction, 0.25)); // Never more than 25%
+
+    return { kellyFraction, winRate, avgWin, avgLoss };
+  }
+
   private async calculateExecutionPrice(signal: any): Promise<{
     target: number;
     executed: number;
@@ -336,13 +545,18 @@ class ExecutionEngine {
 
     return {
       target: targetPrice,
-      executed: parseFloat(executedPrice.toFixed(4)),
+      executed: await instrumentMaster.roundPrice(signal.symbol, executedPrice, signal.market_type),
       slippage: parseFloat(slippageAmount.toFixed(4))
     };
   }
 
   private async executeTrade(trade: Trade): Promise<void> {
     try {
+      // Buys settle in the instrument's currency; fund it from the base currency if short
+      if (trade.side === 'BUY') {
+        await portfolioManager.ensureCurrencyCash(trade.currency, trade.quantity * trade.executed_price);
+      }
+
       // Store trade in database
       await this.storeTrade(trade);
 
@@ -368,9 +582,9 @@ class ExecutionEngine {
       const query = `
         INSERT INTO trades (
           id, symbol, side, quantity, price, executed_price, timestamp, 
-          status, commission, signal_id, ai_analysis_id, metadata
+          status, commission, signal_id, ai_analysis_id, metadata, currency
         )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
       `;
 
       await DatabaseManager.query(query, [
@@ -385,7 +599,8 @@ class ExecutionEngine {
         trade.commission,
         trade.signal_id,
         trade.ai_analysis_id,
-        JSON.stringify(trade.metadata)
+        JSON.stringify(trade.metadata),
+        trade.currency
       ]);
     } catch (error) {
       logger.error('Failed to store trade:', error);
@@ -475,7 +690,7 @@ class ExecutionEngine {
       
       return result.rows.map((row: any) => ({
         symbol: row.symbol,
-        quantity: parseInt(row.quantity),
+        quantity: parseFloat(row.quantity),
         avg_price: parseFloat(row.avg_price),
         current_price: parseFloat(row.current_price),
         market_value: parseFloat(row.market_value),
@@ -501,7 +716,7 @@ class ExecutionEngine {
       const row = result.rows[0];
       return {
         symbol: row.symbol,
-        quantity: parseInt(row.quantity),
+        quantity: parseFloat(row.quantity),
         avg_price: parseFloat(row.avg_price),
         current_price: parseFloat(row.current_price),
         market_value: parseFloat(row.market_value),
@@ -517,6 +732,10 @@ class ExecutionEngine {
     }
   }
 
+  private async getInstrumentCurrency(symbol: string): Promise<string> {
+    return (await instrumentMaster.get(symbol))?.currency || fxRates.getBaseCurrency();
+  }
+
   private async getCashRatio(): Promise<number> {
     try {
       const portfolio = await portfolioManager.getLatestPortfolioSnapshot();
@@ -530,30 +749,16 @@ class ExecutionEngine {
   }
 
   private async calculateSectorExposure(symbol: string, positions: Position[]): Promise<number> {
-    // Simplified sector mapping (in production, use proper sector classification)
-    const sectors: { [key: string]: string[] } = {
-      'TECH': ['AAPL', 'MSFT', 'GOOGL', 'NVDA', 'META'],
-      'AUTO': ['TSLA'],
-      'ECOMMERCE': ['AMZN']
-    };
+    // Symbols without a sector in the instrument master are not limited
+    const targetSector = await instrumentMaster.getSector(symbol);
+    if (!targetSector) return 0;
 
-    let targetSector = 'OTHER';
-    for (const [sector, symbols] of Object.entries(sectors)) {
-      if (symbols.includes(symbol)) {
-        targetSector = sector;
-        break;
-      }
-    }
-
-    if (targetSector === 'OTHER') return 0;
-
-    // Calculate current exposure to this sector
-    const sectorSymbols = sectors[targetSector];
-    const sectorPositions = positions.filter(p => sectorSymbols.includes(p.symbol));
-    const totalSectorValue = sectorPositions.reduce((sum, p) => sum + p.market_value, 0);
     const totalPortfolioValue = positions.reduce((sum, p) => sum + p.market_value, 0);
+    if (totalPortfolioValue <= 0) return 0;
 
-    return totalSectorValue / totalPortfolioValue;
+    // Calculate current exposure to this sector
+    const exposure = await instrumentMaster.getExposure(positions);
+    return (exposure.by_sector[targetSector]?.value || 0) / totalPortfolioValue;
   }
 
   private async calculatePortfolioVaR(positions: Position[]): Promise<RiskMetrics> {
@@ -577,7 +782,7 @@ class ExecutionEngine {
       // Get recent price data and calculate volatility
       const query = `
         SELECT close FROM market_data 
-        WHERE symbol = $1 AND timestamp >= NOW() - INTERVAL '20 days'
+        WHERE symbol = $1 AND timeframe = '1d' AND timestamp >= NOW() - INTERVAL '20 days'
         ORDER BY timestamp ASC
       `;
       
@@ -610,8 +815,13 @@ class ExecutionEngine {
     avg_loss: number;
   }> {
     try {
-      // This would typically analyze historical signal performance
-      // For now, return reasonable defaults
+      // Realized outcomes of the source's past signals, once there are enough of them
+      const measured = await ensembleWeighting.getKellyStats(source);
+      if (measured) {
+        return { win_rate: measured.win_rate, avg_win: measured.avg_win, avg_loss: measured.avg_loss };
+      }
+
+      // Backtest priors until then
       const sourceStats: { [key: string]: any } = {
         'momentum_crossover': { win_rate: 0.58, avg_win: 0.028, avg_loss: 0.016 },
         'mean_reversion': { win_rate: 0.52, avg_win: 0.022, avg_loss: 0.018 },
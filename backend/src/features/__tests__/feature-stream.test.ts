@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { MarketData } from '../../data_ingestor';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+// Stored bars, oldest first, and the checkpoint rows deleted so far
+let stored: MarketData[];
+let deletes: any[][];
+
+jest.mock('../../utils/database', () => ({
+  DatabaseManager: {
+    query: async (sql: string, params: any[] = []) => {
+      if (sql.includes('DELETE FROM indicator_checkpoints')) {
+        deletes.push(params);
+        return { rows: [], rowCount: 1 };
+      }
+      return { rows: [], rowCount: 0 };
+    }
+  }
+}));
+
+jest.mock('../../data_ingestor', () => {
+  const { EventEmitter } = jest.requireActual('events') as typeof import('events');
+  const ingestor = Object.assign(new EventEmitter(), {
+    getRecentBars: async (symbol: string, timeframe: string, limit: number) => stored.slice(-limit),
+    getBarsSince: async (symbol: string, timeframe: string, since: Date, limit: number) =>
+      stored.filter(bar => bar.timestamp.getTime() > since.getTime()).slice(0, limit)
+  });
+  return { dataIngestor: ingestor };
+});
+
+import { dataIngestor } from '../../data_ingestor';
+import { FeatureStreamCache } from '../feature-stream';
+import { indicatorRegistry } from '../indicator-registry';
+
+function bar(day: number, close: number): MarketData {
+  return {
+    symbol: 'AAPL',
+    timestamp: new Date(START + day * DAY_MS),
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 1000,
+    provider: 'test',
+    market_type: 'equity',
+    timeframe: '1d'
+  };
+}
+
+const indicators = indicatorRegistry.resolve([{ name: 'sma_3', type: 'sma', params: { period: 3 } }]);
+
+describe('FeatureStreamCache invalidation', () => {
+  let cache: FeatureStreamCache;
+
+  beforeEach(() => {
+    stored = Array.from({ length: 10 }, (_, day) => bar(day, 100 + day));
+    deletes = [];
+    cache = new FeatureStreamCache('test');
+  });
+
+  it('rebuilds a stream when a bar before its last bar is revised', async () => {
+    const { stream } = await cache.sync('AAPL', '1d', indicators, 10);
+    expect(stream.values().sma_3).toBeCloseTo(108, 10);
+
+    // A gap repair rewrites day 8
+    stored[8] = bar(8, 120);
+    dataIngestor.emit('bars_changed', { symbol: 'AAPL', timeframe: '1d', since: stored[8].timestamp });
+
+    const synced = await cache.sync('AAPL', '1d', indicators, 10);
+    expect(synced.stream).not.toBe(stream);
+    expect(synced.stream.values().sma_3).toBeCloseTo(indicatorRegistry.compute(indicators, stored).sma_3 as number, 10);
+    expect(deletes).toEqual([['AAPL', '1d', stored[8].timestamp]]);
+  });
+
+  it('keeps the stream when only newer bars arrive', async () => {
+    const { stream } = await cache.sync('AAPL', '1d', indicators, 10);
+
+    stored.push(bar(10, 110));
+    dataIngestor.emit('bars_changed', { symbol: 'AAPL', timeframe: '1d', since: stored[10].timestamp });
+
+    const synced = await cache.sync('AAPL', '1d', indicators, 10);
+    expect(synced.stream).toBe(stream);
+    expect(synced.stream.values().sma_3).toBeCloseTo(109, 10);
+    expect(deletes).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from '@jest/globals';
+import * as ti from 'technicalindicators';
+import { DEFAULT_INDICATORS, FeatureValues, indicatorRegistry } from '../indicator-registry';
+import { MarketData } from '../../data_ingestor';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+// 600 hourly bars: long enough for the exponentially smoothed kinds to
+// forget their seed within the registry's warmup
+const bars: MarketData[] = Array.from({ length: 600 }, (_, i) => {
+  const close = 100 + 8 * Math.sin(i / 11) + 2 * Math.cos(i / 4) + 0.05 * i;
+  return {
+    symbol: 'AAPL',
+    timestamp: new Date(START + i * HOUR_MS),
+    open: close - 0.3 * Math.sin(i),
+    high: close + 0.8 + Math.abs(Math.sin(i * 1.7)),
+    low: close - 0.8 - Math.abs(Math.cos(i * 0.9)),
+    close,
+    volume: 2000 + 800 * Math.abs(Math.cos(i / 5)),
+    provider: 'test',
+    market_type: 'equity',
+    timeframe: '1h'
+  };
+});
+
+const close = bars.map(bar => bar.close);
+const last = <T>(values: T[]): T => values[values.length - 1];
+
+describe('indicator registry golden values', () => {
+  const indicators = indicatorRegistry.resolve(DEFAULT_INDICATORS);
+  const features = indicatorRegistry.compute(indicators, bars);
+
+  it('SMAs of the close and the volume match', () => {
+    for (const period of [5, 10, 20, 50]) {
+      expect(features[`sma_${period}`] as number).toBeCloseTo(last(ti.SMA.calculate({ period, values: close })), 8);
+    }
+    const volume = bars.map(bar => bar.volume);
+    expect(features.volume_sma_20 as number).toBeCloseTo(last(ti.SMA.calculate({ period: 20, values: volume })), 8);
+  });
+
+  it('EMAs match', () => {
+    expect(features.ema_12 as number).toBeCloseTo(last(ti.EMA.calculate({ period: 12, values: close })), 8);
+    expect(features.ema_26 as number).toBeCloseTo(last(ti.EMA.calculate({ period: 26, values: close })), 8);
+  });
+
+  it('RSI matches the Wilder-smoothed reference', () => {
+    expect(features.rsi_14).toBe(last(ti.RSI.calculate({ period: 14, values: close })));
+  });
+
+  it('MACD line, signal and histogram match', () => {
+    const expected = last(ti.MACD.calculate({
+      values: close,
+      fastPeriod: 12,
+      slowPeriod: 26,
+      signalPeriod: 9,
+      SimpleMAOscillator: false,
+      SimpleMASignal: false
+    }));
+
+    expect(features.macd_line as number).toBeCloseTo(expected.MACD, 8);
+    expect(features.macd_signal as number).toBeCloseTo(expected.signal, 8);
+    expect(features.macd_histogram as number).toBeCloseTo(expected.histogram, 8);
+    expect(features.macd_bullish).toBe(expected.MACD > expected.signal);
+  });
+
+  it('Bollinger Bands and %B match', () => {
+    const expected = last(ti.BollingerBands.calculate({ period: 20, stdDev: 2, values: close }));
+
+    expect(features.bb_upper as number).toBeCloseTo(expected.upper, 8);
+    expect(features.bb_middle as number).toBeCloseTo(expected.middle, 8);
+    expect(features.bb_lower as number).toBeCloseTo(expected.lower, 8);
+    expect(features.bb_percent_b as number).toBeCloseTo(expected.pb, 8);
+  });
+
+  it('support and resistance are the 20-bar low and high', () => {
+    expect(features.support_level).toBe(last(ti.lowest({ period: 20, values: bars.map(bar => bar.low) })));
+    expect(features.resistance_level).toBe(last(ti.highest({ period: 20, values: bars.map(bar => bar.high) })));
+  });
+});
+
+describe('indicator registry paths agree', () => {
+  const indicators = indicatorRegistry.resolve(DEFAULT_INDICATORS);
+
+  function expectSameFeatures(actual: FeatureValues, expected: FeatureValues, digits: number): void {
+    expect(Object.keys(actual).sort()).toEqual(Object.keys(expected).sort());
+    for (const [feature, value] of Object.entries(expected)) {
+      if (typeof value === 'number') {
+        expect(actual[feature] as number).toBeCloseTo(value, digits);
+      } else {
+        expect(actual[feature]).toEqual(value);
+      }
+    }
+  }
+
+  it('a stream peeking at the latest bar matches the batch value', () => {
+    const streams = indicatorRegistry.createStreams(indicators);
+    for (const bar of bars.slice(0, -1)) {
+      const computed: FeatureValues = {};
+      streams.forEach(stream => Object.assign(computed, stream.update(bar, computed)));
+    }
+
+    const peeked: FeatureValues = {};
+    streams.forEach(stream => Object.assign(peeked, stream.peek(last(bars), peeked)));
+
+    expectSameFeatures(peeked, indicatorRegistry.compute(indicators, bars), 8);
+  });
+
+  it('replaying only the warmup bars matches the full history', () => {
+    const warmup = indicatorRegistry.warmupBars(indicators);
+    expect(warmup).toBeLessThan(bars.length);
+
+    // OBV's level depends on where accumulation started; its change does not
+    // RSI is rounded to two decimals, so a seed difference can flip the last digit
+    const { obv: _obvFromWarmup, rsi_14: rsiFromWarmup, ...fromWarmup } = indicatorRegistry.compute(indicators, bars.slice(-warmup));
+    const { obv: _obvFromStart, rsi_14: rsiFromStart, ...fromStart } = indicatorRegistry.compute(indicators, bars);
+
+    expectSameFeatures(fromWarmup, fromStart, 6);
+    expect(Math.abs((rsiFromWarmup as number) - (rsiFromStart as number))).toBeLessThanOrEqual(0.01);
+  });
+
+  it('the AI decision engine definitions give the same RSI and MACD as the features engine', () => {
+    const decision = indicatorRegistry.resolve([
+      { name: 'rsi', type: 'rsi', params: { period: 14 } },
+      { name: 'macd', type: 'macd', params: { fast: 12, slow: 26, signal: 9 } }
+    ]);
+    const decisionFeatures = indicatorRegistry.compute(decision, bars);
+    const features = indicatorRegistry.compute(indicators, bars);
+
+    expect(decisionFeatures.rsi).toBe(features.rsi_14);
+    expect(decisionFeatures.macd_line).toBe(features.macd_line);
+    expect(decisionFeatures.macd_signal).toBe(features.macd_signal);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from '@jest/globals';
+import * as ti from 'technicalindicators';
+import * as streaming from '../streaming-indicators';
+import { indicatorRegistry } from '../indicator-registry';
+import { MarketData } from '../../data_ingestor';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+// 120 hourly bars: a trend with two overlapping cycles, so ranges, crossings
+// and directional moves all vary
+const bars: MarketData[] = Array.from({ length: 120 }, (_, i) => {
+  const close = 100 + 10 * Math.sin(i / 7) + 3 * Math.cos(i / 3) + i * 0.1;
+  return {
+    symbol: 'AAPL',
+    timestamp: new Date(START + i * HOUR_MS),
+    open: close - 0.5 * Math.sin(i),
+    high: close + 1 + Math.abs(Math.sin(i * 1.3)),
+    low: close - 1 - Math.abs(Math.cos(i * 0.7)),
+    close,
+    volume: 1000 + 500 * Math.abs(Math.sin(i / 2)),
+    provider: 'test',
+    market_type: 'equity',
+    timeframe: '1h'
+  };
+});
+
+const high = bars.map(bar => bar.high);
+const low = bars.map(bar => bar.low);
+const close = bars.map(bar => bar.close);
+const volume = bars.map(bar => bar.volume);
+
+function replay<T>(indicator: { update(bar: MarketData): T | null }): T[] {
+  return bars.map(bar => indicator.update(bar)).filter(value => value !== null);
+}
+
+function expectSeries(actual: number[], expected: number[]): void {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 8));
+}
+
+describe('streaming indicators against technicalindicators', () => {
+  it('ATR matches from the first value', () => {
+    expectSeries(replay(new streaming.Atr(14)), ti.ATR.calculate({ high, low, close, period: 14 }));
+  });
+
+  it('ADX and the directional lines match', () => {
+    const actual = replay(new streaming.Adx(14));
+    const expected = ti.ADX.calculate({ high, low, close, period: 14 });
+
+    expectSeries(actual.map(value => value.adx), expected.map(value => value.adx));
+    expectSeries(actual.map(value => value.plus_di), expected.map(value => value.pdi));
+    expectSeries(actual.map(value => value.minus_di), expected.map(value => value.mdi));
+  });
+
+  it('stochastic %K and %D match', () => {
+    const actual = replay(new streaming.Stochastic(14, 3));
+    const expected = ti.Stochastic.calculate({ high, low, close, period: 14, signalPeriod: 3 });
+
+    expectSeries(actual.map(value => value.k), expected.map(value => value.k));
+    // %D starts once three %K values exist
+    const withD = actual.filter(value => value.d !== null);
+    expectSeries(withD.map(value => value.d), expected.filter(value => value.d !== undefined).map(value => value.d));
+  });
+
+  it('OBV matches and its change is the net flow over the period', () => {
+    const actual = replay(new streaming.OnBalanceVolume(20));
+    const expected = ti.OBV.calculate({ close, volume });
+
+    expectSeries(actual.map(value => value.obv), expected.slice(-actual.length));
+    const last = actual.length - 1;
+    expect(actual[last].change).toBeCloseTo(actual[last].obv - actual[last - 20].obv, 6);
+  });
+
+  it('session VWAP matches a VWAP over each UTC day and resets at midnight', () => {
+    const actual = replay(new streaming.SessionVwap());
+
+    for (let day = 0; day * 24 < bars.length; day++) {
+      const session = { start: day * 24, end: Math.min((day + 1) * 24, bars.length) };
+      const expected = ti.VWAP.calculate({
+        high: high.slice(session.start, session.end),
+        low: low.slice(session.start, session.end),
+        close: close.slice(session.start, session.end),
+        volume: volume.slice(session.start, session.end)
+      });
+      expectSeries(actual.slice(session.start, session.end), expected);
+    }
+    // The first bar of a session is its own typical price
+    expect(actual[24]).toBeCloseTo((high[24] + low[24] + close[24]) / 3, 10);
+  });
+
+  it('Ichimoku lines match and the cloud is the spans from displacement bars back', () => {
+    const actual = replay(new streaming.Ichimoku(9, 26, 52, 26)).filter(value => value.span_b !== null);
+    const expected = ti.IchimokuCloud.calculate({ high, low, conversionPeriod: 9, basePeriod: 26, spanPeriod: 52, displacement: 26 });
+
+    expectSeries(actual.map(value => value.conversion), expected.map(value => value.conversion));
+    expectSeries(actual.map(value => value.base), expected.map(value => value.base));
+    expectSeries(actual.map(value => value.span_a), expected.map(value => value.spanA));
+    expectSeries(actual.map(value => value.span_b), expected.map(value => value.spanB));
+
+    const cloud = expected[expected.length - 1 - 26];
+    const last = actual[actual.length - 1];
+    expect(last.cloud_top).toBeCloseTo(Math.max(cloud.spanA, cloud.spanB), 8);
+    expect(last.cloud_bottom).toBeCloseTo(Math.min(cloud.spanA, cloud.spanB), 8);
+  });
+});
+
+describe('channel indicators', () => {
+  const compute = (type: string, params: { [param: string]: number }) =>
+    indicatorRegistry.compute(indicatorRegistry.resolve([{ name: type, type, params }]), bars);
+
+  it('Keltner channels match an EMA middle with ATR bands', () => {
+    const actual = compute('keltner', { period: 20, atr_period: 10, multiplier: 2 });
+    const expected = ti.KeltnerChannels.calculate({ high, low, close, maPeriod: 20, atrPeriod: 10, useSMA: false, multiplier: 2 });
+    const last = expected[expected.length - 1];
+
+    expect(actual.keltner_upper as number).toBeCloseTo(last.upper, 8);
+    expect(actual.keltner_middle as number).toBeCloseTo(last.middle, 8);
+    expect(actual.keltner_lower as number).toBeCloseTo(last.lower, 8);
+  });
+
+  it('Donchian channels are the period high, low and their midpoint', () => {
+    const actual = compute('donchian', { period: 20 });
+    const upper = ti.highest({ values: high, period: 20 }).pop()!;
+    const lower = ti.lowest({ values: low, period: 20 }).pop()!;
+
+    expect(upper).toBe(Math.max(...high.slice(-20)));
+    expect(actual.donchian_upper).toBe(upper);
+    expect(actual.donchian_lower).toBe(lower);
+    expect(actual.donchian_middle as number).toBeCloseTo((upper + lower) / 2, 10);
+  });
+
+  it('Donchian has no value before the period fills', () => {
+    const actual = indicatorRegistry.compute(indicatorRegistry.resolve([{ name: 'donchian', type: 'donchian' }]), bars.slice(0, 19));
+    expect(actual.donchian_upper).toBeNull();
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Cross-Sectional Features
+ * Runs after the per-symbol features and compares symbols with each other:
+ * percentile ranks of returns over several lookbacks, relative strength and
+ * rolling beta against a benchmark (SPY for equities, BTC for crypto), and
+ * z-scores of relative volume and volatility. Equities and crypto are ranked
+ * separately, each against its own benchmark.
+ */
+import { logger } from '../utils/logger';
+import { getSystemConfig } from '../utils/systemConfig';
+import { dataIngestor, MarketData } from '../data_ingestor';
+import { BarInterval } from '../data/providers';
+import { FeatureSet } from './index';
+
+export const CROSS_SECTIONAL_CONFIG_KEY = 'cross_sectional_features';
+
+export interface CrossSectionalConfig {
+  lookbacks: number[];                          // bars, e.g. [5, 20, 60] -> return_5, return_5_rank, rs_5, ...
+  benchmarks: { [marketType: string]: string };
+  beta_window: number;                          // bars of paired returns for `beta`
+  min_universe: number;                         // fewer symbols than this leaves ranks and z-scores null
+}
+
+export interface CrossSectionalMetadata {
+  universe_size: number;
+  benchmark: string | null;
+  lookbacks: number[];
+  beta_window: number;
+}
+
+const DEFAULT_CROSS_SECTIONAL_CONFIG: CrossSectionalConfig = {
+  lookbacks: [5, 20, 60],
+  benchmarks: { equity: 'SPY', crypto: 'BTCUSDT' },
+  beta_window: 60,
+  min_universe: 3
+};
+
+type Values = (number | null)[];
+
+export class CrossSectionalStage {
+  private readonly CONFIG_TTL_MS = 5 * 60 * 1000;
+  private config: CrossSectionalConfig = DEFAULT_CROSS_SECTIONAL_CONFIG;
+  private configLoadedAt = 0;
+
+  async getConfig(): Promise<CrossSectionalConfig> {
+    if (Date.now() - this.configLoadedAt > this.CONFIG_TTL_MS) {
+      const config = await getSystemConfig<Partial<CrossSectionalConfig>>(CROSS_SECTIONAL_CONFIG_KEY, {});
+      const lookbacks = (config.lookbacks || DEFAULT_CROSS_SECTIONAL_CONFIG.lookbacks)
+        .map(Number)
+        .filter(lookback => Number.isInteger(lookback) && lookback > 0);
+      this.config = {
+        lookbacks: lookbacks.length > 0 ? lookbacks : DEFAULT_CROSS_SECTIONAL_CONFIG.lookbacks,
+        benchmarks: { ...DEFAULT_CROSS_SECTIONAL_CONFIG.benchmarks, ...(config.benchmarks || {}) },
+        beta_window: config.beta_window || DEFAULT_CROSS_SECTIONAL_CONFIG.beta_window,
+        min_universe: config.min_universe || DEFAULT_CROSS_SECTIONAL_CONFIG.min_universe
+      };
+      this.configLoadedAt = Date.now();
+    }
+    return this.config;
+  }
+
+  /**
+   * Bars of history each symbol needs for every lookback and the beta window.
+   */
+  requiredBars(config: CrossSectionalConfig): number {
+    return Math.max(...config.lookbacks, config.beta_window) + 1;
+  }
+
+  /**
+   * Add cross-sectional features to each feature set in place. `bars` holds
+   * each symbol's recent bars, oldest first; `asOf` limits benchmark bars
+   * loaded from storage to those before it when recomputing history.
+   */
+  async apply(featureSets: FeatureSet[], bars: Map<string, MarketData[]>, timeframe: BarInterval, asOf?: Date): Promise<void> {
+    const config = await this.getConfig();
+    const groups = new Map<string, FeatureSet[]>();
+
+    for (const featureSet of featureSets) {
+      const marketType = bars.get(featureSet.symbol)?.[0]?.market_type;
+      if (!marketType) continue;
+      groups.set(marketType, [...(groups.get(marketType) || []), featureSet]);
+    }
+
+    for (const [marketType, group] of groups) {
+      const benchmark = config.benchmarks[marketType] || null;
+      const benchmarkBars = benchmark ? await this.getBenchmarkBars(benchmark, bars, timeframe, config, asOf) : [];
+      this.applyToGroup(group, bars, benchmark, benchmarkBars, config);
+    }
+  }
+
+  private applyToGroup(
+    group: FeatureSet[],
+    bars: Map<string, MarketData[]>,
+    benchmark: string | null,
+    benchmarkBars: MarketData[],
+    config: CrossSectionalConfig
+  ): void {
+    const ranked = group.length >= config.min_universe;
+    const columns: { [feature: string]: Values } = {};
+
+    for (const lookback of config.lookbacks) {
+      const returns = group.map(featureSet => this.periodReturn(bars.get(featureSet.symbol) || [], lookback));
+      const benchmarkReturn = this.periodReturn(benchmarkBars, lookback);
+
+      columns[`return_${lookback}`] = returns;
+      columns[`return_${lookback}_rank`] = ranked ? this.percentileRanks(returns) : returns.map(() => null);
+      // Outperformance of the benchmark in percent: (1 + r) / (1 + r_benchmark) - 1
+      columns[`rs_${lookback}`] = returns.map(r =>
+        r === null || benchmarkReturn === null ? null : ((1 + r / 100) / (1 + benchmarkReturn / 100) - 1) * 100
+      );
+    }
+
+    const volumeRatios = group.map(featureSet => this.numeric(featureSet.features.volume_ratio));
+    const volatilities = group.map(featureSet => this.numeric(featureSet.features.volatility_20));
+    columns.volume_zscore = ranked ? this.zScores(volumeRatios) : volumeRatios.map(() => null);
+    columns.volatility_zscore = ranked ? this.zScores(volatilities) : volatilities.map(() => null);
+    columns.beta = group.map(featureSet => this.beta(bars.get(featureSet.symbol) || [], benchmarkBars, config.beta_window));
+
+    group.forEach((featureSet, i) => {
+      for (const [feature, values] of Object.entries(columns)) {
+        featureSet.features[feature] = values[i];
+      }
+      featureSet.metadata.cross_sectional = {
+        universe_size: group.length,
+        benchmark,
+        lookbacks: config.lookbacks,
+        beta_window: config.beta_window
+      };
+    });
+  }
+
+  private async getBenchmarkBars(
+    benchmark: string,
+    bars: Map<string, MarketData[]>,
+    timeframe: BarInterval,
+    config: CrossSectionalConfig,
+    asOf?: Date
+  ): Promise<MarketData[]> {
+    const inUniverse = bars.get(benchmark);
+    if (inUniverse) return inUniverse;
+
+    try {
+      return await dataIngestor.getRecentBars(benchmark, timeframe, this.requiredBars(config), asOf);
+    } catch (error) {
+      logger.warn(`Failed to load ${benchmark} benchmark bars, skipping relative strength and beta:`, error);
+      return [];
+    }
+  }
+
+  // Percent return over the last `lookback` bars
+  private periodReturn(bars: MarketData[], lookback: number): number | null {
+    if (bars.length <= lookback) return null;
+    const past = bars[bars.length - 1 - lookback].close;
+    return past > 0 ? ((bars[bars.length - 1].close - past) / past) * 100 : null;
+  }
+
+  /**
+   * Share of the other symbols each value beats (ties count half), from 0
+   * for the lowest to 1 for the highest. Missing values stay null.
+   */
+  private percentileRanks(values: Values): Values {
+    const present = values.filter((value): value is number => value !== null);
+    if (present.length < 2) return values.map(value => (value === null ? null : 0.5));
+
+    return values.map(value => {
+      if (value === null) return null;
+      const below = present.filter(other => other < value).length;
+      const ties = present.filter(other => other === value).length - 1;
+      return (below + ties / 2) / (present.length - 1);
+    });
+  }
+
+  private zScores(values: Values): Values {
+    const present = values.filter((value): value is number => value !== null);
+    if (present.length < 2) return values.map(() => null);
+
+    const mean = present.reduce((sum, value) => sum + value, 0) / present.length;
+    const std = Math.sqrt(present.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / present.length);
+    return values.map(value => (value === null ? null : std > 0 ? (value - mean) / std : 0));
+  }
+
+  /**
+   * Covariance of bar returns with the benchmark's over its variance, using
+   * the last `window` returns on timestamps both series have.
+   */
+  private beta(bars: MarketData[], benchmarkBars: MarketData[], window: number): number | null {
+    const benchmarkCloses = new Map(benchmarkBars.map(bar => [bar.timestamp.getTime(), bar.close]));
+    const pairs: [number, number][] = [];
+
+    for (let i = 1; i < bars.length; i++) {
+      const current = benchmarkCloses.get(bars[i].timestamp.getTime());
+      const previous = benchmarkCloses.get(bars[i - 1].timestamp.getTime());
+      if (current === undefined || previous === undefined || previous <= 0 || bars[i - 1].close <= 0) continue;
+      pairs.push([(bars[i].close - bars[i - 1].close) / bars[i - 1].close, (current - previous) / previous]);
+    }
+
+    const recent = pairs.slice(-window);
+    // Too few overlapping bars for a meaningful estimate
+    if (recent.length < Math.min(window, 10)) return null;
+
+    const meanAsset = recent.reduce((sum, [asset]) => sum + asset, 0) / recent.length;
+    const meanBenchmark = recent.reduce((sum, [, bench]) => sum + bench, 0) / recent.length;
+    let covariance = 0;
+    let variance = 0;
+    for (const [asset, bench] of recent) {
+      covariance += (asset - meanAsset) * (bench - meanBenchmark);
+      variance += Math.pow(bench - meanBenchmark, 2);
+    }
+
+    return variance > 0 ? covariance / variance : null;
+  }
+
+  private numeric(value: unknown): number | null {
+    return typeof value === 'number' && isFinite(value) ? value : null;
+  }
+}
+
+export const crossSectionalStage = new CrossSectionalStage();
@@ -0,0 +1,242 @@
+/**
+ * Feature History Recompute
+ * Rewrites stored features under the current feature version in resumable
+ * chunks, so backtests read history computed by the same definitions as the
+ * live cycle. A new version queues a recompute of recent history on its own.
+ */
+import { logger } from '../utils/logger';
+import { DatabaseManager } from '../utils/database';
+import { BarInterval } from '../data/providers';
+import { featuresEngine } from './index';
+
+export interface FeatureRecomputeRequest {
+  symbols: string[];
+  timeframe?: BarInterval;
+  start: Date;
+  end?: Date;
+}
+
+export interface FeatureRecomputeJob {
+  id: number;
+  feature_version: string;
+  timeframe: BarInterval;
+  symbols: string[];
+  start_date: Date;
+  end_date: Date;
+  cursor_date: Date;
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  rows_written: number;
+  last_error?: string;
+  created_at: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Chunks bound the bars held in memory; each chunk warms up from the bars before it
+const CHUNK_SPAN_MS: { [key in BarInterval]: number } = {
+  '1m': DAY_MS,
+  '5m': 5 * DAY_MS,
+  '15m': 15 * DAY_MS,
+  '1h': 60 * DAY_MS,
+  '1d': 5 * 365 * DAY_MS
+};
+
+export class FeatureRecomputeService {
+  private readonly RECOMPUTE_DAYS = parseInt(process.env.FEATURE_RECOMPUTE_DAYS || '365');
+  private queue: Promise<void> = Promise.resolve();
+  private queuedJobs: Set<number> = new Set();
+  private checkedVersions: Set<string> = new Set();
+
+  /**
+   * Create a job for the current feature version, or return the unfinished
+   * job for the same version, timeframe and symbols so a repeated request
+   * resumes.
+   */
+  async createJob(request: FeatureRecomputeRequest): Promise<FeatureRecomputeJob> {
+    const timeframe = request.timeframe || '1d';
+    const end = request.end || new Date();
+    const symbols = [...new Set(request.symbols)].sort();
+    const { version } = await featuresEngine.getFeatureVersion();
+
+    const existing = await DatabaseManager.query(
+      `SELECT * FROM feature_recompute_jobs
+       WHERE feature_version = $1 AND timeframe = $2 AND symbols = $3
+         AND status IN ('PENDING', 'RUNNING', 'FAILED')
+       ORDER BY created_at DESC LIMIT 1`,
+      [version, timeframe, symbols]
+    );
+
+    if (existing.rows.length > 0) {
+      const job = this.mapJob(existing.rows[0]);
+      logger.info(`⏯️ Resuming feature recompute job ${job.id} from ${job.cursor_date.toISOString()}`);
+      return job;
+    }
+
+    const result = await DatabaseManager.query(
+      `INSERT INTO feature_recompute_jobs (feature_version, timeframe, symbols, start_date, end_date, cursor_date, status)
+       VALUES ($1, $2, $3, $4, $5, $4, 'PENDING')
+       RETURNING *`,
+      [version, timeframe, symbols, request.start, end]
+    );
+
+    return this.mapJob(result.rows[0]);
+  }
+
+  /**
+   * Queue a job. Jobs run one at a time behind each other.
+   */
+  enqueue(job: FeatureRecomputeJob): void {
+    if (this.queuedJobs.has(job.id)) return;
+
+    this.queuedJobs.add(job.id);
+    this.queue = this.queue
+      .then(() => this.runJob(job.id))
+      .then(() => undefined)
+      .catch(error => logger.error(`Feature recompute job ${job.id} crashed:`, error))
+      .finally(() => this.queuedJobs.delete(job.id));
+  }
+
+  async recompute(request: FeatureRecomputeRequest): Promise<FeatureRecomputeJob> {
+    const job = await this.createJob(request);
+    this.enqueue(job);
+    return job;
+  }
+
+  async runJob(jobId: number): Promise<FeatureRecomputeJob> {
+    let job = await this.getJob(jobId);
+    if (!job) throw new Error(`Feature recompute job ${jobId} not found`);
+    if (job.status === 'COMPLETED') return job;
+
+    // Definitions changed since the job was queued; its rows would carry the wrong version
+    const { version } = await featuresEngine.getFeatureVersion();
+    if (version !== job.feature_version) {
+      await this.updateJob(job.id, { status: 'FAILED', last_error: `Feature version is now ${version}` });
+      logger.warn(`⚠️ Feature recompute job ${job.id} is for ${job.feature_version}, current version is ${version}`);
+      return (await this.getJob(job.id))!;
+    }
+
+    await this.updateJob(job.id, { status: 'RUNNING', last_error: null });
+    logger.info(`♻️ Recomputing ${job.symbols.length} symbols ${job.timeframe} ${job.cursor_date.toISOString()} → ${job.end_date.toISOString()} under ${job.feature_version}`);
+
+    const span = CHUNK_SPAN_MS[job.timeframe];
+    let cursor = job.cursor_date;
+
+    while (cursor < job.end_date) {
+      const chunkEnd = new Date(Math.min(cursor.getTime() + span, job.end_date.getTime()));
+
+      let written: number;
+      try {
+        written = await featuresEngine.recomputeHistory(job.symbols, job.timeframe, cursor, new Date(chunkEnd.getTime() - 1));
+      } catch (error: any) {
+        await this.updateJob(job.id, { status: 'FAILED', last_error: error.message });
+        logger.error(`❌ Feature recompute job ${job.id} failed at ${cursor.toISOString()}: ${error.message}`);
+        return (await this.getJob(job.id))!;
+      }
+
+      cursor = chunkEnd;
+      await DatabaseManager.query(
+        `UPDATE feature_recompute_jobs SET cursor_date = $2, rows_written = rows_written + $3 WHERE id = $1`,
+        [job.id, cursor, written]
+      );
+    }
+
+    await this.updateJob(job.id, { status: 'COMPLETED' });
+    job = (await this.getJob(job.id))!;
+    logger.info(`✅ Feature recompute complete under ${job.feature_version}: ${job.rows_written} rows`);
+    return job;
+  }
+
+  /**
+   * Queue a recompute of the last `FEATURE_RECOMPUTE_DAYS` days the first
+   * time a feature version is seen for this set of symbols without one
+   * (0 disables). Equity and crypto cycles each get their own job.
+   */
+  async recomputeIfVersionChanged(symbols: string[], timeframe: BarInterval = '1d'): Promise<FeatureRecomputeJob | null> {
+    if (this.RECOMPUTE_DAYS <= 0 || symbols.length === 0) return null;
+
+    const { version } = await featuresEngine.getFeatureVersion();
+    const sorted = [...new Set(symbols)].sort();
+    const key = `${version}:${timeframe}:${sorted.join(',')}`;
+    if (this.checkedVersions.has(key)) return null;
+
+    const existing = await DatabaseManager.query(
+      `SELECT 1 FROM feature_recompute_jobs WHERE feature_version = $1 AND timeframe = $2 AND symbols = $3 LIMIT 1`,
+      [version, timeframe, sorted]
+    );
+    this.checkedVersions.add(key);
+    if (existing.rows.length > 0) return null;
+
+    logger.info(`🆕 Feature version ${version} has no recomputed history, queueing ${this.RECOMPUTE_DAYS} days`);
+    return this.recompute({
+      symbols: sorted,
+      timeframe,
+      start: new Date(Date.now() - this.RECOMPUTE_DAYS * DAY_MS)
+    });
+  }
+
+  /**
+   * Re-queue jobs left PENDING or RUNNING by a previous process.
+   */
+  async resumeInterruptedJobs(): Promise<number> {
+    try {
+      const result = await DatabaseManager.query(
+        `SELECT * FROM feature_recompute_jobs WHERE status IN ('PENDING', 'RUNNING') ORDER BY created_at ASC`
+      );
+
+      for (const row of result.rows) {
+        this.enqueue(this.mapJob(row));
+      }
+
+      if (result.rows.length > 0) {
+        logger.info(`⏯️ Resumed ${result.rows.length} interrupted feature recompute jobs`);
+      }
+      return result.rows.length;
+    } catch (error) {
+      logger.error('Failed to resume feature recompute jobs:', error);
+      return 0;
+    }
+  }
+
+  async getJob(jobId: number): Promise<FeatureRecomputeJob | null> {
+    const result = await DatabaseManager.query(`SELECT * FROM feature_recompute_jobs WHERE id = $1`, [jobId]);
+    return result.rows.length > 0 ? this.mapJob(result.rows[0]) : null;
+  }
+
+  async listJobs(limit: number = 50): Promise<FeatureRecomputeJob[]> {
+    const result = await DatabaseManager.query(
+      `SELECT * FROM feature_recompute_jobs ORDER BY created_at DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map((row: any) => this.mapJob(row));
+  }
+
+  private async updateJob(
+    jobId: number,
+    fields: { status?: FeatureRecomputeJob['status']; last_error?: string | null }
+  ): Promise<void> {
+    await DatabaseManager.query(
+      `UPDATE feature_recompute_jobs
+       SET status = COALESCE($2, status), last_error = $3
+       WHERE id = $1`,
+      [jobId, fields.status || null, fields.last_error === undefined ? null : fields.last_error]
+    );
+  }
+
+  private mapJob(row: any): FeatureRecomputeJob {
+    return {
+      id: row.id,
+      feature_version: row.feature_version,
+      timeframe: row.timeframe,
+      symbols: row.symbols,
+      start_date: new Date(row.start_date),
+      end_date: new Date(row.end_date),
+      cursor_date: new Date(row.cursor_date),
+      status: row.status,
+      rows_written: parseInt(row.rows_written),
+      last_error: row.last_error || undefined,
+      created_at: new Date(row.created_at)
+    };
+  }
+}
+
+export const featureRecompute = new FeatureRecomputeService();
@@ -0,0 +1,196 @@
+/**
+ * Point-in-Time Feature Store
+ * Versioned, append-only feature rows. Each row records the feature version
+ * that produced it and when its values became known, so "latest" and "as of
+ * T" reads return one row per symbol from a single version, and backtests see
+ * only what the live system could have seen at the time.
+ */
+import * as crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { DatabaseManager } from '../utils/database';
+import { BarInterval } from '../data/providers';
+import { ResolvedIndicator } from './indicator-registry';
+import { CrossSectionalConfig } from './cross-sectional';
+import { RegimeConfig } from './regime';
+import { FeatureSet } from './index';
+
+// Bump when indicator or feature code changes values for unchanged definitions
+export const FEATURE_CODE_VERSION = 2;
+
+export interface FeatureDefinitions {
+  indicators: { name: string; type: string; params: { [key: string]: any } }[];
+  cross_sectional: CrossSectionalConfig;
+  regime: RegimeConfig;
+}
+
+export interface FeatureVersion {
+  version: string;
+  code_version: number;
+  definitions: FeatureDefinitions;
+  created_at: Date;
+  rows: number;
+  first_bar_at: Date | null;
+  last_bar_at: Date | null;
+}
+
+export interface StoredFeatureSet extends FeatureSet {
+  timeframe: BarInterval;
+  feature_version: string;
+  known_at: Date;
+}
+
+export class FeatureStore {
+  private registered: Set<string> = new Set();
+
+  definitionsOf(indicators: ResolvedIndicator[], crossSectional: CrossSectionalConfig, regime: RegimeConfig): FeatureDefinitions {
+    return {
+      indicators: indicators.map(({ name, type, params }) => ({ name, type, params })),
+      cross_sectional: crossSectional,
+      regime
+    };
+  }
+
+  /**
+   * Version id for a set of definitions: the code version plus a hash of the
+   * definitions, e.g. `v1-3f9a0c12b7de`.
+   */
+  versionOf(definitions: FeatureDefinitions): string {
+    const hash = crypto.createHash('sha1').update(JSON.stringify(definitions)).digest('hex');
+    return `v${FEATURE_CODE_VERSION}-${hash.slice(0, 12)}`;
+  }
+
+  /**
+   * Record the definitions behind a version. Returns true the first time the
+   * version is seen.
+   */
+  async registerVersion(version: string, definitions: FeatureDefinitions): Promise<boolean> {
+    if (this.registered.has(version)) return false;
+
+    const result = await DatabaseManager.query(
+      `INSERT INTO feature_versions (version, code_version, definitions)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (version) DO NOTHING`,
+      [version, FEATURE_CODE_VERSION, JSON.stringify(definitions)]
+    );
+    this.registered.add(version);
+
+    if ((result.rowCount || 0) > 0) {
+      logger.info(`🆕 Registered feature version ${version}`);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Append feature sets known at `knownAt`. A revision identical to the
+   * latest stored one for the same bar is skipped. Returns rows written.
+   */
+  async write(featureSets: FeatureSet[], timeframe: BarInterval, version: string, knownAt: Date): Promise<number> {
+    let written = 0;
+
+    for (const featureSet of featureSets) {
+      const result = await DatabaseManager.query(`
+        INSERT INTO features (symbol, timeframe, feature_version, timestamp, known_at, features, metadata)
+        SELECT $1, $2, $3, $4, $5, $6::jsonb, $7::jsonb
+        WHERE NOT EXISTS (
+          SELECT 1 FROM (
+            SELECT features FROM features
+            WHERE symbol = $1 AND timeframe = $2 AND feature_version = $3 AND timestamp = $4 AND known_at <= $5
+            ORDER BY known_at DESC
+            LIMIT 1
+          ) latest
+          WHERE latest.features = $6::jsonb
+        )
+        ON CONFLICT (symbol, timeframe, feature_version, timestamp, known_at) DO UPDATE SET
+          features = EXCLUDED.features,
+          metadata = EXCLUDED.metadata,
+          updated_at = NOW()
+      `, [
+        featureSet.symbol,
+        timeframe,
+        version,
+        featureSet.timestamp,
+        knownAt,
+        JSON.stringify(featureSet.features),
+        JSON.stringify(featureSet.metadata)
+      ]);
+      written += result.rowCount || 0;
+    }
+
+    return written;
+  }
+
+  /**
+   * Per symbol, the features of the latest bar as known at `asOf`: the most
+   * recent revision with `known_at <= asOf`. Symbols with nothing known yet
+   * are omitted.
+   */
+  async getAsOf(symbols: string[], asOf: Date, timeframe: BarInterval, version: string): Promise<StoredFeatureSet[]> {
+    const result = await DatabaseManager.query(`
+      SELECT DISTINCT ON (symbol) symbol, timeframe, feature_version, timestamp, known_at, features, metadata
+      FROM features
+      WHERE feature_version = $1 AND timeframe = $2 AND symbol = ANY($3) AND known_at <= $4
+      ORDER BY symbol, timestamp DESC, known_at DESC
+    `, [version, timeframe, symbols, asOf]);
+
+    return result.rows.map((row: any) => this.mapRow(row));
+  }
+
+  /**
+   * One row per bar in [from, to] for a symbol, each bar's latest revision
+   * known at `asOf` (default now).
+   */
+  async getHistory(
+    symbol: string,
+    from: Date,
+    to: Date,
+    timeframe: BarInterval,
+    version: string,
+    asOf: Date = new Date()
+  ): Promise<StoredFeatureSet[]> {
+    const result = await DatabaseManager.query(`
+      SELECT DISTINCT ON (timestamp) symbol, timeframe, feature_version, timestamp, known_at, features, metadata
+      FROM features
+      WHERE feature_version = $1 AND timeframe = $2 AND symbol = $3
+        AND timestamp BETWEEN $4 AND $5 AND known_at <= $6
+      ORDER BY timestamp ASC, known_at DESC
+    `, [version, timeframe, symbol, from, to, asOf]);
+
+    return result.rows.map((row: any) => this.mapRow(row));
+  }
+
+  async listVersions(): Promise<FeatureVersion[]> {
+    const result = await DatabaseManager.query(`
+      SELECT v.version, v.code_version, v.definitions, v.created_at,
+             COUNT(f.id) AS rows, MIN(f.timestamp) AS first_bar_at, MAX(f.timestamp) AS last_bar_at
+      FROM feature_versions v
+      LEFT JOIN features f ON f.feature_version = v.version
+      GROUP BY v.version
+      ORDER BY v.created_at DESC
+    `);
+
+    return result.rows.map((row: any) => ({
+      version: row.version,
+      code_version: parseInt(row.code_version),
+      definitions: row.definitions,
+      created_at: new Date(row.created_at),
+      rows: parseInt(row.rows),
+      first_bar_at: row.first_bar_at ? new Date(row.first_bar_at) : null,
+      last_bar_at: row.last_bar_at ? new Date(row.last_bar_at) : null
+    }));
+  }
+
+  private mapRow(row: any): StoredFeatureSet {
+    return {
+      symbol: row.symbol,
+      timestamp: new Date(row.timestamp),
+      timeframe: row.timeframe,
+      feature_version: row.feature_version,
+      known_at: new Date(row.known_at),
+      features: row.features,
+      metadata: row.metadata
+    };
+  }
+}
+
+export const featureStore = new FeatureStore();
@@ -0,0 +1,354 @@
+/**
+ * Feature Streams
+ * Incremental indicator state per symbol and timeframe. Streams catch up on
+ * bars stored since their last bar instead of reloading a full window, and
+ * are checkpointed to `indicator_checkpoints` so a restart resumes where it
+ * left off. A stream is rebuilt when its indicator definitions change, or
+ * when a bar at or before its last bar is inserted or revised.
+ */
+import * as crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { DatabaseManager } from '../utils/database';
+import { BarsChanged, dataIngestor, MarketData } from '../data_ingestor';
+import { BAR_INTERVAL_MS, BarInterval } from '../data/providers';
+import { FeatureValues, IndicatorStream, indicatorRegistry, ResolvedIndicator } from './indicator-registry';
+
+export interface FeatureStreamCheckpoint {
+  signature: string;
+  bar_count: number;
+  last_bar_at: string | null;
+  bars: MarketData[];
+  values: FeatureValues;
+  indicators: any[];
+}
+
+export interface SyncedStream {
+  stream: FeatureStream;
+  // Latest bar when its interval has not ended yet; it may still be revised,
+  // so it is evaluated with `peek` rather than committed
+  forming: MarketData | null;
+}
+
+export interface CheckpointSummary {
+  consumer: string;
+  symbol: string;
+  timeframe: BarInterval;
+  signature: string;
+  bar_count: number;
+  last_bar_at: Date | null;
+  updated_at: Date;
+}
+
+export class FeatureStream {
+  readonly signature: string;
+  private streams: IndicatorStream[];
+  private bars: MarketData[] = [];
+  private current: FeatureValues = {};
+  private count = 0;
+
+  constructor(
+    readonly symbol: string,
+    readonly timeframe: BarInterval,
+    indicators: ResolvedIndicator[],
+    private retainBars: number
+  ) {
+    this.signature = FeatureStream.signatureOf(indicators);
+    this.streams = indicatorRegistry.createStreams(indicators);
+  }
+
+  static signatureOf(indicators: ResolvedIndicator[]): string {
+    const definitions = indicators.map(({ name, type, params }) => ({ name, type, params }));
+    return crypto.createHash('sha1').update(JSON.stringify(definitions)).digest('hex');
+  }
+
+  get barCount(): number {
+    return this.count;
+  }
+
+  get lastBarAt(): Date | null {
+    return this.bars.length > 0 ? this.bars[this.bars.length - 1].timestamp : null;
+  }
+
+  /**
+   * Commit a closed bar. Bars at or before the last one are ignored.
+   */
+  update(bar: MarketData): boolean {
+    const lastBarAt = this.lastBarAt;
+    if (lastBarAt && bar.timestamp.getTime() <= lastBarAt.getTime()) return false;
+
+    const computed: FeatureValues = {};
+    this.streams.forEach(stream => Object.assign(computed, stream.update(bar, computed)));
+    this.current = computed;
+
+    this.bars.push(bar);
+    if (this.bars.length > this.retainBars) this.bars.shift();
+    this.count++;
+    return true;
+  }
+
+  /**
+   * Features as if the forming bar closed now, without changing state.
+   */
+  peek(bar: MarketData): FeatureValues {
+    const computed: FeatureValues = {};
+    this.streams.forEach(stream => Object.assign(computed, stream.peek(bar, computed)));
+    return computed;
+  }
+
+  /**
+   * Features as of the last committed bar.
+   */
+  values(): FeatureValues {
+    return { ...this.current };
+  }
+
+  /**
+   * The most recent bars, oldest first, for gap and quality checks.
+   */
+  recentBars(): MarketData[] {
+    return [...this.bars];
+  }
+
+  toCheckpoint(): FeatureStreamCheckpoint {
+    return {
+      signature: this.signature,
+      bar_count: this.count,
+      last_bar_at: this.lastBarAt?.toISOString() || null,
+      bars: this.bars,
+      values: this.current,
+      indicators: this.streams.map(stream => stream.toJSON())
+    };
+  }
+
+  /**
+   * Load state from a checkpoint made with the same indicator definitions.
+   * Returns false, leaving the stream empty, when the definitions differ.
+   */
+  restore(checkpoint: FeatureStreamCheckpoint): boolean {
+    if (checkpoint.signature !== this.signature || checkpoint.indicators.length !== this.streams.length) {
+      return false;
+    }
+
+    this.streams.forEach((stream, i) => stream.restore(checkpoint.indicators[i]));
+    this.bars = checkpoint.bars.map(bar => ({ ...bar, timestamp: new Date(bar.timestamp) })).slice(-this.retainBars);
+    this.count = checkpoint.bar_count;
+    this.current = { ...checkpoint.values };
+    return true;
+  }
+}
+
+/**
+ * In-memory streams for one consumer (features engine, AI decision engine)
+ * backed by checkpoints in the database.
+ */
+export class FeatureStreamCache {
+  private static caches: Set<FeatureStreamCache> = new Set();
+  private static invalidations: Map<string, Promise<void>> = new Map();
+  private streams: Map<string, FeatureStream> = new Map();
+  private savedBarCounts: WeakMap<FeatureStream, number> = new WeakMap();
+
+  constructor(private consumer: string) {
+    FeatureStreamCache.caches.add(this);
+  }
+
+  /**
+   * Drop every consumer's stream for the series that has already committed a
+   * bar at or after `since`, in memory and in the checkpoints, so the next
+   * sync rebuilds it from stored bars. Streams only catch up on newer bars,
+   * so gap repairs, backfills, late ticks merged by the bar aggregator and
+   * vendor bars replacing aggregated ones would otherwise never reach them.
+   */
+  static invalidate(symbol: string, timeframe: BarInterval, since: Date): Promise<void> {
+    const key = `${symbol}:${timeframe}`;
+    const caches = Array.from(FeatureStreamCache.caches);
+    const streams = caches.map(cache => cache.streams.get(key));
+
+    // The usual case: a new bar after the last one of every stream
+    if (caches.length > 0 && streams.every(stream => stream?.lastBarAt && stream.lastBarAt.getTime() < since.getTime())) {
+      return Promise.resolve();
+    }
+
+    let dropped = 0;
+    caches.forEach((cache, i) => {
+      const lastBarAt = streams[i]?.lastBarAt;
+      if (lastBarAt && lastBarAt.getTime() >= since.getTime()) {
+        cache.streams.delete(key);
+        dropped++;
+      }
+    });
+
+    const previous = FeatureStreamCache.invalidations.get(key) || Promise.resolve();
+    const invalidation = previous
+      .then(() => DatabaseManager.query(
+        `DELETE FROM indicator_checkpoints WHERE symbol = $1 AND timeframe = $2 AND last_bar_at >= $3`,
+        [symbol, timeframe, since]
+      ))
+      .then(result => {
+        if (dropped > 0 || result.rowCount > 0) {
+          logger.info(`🔁 Bars from ${since.toISOString()} changed, rebuilding ${symbol} ${timeframe} indicator streams`);
+        }
+      })
+      .catch(error => {
+        logger.warn(`Failed to invalidate ${symbol} ${timeframe} indicator checkpoints:`, error);
+      })
+      .finally(() => {
+        if (FeatureStreamCache.invalidations.get(key) === invalidation) FeatureStreamCache.invalidations.delete(key);
+      });
+
+    FeatureStreamCache.invalidations.set(key, invalidation);
+    return invalidation;
+  }
+
+  /**
+   * Stream brought up to date with the bars stored for the symbol. A stream
+   * with no checkpoint, changed definitions or more than `warmupBars` bars
+   * to catch up on is rebuilt from the latest `warmupBars` bars.
+   */
+  async sync(
+    symbol: string,
+    timeframe: BarInterval,
+    indicators: ResolvedIndicator[],
+    warmupBars: number,
+    retainBars: number = warmupBars
+  ): Promise<SyncedStream> {
+    const key = this.key(symbol, timeframe);
+    const signature = FeatureStream.signatureOf(indicators);
+
+    // Never restore a checkpoint that is being invalidated
+    await FeatureStreamCache.invalidations.get(key);
+
+    let stream: FeatureStream | null = this.streams.get(key) || null;
+    if (!stream || stream.signature !== signature) {
+      stream = await this.restore(symbol, timeframe, indicators, retainBars);
+    }
+
+    let bars: MarketData[] = [];
+    if (stream?.lastBarAt) {
+      bars = await dataIngestor.getBarsSince(symbol, timeframe, stream.lastBarAt, warmupBars + 1);
+      if (bars.length > warmupBars) {
+        logger.debug(`${symbol} ${timeframe} stream is more than ${warmupBars} bars behind, rebuilding`);
+        stream = null;
+      }
+    }
+
+    if (!stream?.lastBarAt) {
+      stream = new FeatureStream(symbol, timeframe, indicators, retainBars);
+      bars = await dataIngestor.getRecentBars(symbol, timeframe, warmupBars);
+    }
+
+    let forming: MarketData | null = null;
+    for (const bar of bars) {
+      if (bar.timestamp.getTime() + BAR_INTERVAL_MS[timeframe] <= Date.now()) {
+        stream.update(bar);
+      } else {
+        forming = bar;
+      }
+    }
+
+    this.streams.set(key, stream);
+    if (stream.barCount > 0 && this.savedBarCounts.get(stream) !== stream.barCount) {
+      await this.save(stream);
+    }
+
+    return { stream, forming };
+  }
+
+  /**
+   * Drop in-memory streams and their checkpoints so they are rebuilt from
+   * stored bars. Returns the number of checkpoints deleted.
+   */
+  async reset(symbol?: string): Promise<number> {
+    for (const [key, stream] of this.streams) {
+      if (!symbol || stream.symbol === symbol) {
+        this.streams.delete(key);
+      }
+    }
+
+    const result = await DatabaseManager.query(
+      `DELETE FROM indicator_checkpoints WHERE consumer = $1 AND ($2::text IS NULL OR symbol = $2)`,
+      [this.consumer, symbol || null]
+    );
+    return result.rowCount || 0;
+  }
+
+  static async listCheckpoints(): Promise<CheckpointSummary[]> {
+    const result = await DatabaseManager.query(`
+      SELECT consumer, symbol, timeframe, signature, bar_count, last_bar_at, updated_at
+      FROM indicator_checkpoints
+      ORDER BY consumer, symbol, timeframe
+    `);
+
+    return result.rows.map((row: any) => ({
+      consumer: row.consumer,
+      symbol: row.symbol,
+      timeframe: row.timeframe,
+      signature: row.signature,
+      bar_count: parseInt(row.bar_count),
+      last_bar_at: row.last_bar_at ? new Date(row.last_bar_at) : null,
+      updated_at: new Date(row.updated_at)
+    }));
+  }
+
+  private async restore(
+    symbol: string,
+    timeframe: BarInterval,
+    indicators: ResolvedIndicator[],
+    retainBars: number
+  ): Promise<FeatureStream | null> {
+    try {
+      const result = await DatabaseManager.query(
+        `SELECT state FROM indicator_checkpoints WHERE consumer = $1 AND symbol = $2 AND timeframe = $3`,
+        [this.consumer, symbol, timeframe]
+      );
+      if (result.rows.length === 0) return null;
+
+      const stream = new FeatureStream(symbol, timeframe, indicators, retainBars);
+      if (!stream.restore(result.rows[0].state)) {
+        logger.info(`🔁 Indicator definitions changed, rebuilding ${symbol} ${timeframe} for ${this.consumer}`);
+        return null;
+      }
+
+      this.savedBarCounts.set(stream, stream.barCount);
+      return stream;
+    } catch (error) {
+      logger.warn(`Failed to restore indicator checkpoint for ${symbol} ${timeframe}:`, error);
+      return null;
+    }
+  }
+
+  private async save(stream: FeatureStream): Promise<void> {
+    try {
+      const checkpoint = stream.toCheckpoint();
+      await DatabaseManager.query(`
+        INSERT INTO indicator_checkpoints (consumer, symbol, timeframe, signature, bar_count, last_bar_at, state, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+        ON CONFLICT (consumer, symbol, timeframe) DO UPDATE SET
+          signature = EXCLUDED.signature,
+          bar_count = EXCLUDED.bar_count,
+          last_bar_at = EXCLUDED.last_bar_at,
+          state = EXCLUDED.state,
+          updated_at = NOW()
+      `, [
+        this.consumer,
+        stream.symbol,
+        stream.timeframe,
+        checkpoint.signature,
+        checkpoint.bar_count,
+        stream.lastBarAt,
+        JSON.stringify(checkpoint)
+      ]);
+      this.savedBarCounts.set(stream, stream.barCount);
+    } catch (error) {
+      // The in-memory stream is still correct; the next sync retries
+      logger.warn(`Failed to checkpoint ${stream.symbol} ${stream.timeframe} indicators:`, error);
+    }
+  }
+
+  private key(symbol: string, timeframe: BarInterval): string {
+    return `${symbol}:${timeframe}`;
+  }
+}
+
+dataIngestor.on('bars_changed', (change: BarsChanged) => {
+  FeatureStreamCache.invalidate(change.symbol, change.timeframe, change.since);
+});
@@ -7,97 +7,176 @@
  * Technical indicators and feature computation
  */
 import { logger } from '../utils/logger';
-import { DatabaseManager } from '../utils/database';
-import { MarketData } from '../data_ingestor';
-import { SMA, EMA, RSI, MACD, BollingerBands } from 'technicalindicators';
+import { getSystemConfig } from '../utils/systemConfig';
+import { dataIngestor, MarketData } from '../data_ingestor';
+import { BAR_INTERVAL_MS, BarInterval } from '../data/providers';
+import { DataProvenance, provenanceService } from '../data/provenance';
+import { gapScanner } from '../data/gaps/gap-scanner';
+import {
+  DEFAULT_INDICATORS,
+  FeatureValues,
+  IndicatorDefinition,
+  indicatorRegistry,
+  ResolvedIndicator
+} from './indicator-registry';
+import { FeatureStream, FeatureStreamCache } from './feature-stream';
+import { CrossSectionalMetadata, crossSectionalStage } from './cross-sectional';
+import { RegimeMetadata, regimeClassifier } from './regime';
+import { FeatureDefinitions, featureStore, StoredFeatureSet } from './feature-store';
+
+export const FEATURE_INDICATORS_CONFIG_KEY = 'feature_indicators';
+
+/**
+ * Features produced by the default indicators, which the built-in
+ * strategies rely on.
+ */
+export interface CoreFeatures {
+  // Price features
+  price: number;
+  price_change: number;
+  price_change_pct: number;
+
+  // Moving averages
+  sma_5: number;
+  sma_10: number;
+  sma_20: number;
+  sma_50: number;
+  ema_12: number;
+  ema_26: number;
+
+  // Oscillators
+  rsi_14: number;
+  rsi_overbought: boolean;
+  rsi_oversold: boolean;
+
+  // MACD
+  macd_line: number;
+  macd_signal: number;
+  macd_histogram: number;
+  macd_bullish: boolean;
+
+  // Bollinger Bands
+  bb_upper: number;
+  bb_middle: number;
+  bb_lower: number;
+  bb_percent_b: number;
+  bb_squeeze: boolean;
+
+  // Volume features
+  volume: number;
+  volume_sma_20: number;
+  volume_ratio: number;
+
+  // Volatility
+  volatility_20: number;
+
+  // Support/Resistance levels
+  support_level: number;
+  resistance_level: number;
+
+  // True range and trend strength
+  atr_14: number;
+  atr_14_pct: number;
+  adx_14: number;
+  adx_14_plus_di: number;
+  adx_14_minus_di: number;
+
+  // Stochastic oscillator
+  stoch_k: number;
+  stoch_d: number;
+
+  // Volume-weighted
+  obv: number;
+  obv_change: number;
+  vwap: number;
+  vwap_distance_pct: number;
+
+  // Ichimoku cloud
+  ichimoku_conversion: number;
+  ichimoku_base: number;
+  ichimoku_span_a: number;
+  ichimoku_span_b: number;
+  ichimoku_cloud_top: number;
+  ichimoku_cloud_bottom: number;
+
+  // Channels
+  keltner_upper: number;
+  keltner_middle: number;
+  keltner_lower: number;
+  donchian_upper: number;
+  donchian_middle: number;
+  donchian_lower: number;
+
+  // Trend indicators
+  trend_short: 'up' | 'down' | 'sideways';
+  trend_long: 'up' | 'down' | 'sideways';
+
+  // Pattern recognition
+  hammer: boolean;
+  doji: boolean;
+  engulfing_bullish: boolean;
+  engulfing_bearish: boolean;
+}
+
+/**
+ * Feature name -> value. Configured indicators (e.g. `rsi_7`, `sma_200`)
+ * and the cross-sectional features (`return_20_rank`, `rs_20`, `beta`, ...)
+ * appear next to the core features; they are null while there is not
+ * enough history.
+ */
+export type FeatureMap = CoreFeatures & FeatureValues;
 
 export interface FeatureSet {
   symbol: string;
   timestamp: Date;
-  features: {
-    // Price features
-    price: number;
-    price_change: number;
-    price_change_pct: number;
-
-    // Moving averages
-    sma_5: number;
-    sma_10: number;
-    sma_20: number;
-    sma_50: number;
-    ema_12: number;
-    ema_26: number;
-
-    // Oscillators
-    rsi_14: number;
-    rsi_overbought: boolean;
-    rsi_oversold: boolean;
-
-    // MACD
-    macd_line: number;
-    macd_signal: number;
-    macd_histogram: number;
-    macd_bullish: boolean;
-
-    // Bollinger Bands
-    bb_upper: number;
-    bb_middle: number;
-    bb_lower: number;
-    bb_percent_b: number;
-    bb_squeeze: boolean;
-
-    // Volume features
-    volume: number;
-    volume_sma_20: number;
-    volume_ratio: number;
-
-    // Volatility
-    volatility_20: number;
-
-    // Support/Resistance levels
-    support_level: number;
-    resistance_level: number;
-
-    // Trend indicators
-    trend_short: 'up' | 'down' | 'sideways';
-    trend_long: 'up' | 'down' | 'sideways';
-
-    // Pattern recognition
-    hammer: boolean;
-    doji: boolean;
-    engulfing_bullish: boolean;
-    engulfing_bearish: boolean;
-  };
+  features: FeatureMap;
   metadata: {
     data_points_used: number;
     computation_time_ms: number;
     data_quality_score: number;
+    timeframe?: BarInterval;
+    provenance?: DataProvenance;
+    missing_bars?: number;
+    cross_sectional?: CrossSectionalMetadata;
+    regime?: RegimeMetadata;
+    feature_version?: string;
   };
 }
 
 export class FeaturesEngine {
-  async computeFeatures(symbols: string[]): Promise<FeatureSet[]> {
+  private readonly LOOKBACK_BARS = 100;
+  private readonly MIN_BARS = 50;
+  private readonly INDICATORS_TTL_MS = 5 * 60 * 1000;
+  private indicators: ResolvedIndicator[] = indicatorRegistry.resolve(DEFAULT_INDICATORS);
+  private indicatorsLoadedAt = 0;
+  private streams = new FeatureStreamCache('features_engine');
+
+  async computeFeatures(symbols: string[], timeframe: BarInterval = '1d'): Promise<FeatureSet[]> {
     const features: FeatureSet[] = [];
+    const bars = new Map<string, MarketData[]>();
+    const indicators = await this.getIndicators();
+    const lookback = await this.lookbackBars(indicators);
+    const warmup = Math.max(lookback, indicatorRegistry.warmupBars(indicators));
+    const { version } = await this.getFeatureVersion();
 
     for (const symbol of symbols) {
       try {
         const startTime = Date.now();
 
-        // Get historical data (last 100 days for sufficient indicators)
-        const historicalData = await this.getHistoricalData(symbol, 100);
+        // Indicators update incrementally from the bars stored since the last
+        // cycle; a cold start warms up long enough for smoothed indicators to
+        // settle, and the last `lookback` bars are kept
+        const { stream, forming } = await this.streams.sync(symbol, timeframe, indicators, warmup, lookback);
+        const historicalData = forming ? [...stream.recentBars(), forming].slice(-lookback) : stream.recentBars();
+        const values = forming ? stream.peek(forming) : stream.values();
 
-        if (historicalData.length < 50) {
-          logger.warn(`Insufficient data for ${symbol}: ${historicalData.length} records`);
-          continue;
-        }
-
-        const featureSet = await this.computeSymbolFeatures(symbol, historicalData);
+        const featureSet = await this.buildFeatureSet(symbol, timeframe, historicalData, values, stream.barCount, new Date());
+        if (!featureSet) continue;
         featureSet.metadata.computation_time_ms = Date.now() - startTime;
-
-        // Store features in database
-        await this.storeFeatures(featureSet);
+        featureSet.metadata.feature_version = version;
 
         features.push(featureSet);
+        bars.set(symbol, historicalData);
 
         logger.debug(`Computed features for ${symbol}`, {
           data_points: historicalData.length,
@@ -109,191 +188,198 @@ export class FeaturesEngine {
       }
     }
 
-    return features;
+    // Cross-sectional features compare symbols, so they need every symbol's
+    // per-symbol features first; without them the feature sets are still stored
+    try {
+      await crossSectionalStage.apply(features, bars, timeframe);
+    } catch (error) {
+      logger.error('Failed to compute cross-sectional features:', error);
+    }
+    try {
+      await regimeClassifier.apply(features, bars, timeframe);
+    } catch (error) {
+      logger.error('Failed to classify regimes:', error);
+    }
+
+    // Append to the feature store as known now
+    const knownAt = new Date();
+    const stored: FeatureSet[] = [];
+    for (const featureSet of features) {
+      try {
+        await featureStore.write([featureSet], timeframe, version, knownAt);
+        stored.push(featureSet);
+      } catch (error) {
+        logger.error(`Failed to store features for ${featureSet.symbol}:`, error);
+      }
+    }
+
+    return stored;
   }
 
-  private async computeSymbolFeatures(symbol: string, data: MarketData[]): Promise<FeatureSet> {
-    // Sort data by timestamp
-    data.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  /**
+   * Recompute stored features for closed bars in [from, to] under the
+   * current definitions, replaying bars in time order through fresh streams
+   * and the cross-sectional stage exactly as the live cycle would. Each bar's
+   * row is known at its close. Returns rows written.
+   */
+  async recomputeHistory(symbols: string[], timeframe: BarInterval, from: Date, to: Date): Promise<number> {
+    const indicators = await this.getIndicators();
+    const lookback = await this.lookbackBars(indicators);
+    const warmup = Math.max(lookback, indicatorRegistry.warmupBars(indicators));
+    const { version } = await this.getFeatureVersion();
+    const interval = BAR_INTERVAL_MS[timeframe];
+
+    const streams = new Map<string, FeatureStream>();
+    const pending = new Map<string, MarketData[]>();
+    for (const symbol of symbols) {
+      const stream = new FeatureStream(symbol, timeframe, indicators, lookback);
+      const history = await dataIngestor.getRecentBars(symbol, timeframe, warmup, from);
+      history.forEach(bar => stream.update(bar));
 
-    const closes = data.map(d => d.close);
-    const highs = data.map(d => d.high);
-    const lows = data.map(d => d.low);
-    const volumes = data.map(d => d.volume);
-    const latest = data[data.length - 1];
+      const bars = await this.loadBars(symbol, timeframe, from, to);
+      streams.set(symbol, stream);
+      pending.set(symbol, bars.filter(bar => bar.timestamp.getTime() + interval <= Date.now()));
+    }
 
-    // Basic price features
-    const price = latest.close;
-    const prevPrice = data[data.length - 2]?.close || price;
-    const price_change = price - prevPrice;
-    const price_change_pct = (price_change / prevPrice) * 100;
-
-    // Moving averages
-    const sma_5 = this.last(SMA.calculate({ period: 5, values: closes }));
-    const sma_10 = this.last(SMA.calculate({ period: 10, values: closes }));
-    const sma_20 = this.last(SMA.calculate({ period: 20, values: closes }));
-    const sma_50 = this.last(SMA.calculate({ period: 50, values: closes }));
-    const ema_12 = this.last(EMA.calculate({ period: 12, values: closes }));
-    const ema_26 = this.last(EMA.calculate({ period: 26, values: closes }));
-
-    // RSI
-    const rsi_14 = this.last(RSI.calculate({ period: 14, values: closes }));
-    const rsi_overbought = rsi_14 > 70;
-    const rsi_oversold = rsi_14 < 30;
-
-    // MACD
-    const macdData = MACD.calculate({
-      fastPeriod: 12,
-      slowPeriod: 26,
-      signalPeriod: 9,
-      values: closes,
-      SimpleMAOscillator: false,
-      SimpleMASignal: false
-    });
-    const latestMacd = macdData[macdData.length - 1] || { MACD: 0, signal: 0, histogram: 0 };
-    const macd_line = latestMacd.MACD || 0;
-    const macd_signal = latestMacd.signal || 0;
-    const macd_histogram = latestMacd.histogram || 0;
-    const macd_bullish = macd_line > macd_signal;
-
-    // Bollinger Bands
-    const bbData = BollingerBands.calculate({
-      period: 20,
-      stdDev: 2,
-      values: closes
-    });
-    const latestBB = bbData[bbData.length - 1] || { upper: price, middle: price, lower: price, pb: 0.5 };
-    const bb_upper = latestBB.upper || price;
-    const bb_middle = latestBB.middle || price;
-    const bb_lower = latestBB.lower || price;
-    const bb_percent_b = latestBB.pb || 0.5;
-    const bb_squeeze = (bb_upper - bb_lower) / bb_middle < 0.1;
-
-    // Volume features
-    const volume = latest.volume;
-    const volume_sma_20 = this.last(SMA.calculate({ period: 20, values: volumes }));
-    const volume_ratio = volume_sma_20 > 0 ? volume / volume_sma_20 : 1;
-
-    // Volatility (20-day standard deviation of returns)
-    const returns = closes.slice(1).map((close, i) => (close - closes[i]) / closes[i]);
-    const volatility_20 = this.calculateStdDev(returns.slice(-20)) * Math.sqrt(252) * 100; // Annualized
-
-    // Support/Resistance levels
-    const recent_lows = lows.slice(-20);
-    const recent_highs = highs.slice(-20);
-    const support_level = Math.min(...recent_lows);
-    const resistance_level = Math.max(...recent_highs);
-
-    // Trend detection
-    const trend_short = sma_5 > sma_10 ? 'up' : sma_5 < sma_10 ? 'down' : 'sideways';
-    const trend_long = sma_20 > sma_50 ? 'up' : sma_20 < sma_50 ? 'down' : 'sideways';
-
-    // Simple pattern recognition
-    const hammer = this.detectHammer(latest);
-    const doji = this.detectDoji(latest);
-    const engulfing_bullish = this.detectEngulfingBullish(data.slice(-2));
-    const engulfing_bearish = this.detectEngulfingBearish(data.slice(-2));
-
-    // Data quality assessment
-    const data_quality_score = this.assessDataQuality(data);
+    const timeline = [...new Set([...pending.values()].flatMap(bars => bars.map(bar => bar.timestamp.getTime())))]
+      .sort((a, b) => a - b);
+    let written = 0;
 
-    return {
-      symbol,
-      timestamp: latest.timestamp,
-      features: {
-        price,
-        price_change,
-        price_change_pct,
-        sma_5,
-        sma_10,
-        sma_20,
-        sma_50,
-        ema_12,
-        ema_26,
-        rsi_14,
-        rsi_overbought,
-        rsi_oversold,
-        macd_line,
-        macd_signal,
-        macd_histogram,
-        macd_bullish,
-        bb_upper,
-        bb_middle,
-        bb_lower,
-        bb_percent_b,
-        bb_squeeze,
-        volume,
-        volume_sma_20,
-        volume_ratio,
-        volatility_20,
-        support_level,
-        resistance_level,
-        trend_short,
-        trend_long,
-        hammer,
-        doji,
-        engulfing_bullish,
-        engulfing_bearish
-      },
-      metadata: {
-        data_points_used: data.length,
-        computation_time_ms: 0, // Set by caller
-        data_quality_score
+    for (const time of timeline) {
+      const knownAt = new Date(time + interval);
+      const featureSets: FeatureSet[] = [];
+      const windows = new Map<string, MarketData[]>();
+
+      for (const [symbol, bars] of pending) {
+        if (bars.length === 0 || bars[0].timestamp.getTime() !== time) continue;
+
+        const stream = streams.get(symbol)!;
+        stream.update(bars.shift()!);
+        const window = stream.recentBars();
+        const featureSet = await this.buildFeatureSet(symbol, timeframe, window, stream.values(), stream.barCount, knownAt);
+        if (!featureSet) continue;
+        featureSet.metadata.feature_version = version;
+
+        featureSets.push(featureSet);
+        windows.set(symbol, window);
       }
-    };
-  }
 
-  private last(arr: number[]): number {
-    return arr && arr.length > 0 ? arr[arr.length - 1] : 0;
-  }
+      await crossSectionalStage.apply(featureSets, windows, timeframe, knownAt);
+      await regimeClassifier.apply(featureSets, windows, timeframe);
+      written += await featureStore.write(featureSets, timeframe, version, knownAt);
+    }
 
-  private calculateStdDev(values: number[]): number {
-    if (values.length === 0) return 0;
-    const mean = values.reduce((a, b) => a + b) / values.length;
-    const variance = values.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / values.length;
-    return Math.sqrt(variance);
+    logger.info(`♻️ Recomputed ${written} feature rows for ${symbols.length} symbols ${timeframe} under ${version}`);
+    return written;
   }
 
-  private detectHammer(candle: MarketData): boolean {
-    const body = Math.abs(candle.close - candle.open);
-    const lowerShadow = Math.min(candle.open, candle.close) - candle.low;
-    const upperShadow = candle.high - Math.max(candle.open, candle.close);
+  /**
+   * Default indicators plus those under the `feature_indicators` config key
+   * (`{ "indicators": [{ "type": "rsi", "params": { "period": 7 } }] }`). An
+   * invalid configuration is logged and the defaults are used alone.
+   */
+  async getIndicators(): Promise<ResolvedIndicator[]> {
+    if (Date.now() - this.indicatorsLoadedAt <= this.INDICATORS_TTL_MS) {
+      return this.indicators;
+    }
 
-    return lowerShadow > body * 2 && upperShadow < body * 0.1;
-  }
+    const config = await getSystemConfig<{ indicators?: IndicatorDefinition[] }>(FEATURE_INDICATORS_CONFIG_KEY, {});
+    try {
+      this.indicators = indicatorRegistry.resolve([...DEFAULT_INDICATORS, ...(config.indicators || [])]);
+    } catch (error: any) {
+      logger.error(`Invalid ${FEATURE_INDICATORS_CONFIG_KEY} config, using default indicators:`, error.message);
+      this.indicators = indicatorRegistry.resolve(DEFAULT_INDICATORS);
+    }
+    this.indicatorsLoadedAt = Date.now();
 
-  private detectDoji(candle: MarketData): boolean {
-    const body = Math.abs(candle.close - candle.open);
-    const range = candle.high - candle.low;
+    return this.indicators;
+  }
 
-    return body < range * 0.05; // Body is less than 5% of total range
+  reloadIndicators(): void {
+    this.indicatorsLoadedAt = 0;
   }
 
-  private detectEngulfingBullish(candles: MarketData[]): boolean {
-    if (candles.length < 2) return false;
+  /**
+   * Version of the active feature definitions (indicators, cross-sectional
+   * and regime config), registered in the feature store on first use.
+   */
+  async getFeatureVersion(): Promise<{ version: string; definitions: FeatureDefinitions }> {
+    const definitions = featureStore.definitionsOf(
+      await this.getIndicators(),
+      await crossSectionalStage.getConfig(),
+      await regimeClassifier.getConfig()
+    );
+    const version = featureStore.versionOf(definitions);
+    await featureStore.registerVersion(version, definitions);
+    return { version, definitions };
+  }
 
-    const prev = candles[0];
-    const curr = candles[1];
+  /**
+   * Rebuild incremental indicator state from stored bars on the next cycle.
+   */
+  async resetStreams(symbol?: string): Promise<number> {
+    return this.streams.reset(symbol);
+  }
 
-    return prev.close < prev.open && // Previous bearish
-           curr.close > curr.open && // Current bullish
-           curr.open < prev.close && // Current opens below prev close
-           curr.close > prev.open;   // Current closes above prev open
+  /**
+   * Bars kept per symbol: at least 100, covering the longest indicator, the
+   * cross-sectional lookbacks and the regime correlation window.
+   */
+  private async lookbackBars(indicators: ResolvedIndicator[]): Promise<number> {
+    return Math.max(
+      this.LOOKBACK_BARS,
+      indicatorRegistry.requiredBars(indicators),
+      crossSectionalStage.requiredBars(await crossSectionalStage.getConfig()),
+      regimeClassifier.requiredBars(await regimeClassifier.getConfig())
+    );
   }
 
-  private detectEngulfingBearish(candles: MarketData[]): boolean {
-    if (candles.length < 2) return false;
+  /**
+   * Feature set for one symbol from its recent bars, or null when the window
+   * is too short or has too many missing bars. `asOf` is when the values are
+   * known, for the data quality score.
+   */
+  private async buildFeatureSet(
+    symbol: string,
+    timeframe: BarInterval,
+    data: MarketData[],
+    values: FeatureValues,
+    barsUsed: number,
+    asOf: Date
+  ): Promise<FeatureSet | null> {
+    if (data.length < this.MIN_BARS) {
+      logger.warn(`Insufficient data for ${symbol}: ${data.length} records`);
+      return null;
+    }
 
-    const prev = candles[0];
-    const curr = candles[1];
+    // Indicators assume evenly spaced bars; too many holes make them misleading
+    const missingBars = await gapScanner.countMissingBars(data[0].market_type, timeframe, data);
+    const missingPct = (missingBars / (data.length + missingBars)) * 100;
+    if (missingPct > await gapScanner.getMaxMissingPctForFeatures()) {
+      logger.warn(`Skipping features for ${symbol} ${timeframe}: ${missingBars} bars missing in window (${missingPct.toFixed(1)}%)`);
+      return null;
+    }
+    if (missingBars > 0) {
+      logger.debug(`${symbol} ${timeframe} window has ${missingBars} missing bars`);
+    }
 
-    return prev.close > prev.open && // Previous bullish
-           curr.close < curr.open && // Current bearish
-           curr.open > prev.close && // Current opens above prev close
-           curr.close < prev.open;   // Current closes below prev open
+    const latest = data[data.length - 1];
+    return {
+      symbol,
+      timestamp: latest.timestamp,
+      features: values as FeatureMap,
+      metadata: {
+        data_points_used: barsUsed,
+        computation_time_ms: 0, // Set by caller
+        data_quality_score: this.assessDataQuality(data, asOf),
+        timeframe,
+        provenance: await provenanceService.fromBars(data),
+        missing_bars: missingBars
+      }
+    };
   }
 
-  private assessDataQuality(data: MarketData[]): number {
+  private assessDataQuality(data: MarketData[], asOf: Date): number {
     let score = 1.0;
 
     // Check for missing data
@@ -302,80 +388,51 @@ export class FeaturesEngine {
 
     // Check data freshness
     const latestData = data[data.length - 1];
-    const ageHours = (Date.now() - latestData.timestamp.getTime()) / (1000 * 60 * 60);
+    const ageHours = (asOf.getTime() - latestData.timestamp.getTime()) / (1000 * 60 * 60);
     if (ageHours > 24) score -= 0.2;
     if (ageHours > 72) score -= 0.3;
 
     return Math.max(0, Math.min(1, score));
   }
 
-  private async getHistoricalData(symbol: string, days: number): Promise<MarketData[]> {
-    const query = `
-      SELECT symbol, timestamp, open, high, low, close, volume, provider
-      FROM market_data
-      WHERE symbol = $1 AND timestamp >= NOW() - INTERVAL '${days} days'
-      ORDER BY timestamp ASC
-    `;
-
-    const result = await DatabaseManager.query(query, [symbol]);
-
-    return result.rows.map((row: any) => ({
-      symbol: row.symbol,
-      timestamp: new Date(row.timestamp),
-      open: parseFloat(row.open),
-      high: parseFloat(row.high),
-      low: parseFloat(row.low),
-      close: parseFloat(row.close),
-      volume: parseInt(row.volume),
-      provider: row.provider
-    }));
-  }
+  // Bars in [from, to], oldest first, paged through getBarsSince
+  private async loadBars(symbol: string, timeframe: BarInterval, from: Date, to: Date): Promise<MarketData[]> {
+    const PAGE = 1000;
+    const bars: MarketData[] = [];
+    let since = new Date(from.getTime() - 1);
+
+    while (true) {
+      const page = await dataIngestor.getBarsSince(symbol, timeframe, since, PAGE);
+      bars.push(...page.filter(bar => bar.timestamp <= to));
+      if (page.length < PAGE || page[page.length - 1].timestamp >= to) break;
+      since = page[page.length - 1].timestamp;
+    }
 
-  private async storeFeatures(featureSet: FeatureSet): Promise<void> {
-    try {
-      const query = `
-        INSERT INTO features (symbol, timestamp, features, metadata)
-        VALUES ($1, $2, $3, $4)
-        ON CONFLICT (symbol, timestamp) DO UPDATE SET
-          features = EXCLUDED.features,
-          metadata = EXCLUDED.metadata,
-          updated_at = NOW()
-      `;
-
-      await DatabaseManager.query(query, [
-        featureSet.symbol,
-        featureSet.timestamp,
-        JSON.stringify(featureSet.features),
-        JSON.stringify(featureSet.metadata)
-      ]);
+    return bars;
+  }
 
-    } catch (error) {
-      logger.error('Failed to store features:', error);
-      throw error;
-    }
+  /**
+   * Latest features per symbol under the current feature version, one row
+   * per symbol.
+   */
+  async getLatestFeatures(symbols: string[], timeframe: BarInterval = '1d'): Promise<FeatureSet[]> {
+    return this.getFeaturesAsOf(symbols, new Date(), timeframe);
   }
 
-  async getLatestFeatures(symbols: string[]): Promise<FeatureSet[]> {
+  /**
+   * Features per symbol as they were known at `asOf`, from the given feature
+   * version or the current one.
+   */
+  async getFeaturesAsOf(
+    symbols: string[],
+    asOf: Date,
+    timeframe: BarInterval = '1d',
+    version?: string
+  ): Promise<StoredFeatureSet[]> {
     try {
-      const query = `
-        SELECT symbol, timestamp, features, metadata
-        FROM features
-        WHERE symbol = ANY($1)
-        ORDER BY timestamp DESC
-        LIMIT ${symbols.length}
-      `;
-
-      const result = await DatabaseManager.query(query, [symbols]);
-
-      return result.rows.map((row: any) => ({
-        symbol: row.symbol,
-        timestamp: new Date(row.timestamp),
-        features: row.features,
-        metadata: row.metadata
-      }));
-
+      return await featureStore.getAsOf(symbols, asOf, timeframe, version || (await this.getFeatureVersion()).version);
     } catch (error) {
-      logger.error('Failed to get latest features:', error);
+      logger.error('Failed to get features:', error);
       throw error;
     }
   }
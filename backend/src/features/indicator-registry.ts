@@ -0,0 +1,696 @@
+/**
+ * Indicator Registry
+ * Indicator kinds (SMA, RSI, MACD, ...) with their parameters, and the
+ * definitions that turn them into named features. The default definitions
+ * are the core feature set the strategies rely on; extra ones such as `rsi_7` or
+ * `sma_200` come from the `feature_indicators` system config key.
+ *
+ * This is the one indicator implementation: the features engine and the AI
+ * decision engine both run these kinds, and batch values are computed by
+ * replaying the same streams, so a symbol gets the same RSI on every path.
+ */
+import { MarketData } from '../data_ingestor';
+import * as streaming from './streaming-indicators';
+
+export type FeatureValue = number | boolean | string | null;
+
+export interface FeatureValues {
+  [feature: string]: FeatureValue;
+}
+
+export type IndicatorParams = { [param: string]: number | string };
+
+/**
+ * One configured indicator. `name` is the feature it produces, or the
+ * prefix for multi-output kinds (`macd` -> `macd_line`, `macd_signal`, ...).
+ * When omitted it defaults to `<type>_<period>`.
+ */
+export interface IndicatorDefinition {
+  name?: string;
+  type: string;
+  params?: IndicatorParams;
+}
+
+export interface ResolvedIndicator {
+  name: string;
+  type: string;
+  params: IndicatorParams;
+  outputs: string[];
+  lookback: number;
+  warmup: number;
+}
+
+export interface IndicatorKind {
+  type: string;
+  description: string;
+  defaults: IndicatorParams;
+  outputs(name: string, params: IndicatorParams): string[];
+  lookback(params: IndicatorParams): number;
+  /**
+   * Bars to replay before values are used. Exponentially smoothed kinds
+   * never forget their seed, so they need enough bars for streams started
+   * at different points to agree; defaults to `lookback`.
+   */
+  warmup?(params: IndicatorParams): number;
+  /**
+   * Value for the latest bar, for kinds without a stream. `bars` are oldest
+   * first; `computed` holds the features produced by the definitions before
+   * this one. Streamed over a window of their last `lookback` bars.
+   */
+  compute?(name: string, params: IndicatorParams, bars: MarketData[], computed: FeatureValues): FeatureValues;
+  /**
+   * Incremental state for kinds that have it; batch values replay it.
+   */
+  stream?(name: string, params: IndicatorParams): IndicatorStream;
+}
+
+/**
+ * Per-symbol indicator state. `update` commits a closed bar; `peek`
+ * evaluates a forming bar without changing state.
+ */
+export interface IndicatorStream {
+  update(bar: MarketData, computed: FeatureValues): FeatureValues;
+  peek(bar: MarketData, computed: FeatureValues): FeatureValues;
+  toJSON(): any;
+  restore(state: any): void;
+}
+
+export class IndicatorConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IndicatorConfigError';
+  }
+}
+
+type PriceSource = 'open' | 'high' | 'low' | 'close' | 'volume';
+
+function priceSource(source: string | number = 'close'): PriceSource {
+  const field = String(source) as PriceSource;
+  if (!['open', 'high', 'low', 'close', 'volume'].includes(field)) {
+    throw new IndicatorConfigError(`Unknown price source '${source}'`);
+  }
+  return field;
+}
+
+function series(bars: MarketData[], source: string | number = 'close'): number[] {
+  const field = priceSource(source);
+  return bars.map(bar => bar[field]);
+}
+
+function last<T>(values: T[]): T | null {
+  return values.length > 0 ? values[values.length - 1] : null;
+}
+
+function num(params: IndicatorParams, key: string): number {
+  const value = Number(params[key]);
+  if (!isFinite(value)) {
+    throw new IndicatorConfigError(`Parameter '${key}' must be a number`);
+  }
+  return value;
+}
+
+function period(params: IndicatorParams): number {
+  const value = num(params, 'period');
+  if (value < 1 || !Number.isInteger(value)) {
+    throw new IndicatorConfigError(`Parameter 'period' must be a positive integer`);
+  }
+  return value;
+}
+
+function featureNumber(computed: FeatureValues, feature: string | number): number | null {
+  const value = computed[String(feature)];
+  return typeof value === 'number' ? value : null;
+}
+
+/**
+ * Streams a single-output indicator over one bar field.
+ */
+function fieldStream(name: string, source: string | number, indicator: streaming.StreamingIndicator): IndicatorStream {
+  const field = priceSource(source);
+  return {
+    update: bar => ({ [name]: indicator.update(bar[field]) }),
+    peek: bar => ({ [name]: indicator.peek(bar[field]) }),
+    toJSON: () => indicator.toJSON(),
+    restore: state => indicator.restore(state)
+  };
+}
+
+function macdFeatures(name: string, latest?: { line?: number | null; signal?: number | null; histogram?: number | null }): FeatureValues {
+  const line = latest?.line || 0;
+  const signal = latest?.signal || 0;
+  return {
+    [`${name}_line`]: line,
+    [`${name}_signal`]: signal,
+    [`${name}_histogram`]: latest?.histogram || 0,
+    [`${name}_bullish`]: line > signal
+  };
+}
+
+function bollingerFeatures(
+  name: string,
+  params: IndicatorParams,
+  price: number,
+  latest?: { upper?: number; middle?: number; lower?: number; percent_b?: number }
+): FeatureValues {
+  const upper = latest?.upper || price;
+  const middle = latest?.middle || price;
+  const lower = latest?.lower || price;
+  return {
+    [`${name}_upper`]: upper,
+    [`${name}_middle`]: middle,
+    [`${name}_lower`]: lower,
+    // 0 is a close on the lower band; only a missing or flat-band value is neutral
+    [`${name}_percent_b`]: Number.isFinite(latest?.percent_b) ? latest!.percent_b : 0.5,
+    [`${name}_squeeze`]: (upper - lower) / middle < num(params, 'squeeze_threshold')
+  };
+}
+
+/**
+ * Streams an indicator that takes whole bars.
+ */
+function barStream<T>(
+  indicator: streaming.StreamingIndicator<any, T>,
+  features: (value: T | null, bar: MarketData) => FeatureValues
+): IndicatorStream {
+  return {
+    update: bar => features(indicator.update(bar), bar),
+    peek: bar => features(indicator.peek(bar), bar),
+    toJSON: () => indicator.toJSON(),
+    restore: state => indicator.restore(state)
+  };
+}
+
+function channelFeatures(name: string, channel?: { upper: number; middle: number; lower: number } | null): FeatureValues {
+  return {
+    [`${name}_upper`]: channel?.upper ?? null,
+    [`${name}_middle`]: channel?.middle ?? null,
+    [`${name}_lower`]: channel?.lower ?? null
+  };
+}
+
+function atrFeatures(name: string, atr: number | null | undefined, price: number): FeatureValues {
+  return { [name]: atr ?? null, [`${name}_pct`]: atr == null ? null : (atr / price) * 100 };
+}
+
+function adxFeatures(name: string, value?: { adx: number; plus_di: number; minus_di: number } | null): FeatureValues {
+  return { [name]: value?.adx ?? null, [`${name}_plus_di`]: value?.plus_di ?? null, [`${name}_minus_di`]: value?.minus_di ?? null };
+}
+
+function stochasticFeatures(name: string, value?: { k: number; d?: number | null } | null): FeatureValues {
+  return { [`${name}_k`]: value?.k ?? null, [`${name}_d`]: value?.d ?? null };
+}
+
+function obvFeatures(name: string, value: streaming.ObvValue | null): FeatureValues {
+  return { [name]: value?.obv ?? null, [`${name}_change`]: value?.change ?? null };
+}
+
+function vwapFeatures(name: string, vwap: number | null, price: number): FeatureValues {
+  return { [name]: vwap, [`${name}_distance_pct`]: vwap ? ((price - vwap) / vwap) * 100 : null };
+}
+
+function ichimokuFeatures(name: string, value: streaming.IchimokuValue | null): FeatureValues {
+  return {
+    [`${name}_conversion`]: value?.conversion ?? null,
+    [`${name}_base`]: value?.base ?? null,
+    [`${name}_span_a`]: value?.span_a ?? null,
+    [`${name}_span_b`]: value?.span_b ?? null,
+    [`${name}_cloud_top`]: value?.cloud_top ?? null,
+    [`${name}_cloud_bottom`]: value?.cloud_bottom ?? null
+  };
+}
+
+function newIchimoku(params: IndicatorParams): streaming.Ichimoku {
+  return new streaming.Ichimoku(num(params, 'conversion'), num(params, 'base'), num(params, 'span'), num(params, 'displacement'));
+}
+
+/**
+ * Fallback stream for kinds without an incremental form: keeps the last
+ * `lookback` bars and runs the batch computation over them.
+ */
+function windowStream(kind: IndicatorKind, indicator: ResolvedIndicator): IndicatorStream {
+  let bars: MarketData[] = [];
+  const size = Math.max(1, indicator.lookback);
+  const compute = kind.compute!;
+
+  return {
+    update: (bar, computed) => {
+      bars = [...bars, bar].slice(-size);
+      return compute(indicator.name, indicator.params, bars, computed);
+    },
+    peek: (bar, computed) => compute(indicator.name, indicator.params, [...bars, bar].slice(-size), computed),
+    toJSON: () => bars,
+    restore: state => {
+      bars = (state || []).map((bar: any) => ({ ...bar, timestamp: new Date(bar.timestamp) }));
+    }
+  };
+}
+
+const CANDLE_PATTERNS: { [pattern: string]: (bars: MarketData[]) => boolean } = {
+  hammer: bars => {
+    const candle = bars[bars.length - 1];
+    const body = Math.abs(candle.close - candle.open);
+    const lowerShadow = Math.min(candle.open, candle.close) - candle.low;
+    const upperShadow = candle.high - Math.max(candle.open, candle.close);
+    return lowerShadow > body * 2 && upperShadow < body * 0.1;
+  },
+  doji: bars => {
+    const candle = bars[bars.length - 1];
+    // Body is less than 5% of total range
+    return Math.abs(candle.close - candle.open) < (candle.high - candle.low) * 0.05;
+  },
+  engulfing_bullish: bars => {
+    if (bars.length < 2) return false;
+    const prev = bars[bars.length - 2];
+    const curr = bars[bars.length - 1];
+    return prev.close < prev.open && curr.close > curr.open &&
+           curr.open < prev.close && curr.close > prev.open;
+  },
+  engulfing_bearish: bars => {
+    if (bars.length < 2) return false;
+    const prev = bars[bars.length - 2];
+    const curr = bars[bars.length - 1];
+    return prev.close > prev.open && curr.close < curr.open &&
+           curr.open > prev.close && curr.close < prev.open;
+  }
+};
+
+const BUILTIN_KINDS: IndicatorKind[] = [
+  {
+    type: 'price',
+    description: 'Latest close, change and percent change from the previous bar',
+    defaults: {},
+    outputs: name => [name, `${name}_change`, `${name}_change_pct`],
+    lookback: () => 2,
+    compute: (name, params, bars) => {
+      const price = bars[bars.length - 1].close;
+      const prevPrice = bars[bars.length - 2]?.close || price;
+      const change = price - prevPrice;
+      return { [name]: price, [`${name}_change`]: change, [`${name}_change_pct`]: (change / prevPrice) * 100 };
+    }
+  },
+  {
+    type: 'field',
+    description: 'Latest value of a bar field (open, high, low, close, volume)',
+    defaults: { field: 'volume' },
+    outputs: name => [name],
+    lookback: () => 1,
+    compute: (name, params, bars) => ({ [name]: last(series(bars, params.field)) })
+  },
+  {
+    type: 'sma',
+    description: 'Simple moving average',
+    defaults: { period: 20, source: 'close' },
+    outputs: name => [name],
+    lookback: params => period(params),
+    stream: (name, params) => fieldStream(name, params.source, new streaming.Sma(period(params)))
+  },
+  {
+    type: 'ema',
+    description: 'Exponential moving average',
+    defaults: { period: 20, source: 'close' },
+    outputs: name => [name],
+    lookback: params => period(params),
+    warmup: params => 10 * period(params),
+    stream: (name, params) => fieldStream(name, params.source, new streaming.Ema(period(params)))
+  },
+  {
+    type: 'rsi',
+    description: 'Relative strength index',
+    defaults: { period: 14, source: 'close' },
+    outputs: name => [name],
+    lookback: params => period(params) + 1,
+    warmup: params => 20 * period(params),
+    stream: (name, params) => fieldStream(name, params.source, new streaming.Rsi(period(params)))
+  },
+  {
+    type: 'macd',
+    description: 'MACD line, signal, histogram and bullish flag (line above signal)',
+    defaults: { fast: 12, slow: 26, signal: 9 },
+    outputs: name => [`${name}_line`, `${name}_signal`, `${name}_histogram`, `${name}_bullish`],
+    lookback: params => num(params, 'slow') + num(params, 'signal'),
+    warmup: params => 10 * (num(params, 'slow') + num(params, 'signal')),
+    stream: (name, params) => {
+      const macd = new streaming.Macd(num(params, 'fast'), num(params, 'slow'), num(params, 'signal'));
+      return {
+        update: bar => macdFeatures(name, macd.update(bar.close) || undefined),
+        peek: bar => macdFeatures(name, macd.peek(bar.close) || undefined),
+        toJSON: () => macd.toJSON(),
+        restore: state => macd.restore(state)
+      };
+    }
+  },
+  {
+    type: 'bollinger',
+    description: 'Bollinger Bands, %B and squeeze flag (band width / middle below squeeze_threshold)',
+    defaults: { period: 20, std_dev: 2, squeeze_threshold: 0.1 },
+    outputs: name => [`${name}_upper`, `${name}_middle`, `${name}_lower`, `${name}_percent_b`, `${name}_squeeze`],
+    lookback: params => period(params),
+    stream: (name, params) => {
+      const bands = new streaming.BollingerBands(period(params), num(params, 'std_dev'));
+      return {
+        update: bar => bollingerFeatures(name, params, bar.close, bands.update(bar.close) || undefined),
+        peek: bar => bollingerFeatures(name, params, bar.close, bands.peek(bar.close) || undefined),
+        toJSON: () => bands.toJSON(),
+        restore: state => bands.restore(state)
+      };
+    }
+  },
+  {
+    type: 'volatility',
+    description: 'Annualised standard deviation of bar returns, in percent',
+    defaults: { period: 20, periods_per_year: 252 },
+    outputs: name => [name],
+    lookback: params => period(params) + 1,
+    stream: (name, params) => {
+      const returns = new streaming.RollingWindow(period(params));
+      const annualise = Math.sqrt(num(params, 'periods_per_year')) * 100;
+      let previous: number | null = null;
+      const volatility = (variance: number) => ({ [name]: Math.sqrt(variance) * annualise });
+      return {
+        update: bar => {
+          if (previous !== null) returns.push((bar.close - previous) / previous);
+          previous = bar.close;
+          return volatility(returns.variance());
+        },
+        peek: bar => previous === null
+          ? volatility(returns.variance())
+          : volatility(returns.peekStats((bar.close - previous) / previous).variance),
+        toJSON: () => ({ previous, returns: returns.toJSON() }),
+        restore: state => {
+          previous = state?.previous ?? null;
+          returns.restore(state?.returns);
+        }
+      };
+    }
+  },
+  {
+    type: 'atr',
+    description: 'Average true range (Wilder), and as a percent of the close',
+    defaults: { period: 14 },
+    outputs: name => [name, `${name}_pct`],
+    lookback: params => period(params) + 1,
+    warmup: params => 20 * period(params),
+    stream: (name, params) => barStream(new streaming.Atr(period(params)), (atr, bar) => atrFeatures(name, atr, bar.close))
+  },
+  {
+    type: 'adx',
+    description: 'Average directional index (trend strength) with the +DI and -DI lines',
+    defaults: { period: 14 },
+    outputs: name => [name, `${name}_plus_di`, `${name}_minus_di`],
+    lookback: params => 2 * period(params),
+    warmup: params => 21 * period(params),
+    stream: (name, params) => barStream(new streaming.Adx(period(params)), adx => adxFeatures(name, adx))
+  },
+  {
+    type: 'stochastic',
+    description: 'Stochastic oscillator %K and its SMA %D',
+    defaults: { period: 14, signal: 3 },
+    outputs: name => [`${name}_k`, `${name}_d`],
+    lookback: params => period(params) + num(params, 'signal') - 1,
+    stream: (name, params) =>
+      barStream(new streaming.Stochastic(period(params), num(params, 'signal')), value => stochasticFeatures(name, value))
+  },
+  {
+    type: 'obv',
+    description: 'On-balance volume and its net change over the period (the level depends on where accumulation started; the change does not)',
+    defaults: { period: 20 },
+    outputs: name => [name, `${name}_change`],
+    lookback: params => period(params) + 1,
+    stream: (name, params) => barStream(new streaming.OnBalanceVolume(period(params)), value => obvFeatures(name, value))
+  },
+  {
+    type: 'vwap',
+    description: 'Session (UTC day) volume-weighted average price and the close\'s distance from it in percent',
+    defaults: {},
+    outputs: name => [name, `${name}_distance_pct`],
+    lookback: () => 1,
+    stream: name => barStream(new streaming.SessionVwap(), (vwap, bar) => vwapFeatures(name, vwap, bar.close))
+  },
+  {
+    type: 'ichimoku',
+    description: 'Ichimoku conversion and base lines, leading spans, and the cloud under the current bar',
+    defaults: { conversion: 9, base: 26, span: 52, displacement: 26 },
+    outputs: name => ['conversion', 'base', 'span_a', 'span_b', 'cloud_top', 'cloud_bottom'].map(output => `${name}_${output}`),
+    lookback: params => num(params, 'span') + num(params, 'displacement'),
+    stream: (name, params) => barStream(newIchimoku(params), value => ichimokuFeatures(name, value))
+  },
+  {
+    type: 'keltner',
+    description: 'Keltner channels: EMA of the close plus/minus a multiple of ATR',
+    defaults: { period: 20, atr_period: 10, multiplier: 2 },
+    outputs: name => [`${name}_upper`, `${name}_middle`, `${name}_lower`],
+    lookback: params => Math.max(period(params), num(params, 'atr_period') + 1),
+    warmup: params => Math.max(10 * period(params), 20 * num(params, 'atr_period')),
+    stream: (name, params) => {
+      const middle = new streaming.Ema(period(params));
+      const atr = new streaming.Atr(num(params, 'atr_period'));
+      const multiplier = num(params, 'multiplier');
+      const channel = (ma: number | null, range: number | null) => channelFeatures(
+        name,
+        ma === null || range === null ? null : { upper: ma + multiplier * range, middle: ma, lower: ma - multiplier * range }
+      );
+      return {
+        update: bar => channel(middle.update(bar.close), atr.update(bar)),
+        peek: bar => channel(middle.peek(bar.close), atr.peek(bar)),
+        toJSON: () => ({ middle: middle.toJSON(), atr: atr.toJSON() }),
+        restore: state => {
+          middle.restore(state?.middle);
+          atr.restore(state?.atr);
+        }
+      };
+    }
+  },
+  {
+    type: 'donchian',
+    description: 'Donchian channels: highest high and lowest low over the period, and their midpoint',
+    defaults: { period: 20 },
+    outputs: name => [`${name}_upper`, `${name}_middle`, `${name}_lower`],
+    lookback: params => period(params),
+    stream: (name, params) => {
+      const highs = new streaming.RollingExtreme(period(params), 'max');
+      const lows = new streaming.RollingExtreme(period(params), 'min');
+      const channel = (upper: number | null, lower: number | null, ready: boolean) =>
+        channelFeatures(name, ready ? { upper: upper!, middle: (upper! + lower!) / 2, lower: lower! } : null);
+      return {
+        update: bar => channel(highs.update(bar.high), lows.update(bar.low), highs.ready),
+        peek: bar => channel(highs.peek(bar.high), lows.peek(bar.low), highs.count + 1 >= period(params)),
+        toJSON: () => ({ highs: highs.toJSON(), lows: lows.toJSON() }),
+        restore: state => {
+          highs.restore(state?.highs);
+          lows.restore(state?.lows);
+        }
+      };
+    }
+  },
+  {
+    type: 'change',
+    description: 'Percent change from the value `period` bars back',
+    defaults: { period: 1, source: 'close' },
+    outputs: name => [name],
+    lookback: params => period(params) + 1,
+    stream: (name, params) => fieldStream(name, params.source, new streaming.RateOfChange(period(params)))
+  },
+  {
+    type: 'rolling_min',
+    description: 'Lowest value over the period (support)',
+    defaults: { period: 20, source: 'low' },
+    outputs: name => [name],
+    lookback: params => period(params),
+    stream: (name, params) => fieldStream(name, params.source, new streaming.RollingExtreme(period(params), 'min'))
+  },
+  {
+    type: 'rolling_max',
+    description: 'Highest value over the period (resistance)',
+    defaults: { period: 20, source: 'high' },
+    outputs: name => [name],
+    lookback: params => period(params),
+    stream: (name, params) => fieldStream(name, params.source, new streaming.RollingExtreme(period(params), 'max'))
+  },
+  {
+    type: 'ratio',
+    description: 'One feature divided by another (`fallback` when the denominator is not positive)',
+    defaults: { numerator: 'volume', denominator: 'volume_sma_20', fallback: 1 },
+    outputs: name => [name],
+    lookback: () => 1,
+    compute: (name, params, bars, computed) => {
+      const numerator = featureNumber(computed, params.numerator);
+      const denominator = featureNumber(computed, params.denominator);
+      if (numerator === null || denominator === null) return { [name]: null };
+      return { [name]: denominator > 0 ? numerator / denominator : num(params, 'fallback') };
+    }
+  },
+  {
+    type: 'threshold',
+    description: 'True when a feature is above `above` or below `below`',
+    defaults: { feature: 'rsi_14' },
+    outputs: name => [name],
+    lookback: () => 1,
+    compute: (name, params, bars, computed) => {
+      const value = featureNumber(computed, params.feature);
+      if (value === null) return { [name]: null };
+      if (params.above !== undefined) return { [name]: value > num(params, 'above') };
+      if (params.below !== undefined) return { [name]: value < num(params, 'below') };
+      throw new IndicatorConfigError(`Threshold '${name}' needs 'above' or 'below'`);
+    }
+  },
+  {
+    type: 'trend',
+    description: "'up', 'down' or 'sideways' from a fast and a slow feature",
+    defaults: { fast: 'sma_5', slow: 'sma_10' },
+    outputs: name => [name],
+    lookback: () => 1,
+    compute: (name, params, bars, computed) => {
+      const fast = featureNumber(computed, params.fast);
+      const slow = featureNumber(computed, params.slow);
+      if (fast === null || slow === null) return { [name]: null };
+      return { [name]: fast > slow ? 'up' : fast < slow ? 'down' : 'sideways' };
+    }
+  },
+  {
+    type: 'pattern',
+    description: `Candlestick pattern on the latest bars (${Object.keys(CANDLE_PATTERNS).join(', ')})`,
+    defaults: { pattern: 'doji' },
+    outputs: name => [name],
+    lookback: () => 2,
+    compute: (name, params, bars) => {
+      const detect = CANDLE_PATTERNS[String(params.pattern)];
+      if (!detect) throw new IndicatorConfigError(`Unknown candlestick pattern '${params.pattern}'`);
+      return { [name]: detect(bars) };
+    }
+  }
+];
+
+/**
+ * The original FeaturesEngine feature set followed by the true-range, trend
+ * strength and volume-weighted indicators, in dependency order.
+ */
+export const DEFAULT_INDICATORS: IndicatorDefinition[] = [
+  { name: 'price', type: 'price' },
+  { name: 'sma_5', type: 'sma', params: { period: 5 } },
+  { name: 'sma_10', type: 'sma', params: { period: 10 } },
+  { name: 'sma_20', type: 'sma', params: { period: 20 } },
+  { name: 'sma_50', type: 'sma', params: { period: 50 } },
+  { name: 'ema_12', type: 'ema', params: { period: 12 } },
+  { name: 'ema_26', type: 'ema', params: { period: 26 } },
+  { name: 'rsi_14', type: 'rsi', params: { period: 14 } },
+  { name: 'rsi_overbought', type: 'threshold', params: { feature: 'rsi_14', above: 70 } },
+  { name: 'rsi_oversold', type: 'threshold', params: { feature: 'rsi_14', below: 30 } },
+  { name: 'macd', type: 'macd', params: { fast: 12, slow: 26, signal: 9 } },
+  { name: 'bb', type: 'bollinger', params: { period: 20, std_dev: 2, squeeze_threshold: 0.1 } },
+  { name: 'volume', type: 'field', params: { field: 'volume' } },
+  { name: 'volume_sma_20', type: 'sma', params: { period: 20, source: 'volume' } },
+  { name: 'volume_ratio', type: 'ratio', params: { numerator: 'volume', denominator: 'volume_sma_20', fallback: 1 } },
+  { name: 'volatility_20', type: 'volatility', params: { period: 20, periods_per_year: 252 } },
+  { name: 'support_level', type: 'rolling_min', params: { period: 20, source: 'low' } },
+  { name: 'resistance_level', type: 'rolling_max', params: { period: 20, source: 'high' } },
+  { name: 'atr_14', type: 'atr', params: { period: 14 } },
+  { name: 'adx_14', type: 'adx', params: { period: 14 } },
+  { name: 'stoch', type: 'stochastic', params: { period: 14, signal: 3 } },
+  { name: 'obv', type: 'obv', params: { period: 20 } },
+  { name: 'vwap', type: 'vwap' },
+  { name: 'ichimoku', type: 'ichimoku', params: { conversion: 9, base: 26, span: 52, displacement: 26 } },
+  { name: 'keltner', type: 'keltner', params: { period: 20, atr_period: 10, multiplier: 2 } },
+  { name: 'donchian', type: 'donchian', params: { period: 20 } },
+  { name: 'trend_short', type: 'trend', params: { fast: 'sma_5', slow: 'sma_10' } },
+  { name: 'trend_long', type: 'trend', params: { fast: 'sma_20', slow: 'sma_50' } },
+  { name: 'hammer', type: 'pattern', params: { pattern: 'hammer' } },
+  { name: 'doji', type: 'pattern', params: { pattern: 'doji' } },
+  { name: 'engulfing_bullish', type: 'pattern', params: { pattern: 'engulfing_bullish' } },
+  { name: 'engulfing_bearish', type: 'pattern', params: { pattern: 'engulfing_bearish' } }
+];
+
+export class IndicatorRegistry {
+  private kinds: Map<string, IndicatorKind> = new Map();
+
+  constructor() {
+    BUILTIN_KINDS.forEach(kind => this.register(kind));
+  }
+
+  register(kind: IndicatorKind): void {
+    if (!kind.compute && !kind.stream) {
+      throw new Error(`Indicator kind '${kind.type}' needs compute or stream`);
+    }
+    this.kinds.set(kind.type, kind);
+  }
+
+  listKinds(): { type: string; description: string; defaults: IndicatorParams }[] {
+    return Array.from(this.kinds.values()).map(({ type, description, defaults }) => ({ type, description, defaults }));
+  }
+
+  /**
+   * Validate definitions and fill in defaults. Throws IndicatorConfigError
+   * on unknown types, bad parameters or two definitions producing the same
+   * feature.
+   */
+  resolve(definitions: IndicatorDefinition[]): ResolvedIndicator[] {
+    const seen = new Set<string>();
+
+    return definitions.map(definition => {
+      const kind = this.kinds.get(definition?.type);
+      if (!kind) {
+        throw new IndicatorConfigError(`Unknown indicator type '${definition?.type}'`);
+      }
+
+      const params = { ...kind.defaults, ...(definition.params || {}) };
+      const name = definition.name || (params.period !== undefined ? `${kind.type}_${params.period}` : kind.type);
+      if (!/^[a-z][a-z0-9_]*$/.test(name)) {
+        throw new IndicatorConfigError(`Feature name '${name}' must be lower snake case`);
+      }
+
+      const outputs = kind.outputs(name, params);
+      for (const output of outputs) {
+        if (seen.has(output)) {
+          throw new IndicatorConfigError(`Feature '${output}' is produced by more than one indicator`);
+        }
+        seen.add(output);
+      }
+
+      const lookback = kind.lookback(params);
+      return { name, type: kind.type, params, outputs, lookback, warmup: Math.max(lookback, kind.warmup?.(params) ?? 0) };
+    });
+  }
+
+  /**
+   * Bars needed for every indicator to have a value.
+   */
+  requiredBars(indicators: ResolvedIndicator[]): number {
+    return Math.max(2, ...indicators.map(indicator => indicator.lookback));
+  }
+
+  /**
+   * Bars to replay from a cold start so that smoothed indicators agree with
+   * a stream that has been running longer (at least `requiredBars`).
+   */
+  warmupBars(indicators: ResolvedIndicator[]): number {
+    return Math.max(this.requiredBars(indicators), ...indicators.map(indicator => indicator.warmup));
+  }
+
+  /**
+   * Features for the latest bar, by replaying `bars` (oldest first) through
+   * fresh streams, so batch and incremental values cannot diverge.
+   */
+  compute(indicators: ResolvedIndicator[], bars: MarketData[]): FeatureValues {
+    const streams = this.createStreams(indicators);
+    let computed: FeatureValues = {};
+
+    for (const bar of bars) {
+      const next: FeatureValues = {};
+      streams.forEach(stream => Object.assign(next, stream.update(bar, next)));
+      computed = next;
+    }
+
+    return computed;
+  }
+
+  /**
+   * Incremental state for each indicator, in the same order.
+   */
+  createStreams(indicators: ResolvedIndicator[]): IndicatorStream[] {
+    return indicators.map(indicator => {
+      const kind = this.kinds.get(indicator.type)!;
+      return kind.stream ? kind.stream(indicator.name, indicator.params) : windowStream(kind, indicator);
+    });
+  }
+}
+
+export const indicatorRegistry = new IndicatorRegistry();
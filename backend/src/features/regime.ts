@@ -0,0 +1,315 @@
+/**
+ * Market Regime Classifier
+ * Labels each symbol and each market (equities, crypto) as trending,
+ * range-bound or in a high-volatility crisis, from rolling volatility, trend
+ * strength (ADX) and the average correlation of bar returns across the
+ * universe. Runs after the cross-sectional stage; labels are written into
+ * the feature sets and stored in `regimes` for strategy gating and review.
+ */
+import { logger } from '../utils/logger';
+import { DatabaseManager } from '../utils/database';
+import { getSystemConfig } from '../utils/systemConfig';
+import { MarketData } from '../data_ingestor';
+import { BarInterval } from '../data/providers';
+import { FeatureSet } from './index';
+
+export const REGIME_CONFIG_KEY = 'regime_config';
+
+export type Regime = 'trend' | 'range' | 'crisis';
+export type VolatilityRegime = 'low' | 'medium' | 'high';
+
+export interface RegimeConfig {
+  volatility_feature: string;     // annualised volatility in percent
+  trend_feature: string;          // ADX
+  trend_adx: number;              // at or above: trending
+  volatility_low: number;         // volatility_regime bands
+  volatility_high: number;
+  crisis_volatility: number;      // at or above: crisis on volatility alone
+  crisis_correlation: number;     // correlation at or above this with high volatility: crisis
+  correlation_window: number;     // bars of returns for correlations
+  trend_share: number;            // share of trending symbols for a trending market
+  markets: { [marketType: string]: Partial<RegimeConfig> };  // per-market overrides
+}
+
+export interface RegimeMetadata {
+  symbol: Regime;
+  market: Regime;
+  market_type: string;
+}
+
+export interface RegimeRecord {
+  scope: 'symbol' | 'market';
+  subject: string;                // symbol, or market type for market regimes
+  timeframe: BarInterval;
+  timestamp: Date;
+  regime: Regime;
+  metrics: { [metric: string]: number | string | null };
+}
+
+const DEFAULT_REGIME_CONFIG: RegimeConfig = {
+  volatility_feature: 'volatility_20',
+  trend_feature: 'adx_14',
+  trend_adx: 25,
+  volatility_low: 15,
+  volatility_high: 30,
+  crisis_volatility: 60,
+  crisis_correlation: 0.7,
+  correlation_window: 60,
+  trend_share: 0.5,
+  // Crypto is routinely several times as volatile as equities
+  markets: {
+    crypto: { volatility_low: 40, volatility_high: 80, crisis_volatility: 150 }
+  }
+};
+
+export class RegimeClassifier {
+  private readonly CONFIG_TTL_MS = 5 * 60 * 1000;
+  private config: RegimeConfig = DEFAULT_REGIME_CONFIG;
+  private configLoadedAt = 0;
+
+  async getConfig(): Promise<RegimeConfig> {
+    if (Date.now() - this.configLoadedAt > this.CONFIG_TTL_MS) {
+      const config = await getSystemConfig<Partial<RegimeConfig>>(REGIME_CONFIG_KEY, {});
+      this.config = {
+        ...DEFAULT_REGIME_CONFIG,
+        ...config,
+        markets: { ...DEFAULT_REGIME_CONFIG.markets, ...(config.markets || {}) }
+      };
+      this.configLoadedAt = Date.now();
+    }
+    return this.config;
+  }
+
+  /**
+   * Thresholds for one market type: the defaults with its overrides applied.
+   */
+  configFor(marketType: string, config: RegimeConfig = this.config): RegimeConfig {
+    return { ...config, ...(config.markets[marketType] || {}) };
+  }
+
+  /**
+   * Bars of history each symbol needs for the correlation window.
+   */
+  requiredBars(config: RegimeConfig): number {
+    return config.correlation_window + 1;
+  }
+
+  /**
+   * `low`, `medium` or `high` from the configured volatility bands.
+   */
+  volatilityRegime(volatility: number, config: RegimeConfig = this.config): VolatilityRegime {
+    return volatility > config.volatility_high ? 'high' : volatility > config.volatility_low ? 'medium' : 'low';
+  }
+
+  /**
+   * Label each feature set in place (`regime`, `market_regime`,
+   * `volatility_regime`, `avg_correlation`) and store the symbol and market
+   * regimes. `bars` holds each symbol's recent bars, oldest first.
+   */
+  async apply(featureSets: FeatureSet[], bars: Map<string, MarketData[]>, timeframe: BarInterval): Promise<RegimeRecord[]> {
+    const config = await this.getConfig();
+    const groups = new Map<string, FeatureSet[]>();
+
+    for (const featureSet of featureSets) {
+      const marketType = bars.get(featureSet.symbol)?.[0]?.market_type;
+      if (!marketType) continue;
+      groups.set(marketType, [...(groups.get(marketType) || []), featureSet]);
+    }
+
+    const records: RegimeRecord[] = [];
+    for (const [marketType, group] of groups) {
+      records.push(...this.classifyGroup(marketType, group, bars, timeframe, this.configFor(marketType, config)));
+    }
+
+    await this.store(records);
+    return records;
+  }
+
+  private classifyGroup(
+    marketType: string,
+    group: FeatureSet[],
+    bars: Map<string, MarketData[]>,
+    timeframe: BarInterval,
+    config: RegimeConfig
+  ): RegimeRecord[] {
+    const returns = group.map(featureSet => this.returnsByTime(bars.get(featureSet.symbol) || [], config.correlation_window));
+    const correlations = group.map((_, i) => {
+      const others = group
+        .map((__, j) => (i === j ? null : this.correlation(returns[i], returns[j])))
+        .filter((value): value is number => value !== null);
+      return others.length > 0 ? others.reduce((sum, value) => sum + value, 0) / others.length : null;
+    });
+
+    const records: RegimeRecord[] = group.map((featureSet, i) => {
+      const volatility = this.numeric(featureSet.features[config.volatility_feature]);
+      const adx = this.numeric(featureSet.features[config.trend_feature]);
+      return {
+        scope: 'symbol' as const,
+        subject: featureSet.symbol,
+        timeframe,
+        timestamp: featureSet.timestamp,
+        regime: this.classify(volatility, adx, correlations[i], config),
+        metrics: { volatility, adx, avg_correlation: correlations[i] }
+      };
+    });
+
+    // The market is judged on its typical member rather than its most volatile one
+    const volatilities = records.map(record => record.metrics.volatility as number | null).filter((v): v is number => v !== null);
+    const medianVolatility = this.median(volatilities);
+    const presentCorrelations = correlations.filter((value): value is number => value !== null);
+    const avgCorrelation = presentCorrelations.length > 0
+      ? presentCorrelations.reduce((sum, value) => sum + value, 0) / presentCorrelations.length
+      : null;
+    const trendingShare = records.filter(record => record.regime === 'trend').length / records.length;
+
+    let market: Regime = trendingShare >= config.trend_share ? 'trend' : 'range';
+    if (this.isCrisis(medianVolatility, avgCorrelation, config)) market = 'crisis';
+
+    const marketRecord: RegimeRecord = {
+      scope: 'market',
+      subject: marketType,
+      timeframe,
+      timestamp: new Date(Math.max(...group.map(featureSet => featureSet.timestamp.getTime()))),
+      regime: market,
+      metrics: {
+        median_volatility: medianVolatility,
+        avg_correlation: avgCorrelation,
+        trending_share: trendingShare,
+        universe_size: group.length
+      }
+    };
+
+    group.forEach((featureSet, i) => {
+      const volatility = records[i].metrics.volatility as number | null;
+      featureSet.features.regime = records[i].regime;
+      featureSet.features.market_regime = market;
+      featureSet.features.volatility_regime = volatility === null ? null : this.volatilityRegime(volatility, config);
+      featureSet.features.avg_correlation = correlations[i];
+      featureSet.metadata.regime = { symbol: records[i].regime, market, market_type: marketType };
+    });
+
+    if (market === 'crisis') {
+      logger.warn(`🚨 ${marketType} market in crisis regime`, marketRecord.metrics);
+    }
+
+    return [...records, marketRecord];
+  }
+
+  private classify(volatility: number | null, adx: number | null, correlation: number | null, config: RegimeConfig): Regime {
+    if (this.isCrisis(volatility, correlation, config)) return 'crisis';
+    return adx !== null && adx >= config.trend_adx ? 'trend' : 'range';
+  }
+
+  // Extreme volatility, or high volatility while assets move together
+  private isCrisis(volatility: number | null, correlation: number | null, config: RegimeConfig): boolean {
+    if (volatility === null) return false;
+    if (volatility >= config.crisis_volatility) return true;
+    return volatility >= config.volatility_high && correlation !== null && correlation >= config.crisis_correlation;
+  }
+
+  // Last `window` bar returns keyed by bar time
+  private returnsByTime(bars: MarketData[], window: number): Map<number, number> {
+    const returns = new Map<number, number>();
+    for (let i = Math.max(1, bars.length - window); i < bars.length; i++) {
+      if (bars[i - 1].close > 0) {
+        returns.set(bars[i].timestamp.getTime(), (bars[i].close - bars[i - 1].close) / bars[i - 1].close);
+      }
+    }
+    return returns;
+  }
+
+  /**
+   * Pearson correlation over the times both series have, or null with fewer
+   * than 10 of them.
+   */
+  private correlation(a: Map<number, number>, b: Map<number, number>): number | null {
+    const pairs: [number, number][] = [];
+    for (const [time, value] of a) {
+      const other = b.get(time);
+      if (other !== undefined) pairs.push([value, other]);
+    }
+    if (pairs.length < 10) return null;
+
+    const meanA = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length;
+    const meanB = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length;
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+    for (const [x, y] of pairs) {
+      covariance += (x - meanA) * (y - meanB);
+      varianceA += Math.pow(x - meanA, 2);
+      varianceB += Math.pow(y - meanB, 2);
+    }
+
+    return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : null;
+  }
+
+  private median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  }
+
+  private numeric(value: unknown): number | null {
+    return typeof value === 'number' && isFinite(value) ? value : null;
+  }
+
+  private async store(records: RegimeRecord[]): Promise<void> {
+    for (const record of records) {
+      try {
+        await DatabaseManager.query(`
+          INSERT INTO regimes (scope, subject, timeframe, timestamp, regime, metrics)
+          VALUES ($1, $2, $3, $4, $5, $6)
+          ON CONFLICT (scope, subject, timeframe, timestamp) DO UPDATE SET
+            regime = EXCLUDED.regime,
+            metrics = EXCLUDED.metrics,
+            updated_at = NOW()
+        `, [record.scope, record.subject, record.timeframe, record.timestamp, record.regime, JSON.stringify(record.metrics)]);
+      } catch (error) {
+        // The labels are already on the feature sets; only the history row is lost
+        logger.warn(`Failed to store ${record.scope} regime for ${record.subject}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Latest regime per subject, optionally for one scope.
+   */
+  async getLatest(scope?: RegimeRecord['scope'], timeframe: BarInterval = '1d'): Promise<RegimeRecord[]> {
+    const result = await DatabaseManager.query(`
+      SELECT DISTINCT ON (scope, subject) scope, subject, timeframe, timestamp, regime, metrics
+      FROM regimes
+      WHERE timeframe = $1 AND ($2::text IS NULL OR scope = $2)
+      ORDER BY scope, subject, timestamp DESC
+    `, [timeframe, scope || null]);
+    return result.rows.map((row: any) => this.mapRecord(row));
+  }
+
+  /**
+   * Regime history for a symbol or market type, newest first.
+   */
+  async getHistory(subject: string, timeframe: BarInterval = '1d', limit: number = 100): Promise<RegimeRecord[]> {
+    const result = await DatabaseManager.query(`
+      SELECT scope, subject, timeframe, timestamp, regime, metrics
+      FROM regimes
+      WHERE subject = $1 AND timeframe = $2
+      ORDER BY timestamp DESC
+      LIMIT $3
+    `, [subject, timeframe, limit]);
+    return result.rows.map((row: any) => this.mapRecord(row));
+  }
+
+  private mapRecord(row: any): RegimeRecord {
+    return {
+      scope: row.scope,
+      subject: row.subject,
+      timeframe: row.timeframe,
+      timestamp: new Date(row.timestamp),
+      regime: row.regime,
+      metrics: row.metrics || {}
+    };
+  }
+}
+
+export const regimeClassifier = new RegimeClassifier();
@@ -0,0 +1,996 @@
+/**
+ * Streaming Indicators
+ * Stateful indicators that update in O(1) per bar instead of recomputing a
+ * whole window. `update` commits a closed bar; `peek` returns the value the
+ * indicator would have if the forming bar closed at the given input, without
+ * changing state, so ticks can be evaluated between bars. State serialises
+ * to plain JSON for checkpointing.
+ *
+ * Seeding follows the technicalindicators package (EMA from the SMA of the
+ * first `period` values, Wilder smoothing for RSI, ATR and ADX, population
+ * standard deviation for Bollinger Bands), so a stream fed the same bars as
+ * a batch computation produces the same values. The package itself is a
+ * devDependency only, used as the reference in the golden-value tests.
+ */
+
+export interface StreamingIndicator<TInput = number, TOutput = number> {
+  readonly ready: boolean;
+  update(input: TInput): TOutput | null;
+  peek(input: TInput): TOutput | null;
+  value(): TOutput | null;
+  toJSON(): any;
+  restore(state: any): void;
+}
+
+export interface BarInput {
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface VolumeBarInput extends BarInput {
+  volume: number;
+  timestamp: Date;
+}
+
+export interface MacdValue {
+  line: number;
+  signal: number | null;
+  histogram: number | null;
+}
+
+export interface AdxValue {
+  adx: number;
+  plus_di: number;
+  minus_di: number;
+}
+
+export interface StochasticValue {
+  k: number;
+  d: number | null;
+}
+
+export interface ObvValue {
+  obv: number;
+  change: number | null;
+}
+
+export interface IchimokuValue {
+  conversion: number | null;
+  base: number | null;
+  span_a: number | null;
+  span_b: number | null;
+  cloud_top: number | null;
+  cloud_bottom: number | null;
+}
+
+export interface BollingerValue {
+  upper: number;
+  middle: number;
+  lower: number;
+  percent_b: number;
+}
+
+// Running mean/variance drift slightly with every replacement; recomputing
+// from the buffer this often keeps the error bounded at O(1) amortised cost
+const RESYNC_EVERY = 1024;
+
+/**
+ * Fixed-size ring buffer with a running mean and sum of squared deviations
+ * (Welford), so mean and variance are O(1) per push.
+ */
+export class RollingWindow {
+  private buffer: number[] = [];
+  private head = 0;
+  private mean = 0;
+  private m2 = 0;
+  private pushes = 0;
+
+  constructor(readonly size: number) {}
+
+  get length(): number {
+    return this.buffer.length;
+  }
+
+  get full(): boolean {
+    return this.buffer.length === this.size;
+  }
+
+  /**
+   * Value `offset` pushes back, 0 being the newest.
+   */
+  get(offset: number): number | undefined {
+    if (offset < 0 || offset >= this.buffer.length) return undefined;
+    const newest = this.full ? (this.head + this.size - 1) % this.size : this.buffer.length - 1;
+    return this.buffer[(newest - offset + this.size) % this.size];
+  }
+
+  /**
+   * Adds a value and returns the one it evicted, if the window was full.
+   */
+  push(value: number): number | undefined {
+    let evicted: number | undefined;
+
+    if (!this.full) {
+      this.buffer.push(value);
+      const delta = value - this.mean;
+      this.mean += delta / this.buffer.length;
+      this.m2 += delta * (value - this.mean);
+    } else {
+      evicted = this.buffer[this.head];
+      this.buffer[this.head] = value;
+      this.head = (this.head + 1) % this.size;
+      const previousMean = this.mean;
+      this.mean += (value - evicted) / this.size;
+      this.m2 += (value - evicted) * (value - this.mean + evicted - previousMean);
+    }
+
+    if (++this.pushes % RESYNC_EVERY === 0) this.resync();
+    this.m2 = Math.max(0, this.m2);
+    return evicted;
+  }
+
+  average(): number {
+    return this.mean;
+  }
+
+  /**
+   * Population variance of the values in the window.
+   */
+  variance(): number {
+    return this.buffer.length > 0 ? this.m2 / this.buffer.length : 0;
+  }
+
+  /**
+   * Mean, variance and length the window would have after pushing `value`.
+   */
+  peekStats(value: number): { mean: number; variance: number; length: number } {
+    if (!this.full) {
+      const length = this.buffer.length + 1;
+      const delta = value - this.mean;
+      const mean = this.mean + delta / length;
+      return { mean, variance: Math.max(0, this.m2 + delta * (value - mean)) / length, length };
+    }
+
+    const evicted = this.buffer[this.head];
+    const mean = this.mean + (value - evicted) / this.size;
+    const m2 = this.m2 + (value - evicted) * (value - mean + evicted - this.mean);
+    return { mean, variance: Math.max(0, m2) / this.size, length: this.size };
+  }
+
+  /**
+   * Values oldest first.
+   */
+  toArray(): number[] {
+    return [...this.buffer.slice(this.head), ...this.buffer.slice(0, this.head)];
+  }
+
+  toJSON(): { values: number[] } {
+    return { values: this.toArray() };
+  }
+
+  restore(state: { values: number[] }): void {
+    this.buffer = [];
+    this.head = 0;
+    this.mean = 0;
+    this.m2 = 0;
+    this.pushes = 0;
+    (state?.values || []).slice(-this.size).forEach(value => this.push(value));
+  }
+
+  private resync(): void {
+    const n = this.buffer.length;
+    this.mean = this.buffer.reduce((sum, value) => sum + value, 0) / n;
+    this.m2 = this.buffer.reduce((sum, value) => sum + Math.pow(value - this.mean, 2), 0);
+  }
+}
+
+export class Sma implements StreamingIndicator {
+  private window: RollingWindow;
+
+  constructor(readonly period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  get ready(): boolean {
+    return this.window.full;
+  }
+
+  update(value: number): number | null {
+    this.window.push(value);
+    return this.value();
+  }
+
+  peek(value: number): number | null {
+    const stats = this.window.peekStats(value);
+    return stats.length === this.period ? stats.mean : null;
+  }
+
+  value(): number | null {
+    return this.window.full ? this.window.average() : null;
+  }
+
+  toJSON() {
+    return this.window.toJSON();
+  }
+
+  restore(state: any): void {
+    this.window.restore(state);
+  }
+}
+
+/**
+ * Exponential average seeded with the SMA of the first `period` values.
+ * `alpha` defaults to 2 / (period + 1).
+ */
+export class Ema implements StreamingIndicator {
+  private count = 0;
+  private seedSum = 0;
+  private current: number | null = null;
+  private alpha: number;
+
+  constructor(readonly period: number, alpha?: number) {
+    this.alpha = alpha ?? 2 / (period + 1);
+  }
+
+  get ready(): boolean {
+    return this.current !== null;
+  }
+
+  update(value: number): number | null {
+    this.current = this.next(value);
+    if (this.current === null) {
+      this.count++;
+      this.seedSum += value;
+    }
+    return this.current;
+  }
+
+  peek(value: number): number | null {
+    return this.next(value);
+  }
+
+  value(): number | null {
+    return this.current;
+  }
+
+  toJSON() {
+    return { count: this.count, seed_sum: this.seedSum, value: this.current };
+  }
+
+  restore(state: any): void {
+    this.count = state?.count || 0;
+    this.seedSum = state?.seed_sum || 0;
+    this.current = state?.value ?? null;
+  }
+
+  private next(value: number): number | null {
+    if (this.current !== null) return this.current + (value - this.current) * this.alpha;
+    if (this.count + 1 === this.period) return (this.seedSum + value) / this.period;
+    return null;
+  }
+}
+
+/**
+ * Wilder's smoothing (alpha = 1 / period), used by RSI and ATR.
+ */
+export class WilderAverage extends Ema {
+  constructor(period: number) {
+    super(period, 1 / period);
+  }
+}
+
+export class Rsi implements StreamingIndicator {
+  private previous: number | null = null;
+  private gains: WilderAverage;
+  private losses: WilderAverage;
+
+  constructor(readonly period: number) {
+    this.gains = new WilderAverage(period);
+    this.losses = new WilderAverage(period);
+  }
+
+  get ready(): boolean {
+    return this.gains.ready;
+  }
+
+  update(value: number): number | null {
+    if (this.previous === null) {
+      this.previous = value;
+      return null;
+    }
+    const change = value - this.previous;
+    this.previous = value;
+    return Rsi.fromAverages(this.gains.update(Math.max(change, 0)), this.losses.update(Math.max(-change, 0)));
+  }
+
+  peek(value: number): number | null {
+    if (this.previous === null) return null;
+    const change = value - this.previous;
+    return Rsi.fromAverages(this.gains.peek(Math.max(change, 0)), this.losses.peek(Math.max(-change, 0)));
+  }
+
+  value(): number | null {
+    return Rsi.fromAverages(this.gains.value(), this.losses.value());
+  }
+
+  toJSON() {
+    return { previous: this.previous, gains: this.gains.toJSON(), losses: this.losses.toJSON() };
+  }
+
+  restore(state: any): void {
+    this.previous = state?.previous ?? null;
+    this.gains.restore(state?.gains);
+    this.losses.restore(state?.losses);
+  }
+
+  // Rounded to two decimals, as technicalindicators does
+  private static fromAverages(gain: number | null, loss: number | null): number | null {
+    if (gain === null || loss === null) return null;
+    if (loss === 0) return 100;
+    if (gain === 0) return 0;
+    return parseFloat((100 - 100 / (1 + gain / loss)).toFixed(2));
+  }
+}
+
+/**
+ * MACD line (fast EMA - slow EMA) with an EMA signal line that starts once
+ * the slow EMA has a value.
+ */
+export class Macd implements StreamingIndicator<number, MacdValue> {
+  private fast: Ema;
+  private slow: Ema;
+  private signal: Ema;
+  private line: number | null = null;
+
+  constructor(fastPeriod: number, slowPeriod: number, signalPeriod: number) {
+    this.fast = new Ema(fastPeriod);
+    this.slow = new Ema(slowPeriod);
+    this.signal = new Ema(signalPeriod);
+  }
+
+  get ready(): boolean {
+    return this.signal.ready;
+  }
+
+  update(value: number): MacdValue | null {
+    const fast = this.fast.update(value);
+    const slow = this.slow.update(value);
+    if (fast === null || slow === null) return null;
+
+    this.line = fast - slow;
+    return Macd.combine(this.line, this.signal.update(this.line));
+  }
+
+  peek(value: number): MacdValue | null {
+    const fast = this.fast.peek(value);
+    const slow = this.slow.peek(value);
+    if (fast === null || slow === null) return null;
+
+    const line = fast - slow;
+    return Macd.combine(line, this.signal.peek(line));
+  }
+
+  value(): MacdValue | null {
+    return this.line === null ? null : Macd.combine(this.line, this.signal.value());
+  }
+
+  toJSON() {
+    return { fast: this.fast.toJSON(), slow: this.slow.toJSON(), signal: this.signal.toJSON(), line: this.line };
+  }
+
+  restore(state: any): void {
+    this.fast.restore(state?.fast);
+    this.slow.restore(state?.slow);
+    this.signal.restore(state?.signal);
+    this.line = state?.line ?? null;
+  }
+
+  private static combine(line: number, signal: number | null): MacdValue {
+    return { line, signal, histogram: signal === null ? null : line - signal };
+  }
+}
+
+export class BollingerBands implements StreamingIndicator<number, BollingerValue> {
+  private window: RollingWindow;
+
+  constructor(readonly period: number, readonly stdDev: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  get ready(): boolean {
+    return this.window.full;
+  }
+
+  update(value: number): BollingerValue | null {
+    this.window.push(value);
+    return this.value();
+  }
+
+  peek(value: number): BollingerValue | null {
+    const stats = this.window.peekStats(value);
+    return stats.length === this.period ? this.bands(stats.mean, stats.variance, value) : null;
+  }
+
+  value(): BollingerValue | null {
+    if (!this.window.full) return null;
+    return this.bands(this.window.average(), this.window.variance(), this.window.get(0)!);
+  }
+
+  toJSON() {
+    return this.window.toJSON();
+  }
+
+  restore(state: any): void {
+    this.window.restore(state);
+  }
+
+  private bands(mean: number, variance: number, price: number): BollingerValue {
+    const deviation = Math.sqrt(variance) * this.stdDev;
+    const upper = mean + deviation;
+    const lower = mean - deviation;
+    return { upper, middle: mean, lower, percent_b: (price - lower) / (upper - lower) };
+  }
+}
+
+/**
+ * Population standard deviation over the last `period` values.
+ */
+export class RollingStdDev implements StreamingIndicator {
+  private window: RollingWindow;
+
+  constructor(readonly period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  get ready(): boolean {
+    return this.window.full;
+  }
+
+  update(value: number): number | null {
+    this.window.push(value);
+    return this.value();
+  }
+
+  peek(value: number): number | null {
+    const stats = this.window.peekStats(value);
+    return stats.length === this.period ? Math.sqrt(stats.variance) : null;
+  }
+
+  value(): number | null {
+    return this.window.full ? Math.sqrt(this.window.variance()) : null;
+  }
+
+  toJSON() {
+    return this.window.toJSON();
+  }
+
+  restore(state: any): void {
+    this.window.restore(state);
+  }
+}
+
+/**
+ * Average true range with Wilder smoothing. The first bar only provides the
+ * previous close, so the first value comes after `period + 1` bars.
+ */
+export class Atr implements StreamingIndicator<BarInput, number> {
+  private previousClose: number | null = null;
+  private average: WilderAverage;
+
+  constructor(readonly period: number) {
+    this.average = new WilderAverage(period);
+  }
+
+  get ready(): boolean {
+    return this.average.ready;
+  }
+
+  update(bar: BarInput): number | null {
+    const trueRange = this.trueRange(bar);
+    this.previousClose = bar.close;
+    return trueRange === null ? null : this.average.update(trueRange);
+  }
+
+  peek(bar: BarInput): number | null {
+    const trueRange = this.trueRange(bar);
+    return trueRange === null ? null : this.average.peek(trueRange);
+  }
+
+  value(): number | null {
+    return this.average.value();
+  }
+
+  toJSON() {
+    return { previous_close: this.previousClose, average: this.average.toJSON() };
+  }
+
+  restore(state: any): void {
+    this.previousClose = state?.previous_close ?? null;
+    this.average.restore(state?.average);
+  }
+
+  private trueRange(bar: BarInput): number | null {
+    return this.previousClose === null ? null : trueRange(bar, this.previousClose);
+  }
+}
+
+/**
+ * Lowest or highest value over the last `period` values, using a monotonic
+ * queue (amortised O(1)). Like the batch version it reports the extreme of
+ * whatever history exists before the window fills.
+ */
+export class RollingExtreme implements StreamingIndicator {
+  private seen = 0;
+  private queue: [number, number][] = []; // [index, value], front is the extreme
+
+  constructor(readonly period: number, readonly mode: 'min' | 'max') {}
+
+  get ready(): boolean {
+    return this.seen >= this.period;
+  }
+
+  /**
+   * Values pushed so far.
+   */
+  get count(): number {
+    return this.seen;
+  }
+
+  update(value: number): number | null {
+    const index = this.seen++;
+    while (this.queue.length > 0 && !this.beats(this.queue[this.queue.length - 1][1], value)) {
+      this.queue.pop();
+    }
+    this.queue.push([index, value]);
+    while (this.queue[0][0] <= index - this.period) {
+      this.queue.shift();
+    }
+    return this.value();
+  }
+
+  peek(value: number): number | null {
+    // The entry that would fall out of the window is skipped
+    const oldest = this.seen - this.period + 1;
+    const front = this.queue.find(([index]) => index >= oldest);
+    if (!front) return value;
+    return this.mode === 'min' ? Math.min(front[1], value) : Math.max(front[1], value);
+  }
+
+  value(): number | null {
+    return this.queue.length > 0 ? this.queue[0][1] : null;
+  }
+
+  toJSON() {
+    return { count: this.seen, queue: this.queue };
+  }
+
+  restore(state: any): void {
+    this.seen = state?.count || 0;
+    this.queue = state?.queue || [];
+  }
+
+  // True when `existing` should stay ahead of a newer `value`
+  private beats(existing: number, value: number): boolean {
+    return this.mode === 'min' ? existing < value : existing > value;
+  }
+}
+
+/**
+ * Percent change from the value `period` bars back.
+ */
+export class RateOfChange implements StreamingIndicator {
+  private window: RollingWindow;
+
+  constructor(readonly period: number) {
+    this.window = new RollingWindow(period + 1);
+  }
+
+  get ready(): boolean {
+    return this.window.full;
+  }
+
+  update(value: number): number | null {
+    this.window.push(value);
+    return this.value();
+  }
+
+  peek(value: number): number | null {
+    const past = this.window.get(this.period - 1);
+    return past === undefined ? null : RateOfChange.change(value, past);
+  }
+
+  value(): number | null {
+    if (!this.window.full) return null;
+    return RateOfChange.change(this.window.get(0)!, this.window.get(this.period)!);
+  }
+
+  toJSON() {
+    return this.window.toJSON();
+  }
+
+  restore(state: any): void {
+    this.window.restore(state);
+  }
+
+  private static change(current: number, past: number): number {
+    return ((current - past) / past) * 100;
+  }
+}
+
+function trueRange(bar: BarInput, previousClose: number): number {
+  return Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose));
+}
+
+/**
+ * Average directional index with the +DI/-DI lines. True range and the
+ * directional moves are Wilder-smoothed; ADX is the Wilder average of DX, so
+ * values start after `2 * period` bars.
+ */
+export class Adx implements StreamingIndicator<BarInput, AdxValue> {
+  private previous: BarInput | null = null;
+  private trueRange: WilderAverage;
+  private plusMove: WilderAverage;
+  private minusMove: WilderAverage;
+  private dx: WilderAverage;
+  private current: AdxValue | null = null;
+
+  constructor(readonly period: number) {
+    this.trueRange = new WilderAverage(period);
+    this.plusMove = new WilderAverage(period);
+    this.minusMove = new WilderAverage(period);
+    this.dx = new WilderAverage(period);
+  }
+
+  get ready(): boolean {
+    return this.current !== null;
+  }
+
+  update(bar: BarInput): AdxValue | null {
+    const moves = this.moves(bar);
+    this.previous = { high: bar.high, low: bar.low, close: bar.close };
+    if (!moves) return null;
+
+    const lines = Adx.lines(this.trueRange.update(moves.tr), this.plusMove.update(moves.plus), this.minusMove.update(moves.minus));
+    if (!lines) return null;
+
+    const adx = this.dx.update(lines.dx);
+    this.current = adx === null ? null : { adx, plus_di: lines.plus_di, minus_di: lines.minus_di };
+    return this.current;
+  }
+
+  peek(bar: BarInput): AdxValue | null {
+    const moves = this.moves(bar);
+    if (!moves) return null;
+
+    const lines = Adx.lines(this.trueRange.peek(moves.tr), this.plusMove.peek(moves.plus), this.minusMove.peek(moves.minus));
+    if (!lines) return null;
+
+    const adx = this.dx.peek(lines.dx);
+    return adx === null ? null : { adx, plus_di: lines.plus_di, minus_di: lines.minus_di };
+  }
+
+  value(): AdxValue | null {
+    return this.current;
+  }
+
+  toJSON() {
+    return {
+      previous: this.previous,
+      true_range: this.trueRange.toJSON(),
+      plus_move: this.plusMove.toJSON(),
+      minus_move: this.minusMove.toJSON(),
+      dx: this.dx.toJSON(),
+      value: this.current
+    };
+  }
+
+  restore(state: any): void {
+    this.previous = state?.previous ?? null;
+    this.trueRange.restore(state?.true_range);
+    this.plusMove.restore(state?.plus_move);
+    this.minusMove.restore(state?.minus_move);
+    this.dx.restore(state?.dx);
+    this.current = state?.value ?? null;
+  }
+
+  private moves(bar: BarInput): { tr: number; plus: number; minus: number } | null {
+    if (!this.previous) return null;
+    const up = bar.high - this.previous.high;
+    const down = this.previous.low - bar.low;
+    return {
+      tr: trueRange(bar, this.previous.close),
+      plus: up > down && up > 0 ? up : 0,
+      minus: down > up && down > 0 ? down : 0
+    };
+  }
+
+  private static lines(tr: number | null, plus: number | null, minus: number | null) {
+    if (tr === null || plus === null || minus === null) return null;
+    const plusDi = (plus * 100) / tr;
+    const minusDi = (minus * 100) / tr;
+    return { plus_di: plusDi, minus_di: minusDi, dx: (Math.abs(plusDi - minusDi) / (plusDi + minusDi)) * 100 };
+  }
+}
+
+/**
+ * Stochastic oscillator: %K places the close within the `period` high-low
+ * range, %D is the SMA of %K.
+ */
+export class Stochastic implements StreamingIndicator<BarInput, StochasticValue> {
+  private highs: RollingExtreme;
+  private lows: RollingExtreme;
+  private signal: Sma;
+  private k: number | null = null;
+
+  constructor(readonly period: number, signalPeriod: number) {
+    this.highs = new RollingExtreme(period, 'max');
+    this.lows = new RollingExtreme(period, 'min');
+    this.signal = new Sma(signalPeriod);
+  }
+
+  get ready(): boolean {
+    return this.k !== null;
+  }
+
+  update(bar: BarInput): StochasticValue | null {
+    const high = this.highs.update(bar.high)!;
+    const low = this.lows.update(bar.low)!;
+    if (!this.highs.ready) return null;
+
+    this.k = Stochastic.percentK(bar.close, high, low);
+    return { k: this.k, d: this.signal.update(this.k) };
+  }
+
+  peek(bar: BarInput): StochasticValue | null {
+    if (this.highs.count + 1 < this.period) return null;
+    const k = Stochastic.percentK(bar.close, this.highs.peek(bar.high)!, this.lows.peek(bar.low)!);
+    return { k, d: this.signal.peek(k) };
+  }
+
+  value(): StochasticValue | null {
+    return this.k === null ? null : { k: this.k, d: this.signal.value() };
+  }
+
+  toJSON() {
+    return { highs: this.highs.toJSON(), lows: this.lows.toJSON(), signal: this.signal.toJSON(), k: this.k };
+  }
+
+  restore(state: any): void {
+    this.highs.restore(state?.highs);
+    this.lows.restore(state?.lows);
+    this.signal.restore(state?.signal);
+    this.k = state?.k ?? null;
+  }
+
+  // A flat range gives 0, as technicalindicators does
+  private static percentK(close: number, high: number, low: number): number {
+    const k = ((close - low) / (high - low)) * 100;
+    return isNaN(k) ? 0 : k;
+  }
+}
+
+/**
+ * On-balance volume: running total of volume signed by the close-to-close
+ * direction. The total depends on where the stream started, so `change`
+ * (the net flow over the last `period` bars) is the comparable figure.
+ */
+export class OnBalanceVolume implements StreamingIndicator<{ close: number; volume: number }, ObvValue> {
+  private previousClose: number | null = null;
+  private total = 0;
+  private flows: RollingWindow;
+
+  constructor(readonly period: number) {
+    this.flows = new RollingWindow(period);
+  }
+
+  get ready(): boolean {
+    return this.flows.full;
+  }
+
+  update(bar: { close: number; volume: number }): ObvValue | null {
+    if (this.previousClose === null) {
+      this.previousClose = bar.close;
+      return null;
+    }
+    const flow = this.flow(bar);
+    this.previousClose = bar.close;
+    this.total += flow;
+    this.flows.push(flow);
+    return this.value();
+  }
+
+  peek(bar: { close: number; volume: number }): ObvValue | null {
+    if (this.previousClose === null) return null;
+    const flow = this.flow(bar);
+    const stats = this.flows.peekStats(flow);
+    return { obv: this.total + flow, change: stats.length === this.period ? stats.mean * this.period : null };
+  }
+
+  value(): ObvValue | null {
+    if (this.previousClose === null || this.flows.length === 0) return null;
+    return { obv: this.total, change: this.flows.full ? this.flows.average() * this.period : null };
+  }
+
+  toJSON() {
+    return { previous_close: this.previousClose, total: this.total, flows: this.flows.toJSON() };
+  }
+
+  restore(state: any): void {
+    this.previousClose = state?.previous_close ?? null;
+    this.total = state?.total || 0;
+    this.flows.restore(state?.flows);
+  }
+
+  private flow(bar: { close: number; volume: number }): number {
+    if (bar.close > this.previousClose!) return bar.volume;
+    if (bar.close < this.previousClose!) return -bar.volume;
+    return 0;
+  }
+}
+
+/**
+ * Volume-weighted average of the typical price ((high + low + close) / 3)
+ * since the start of the bar's session, taken as its UTC calendar day (which
+ * holds a whole US equity session). Resets on the first bar of each session.
+ */
+export class SessionVwap implements StreamingIndicator<VolumeBarInput, number> {
+  private session: string | null = null;
+  private priceVolume = 0;
+  private volume = 0;
+  private lastTypical = 0;
+
+  get ready(): boolean {
+    return this.session !== null;
+  }
+
+  update(bar: VolumeBarInput): number {
+    const next = this.next(bar);
+    this.session = next.session;
+    this.priceVolume = next.priceVolume;
+    this.volume = next.volume;
+    this.lastTypical = next.typical;
+    return SessionVwap.vwap(next.priceVolume, next.volume, next.typical);
+  }
+
+  peek(bar: VolumeBarInput): number {
+    const next = this.next(bar);
+    return SessionVwap.vwap(next.priceVolume, next.volume, next.typical);
+  }
+
+  value(): number | null {
+    return this.session === null ? null : SessionVwap.vwap(this.priceVolume, this.volume, this.lastTypical);
+  }
+
+  toJSON() {
+    return { session: this.session, price_volume: this.priceVolume, volume: this.volume, last_typical: this.lastTypical };
+  }
+
+  restore(state: any): void {
+    this.session = state?.session ?? null;
+    this.priceVolume = state?.price_volume || 0;
+    this.volume = state?.volume || 0;
+    this.lastTypical = state?.last_typical || 0;
+  }
+
+  static sessionOf(timestamp: Date): string {
+    return timestamp.toISOString().slice(0, 10);
+  }
+
+  private next(bar: VolumeBarInput) {
+    const session = SessionVwap.sessionOf(bar.timestamp);
+    const typical = (bar.high + bar.low + bar.close) / 3;
+    const carried = session === this.session;
+    return {
+      session,
+      typical,
+      priceVolume: (carried ? this.priceVolume : 0) + typical * bar.volume,
+      volume: (carried ? this.volume : 0) + bar.volume
+    };
+  }
+
+  // Sessions without volume so far fall back to the latest typical price
+  private static vwap(priceVolume: number, volume: number, typical: number): number {
+    return volume > 0 ? priceVolume / volume : typical;
+  }
+}
+
+/**
+ * Ichimoku cloud. Conversion, base and the leading spans are as of the
+ * latest bar; `cloud_top`/`cloud_bottom` are the spans computed
+ * `displacement` bars ago, i.e. the cloud drawn under the current price.
+ */
+export class Ichimoku implements StreamingIndicator<BarInput, IchimokuValue> {
+  private ranges: { high: RollingExtreme; low: RollingExtreme; period: number }[];
+  private spansA: RollingWindow;
+  private spansB: RollingWindow;
+  private current: IchimokuValue | null = null;
+
+  constructor(conversionPeriod: number, basePeriod: number, spanPeriod: number, readonly displacement: number) {
+    this.ranges = [conversionPeriod, basePeriod, spanPeriod].map(period => ({
+      high: new RollingExtreme(period, 'max'),
+      low: new RollingExtreme(period, 'min'),
+      period
+    }));
+    this.spansA = new RollingWindow(displacement + 1);
+    this.spansB = new RollingWindow(displacement + 1);
+  }
+
+  get ready(): boolean {
+    return this.spansA.full;
+  }
+
+  update(bar: BarInput): IchimokuValue {
+    const [conversion, base, span] = this.ranges.map(range => {
+      range.high.update(bar.high);
+      range.low.update(bar.low);
+      return range.high.ready ? (range.high.value()! + range.low.value()!) / 2 : null;
+    });
+    const spans = Ichimoku.spans(conversion, base, span);
+    if (spans) {
+      this.spansA.push(spans.a);
+      this.spansB.push(spans.b);
+    }
+
+    this.current = this.combine(conversion, base, spans, this.spansA.full ? 0 : null);
+    return this.current;
+  }
+
+  peek(bar: BarInput): IchimokuValue {
+    const [conversion, base, span] = this.ranges.map(range =>
+      range.high.count + 1 >= range.period ? (range.high.peek(bar.high)! + range.low.peek(bar.low)!) / 2 : null
+    );
+    const spans = Ichimoku.spans(conversion, base, span);
+    // After pushing, the span from `displacement` bars back sits one slot newer
+    const offset = spans && this.spansA.length >= this.displacement ? -1 : null;
+    return this.combine(conversion, base, spans, offset);
+  }
+
+  value(): IchimokuValue | null {
+    return this.current;
+  }
+
+  toJSON() {
+    return {
+      ranges: this.ranges.map(range => ({ high: range.high.toJSON(), low: range.low.toJSON() })),
+      spans_a: this.spansA.toJSON(),
+      spans_b: this.spansB.toJSON(),
+      value: this.current
+    };
+  }
+
+  restore(state: any): void {
+    this.ranges.forEach((range, i) => {
+      range.high.restore(state?.ranges?.[i]?.high);
+      range.low.restore(state?.ranges?.[i]?.low);
+    });
+    this.spansA.restore(state?.spans_a);
+    this.spansB.restore(state?.spans_b);
+    this.current = state?.value ?? null;
+  }
+
+  private static spans(conversion: number | null, base: number | null, span: number | null) {
+    if (conversion === null || base === null || span === null) return null;
+    return { a: (conversion + base) / 2, b: span };
+  }
+
+  // `offset` shifts the cloud lookup: 0 reads the committed window, -1 the
+  // window as it would be after a peeked push, null means no cloud yet
+  private combine(
+    conversion: number | null,
+    base: number | null,
+    spans: { a: number; b: number } | null,
+    offset: number | null
+  ): IchimokuValue {
+    const cloudA = offset === null ? null : this.spansA.get(this.displacement + offset)!;
+    const cloudB = offset === null ? null : this.spansB.get(this.displacement + offset)!;
+    return {
+      conversion,
+      base,
+      span_a: spans?.a ?? null,
+      span_b: spans?.b ?? null,
+      cloud_top: cloudA === null ? null : Math.max(cloudA, cloudB!),
+      cloud_bottom: cloudA === null ? null : Math.min(cloudA, cloudB!)
+    };
+  }
+}
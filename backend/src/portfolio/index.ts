@@ -4,6 +4,8 @@
  */
 import { logger } from '../utils/logger';
 import { DatabaseManager } from '../utils/database';
+import { ExposureReport, instrumentMaster } from '../data/instruments/instrument-master';
+import { FxRateUnavailableError, fxRates } from '../data/fx/fx-rates';
 
 export interface Position {
   id?: number;
@@ -12,11 +14,20 @@ export interface Position {
   average_price: number;
   current_price: number;
   unrealized_pnl: number;
-  market_value: number;
+  market_value: number;        // in the instrument's currency
+  currency: string;
+  market_value_base: number | null;   // converted to the base currency; null without an FX rate
   allocation_pct: number;
   timestamp: Date;
 }
 
+export interface CashBalances {
+  base_currency: string;
+  balances: { [currency: string]: number };
+  total_base: number;
+  unconverted: string[];   // currencies left out of total_base for lack of an FX rate
+}
+
 export interface PortfolioSnapshot {
   id?: number;
   timestamp: Date;
@@ -25,6 +36,10 @@ export interface PortfolioSnapshot {
   positions_value: number;
   daily_pnl: number;
   total_pnl: number;
+  base_currency: string;
+  cash_balances: { [currency: string]: number };
+  // Positions and cash currencies left out of the totals for lack of an FX rate
+  unvalued?: string[];
   allocations: { [key: string]: number };
   metrics: {
     total_return_pct: number;
@@ -49,6 +64,7 @@ export interface Trade {
   strategy: string;
   confidence: number;
   market_type: 'equity' | 'crypto';
+  currency?: string;
 }
 
 class PortfolioManager {
@@ -79,9 +95,14 @@ class PortfolioManager {
       // Get current positions
       const positions = await this.getCurrentPositions();
       
-      // Calculate total values
-      const positionsValue = positions.reduce((sum, pos) => sum + pos.market_value, 0);
-      const cash = await this.getCashBalance();
+      // Calculate total values in the base currency
+      const positionsValue = positions.reduce((sum, pos) => sum + (pos.market_value_base ?? 0), 0);
+      const cashBalances = await this.getCashBalances();
+      const unvalued = [
+        ...positions.filter(pos => pos.market_value_base === null).map(pos => pos.symbol),
+        ...cashBalances.unconverted.map(currency => `${currency} cash`)
+      ];
+      const cash = cashBalances.total_base;
       const totalValue = cash + positionsValue;
       
       // Get previous snapshot for PnL calculations
@@ -92,7 +113,9 @@ class PortfolioManager {
       // Calculate allocations
       const allocations: { [key: string]: number } = {};
       positions.forEach(pos => {
-        allocations[pos.symbol] = (pos.market_value / totalValue) * 100;
+        if (pos.market_value_base !== null) {
+          allocations[pos.symbol] = (pos.market_value_base / totalValue) * 100;
+        }
       });
       
       // Calculate metrics
@@ -105,6 +128,9 @@ class PortfolioManager {
         positions_value: positionsValue,
         daily_pnl: dailyPnL,
         total_pnl: totalPnL,
+        base_currency: cashBalances.base_currency,
+        cash_balances: cashBalances.balances,
+        unvalued,
         allocations,
         metrics
       };
@@ -114,7 +140,9 @@ class PortfolioManager {
       
       logger.info('Portfolio snapshot created', {
         total_value: totalValue,
-        daily_pnl: dailyPnL
+        base_currency: cashBalances.base_currency,
+        daily_pnl: dailyPnL,
+        unvalued
       });
       
       return snapshot;
@@ -176,6 +204,8 @@ class PortfolioManager {
         positions_value: parseFloat(row.positions_value),
         daily_pnl: parseFloat(row.daily_pnl || 0),
         total_pnl: parseFloat(row.total_pnl || 0),
+        base_currency: row.base_currency || 'USD',
+        cash_balances: this.parseCashBalances(row),
         allocations,
         metrics
       };
@@ -237,6 +267,8 @@ class PortfolioManager {
         positions_value: parseFloat(row.positions_value),
         daily_pnl: parseFloat(row.daily_pnl || 0),
         total_pnl: parseFloat(row.total_pnl || 0),
+        base_currency: row.base_currency || 'USD',
+        cash_balances: this.parseCashBalances(row),
         allocations,
         metrics
       };
@@ -264,24 +296,33 @@ class PortfolioManager {
       `;
       
       const result = await DatabaseManager.query(query);
+      const instruments = await instrumentMaster.getMany(result.rows.map((row: any) => row.symbol));
+      const baseCurrency = await fxRates.getBaseCurrency();
+      const positions: Position[] = [];
       
-      return result.rows.map((row: any) => {
+      for (const row of result.rows) {
+        const quantity = parseFloat(row.quantity);
         const currentPrice = parseFloat(row.current_price || row.average_price);
-        const marketValue = row.quantity * currentPrice;
-        const unrealizedPnL = (currentPrice - row.average_price) * row.quantity;
+        const marketValue = quantity * currentPrice;
+        const unrealizedPnL = (currentPrice - row.average_price) * quantity;
+        const currency = instruments.get(row.symbol)?.currency || baseCurrency;
         
-        return {
+        positions.push({
           id: row.id,
           symbol: row.symbol,
-          quantity: parseInt(row.quantity),
+          quantity,
           average_price: parseFloat(row.average_price),
           current_price: currentPrice,
           unrealized_pnl: unrealizedPnL,
           market_value: marketValue,
+          currency,
+          market_value_base: await this.valueInBase(marketValue, currency, row.symbol),
           allocation_pct: 0, // Will be calculated in snapshot
           timestamp: new Date(row.timestamp)
-        };
-      });
+        });
+      }
+      
+      return positions;
       
     } catch (error) {
       logger.error('Failed to get current positions:', error);
@@ -289,32 +330,144 @@ class PortfolioManager {
     }
   }
 
+  /**
+   * Current positions and cash grouped by sector, asset class, currency and
+   * venue from the instrument master.
+   */
+  async getExposureReport(): Promise<ExposureReport> {
+    const positions = await this.getCurrentPositions();
+    const cash = await this.getCashBalance();
+    return instrumentMaster.getExposure(
+      positions
+        .filter(pos => pos.market_value_base !== null)
+        .map(pos => ({ symbol: pos.symbol, market_value: pos.market_value_base! })),
+      cash
+    );
+  }
+
+  /**
+   * Total cash across currencies, in the base currency.
+   */
   async getCashBalance(): Promise<number> {
+    const cash = await this.getCashBalances();
+    return Math.max(cash.total_base, 0); // Ensure non-negative
+  }
+
+  /**
+   * Cash per currency: initial cash is held in the base currency, trades
+   * settle in the instrument's currency and conversions move cash between
+   * balances.
+   */
+  async getCashBalances(): Promise<CashBalances> {
+    const baseCurrency = await fxRates.getBaseCurrency();
+    const balances: { [currency: string]: number } = { [baseCurrency]: this.initialCash };
+    const add = (currency: string, amount: number) => {
+      balances[currency] = (balances[currency] || 0) + amount;
+    };
+
     try {
-      // Get initial cash
-      let cash = this.initialCash;
-      
-      // Subtract cash used in trades
+      // Older trades have no currency; fall back to the instrument's
       const tradesQuery = `
-        SELECT SUM(
-          CASE 
-            WHEN side = 'BUY' THEN -(quantity * executed_price)
-            WHEN side = 'SELL' THEN (quantity * executed_price)
-          END
-        ) as net_cash_flow
-        FROM trades
+        SELECT COALESCE(t.currency, i.currency, $1) as currency,
+          SUM(
+            CASE 
+              WHEN t.side = 'BUY' THEN -(t.quantity * t.executed_price)
+              WHEN t.side = 'SELL' THEN (t.quantity * t.executed_price)
+            END
+          ) as net_cash_flow
+        FROM trades t
+        LEFT JOIN instruments i ON i.symbol = t.symbol
+        GROUP BY 1
       `;
       
-      const result = await DatabaseManager.query(tradesQuery);
-      const netCashFlow = parseFloat(result.rows[0]?.net_cash_flow || 0);
-      
-      cash += netCashFlow;
-      
-      return Math.max(cash, 0); // Ensure non-negative
+      const tradesResult = await DatabaseManager.query(tradesQuery, [baseCurrency]);
+      for (const row of tradesResult.rows) {
+        add(row.currency, parseFloat(row.net_cash_flow || 0));
+      }
+
+      const conversionsResult = await DatabaseManager.query(`
+        SELECT from_currency, to_currency, SUM(from_amount) as from_amount, SUM(to_amount) as to_amount
+        FROM cash_conversions
+        GROUP BY from_currency, to_currency
+      `);
+      for (const row of conversionsResult.rows) {
+        add(row.from_currency, -parseFloat(row.from_amount));
+        add(row.to_currency, parseFloat(row.to_amount));
+      }
       
     } catch (error) {
-      logger.error('Failed to get cash balance:', error);
-      return this.initialCash;
+      logger.error('Failed to get cash balances:', error);
+    }
+
+    let totalBase = 0;
+    const unconverted: string[] = [];
+    for (const [currency, amount] of Object.entries(balances)) {
+      const value = await this.valueInBase(amount, currency, `${currency} cash`);
+      if (value === null) {
+        unconverted.push(currency);
+      } else {
+        totalBase += value;
+      }
+    }
+
+    return { base_currency: baseCurrency, balances, total_base: totalBase, unconverted };
+  }
+
+  /**
+   * Move cash between currency balances at the current FX rate.
+   */
+  async convertCash(from: string, to: string, amount: number, reason?: string): Promise<{ from_amount: number; to_amount: number; rate: number }> {
+    const rate = await fxRates.getRate(from, to);
+    if (!rate) throw new FxRateUnavailableError(from, to);
+
+    const toAmount = amount * rate.rate;
+    await DatabaseManager.query(
+      `INSERT INTO cash_conversions (from_currency, to_currency, from_amount, to_amount, rate, reason)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [from.toUpperCase(), to.toUpperCase(), amount, toAmount, rate.rate, reason || null]
+    );
+
+    logger.info(`💱 Converted ${amount.toFixed(2)} ${from} to ${toAmount.toFixed(2)} ${to} @ ${rate.rate}`);
+    return { from_amount: amount, to_amount: toAmount, rate: rate.rate };
+  }
+
+  /**
+   * Make sure `amount` is available in `currency` before a buy, converting
+   * the shortfall from the base currency.
+   */
+  async ensureCurrencyCash(currency: string, amount: number): Promise<void> {
+    const cash = await this.getCashBalances();
+    if (currency === cash.base_currency) return;
+
+    const shortfall = amount - (cash.balances[currency] || 0);
+    if (shortfall <= 0) return;
+
+    const rate = await fxRates.getRate(currency, cash.base_currency);
+    if (!rate) throw new FxRateUnavailableError(currency, cash.base_currency);
+
+    await this.convertCash(cash.base_currency, currency, shortfall * rate.rate, `Fund ${currency} buy`);
+  }
+
+  /**
+   * Value in the base currency, or null without a rate: counting a foreign
+   * amount 1:1 would misstate the total, so callers leave it out and flag it.
+   */
+  async valueInBase(amount: number, currency: string, label: string): Promise<number | null> {
+    try {
+      return await fxRates.toBase(amount, currency);
+    } catch (error: any) {
+      if (!(error instanceof FxRateUnavailableError)) throw error;
+      logger.warn(`⚠️ ${error.message}, leaving ${label} out of base currency totals`);
+      return null;
+    }
+  }
+
+  private parseCashBalances(row: any): { [currency: string]: number } {
+    try {
+      const balances = typeof row.cash_balances === 'string' ? JSON.parse(row.cash_balances) : row.cash_balances;
+      return balances && Object.keys(balances).length > 0 ? balances : { [row.base_currency || 'USD']: parseFloat(row.cash) };
+    } catch (error) {
+      return { [row.base_currency || 'USD']: parseFloat(row.cash) };
     }
   }
 
@@ -417,9 +570,9 @@ class PortfolioManager {
       const query = `
         INSERT INTO portfolio_snapshots (
           timestamp, total_value, cash, positions_value, daily_pnl, total_pnl, 
-          allocation, metrics
+          allocation, metrics, base_currency, cash_balances
         )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
         RETURNING id
       `;
       
@@ -431,7 +584,9 @@ class PortfolioManager {
         snapshot.daily_pnl,
         snapshot.total_pnl,
         JSON.stringify(snapshot.allocations),
-        JSON.stringify(snapshot.metrics)
+        JSON.stringify(snapshot.metrics),
+        snapshot.base_currency,
+        JSON.stringify(snapshot.cash_balances)
       ]);
       
     } catch (error) {
@@ -442,13 +597,21 @@ class PortfolioManager {
 
   async executeTrade(trade: Trade): Promise<void> {
     try {
+      const currency = trade.currency
+        || (await instrumentMaster.get(trade.symbol))?.currency
+        || await fxRates.getBaseCurrency();
+
+      if (trade.side === 'BUY') {
+        await this.ensureCurrencyCash(currency, trade.quantity * trade.executed_price);
+      }
+
       // Store trade
       const tradeQuery = `
         INSERT INTO trades (
           symbol, side, quantity, price, executed_price, timestamp, 
-          strategy, confidence, market_type
+          strategy, confidence, market_type, currency
         )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
         RETURNING id
       `;
       
@@ -461,13 +624,14 @@ class PortfolioManager {
         trade.timestamp,
         trade.strategy,
         trade.confidence,
-        trade.market_type || 'equity'
+        trade.market_type || 'equity',
+        currency
       ]);
       
       // Update position
       await this.updatePosition(trade);
       
-      logger.info(`Trade executed: ${trade.side} ${trade.quantity} ${trade.symbol} @ $${trade.executed_price}`);
+      logger.info(`Trade executed: ${trade.side} ${trade.quantity} ${trade.symbol} @ ${trade.executed_price} ${currency}`);
       
     } catch (error) {
       logger.error('Failed to execute trade:', error);
@@ -569,6 +733,8 @@ class PortfolioManager {
           positions_value: parseFloat(row.positions_value),
           daily_pnl: parseFloat(row.daily_pnl || 0),
           total_pnl: parseFloat(row.total_pnl || 0),
+          base_currency: row.base_currency || 'USD',
+          cash_balances: this.parseCashBalances(row),
           allocations,
           metrics
         };
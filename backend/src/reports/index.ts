@@ -4,6 +4,7 @@
  */
 import { logger } from '../utils/logger';
 import { DatabaseManager } from '../utils/database';
+import { portfolioManager } from '../portfolio';
 
 export interface PerformanceReport {
   id?: string;
@@ -22,6 +23,7 @@ class ReportsGenerator {
     
     const now = new Date();
     const periodStart = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    const sectorAllocation = await this.getSectorAllocation();
     
     const report: PerformanceReport = {
       timestamp: now,
@@ -39,12 +41,7 @@ class ReportsGenerator {
       },
       detailed_metrics: {
         monthly_returns: [1.2, -0.8, 2.1, 0.5],
-        sector_allocation: {
-          technology: 0.4,
-          healthcare: 0.25,
-          finance: 0.2,
-          cash: 0.15
-        },
+        sector_allocation: sectorAllocation,
         risk_metrics: {
           beta: 0.85,
           alpha: 0.03,
@@ -73,6 +70,26 @@ class ReportsGenerator {
     return report;
   }
 
+  /**
+   * Share of portfolio value per instrument-master sector, plus cash.
+   */
+  private async getSectorAllocation(): Promise<{ [sector: string]: number }> {
+    try {
+      const exposure = await portfolioManager.getExposureReport();
+      const allocation: { [sector: string]: number } = {};
+
+      for (const [sector, bucket] of Object.entries(exposure.by_sector)) {
+        allocation[sector] = parseFloat((bucket.pct / 100).toFixed(4));
+      }
+      allocation.cash = exposure.total_value > 0 ? parseFloat((exposure.cash / exposure.total_value).toFixed(4)) : 1;
+
+      return allocation;
+    } catch (error) {
+      logger.warn('Failed to compute sector allocation for report:', error);
+      return {};
+    }
+  }
+
   private async storeReport(report: PerformanceReport): Promise<void> {
     try {
       const query = `
@@ -6,12 +6,18 @@ import { logger } from '../utils/logger';
 import { DatabaseManager } from '../utils/database';
 import { dataIngestor } from '../data_ingestor';
 import { featuresEngine } from '../features';
+import { featureRecompute } from '../features/feature-recompute';
 import { signalEngine } from '../signal_engine';
+import { signalLabeler } from '../signal_engine/signal-labeler';
 import { aiReasoner } from '../ai_reasoner';
 import { executionEngine } from '../execution';
 import { portfolioManager } from '../portfolio';
 import { reflectionEngine } from '../reflection';
 import { reportsGenerator } from '../reports';
+import { backfillService } from '../data/backfill/backfill-service';
+import { tradingCalendar } from '../data/calendar/trading-calendar';
+import { gapScanner, CoverageReport } from '../data/gaps/gap-scanner';
+import { newsIngestor } from '../data/news/news-ingestor';
 import * as cron from 'node-cron';
 
 export interface RunnerConfig {
@@ -78,6 +84,9 @@ export class TradingRunner {
   private cryptoConfig: RunnerConfig;
   private equityJob: any = null;
   private cryptoJob: any = null;
+  private gapScanJob: any = null;
+  private fxRefreshJob: any = null;
+  private newsPollJob: any = null;
   private lastEquityRun: Date = new Date();
   private lastCryptoRun: Date = new Date();
   private equityRunCount: number = 0;
@@ -154,6 +163,9 @@ export class TradingRunner {
       // Schedule both equity and crypto runs
       this.scheduleEquityRuns();
       this.scheduleCryptoRuns();
+      this.scheduleGapScans();
+      this.scheduleFxRefresh();
+      this.scheduleNewsPolling();
 
       // Run initial cycles if auto-start is enabled
       if (process.env.AUTO_START_RUNNER === 'true') {
@@ -188,6 +200,21 @@ export class TradingRunner {
       this.cryptoJob = null;
     }
 
+    if (this.gapScanJob) {
+      this.gapScanJob.destroy();
+      this.gapScanJob = null;
+    }
+
+    if (this.fxRefreshJob) {
+      this.fxRefreshJob.destroy();
+      this.fxRefreshJob = null;
+    }
+
+    if (this.newsPollJob) {
+      this.newsPollJob.destroy();
+      this.newsPollJob = null;
+    }
+
     // Wait for current cycles to complete
     if (this.currentCycle && this.currentCycle.status === 'RUNNING') {
       logger.info('Waiting for current cycles to complete...');
@@ -207,8 +234,8 @@ export class TradingRunner {
     
     this.equityJob = cron.schedule(cronPattern, async () => {
       if (this.isRunning && (!this.currentCycle || this.currentCycle.status !== 'RUNNING')) {
-        // Check if equity markets are open
-        const isOpen = await dataIngestor.isMarketOpen('equity');
+        // Check if equity markets are open (holidays and early closes included)
+        const isOpen = await tradingCalendar.isOpen('equity');
         if (isOpen) {
           try {
             await this.runEquityCycle();
@@ -216,7 +243,8 @@ export class TradingRunner {
             logger.error('Scheduled equity cycle failed:', error);
           }
         } else {
-          logger.debug('⏰ Equity markets closed, skipping cycle');
+          const nextOpen = await tradingCalendar.nextOpen('equity');
+          logger.debug(`⏰ Equity markets closed, skipping cycle (next open ${nextOpen ? nextOpen.toISOString() : 'unknown'})`);
         }
       }
     }, {
@@ -246,6 +274,79 @@ export class TradingRunner {
     logger.info(`📅 Crypto cycles scheduled every ${this.cryptoConfig.run_interval_minutes} minutes (24/7)`);
   }
 
+  /**
+   * Hourly scan of market_data for missing bars; gaps are repaired through
+   * targeted backfill jobs in the background.
+   */
+  private scheduleGapScans(): void {
+    const cronPattern = process.env.GAP_SCAN_CRON || '20 * * * *';
+
+    this.gapScanJob = cron.schedule(cronPattern, async () => {
+      if (!this.isRunning) return;
+      try {
+        await this.runGapScan();
+      } catch (error) {
+        logger.error('Scheduled gap scan failed:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: 'UTC'
+    });
+
+    logger.info(`📅 Gap scans scheduled (${cronPattern})`);
+  }
+
+  /**
+   * FX rates for non-base instrument currencies, refreshed once at start and
+   * then on FX_REFRESH_CRON (every 15 minutes by default).
+   */
+  private scheduleFxRefresh(): void {
+    const cronPattern = process.env.FX_REFRESH_CRON || '*/15 * * * *';
+
+    dataIngestor.refreshFxRates().catch(error =>
+      logger.error('Initial FX refresh failed:', error));
+
+    this.fxRefreshJob = cron.schedule(cronPattern, async () => {
+      if (!this.isRunning) return;
+      try {
+        await dataIngestor.refreshFxRates();
+      } catch (error) {
+        logger.error('Scheduled FX refresh failed:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: 'UTC'
+    });
+
+    logger.info(`📅 FX refreshes scheduled (${cronPattern})`);
+  }
+
+  /**
+   * Headlines from NEWS_INBOX_DIR and NEWS_FEED_URLS on NEWS_POLL_CRON
+   * (every 10 minutes by default); webhook items arrive on their own.
+   */
+  private scheduleNewsPolling(): void {
+    const cronPattern = process.env.NEWS_POLL_CRON || '*/10 * * * *';
+
+    this.newsPollJob = cron.schedule(cronPattern, async () => {
+      if (!this.isRunning) return;
+      try {
+        await newsIngestor.poll();
+      } catch (error) {
+        logger.error('Scheduled news poll failed:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: 'UTC'
+    });
+
+    logger.info(`📅 News polling scheduled (${cronPattern})`);
+  }
+
+  async runGapScan(repair: boolean = true): Promise<CoverageReport[]> {
+    return gapScanner.scanAll({ equity: this.equityConfig.tickers, crypto: this.cryptoConfig.tickers }, repair);
+  }
+
   // Market-specific cycle execution
   async runEquityCycle(): Promise<RunCycle> {
     logger.info('📈 Starting EQUITY trading cycle');
@@ -343,6 +444,13 @@ export class TradingRunner {
         this.currentCycle!.errors.push(`Portfolio update failed: ${error.message}`);
       }
 
+      // Past signals are labeled with what happened since
+      try {
+        await signalLabeler.labelPending();
+      } catch (error) {
+        logger.warn(`⚠️ ${marketType} signal labeling failed:`, error);
+      }
+
       // Phase 7: Periodic reflection and reporting
       if (marketType === 'equity' && this.shouldRunReflection()) {
         try {
@@ -748,6 +856,9 @@ export class TradingRunner {
     const dataHealth = await dataIngestor.healthCheck();
     logger.info('Data sources health check:', dataHealth);
 
+    await this.runBackfillForNewTickers();
+    await featureRecompute.resumeInterruptedJobs();
+
     if (this.equityConfig.enable_ai_analysis || this.cryptoConfig.enable_ai_analysis) {
       const aiHealthy = await aiReasoner.healthCheck();
       logger.info(`AI reasoner health: ${aiHealthy ? 'OK' : 'DEGRADED'}`);
@@ -756,6 +867,20 @@ export class TradingRunner {
     logger.info('Dual-market trading runner initialized');
   }
 
+  /**
+   * Queue history for tickers the features engine would otherwise skip, and
+   * pick up backfills interrupted by a restart. Runs in the background.
+   */
+  async runBackfillForNewTickers(): Promise<void> {
+    try {
+      await backfillService.resumeInterruptedJobs();
+      await backfillService.backfillNewTickers(this.equityConfig.tickers, 'equity');
+      await backfillService.backfillNewTickers(this.cryptoConfig.tickers, 'crypto');
+    } catch (error) {
+      logger.warn('⚠️ Failed to queue backfill for new tickers:', error);
+    }
+  }
+
   // Legacy scheduling method for backward compatibility
   private scheduleRuns(): void {
     this.scheduleEquityRuns();
@@ -793,6 +918,13 @@ export class TradingRunner {
       logger.info('🔧 Feature computation phase started');
       const features = await featuresEngine.computeFeatures(this.currentCycle!.tickers_processed);
       this.currentCycle!.metrics.feature_computation_time_ms = Date.now() - startTime;
+
+      // History under changed definitions is recomputed in the background
+      try {
+        await featureRecompute.recomputeIfVersionChanged(this.currentCycle!.tickers_processed);
+      } catch (error) {
+        logger.warn('⚠️ Failed to queue feature recompute:', error);
+      }
       
       logger.info('🔧 Feature computation completed', {
         features_computed: features.length,
@@ -858,7 +990,23 @@ export class TradingRunner {
       const portfolioValue = portfolioSnapshot?.total_value || 100000;
 
       let tradesExecuted = 0;
+      const linkedGroups = new Set<string>();
       for (const signal of recentSignals) {
+        // Legs of a linked signal trade together, once per group
+        const link = signal.metadata?.link;
+        if (link) {
+          if (linkedGroups.has(link.group_id) || signal.confidence <= 0.6) continue;
+          linkedGroups.add(link.group_id);
+          try {
+            const legs = await signalEngine.getLinkedSignals(link.group_id);
+            const trades = await executionEngine.evaluateAndExecuteLinked(legs, portfolioValue);
+            tradesExecuted += trades.length;
+          } catch (error) {
+            logger.error(`❌ Failed to execute linked signal ${link.group_id}:`, error);
+          }
+          continue;
+        }
+
         if (signal.signal_type !== 'HOLD' && signal.confidence > 0.6) {
           try {
             const aiAnalysis = await aiReasoner.analyzeMarket(
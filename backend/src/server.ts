@@ -15,11 +15,16 @@ import { DatabaseManager } from './utils/database';
 
 // Real-time data imports
 import { binanceStream } from './data/websocket/binance-stream';
+import { isReplayMode, replayStream } from './data/replay';
+import { getProviderGuardStatuses } from './data/providers';
+import { Instrument, instrumentMaster } from './data/instruments/instrument-master';
+import { barAggregator } from './data/bars/bar-aggregator';
 import { wsServer } from './realtime/websocket/ws-server';
 
 // AI and trading imports
 import { aiDecisionEngine } from './ai/reasoning/decision-engine';
 import { tradeExecutor } from './trading/executor/trading-executor';
+import { portfolioManager } from './portfolio';
 import { equityFetcher } from './data/rest/equity-fetcher';
 
 // Load environment
@@ -82,15 +87,21 @@ const validateApiKey = (req: any, res: any, next: any) => {
 app.get('/health', async (req, res) => {
   try {
     const dbHealthy = await DatabaseManager.healthCheck();
-    const wsConnected = binanceStream.getConnectionStatus();
+    const wsConnected = isReplayMode() ? replayStream.getConnectionStatus() : binanceStream.getConnectionStatus();
+    const providers = getProviderGuardStatuses();
+    const openCircuits = Object.keys(providers).filter(name => providers[name].circuit.state !== 'closed');
     
     res.json({
-      status: dbHealthy && wsConnected ? 'healthy' : 'degraded',
+      status: dbHealthy && wsConnected && openCircuits.length === 0 ? 'healthy' : 'degraded',
       timestamp: new Date().toISOString(),
       version: '2.0.0-autonomous',
       uptime: process.uptime(),
       database: dbHealthy ? 'connected' : 'disconnected',
       websocket: wsConnected ? 'connected' : 'disconnected',
+      data_mode: isReplayMode() ? 'replay' : 'live',
+      ...(isReplayMode() ? { replay: replayStream.getProgress() } : { crypto_stream: binanceStream.getStreamStats() }),
+      providers,
+      open_circuits: openCircuits,
       ws_clients: wsServer.getClientCount(),
       environment: process.env.NODE_ENV || 'development'
     });
@@ -104,6 +115,19 @@ app.get('/health', async (req, res) => {
   }
 });
 
+// Reference data shown alongside prices and positions
+function instrumentFields(instrument?: Instrument) {
+  return {
+    name: instrument?.name || null,
+    sector: instrument?.sector || null,
+    industry: instrument?.industry || null,
+    currency: instrument?.currency || null,
+    venue: instrument?.venue || null,
+    tick_size: instrument?.tick_size || null,
+    lot_size: instrument?.lot_size || null
+  };
+}
+
 // Live asset prices
 app.get('/api/assets/live', validateApiKey, async (req, res) => {
   try {
@@ -123,6 +147,7 @@ app.get('/api/assets/live', validateApiKey, async (req, res) => {
     query += ' ORDER BY asset_type, symbol';
     
     const result = await DatabaseManager.query(query, params);
+    const instruments = await instrumentMaster.getMany(result.rows.map(row => row.symbol));
     
     res.json({
       data: result.rows.map(row => ({
@@ -132,7 +157,8 @@ app.get('/api/assets/live', validateApiKey, async (req, res) => {
         volume: parseFloat(row.volume || 0),
         change_24h: parseFloat(row.change_24h || 0),
         last_updated: row.last_updated,
-        data_source: row.data_source
+        data_source: row.data_source,
+        ...instrumentFields(instruments.get(row.symbol))
       })),
       count: result.rows.length,
       timestamp: new Date().toISOString()
@@ -238,24 +264,27 @@ app.get('/api/portfolio/live', validateApiKey, async (req, res) => {
     `;
     const positionsResult = await DatabaseManager.query(positionsQuery);
     
-    // Get cash balance
-    const initialCash = 100000;
-    const cashQuery = `
-      SELECT COALESCE(SUM(
-        CASE 
-          WHEN side = 'BUY' THEN -total_value
-          WHEN side = 'SELL' THEN total_value
-        END
-      ), 0) as net_cash_flow
-      FROM trades_executed
-    `;
-    const cashResult = await DatabaseManager.query(cashQuery);
-    const cashBalance = initialCash + parseFloat(cashResult.rows[0].net_cash_flow || 0);
+    // Cash per currency, in the base currency
+    const initialCash = parseFloat(process.env.INITIAL_CASH || '100000');
+    const cash = await portfolioManager.getCashBalances();
+    const cashBalance = cash.total_base;
+    const instruments = await instrumentMaster.getMany(positionsResult.rows.map(row => row.symbol));
+    const baseCurrency = cash.base_currency;
+    
+    // Position values converted into the base currency; null, and left out of the totals, when no rate is known
+    const valuesInBase: (number | null)[] = [];
+    for (const row of positionsResult.rows) {
+      const marketValue = parseFloat(row.market_value || 0);
+      const currency = instruments.get(row.symbol)?.currency || baseCurrency;
+      valuesInBase.push(await portfolioManager.valueInBase(marketValue, currency, row.symbol));
+    }
+    const unvalued = [
+      ...positionsResult.rows.filter((row, index) => valuesInBase[index] === null).map(row => row.symbol),
+      ...cash.unconverted.map(currency => `${currency} cash`)
+    ];
     
     // Calculate totals
-    const totalPositionValue = positionsResult.rows.reduce(
-      (sum, pos) => sum + parseFloat(pos.market_value || 0), 0
-    );
+    const totalPositionValue = valuesInBase.reduce((sum, value) => sum + (value ?? 0), 0);
     const totalValue = cashBalance + totalPositionValue;
     const totalPnL = totalValue - initialCash;
     
@@ -271,20 +300,25 @@ app.get('/api/portfolio/live', validateApiKey, async (req, res) => {
     res.json({
       data: {
         total_value: totalValue,
+        base_currency: baseCurrency,
         cash_balance: cashBalance,
+        cash_balances: cash.balances,
         positions_value: totalPositionValue,
+        unvalued,
         total_pnl: totalPnL,
         daily_pnl: dailyPnL,
         positions_count: positionsResult.rows.length,
-        positions: positionsResult.rows.map(row => ({
+        positions: positionsResult.rows.map((row, index) => ({
           symbol: row.symbol,
           asset_type: row.asset_type,
           quantity: parseFloat(row.quantity),
           avg_price: parseFloat(row.avg_price),
           current_price: parseFloat(row.current_price || row.avg_price),
           market_value: parseFloat(row.market_value || 0),
+          market_value_base: valuesInBase[index],
           unrealized_pnl: parseFloat(row.unrealized_pnl || 0),
-          last_updated: row.last_updated
+          last_updated: row.last_updated,
+          ...instrumentFields(instruments.get(row.symbol))
         }))
       },
       timestamp: new Date().toISOString()
@@ -473,41 +507,84 @@ async function startAutonomousSystem(): Promise<void> {
     // Initialize database
     await DatabaseManager.initialize();
     logger.info('✅ Database connected');
+
+    try {
+      await instrumentMaster.loadSeed();
+    } catch (error) {
+      logger.warn('⚠️ Failed to load instrument seed file:', error.message);
+    }
     
     // Initialize WebSocket server
     wsServer.initialize(server);
     logger.info('✅ WebSocket server initialized');
     
-    // Start real-time data feeds with error resilience
-    try {
-      await binanceStream.start();
-      logger.info('✅ Crypto data feeds started');
-    } catch (error) {
-      logger.warn('⚠️ Crypto feeds using fallback mode:', error.message);
-      // Don't crash - fallback will handle data
-    }
+    barAggregator.start();
 
-    // Start equity data fetcher
-    try {
-      await equityFetcher.start();
-      logger.info('✅ Equity data fetcher started');
-    } catch (error) {
-      logger.warn('⚠️ Equity fetcher using mock data:', error.message);
-    }
-    
-    // Connect real-time events with error handling
-    binanceStream.on('tick', (tick) => {
+    if (isReplayMode()) {
+      // Offline replay replaces both live feeds
       try {
-        wsServer.broadcastPriceUpdate(tick.symbol, tick.price, 'crypto');
+        await replayStream.start();
+        logger.info('✅ Replay data feed started');
       } catch (error) {
-        logger.debug('WebSocket broadcast error:', error);
+        logger.error('❌ Replay data feed failed to start:', error.message);
       }
-    });
 
-    binanceStream.on('error', (error) => {
-      logger.warn('Binance stream error (continuing with fallback):', error.message);
-      // Don't crash the system
-    });
+      replayStream.on('tick', (tick) => {
+        try {
+          wsServer.broadcastPriceUpdate(tick.symbol, tick.price, tick.asset_type);
+        } catch (error) {
+          logger.debug('WebSocket broadcast error:', error);
+        }
+
+        // Recorded bars are rolled up whole below; only raw ticks are aggregated here
+        if (tick.kind === 'tick') {
+          barAggregator.ingest(tick);
+        }
+      });
+
+      replayStream.on('bar', (bar) => barAggregator.ingestBar(bar));
+    } else {
+      // Start real-time data feeds with error resilience
+      try {
+        await binanceStream.start();
+        logger.info('✅ Crypto data feeds started');
+      } catch (error) {
+        logger.warn('⚠️ Crypto feeds using fallback mode:', error.message);
+        // Don't crash - fallback will handle data
+      }
+
+      // Start equity data fetcher
+      try {
+        await equityFetcher.start();
+        logger.info('✅ Equity data fetcher started');
+      } catch (error) {
+        logger.warn('⚠️ Equity fetcher failed to start:', error.message);
+      }
+      
+      // Connect real-time events with error handling
+      binanceStream.on('tick', (tick) => {
+        try {
+          wsServer.broadcastPriceUpdate(tick.symbol, tick.price, 'crypto');
+        } catch (error) {
+          logger.debug('WebSocket broadcast error:', error);
+        }
+
+        // Ticker quantities are rolling 24h volume, not trade sizes; only used
+        // for bars while REST polling stands in for the trade stream
+        if (!binanceStream.isStreamingTrades()) {
+          barAggregator.ingest({ ...tick, asset_type: 'crypto', cumulative_volume: true });
+        }
+      });
+
+      binanceStream.on('trade', (trade) => {
+        barAggregator.ingest({ ...trade, asset_type: 'crypto' });
+      });
+
+      binanceStream.on('error', (error) => {
+        logger.warn('Binance stream error (continuing with fallback):', error.message);
+        // Don't crash the system
+      });
+    }
 
     // Start AI decision engine with error handling
     try {
@@ -611,6 +688,8 @@ process.on('SIGINT', async () => {
   
   await aiDecisionEngine.stop();
   await binanceStream.stop();
+  await replayStream.stop();
+  await barAggregator.stop();
   wsServer.close();
   
   process.exit(0);
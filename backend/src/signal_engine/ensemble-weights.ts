@@ -0,0 +1,322 @@
+/**
+ * Adaptive Ensemble Weights
+ * Measures each signal source's realized forward returns and hit rate over
+ * rolling windows, from stored signals and the bars that followed them, and
+ * turns the measurements into ensemble weights (inverse variance, Bayesian
+ * shrinkage towards the configured weights, or a softmax of Sharpe ratios).
+ * Every recompute is kept in `ensemble_weights`; the latest stats also feed
+ * Kelly sizing in the execution engine.
+ */
+import { logger } from '../utils/logger';
+import { DatabaseManager } from '../utils/database';
+import { getSystemConfig } from '../utils/systemConfig';
+import { BarInterval } from '../data/providers';
+
+export const ENSEMBLE_WEIGHTING_CONFIG_KEY = 'ensemble_weighting';
+
+export type WeightingMethod = 'inverse_variance' | 'bayesian_shrinkage' | 'softmax_sharpe';
+
+export interface EnsembleWeightingConfig {
+  enabled: boolean;
+  method: WeightingMethod;
+  timeframe: BarInterval;
+  horizon_bars: number;           // forward return horizon
+  windows_days: number[];         // rolling windows measured
+  weight_window_days: number;     // window the weights and Kelly stats use
+  min_signals: number;            // fewer measured signals keep the configured weight
+  prior_strength: number;         // bayesian_shrinkage: signals worth as much as the prior
+  softmax_temperature: number;    // softmax_sharpe: lower concentrates weight on the best Sharpe
+  recompute_hours: number;
+}
+
+/**
+ * Realized performance of one source over one window. Returns are
+ * direction-signed fractions over `horizon_bars`.
+ */
+export interface SourcePerformance {
+  source: string;
+  window_days: number;
+  signals: number;
+  hit_rate: number;
+  mean_return: number;
+  std_return: number;
+  sharpe: number | null;
+  avg_win: number | null;
+  avg_loss: number | null;        // magnitude
+}
+
+export interface EnsembleWeightSnapshot {
+  id?: number;
+  computed_at: Date;
+  method: WeightingMethod;
+  horizon_bars: number;
+  window_days: number;
+  weights: { [strategy: string]: number };
+  base_weights: { [strategy: string]: number };
+  stats: SourcePerformance[];
+}
+
+const DEFAULT_CONFIG: EnsembleWeightingConfig = {
+  enabled: true,
+  method: 'bayesian_shrinkage',
+  timeframe: '1d',
+  horizon_bars: 5,
+  windows_days: [30, 90, 365],
+  weight_window_days: 90,
+  min_signals: 20,
+  prior_strength: 50,
+  softmax_temperature: 0.1,
+  recompute_hours: 24
+};
+
+const METHODS: WeightingMethod[] = ['inverse_variance', 'bayesian_shrinkage', 'softmax_sharpe'];
+
+// Floor for variances so a source with identical outcomes cannot take all the weight
+const MIN_VARIANCE = 1e-6;
+
+export class EnsembleWeighting {
+  private readonly CONFIG_TTL_MS = 5 * 60 * 1000;
+  private config: EnsembleWeightingConfig = DEFAULT_CONFIG;
+  private configLoadedAt = 0;
+  private latest: EnsembleWeightSnapshot | null = null;
+  private latestLoaded = false;
+  private recomputeAttemptedAt = 0;
+
+  async getConfig(): Promise<EnsembleWeightingConfig> {
+    if (Date.now() - this.configLoadedAt > this.CONFIG_TTL_MS) {
+      const config = await getSystemConfig<Partial<EnsembleWeightingConfig>>(ENSEMBLE_WEIGHTING_CONFIG_KEY, {});
+      const merged = { ...DEFAULT_CONFIG, ...config };
+      if (!METHODS.includes(merged.method)) {
+        logger.warn(`Unknown ensemble weighting method '${merged.method}', using ${DEFAULT_CONFIG.method}`);
+        merged.method = DEFAULT_CONFIG.method;
+      }
+      this.config = merged;
+      this.configLoadedAt = Date.now();
+    }
+    return this.config;
+  }
+
+  /**
+   * Ensemble weights for the given strategies (name -> configured weight):
+   * the latest recomputed weights, recomputed first when they are older than
+   * `recompute_hours` or were computed for other strategies. Null when
+   * adaptive weighting is disabled.
+   */
+  async getWeights(baseWeights: Map<string, number>): Promise<Map<string, number> | null> {
+    const config = await this.getConfig();
+    if (!config.enabled) return null;
+
+    let latest = await this.getLatest();
+    const stale = !latest || Date.now() - latest.computed_at.getTime() > config.recompute_hours * 60 * 60 * 1000;
+    const sameStrategies = latest !== null && this.sameWeights(latest.base_weights, baseWeights);
+
+    // A failed recompute is retried after the config TTL rather than on every call
+    if ((stale || !sameStrategies) && Date.now() - this.recomputeAttemptedAt > this.CONFIG_TTL_MS) {
+      this.recomputeAttemptedAt = Date.now();
+      try {
+        latest = await this.recompute(baseWeights);
+      } catch (error) {
+        logger.warn('⚠️ Failed to recompute ensemble weights, keeping the previous ones:', error);
+      }
+    }
+
+    if (!latest || !this.sameWeights(latest.base_weights, baseWeights)) return null;
+    return new Map(Object.entries(latest.weights));
+  }
+
+  /**
+   * Measure every source, derive new weights for the strategies and store
+   * the snapshot.
+   */
+  async recompute(baseWeights: Map<string, number>): Promise<EnsembleWeightSnapshot> {
+    const config = await this.getConfig();
+    const stats = await this.measure(config);
+    const inWindow = new Map(
+      stats.filter(stat => stat.window_days === config.weight_window_days).map(stat => [stat.source, stat])
+    );
+
+    const snapshot: EnsembleWeightSnapshot = {
+      computed_at: new Date(),
+      method: config.method,
+      horizon_bars: config.horizon_bars,
+      window_days: config.weight_window_days,
+      weights: Object.fromEntries(this.computeWeights(baseWeights, inWindow, config)),
+      base_weights: Object.fromEntries(baseWeights),
+      stats
+    };
+
+    const result = await DatabaseManager.query(`
+      INSERT INTO ensemble_weights (computed_at, method, horizon_bars, window_days, weights, base_weights, stats)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id
+    `, [
+      snapshot.computed_at,
+      snapshot.method,
+      snapshot.horizon_bars,
+      snapshot.window_days,
+      JSON.stringify(snapshot.weights),
+      JSON.stringify(snapshot.base_weights),
+      JSON.stringify(snapshot.stats)
+    ]);
+    snapshot.id = result.rows[0].id;
+
+    this.latest = snapshot;
+    this.latestLoaded = true;
+    logger.info(`⚖️ Recomputed ensemble weights (${config.method})`, snapshot.weights);
+    return snapshot;
+  }
+
+  /**
+   * Measured win rate and average win and loss of a source over the weight
+   * window, for Kelly sizing. Null until it has `min_signals` outcomes with
+   * both wins and losses.
+   */
+  async getKellyStats(source: string): Promise<{ win_rate: number; avg_win: number; avg_loss: number; signals: number } | null> {
+    const config = await this.getConfig();
+    const latest = await this.getLatest();
+    const stat = latest?.stats.find(s => s.source === source && s.window_days === latest.window_days);
+
+    if (!stat || stat.signals < config.min_signals || !stat.avg_win || !stat.avg_loss) return null;
+    return { win_rate: stat.hit_rate, avg_win: stat.avg_win, avg_loss: stat.avg_loss, signals: stat.signals };
+  }
+
+  async getLatest(): Promise<EnsembleWeightSnapshot | null> {
+    if (!this.latestLoaded) {
+      const history = await this.getHistory(1);
+      this.latest = history[0] || null;
+      this.latestLoaded = true;
+    }
+    return this.latest;
+  }
+
+  async getHistory(limit: number = 50): Promise<EnsembleWeightSnapshot[]> {
+    const result = await DatabaseManager.query(
+      `SELECT * FROM ensemble_weights ORDER BY computed_at DESC LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      computed_at: new Date(row.computed_at),
+      method: row.method,
+      horizon_bars: parseInt(row.horizon_bars),
+      window_days: parseInt(row.window_days),
+      weights: row.weights || {},
+      base_weights: row.base_weights || {},
+      stats: row.stats || []
+    }));
+  }
+
+  /**
+   * Forward return of every BUY and SELL signal over `horizon_bars` bars
+   * after the bar it was generated on, aggregated per source and window.
+   * Signals on synthetic data and those whose horizon has not elapsed are
+   * left out. Bars are counted once per timestamp, preferring the vendor
+   * row over the tick aggregator's, as `dataIngestor.getRecentBars` does.
+   */
+  private async measure(config: EnsembleWeightingConfig): Promise<SourcePerformance[]> {
+    const windows = [...new Set([...config.windows_days, config.weight_window_days])];
+
+    const result = await DatabaseManager.query(`
+      WITH outcomes AS (
+        SELECT s.source, s.timestamp,
+               CASE WHEN s.signal_type = 'BUY' THEN 1 ELSE -1 END * (exit_bar.close - entry_bar.close) / entry_bar.close AS forward_return
+        FROM signals s
+        CROSS JOIN LATERAL (
+          SELECT DISTINCT ON (m.timestamp) m.timestamp, m.close FROM market_data m
+          WHERE m.symbol = s.symbol AND m.timeframe = $1 AND m.timestamp <= s.timestamp
+          ORDER BY m.timestamp DESC, (m.provider = 'tick_aggregator') ASC
+          LIMIT 1
+        ) entry_bar
+        CROSS JOIN LATERAL (
+          SELECT DISTINCT ON (m.timestamp) m.close FROM market_data m
+          WHERE m.symbol = s.symbol AND m.timeframe = $1 AND m.timestamp > entry_bar.timestamp
+          ORDER BY m.timestamp ASC, (m.provider = 'tick_aggregator') ASC
+          OFFSET $2
+          LIMIT 1
+        ) exit_bar
+        WHERE s.signal_type IN ('BUY', 'SELL')
+          AND s.timestamp >= NOW() - make_interval(days => $3)
+          AND COALESCE(s.metadata->'provenance'->>'synthetic', 'false') <> 'true'
+      )
+      SELECT w.days AS window_days, o.source,
+             COUNT(*) AS signals,
+             AVG(CASE WHEN o.forward_return > 0 THEN 1 ELSE 0 END) AS hit_rate,
+             AVG(o.forward_return) AS mean_return,
+             STDDEV_POP(o.forward_return) AS std_return,
+             AVG(o.forward_return) FILTER (WHERE o.forward_return > 0) AS avg_win,
+             -AVG(o.forward_return) FILTER (WHERE o.forward_return < 0) AS avg_loss
+      FROM unnest($4::int[]) AS w(days)
+      JOIN outcomes o ON o.timestamp >= NOW() - make_interval(days => w.days)
+      GROUP BY w.days, o.source
+      ORDER BY w.days, o.source
+    `, [config.timeframe, config.horizon_bars - 1, Math.max(...windows), windows]);
+
+    return result.rows.map((row: any) => {
+      const mean = parseFloat(row.mean_return);
+      const std = parseFloat(row.std_return);
+      return {
+        source: row.source,
+        window_days: parseInt(row.window_days),
+        signals: parseInt(row.signals),
+        hit_rate: parseFloat(row.hit_rate),
+        mean_return: mean,
+        std_return: std,
+        sharpe: std > 0 ? mean / std : null,
+        avg_win: row.avg_win !== null ? parseFloat(row.avg_win) : null,
+        avg_loss: row.avg_loss !== null ? parseFloat(row.avg_loss) : null
+      };
+    });
+  }
+
+  /**
+   * Strategies with at least `min_signals` outcomes share the configured
+   * weight of that group according to the method; the rest keep their
+   * configured weight, so the total weight is unchanged.
+   */
+  private computeWeights(
+    baseWeights: Map<string, number>,
+    stats: Map<string, SourcePerformance>,
+    config: EnsembleWeightingConfig
+  ): Map<string, number> {
+    const weights = new Map(baseWeights);
+    const measured = [...baseWeights.keys()].filter(name => (stats.get(name)?.signals || 0) >= config.min_signals);
+    if (measured.length === 0) return weights;
+
+    const budget = measured.reduce((sum, name) => sum + baseWeights.get(name)!, 0);
+    const normalize = (raw: number[]): number[] => {
+      const total = raw.reduce((sum, value) => sum + value, 0);
+      return total > 0 ? raw.map(value => (value / total) * budget) : measured.map(name => baseWeights.get(name)!);
+    };
+    const variance = (name: string) => Math.max(MIN_VARIANCE, Math.pow(stats.get(name)!.std_return, 2));
+
+    let adjusted: number[];
+    if (config.method === 'inverse_variance') {
+      adjusted = normalize(measured.map(name => 1 / variance(name)));
+
+    } else if (config.method === 'softmax_sharpe') {
+      const scores = measured.map(name => (stats.get(name)!.sharpe ?? 0) / config.softmax_temperature);
+      const max = Math.max(...scores);
+      adjusted = normalize(scores.map(score => Math.exp(score - max)));
+
+    } else {
+      // Mean-variance weights, trusted in proportion to how many outcomes back them
+      const evidence = normalize(measured.map(name => Math.max(0, stats.get(name)!.mean_return) / variance(name)));
+      adjusted = normalize(measured.map((name, i) => {
+        const n = stats.get(name)!.signals;
+        const trust = n / (n + config.prior_strength);
+        return trust * evidence[i] + (1 - trust) * baseWeights.get(name)!;
+      }));
+    }
+
+    measured.forEach((name, i) => weights.set(name, adjusted[i]));
+    return weights;
+  }
+
+  private sameWeights(stored: { [strategy: string]: number }, current: Map<string, number>): boolean {
+    const names = Object.keys(stored);
+    return names.length === current.size && names.every(name => current.get(name) === stored[name]);
+  }
+}
+
+export const ensembleWeighting = new EnsembleWeighting();
@@ -9,7 +9,23 @@
  */
 import { logger } from '../utils/logger';
 import { DatabaseManager } from '../utils/database';
+import { getSystemConfig } from '../utils/systemConfig';
 import { FeatureSet } from '../features';
+import { Regime, VolatilityRegime } from '../features/regime';
+import { DataProvenance } from '../data/provenance';
+import { dataIngestor, MarketData } from '../data_ingestor';
+import {
+  isMultiLeg,
+  MultiLegStrategy,
+  ResolvedStrategy,
+  SignalLink,
+  Strategy,
+  StrategyInstance,
+  StrategyInstanceConfig,
+  volatilityRegime
+} from './strategy-sdk';
+import { strategyRegistry } from './strategy-registry';
+import { ensembleWeighting, EnsembleWeightSnapshot } from './ensemble-weights';
 
 // Keep rest of the file exactly as is...
 
@@ -30,305 +46,69 @@ export interface TradingSignal {
   metadata: {
     strategy_params: any;
     market_conditions: string;
-    volatility_regime: 'low' | 'medium' | 'high';
+    volatility_regime: VolatilityRegime;
+    regime?: Regime;
+    provenance?: DataProvenance;
+    link?: SignalLink;
   };
 }
 
-interface Strategy {
-  name: string;
-  generateSignals(features: FeatureSet): TradingSignal | null;
-  weight: number; // For ensemble weighting
-}
-
-class MomentumStrategy implements Strategy {
-  name = 'momentum_crossover';
-  weight = 0.25;
-
-  generateSignals(features: FeatureSet): TradingSignal | null {
-    const { features: f } = features;
-    const reasoning: string[] = [];
-
-    // EMA crossover strategy
-    const ema_bullish = f.ema_12 > f.ema_26;
-    const sma_trend = f.sma_5 > f.sma_10 && f.sma_10 > f.sma_20;
-
-    let signal_type: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
-    let strength = 0;
-    let confidence = 0.6;
-
-    if (ema_bullish && sma_trend) {
-      signal_type = 'BUY';
-      strength = Math.min(1, (f.ema_12 - f.ema_26) / f.ema_26 * 10);
-      reasoning.push('EMA 12 > EMA 26 (bullish crossover)');
-      reasoning.push('SMA uptrend confirmed (5>10>20)');
-
-      // Volume confirmation
-      if (f.volume_ratio > 1.5) {
-        strength *= 1.2;
-        reasoning.push('High volume confirmation');
-        confidence += 0.1;
-      }
-
-    } else if (!ema_bullish && !sma_trend) {
-      signal_type = 'SELL';
-      strength = Math.min(1, (f.ema_26 - f.ema_12) / f.ema_12 * 10);
-      reasoning.push('EMA 12 < EMA 26 (bearish crossover)');
-      reasoning.push('SMA downtrend confirmed');
-    }
+export const STRATEGY_INSTANCES_CONFIG_KEY = 'strategy_instances';
+export const STRATEGY_REGIMES_CONFIG_KEY = 'strategy_regimes';
 
-    // Volatility adjustment
-    const vol_regime = f.volatility_20 > 30 ? 'high' : f.volatility_20 > 15 ? 'medium' : 'low';
-    if (vol_regime === 'high') {
-      strength *= 0.8; // Reduce strength in high volatility
-      confidence *= 0.9;
-    }
-
-    if (signal_type === 'HOLD') return null;
-
-    return {
-      symbol: features.symbol,
-      timestamp: features.timestamp,
-      signal_type,
-      strength: Math.max(0, Math.min(1, strength)),
-      confidence: Math.max(0, Math.min(1, confidence)),
-      source: this.name,
-      reasoning,
-      features_used: ['ema_12', 'ema_26', 'sma_5', 'sma_10', 'sma_20', 'volume_ratio', 'volatility_20'],
-      target_price: signal_type === 'BUY' ? f.price * 1.05 : f.price * 0.95,
-      stop_loss: signal_type === 'BUY' ? f.price * 0.98 : f.price * 1.02,
-      take_profit: signal_type === 'BUY' ? f.price * 1.08 : f.price * 0.92,
-      risk_score: vol_regime === 'high' ? 0.8 : vol_regime === 'medium' ? 0.5 : 0.3,
-      metadata: {
-        strategy_params: { ema_fast: 12, ema_slow: 26 },
-        market_conditions: sma_trend ? 'trending' : 'choppy',
-        volatility_regime: vol_regime
-      }
-    };
-  }
-}
-
-class MeanReversionStrategy implements Strategy {
-  name = 'mean_reversion';
-  weight = 0.25;
-
-  generateSignals(features: FeatureSet): TradingSignal | null {
-    const { features: f } = features;
-    const reasoning: string[] = [];
-
-    let signal_type: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
-    let strength = 0;
-    let confidence = 0.6;
-
-    // RSI mean reversion
-    if (f.rsi_oversold && f.bb_percent_b < 0.2) {
-      signal_type = 'BUY';
-      strength = (30 - f.rsi_14) / 30; // Stronger signal the more oversold
-      reasoning.push(`RSI oversold: ${f.rsi_14.toFixed(1)}`);
-      reasoning.push(`Below lower Bollinger Band (${f.bb_percent_b.toFixed(2)})`);
-      confidence = 0.7;
-
-    } else if (f.rsi_overbought && f.bb_percent_b > 0.8) {
-      signal_type = 'SELL';
-      strength = (f.rsi_14 - 70) / 30;
-      reasoning.push(`RSI overbought: ${f.rsi_14.toFixed(1)}`);
-      reasoning.push(`Above upper Bollinger Band (${f.bb_percent_b.toFixed(2)})`);
-      confidence = 0.7;
-    }
-
-    // Support/Resistance levels
-    const near_support = Math.abs(f.price - f.support_level) / f.price < 0.02;
-    const near_resistance = Math.abs(f.price - f.resistance_level) / f.price < 0.02;
-
-    if (signal_type === 'BUY' && near_support) {
-      strength *= 1.3;
-      reasoning.push('Near support level');
-      confidence += 0.1;
-    } else if (signal_type === 'SELL' && near_resistance) {
-      strength *= 1.3;
-      reasoning.push('Near resistance level');
-      confidence += 0.1;
-    }
-
-    if (signal_type === 'HOLD') return null;
-
-    const vol_regime = f.volatility_20 > 30 ? 'high' : f.volatility_20 > 15 ? 'medium' : 'low';
-
-    return {
-      symbol: features.symbol,
-      timestamp: features.timestamp,
-      signal_type,
-      strength: Math.max(0, Math.min(1, strength)),
-      confidence: Math.max(0, Math.min(1, confidence)),
-      source: this.name,
-      reasoning,
-      features_used: ['rsi_14', 'bb_percent_b', 'support_level', 'resistance_level', 'price'],
-      target_price: signal_type === 'BUY' ? f.support_level * 1.02 : f.resistance_level * 0.98,
-      stop_loss: signal_type === 'BUY' ? f.support_level * 0.99 : f.resistance_level * 1.01,
-      risk_score: vol_regime === 'high' ? 0.7 : 0.4,
-      metadata: {
-        strategy_params: { rsi_oversold: 30, rsi_overbought: 70 },
-        market_conditions: near_support || near_resistance ? 'at_level' : 'normal',
-        volatility_regime: vol_regime
-      }
-    };
-  }
+/**
+ * Weight multipliers per regime, keyed by strategy instance name or type
+ * (the name wins). 0 disables a strategy in that regime; strategies not
+ * listed keep their weight.
+ */
+export interface StrategyRegimeConfig {
+  weights: { [regime in Regime]?: { [strategy: string]: number } };
 }
 
-class BreakoutStrategy implements Strategy {
-  name = 'breakout';
-  weight = 0.2;
-
-  generateSignals(features: FeatureSet): TradingSignal | null {
-    const { features: f } = features;
-    const reasoning: string[] = [];
-
-    // Bollinger Band breakout
-    const upper_breakout = f.price > f.bb_upper && f.volume_ratio > 1.5;
-    const lower_breakout = f.price < f.bb_lower && f.volume_ratio > 1.5;
-
-    let signal_type: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
-    let strength = 0;
-    let confidence = 0.65;
-
-    if (upper_breakout && !f.bb_squeeze) {
-      signal_type = 'BUY';
-      strength = Math.min(1, (f.price - f.bb_upper) / f.bb_upper * 20);
-      reasoning.push('Upper Bollinger Band breakout');
-      reasoning.push(`High volume: ${f.volume_ratio.toFixed(2)}x average`);
-
-    } else if (lower_breakout && !f.bb_squeeze) {
-      signal_type = 'SELL';
-      strength = Math.min(1, (f.bb_lower - f.price) / f.price * 20);
-      reasoning.push('Lower Bollinger Band breakdown');
-      reasoning.push(`High volume: ${f.volume_ratio.toFixed(2)}x average`);
-    }
-
-    // Resistance/Support breakout
-    const resistance_break = f.price > f.resistance_level * 1.01 && f.volume_ratio > 2;
-    const support_break = f.price < f.support_level * 0.99 && f.volume_ratio > 2;
-
-    if (resistance_break) {
-      signal_type = 'BUY';
-      strength = Math.max(strength, (f.price - f.resistance_level) / f.resistance_level * 15);
-      reasoning.push('Resistance level breakout');
-      confidence = 0.75;
-    } else if (support_break) {
-      signal_type = 'SELL';
-      strength = Math.max(strength, (f.support_level - f.price) / f.price * 15);
-      reasoning.push('Support level breakdown');
-      confidence = 0.75;
-    }
-
-    if (signal_type === 'HOLD') return null;
-
-    const vol_regime = f.volatility_20 > 30 ? 'high' : f.volatility_20 > 15 ? 'medium' : 'low';
-
-    return {
-      symbol: features.symbol,
-      timestamp: features.timestamp,
-      signal_type,
-      strength: Math.max(0, Math.min(1, strength)),
-      confidence,
-      source: this.name,
-      reasoning,
-      features_used: ['bb_upper', 'bb_lower', 'price', 'volume_ratio', 'resistance_level', 'support_level'],
-      target_price: signal_type === 'BUY' ? f.price * 1.08 : f.price * 0.92,
-      stop_loss: signal_type === 'BUY' ? f.price * 0.96 : f.price * 1.04,
-      risk_score: vol_regime === 'high' ? 0.9 : 0.6,
-      metadata: {
-        strategy_params: { breakout_threshold: 0.01 },
-        market_conditions: 'breakout',
-        volatility_regime: vol_regime
-      }
-    };
+const DEFAULT_STRATEGY_REGIMES: StrategyRegimeConfig = {
+  weights: {
+    trend: { mean_reversion: 0.5 },
+    range: { momentum_crossover: 0.5, breakout: 0.5, mean_reversion: 1.5 },
+    crisis: { momentum_crossover: 0, breakout: 0, candlestick_patterns: 0, mean_reversion: 0.5 }
   }
-}
-
-class PatternStrategy implements Strategy {
-  name = 'candlestick_patterns';
-  weight = 0.15;
-
-  generateSignals(features: FeatureSet): TradingSignal | null {
-    const { features: f } = features;
-    const reasoning: string[] = [];
-
-    let signal_type: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
-    let strength = 0.3; // Lower base strength for patterns
-    let confidence = 0.5;
-
-    // Bullish patterns
-    if (f.hammer && f.trend_long === 'down') {
-      signal_type = 'BUY';
-      reasoning.push('Hammer pattern at downtrend');
-      confidence = 0.6;
-    } else if (f.engulfing_bullish) {
-      signal_type = 'BUY';
-      reasoning.push('Bullish engulfing pattern');
-      confidence = 0.65;
-    }
-
-    // Bearish patterns
-    else if (f.engulfing_bearish) {
-      signal_type = 'SELL';
-      reasoning.push('Bearish engulfing pattern');
-      confidence = 0.65;
-    } else if (f.doji && f.rsi_overbought) {
-      signal_type = 'SELL';
-      reasoning.push('Doji at overbought levels');
-      confidence = 0.55;
-    }
-
-    if (signal_type === 'HOLD') return null;
-
-    const vol_regime = f.volatility_20 > 30 ? 'high' : f.volatility_20 > 15 ? 'medium' : 'low';
-
-    return {
-      symbol: features.symbol,
-      timestamp: features.timestamp,
-      signal_type,
-      strength,
-      confidence,
-      source: this.name,
-      reasoning,
-      features_used: ['hammer', 'engulfing_bullish', 'engulfing_bearish', 'doji', 'trend_long', 'rsi_overbought'],
-      target_price: signal_type === 'BUY' ? f.price * 1.03 : f.price * 0.97,
-      stop_loss: signal_type === 'BUY' ? f.price * 0.99 : f.price * 1.01,
-      risk_score: 0.5,
-      metadata: {
-        strategy_params: { pattern_strength: strength },
-        market_conditions: 'pattern_detected',
-        volatility_regime: vol_regime
-      }
-    };
-  }
-}
+};
 
 export class SignalEngine {
-  private strategies: Strategy[] = [];
-
-  constructor() {
-    this.strategies = [
-      new MomentumStrategy(),
-      new MeanReversionStrategy(),
-      new BreakoutStrategy(),
-      new PatternStrategy()
-    ];
-  }
+  private readonly CONFIG_TTL_MS = 5 * 60 * 1000;
+  private instances: ResolvedStrategy[] = strategyRegistry.resolve([]);
+  private strategies: StrategyInstance[] = strategyRegistry.createStrategies(this.instances);
+  private strategiesLoadedAt = 0;
+  private regimeConfig: StrategyRegimeConfig = DEFAULT_STRATEGY_REGIMES;
+  private regimeConfigLoadedAt = 0;
 
   async generateSignals(features: FeatureSet[]): Promise<TradingSignal[]> {
     const allSignals: TradingSignal[] = [];
+    const instances = await this.getStrategies();
+    const strategies = this.singleLeg(instances);
+    const baseWeights = await this.getEnsembleWeights(strategies);
+    const regimeConfig = await this.getRegimeConfig();
 
     for (const featureSet of features) {
       try {
-        // Generate signals from all strategies
-        const strategySignals = this.strategies
+        // Strategies disabled in the current regime do not run
+        const regime = this.regimeOf(featureSet);
+        const weights = this.regimeWeights(strategies, baseWeights, regime, regimeConfig);
+        const strategySignals = strategies
+          .filter(strategy => weights.get(strategy.name)! > 0)
           .map(strategy => strategy.generateSignals(featureSet))
           .filter(signal => signal !== null) as TradingSignal[];
 
         if (strategySignals.length === 0) continue;
 
+        // Every signal inherits the provenance of the bars behind its features
+        for (const signal of strategySignals) {
+          signal.metadata.provenance = featureSet.metadata.provenance;
+          if (regime) signal.metadata.regime = regime;
+        }
+
         // Create ensemble signal
-        const ensembleSignal = this.createEnsembleSignal(strategySignals, featureSet);
+        const ensembleSignal = this.createEnsembleSignal(strategySignals, featureSet, weights);
+        if (ensembleSignal && regime) ensembleSignal.metadata.regime = regime;
 
         if (ensembleSignal) {
           // Store in database
@@ -353,10 +133,160 @@ export class SignalEngine {
       }
     }
 
+    allSignals.push(...await this.generateLinkedSignals(instances.filter(isMultiLeg), features, regimeConfig));
+
     return allSignals;
   }
 
-  private createEnsembleSignal(signals: TradingSignal[], features: FeatureSet): TradingSignal | null {
+  /**
+   * Run the multi-leg strategies whose legs all have feature sets. Their leg
+   * signals are stored like other strategy signals but skip the per-symbol
+   * ensemble; a strategy disabled in the regime of any leg does not run.
+   */
+  private async generateLinkedSignals(
+    strategies: MultiLegStrategy[],
+    features: FeatureSet[],
+    regimeConfig: StrategyRegimeConfig
+  ): Promise<TradingSignal[]> {
+    const bySymbol = new Map(features.map(featureSet => [featureSet.symbol, featureSet]));
+    const allSignals: TradingSignal[] = [];
+
+    for (const strategy of strategies) {
+      const legs = strategy.symbols.map(symbol => bySymbol.get(symbol));
+      if (legs.some(leg => !leg)) continue;
+      if (legs.some(leg => this.regimeMultiplier(strategy, this.regimeOf(leg!), regimeConfig) === 0)) continue;
+
+      try {
+        const bars = new Map<string, MarketData[]>();
+        for (const symbol of strategy.symbols) {
+          bars.set(symbol, await dataIngestor.getRecentBars(symbol, strategy.timeframe, strategy.lookbackBars));
+        }
+
+        const legFeatures = new Map(legs.map(leg => [leg!.symbol, leg!]));
+        const signals = strategy.generateSignals(legFeatures, bars);
+
+        for (const signal of signals) {
+          const featureSet = bySymbol.get(signal.symbol);
+          const regime = featureSet ? this.regimeOf(featureSet) : null;
+          signal.metadata.provenance = featureSet?.metadata.provenance;
+          if (regime) signal.metadata.regime = regime;
+          await this.storeSignal(signal);
+        }
+
+        if (signals.length > 0) {
+          logger.info(`🔗 Generated linked signals from ${strategy.name}`, {
+            legs: signals.map(signal => `${signal.signal_type} ${signal.symbol}`),
+            strength: signals[0].strength,
+            confidence: signals[0].confidence
+          });
+        }
+        allSignals.push(...signals);
+      } catch (error) {
+        logger.error(`Failed to generate linked signals for ${strategy.name}:`, error);
+      }
+    }
+
+    return allSignals;
+  }
+
+  /**
+   * Regime that gates strategies for a symbol: a market-wide crisis
+   * overrides the symbol's own regime. Null for feature sets without one.
+   */
+  private regimeOf(featureSet: FeatureSet): Regime | null {
+    const regime = featureSet.metadata.regime;
+    if (!regime) return null;
+    return regime.market === 'crisis' ? 'crisis' : regime.symbol;
+  }
+
+  // Strategy weights adjusted for the regime
+  private regimeWeights(
+    strategies: Strategy[],
+    baseWeights: Map<string, number>,
+    regime: Regime | null,
+    config: StrategyRegimeConfig
+  ): Map<string, number> {
+    return new Map(strategies.map(strategy => [
+      strategy.name,
+      baseWeights.get(strategy.name)! * this.regimeMultiplier(strategy, regime, config)
+    ]));
+  }
+
+  private regimeMultiplier(strategy: StrategyInstance, regime: Regime | null, config: StrategyRegimeConfig): number {
+    const multipliers = (regime && config.weights[regime]) || {};
+    return Math.max(0, multipliers[strategy.name] ?? multipliers[strategy.type] ?? 1);
+  }
+
+  private singleLeg(strategies: StrategyInstance[]): Strategy[] {
+    return strategies.filter((strategy): strategy is Strategy => !isMultiLeg(strategy));
+  }
+
+  /**
+   * Performance-adaptive weights when enabled and measured, otherwise each
+   * strategy's configured weight.
+   */
+  private async getEnsembleWeights(strategies: Strategy[]): Promise<Map<string, number>> {
+    const configured = new Map(strategies.map(strategy => [strategy.name, strategy.weight]));
+    try {
+      return (await ensembleWeighting.getWeights(configured)) || configured;
+    } catch (error) {
+      logger.warn('⚠️ Adaptive ensemble weights unavailable, using configured weights:', error);
+      return configured;
+    }
+  }
+
+  /**
+   * Re-measure strategy performance and recompute the ensemble weights now.
+   */
+  async recomputeEnsembleWeights(): Promise<EnsembleWeightSnapshot> {
+    const strategies = this.singleLeg(await this.getStrategies());
+    return ensembleWeighting.recompute(new Map(strategies.map(strategy => [strategy.name, strategy.weight])));
+  }
+
+  /**
+   * Default strategy instances merged with those under the
+   * `strategy_instances` config key (`{ "instances": [{ "name":
+   * "momentum_fast", "type": "momentum_crossover", "params": { "ema_fast": 9,
+   * "ema_slow": 21 } }] }`). An invalid configuration is logged and the
+   * defaults are used alone.
+   */
+  async getStrategyInstances(): Promise<ResolvedStrategy[]> {
+    await this.getStrategies();
+    return this.instances;
+  }
+
+  private async getStrategies(): Promise<StrategyInstance[]> {
+    if (Date.now() - this.strategiesLoadedAt <= this.CONFIG_TTL_MS) {
+      return this.strategies;
+    }
+
+    const config = await getSystemConfig<{ instances?: StrategyInstanceConfig[] }>(STRATEGY_INSTANCES_CONFIG_KEY, {});
+    try {
+      this.instances = strategyRegistry.resolve(config.instances || []);
+    } catch (error: any) {
+      logger.error(`Invalid ${STRATEGY_INSTANCES_CONFIG_KEY} config, using default strategies:`, error.message);
+      this.instances = strategyRegistry.resolve([]);
+    }
+    this.strategies = strategyRegistry.createStrategies(this.instances);
+    this.strategiesLoadedAt = Date.now();
+
+    return this.strategies;
+  }
+
+  reloadStrategies(): void {
+    this.strategiesLoadedAt = 0;
+  }
+
+  private async getRegimeConfig(): Promise<StrategyRegimeConfig> {
+    if (Date.now() - this.regimeConfigLoadedAt > this.CONFIG_TTL_MS) {
+      const config = await getSystemConfig<Partial<StrategyRegimeConfig>>(STRATEGY_REGIMES_CONFIG_KEY, {});
+      this.regimeConfig = { weights: { ...DEFAULT_STRATEGY_REGIMES.weights, ...(config.weights || {}) } };
+      this.regimeConfigLoadedAt = Date.now();
+    }
+    return this.regimeConfig;
+  }
+
+  private createEnsembleSignal(signals: TradingSignal[], features: FeatureSet, weights: Map<string, number>): TradingSignal | null {
     if (signals.length === 0) return null;
 
     // Separate by signal type
@@ -365,13 +295,11 @@ export class SignalEngine {
 
     // Calculate weighted scores
     const buyScore = buySignals.reduce((sum, signal) => {
-      const strategy = this.strategies.find(s => s.name === signal.source);
-      return sum + (signal.strength * signal.confidence * (strategy?.weight || 0.1));
+      return sum + (signal.strength * signal.confidence * (weights.get(signal.source) ?? 0.1));
     }, 0);
 
     const sellScore = sellSignals.reduce((sum, signal) => {
-      const strategy = this.strategies.find(s => s.name === signal.source);
-      return sum + (signal.strength * signal.confidence * (strategy?.weight || 0.1));
+      return sum + (signal.strength * signal.confidence * (weights.get(signal.source) ?? 0.1));
     }, 0);
 
     // Determine ensemble decision
@@ -380,7 +308,7 @@ export class SignalEngine {
     let confidence: number;
     let reasoning: string[] = [];
 
-    const totalWeight = this.strategies.reduce((sum, s) => sum + s.weight, 0);
+    const totalWeight = [...weights.values()].reduce((sum, weight) => sum + weight, 0);
     const threshold = totalWeight * 0.15; // 15% of total weight needed for signal
 
     if (buyScore > sellScore && buyScore > threshold) {
@@ -408,7 +336,7 @@ export class SignalEngine {
     const avgTargetPrice = signals.reduce((sum, s) => sum + (s.target_price || features.features.price), 0) / signals.length;
     const avgStopLoss = signals.reduce((sum, s) => sum + (s.stop_loss || features.features.price), 0) / signals.length;
 
-    const vol_regime = features.features.volatility_20 > 30 ? 'high' : features.features.volatility_20 > 15 ? 'medium' : 'low';
+    const vol_regime = volatilityRegime(features.features);
 
     return {
       symbol: features.symbol,
@@ -430,7 +358,8 @@ export class SignalEngine {
           consensus_strength: Math.abs(buyScore - sellScore) / Math.max(buyScore, sellScore, 0.001)
         },
         market_conditions: 'ensemble_analysis',
-        volatility_regime: vol_regime
+        volatility_regime: vol_regime,
+        provenance: features.metadata.provenance
       }
     };
   }
@@ -492,28 +421,53 @@ export class SignalEngine {
 
       const result = await DatabaseManager.query(query, [symbols, limit]);
 
-      return result.rows.map((row: any) => ({
-        id: row.id,
-        symbol: row.symbol,
-        timestamp: new Date(row.timestamp),
-        signal_type: row.signal_type,
-        strength: parseFloat(row.strength),
-        confidence: parseFloat(row.confidence),
-        source: row.source,
-        reasoning: JSON.parse(row.reasoning || '[]'),
-        features_used: JSON.parse(row.features_used || '[]'),
-        target_price: row.target_price ? parseFloat(row.target_price) : undefined,
-        stop_loss: row.stop_loss ? parseFloat(row.stop_loss) : undefined,
-        take_profit: row.take_profit ? parseFloat(row.take_profit) : undefined,
-        risk_score: parseFloat(row.risk_score),
-        metadata: JSON.parse(row.metadata || '{}')
-      }));
+      return result.rows.map((row: any) => this.toSignal(row));
 
     } catch (error) {
       logger.error('Failed to get latest signals:', error);
       throw error;
     }
   }
+
+  /**
+   * All stored legs of a linked (multi-leg) signal.
+   */
+  async getLinkedSignals(groupId: string): Promise<TradingSignal[]> {
+    try {
+      const query = `
+        SELECT *
+        FROM signals
+        WHERE metadata->'link'->>'group_id' = $1
+        ORDER BY symbol
+      `;
+
+      const result = await DatabaseManager.query(query, [groupId]);
+      return result.rows.map((row: any) => this.toSignal(row));
+
+    } catch (error) {
+      logger.error('Failed to get linked signals:', error);
+      throw error;
+    }
+  }
+
+  private toSignal(row: any): TradingSignal {
+    return {
+      id: row.id,
+      symbol: row.symbol,
+      timestamp: new Date(row.timestamp),
+      signal_type: row.signal_type,
+      strength: parseFloat(row.strength),
+      confidence: parseFloat(row.confidence),
+      source: row.source,
+      reasoning: typeof row.reasoning === 'string' ? JSON.parse(row.reasoning) : (row.reasoning || []),
+      features_used: typeof row.features_used === 'string' ? JSON.parse(row.features_used) : (row.features_used || []),
+      target_price: row.target_price ? parseFloat(row.target_price) : undefined,
+      stop_loss: row.stop_loss ? parseFloat(row.stop_loss) : undefined,
+      take_profit: row.take_profit ? parseFloat(row.take_profit) : undefined,
+      risk_score: parseFloat(row.risk_score),
+      metadata: typeof row.metadata === 'string' ? JSON.parse(row.metadata) : (row.metadata || {})
+    };
+  }
 }
 
 export const signalEngine = new SignalEngine();
@@ -0,0 +1,225 @@
+/**
+ * Pairs Trading Strategy
+ * Statistical arbitrage on two cointegrated symbols (e.g. BTC/ETH or
+ * MSFT/GOOGL). Over a rolling window it regresses one leg's log price on the
+ * other's for the hedge ratio, tests the residual spread for stationarity
+ * (Engle-Granger), and when the spread's z-score stretches past `entry_z`
+ * emits linked signals: short the rich leg, long the cheap one.
+ *
+ * The execution engine does not open short positions: the SELL leg only
+ * trades against an existing long at least as large, and without one the
+ * whole linked signal is rejected. With a long-only book the pair therefore
+ * acts as a rotation out of the rich leg into the cheap one.
+ */
+import { FeatureSet } from '../features';
+import { MarketData } from '../data_ingestor';
+import { BarInterval } from '../data/providers';
+import { TradingSignal } from './index';
+import { MultiLegStrategy, SignalLink, StrategyConfigError, StrategyDefinition, volatilityRegime } from './strategy-sdk';
+
+interface PairsParams {
+  leg_a: string;
+  leg_b: string;
+  timeframe: BarInterval;
+  window: number;
+  entry_z: number;
+  stop_z: number;
+  adf_critical: number;
+  max_half_life: number;
+}
+
+export interface SpreadFit {
+  intercept: number;
+  hedge_ratio: number;       // d ln(A) / d ln(B)
+  spread_std: number;
+  adf_t: number;             // Dickey-Fuller t-statistic of the residuals
+  half_life: number | null;  // bars for a deviation to halve; null if not mean-reverting
+  observations: number;
+}
+
+/**
+ * Engle-Granger fit of ln(A) = intercept + hedge_ratio * ln(B) + spread on
+ * paired closes, with a lag-0 Dickey-Fuller regression of the spread
+ * (Δe_t = γ e_{t-1}) for the stationarity test and half-life. Null when
+ * there are too few points or B does not vary.
+ */
+export function fitSpread(closesA: number[], closesB: number[]): SpreadFit | null {
+  const n = Math.min(closesA.length, closesB.length);
+  if (n < 20) return null;
+
+  const y = closesA.slice(-n).map(Math.log);
+  const x = closesB.slice(-n).map(Math.log);
+  const meanX = x.reduce((sum, value) => sum + value, 0) / n;
+  const meanY = y.reduce((sum, value) => sum + value, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += Math.pow(x[i] - meanX, 2);
+  }
+  if (varianceX === 0) return null;
+
+  const hedgeRatio = covariance / varianceX;
+  const intercept = meanY - hedgeRatio * meanX;
+  const spread = y.map((value, i) => value - intercept - hedgeRatio * x[i]);
+  const spreadStd = Math.sqrt(spread.reduce((sum, value) => sum + value * value, 0) / n);
+
+  let lagged = 0;
+  let cross = 0;
+  for (let i = 1; i < n; i++) {
+    lagged += spread[i - 1] * spread[i - 1];
+    cross += spread[i - 1] * (spread[i] - spread[i - 1]);
+  }
+  if (lagged === 0) return null;
+
+  const gamma = cross / lagged;
+  let residuals = 0;
+  for (let i = 1; i < n; i++) {
+    residuals += Math.pow(spread[i] - spread[i - 1] - gamma * spread[i - 1], 2);
+  }
+  const standardError = Math.sqrt(residuals / (n - 2) / lagged);
+
+  return {
+    intercept,
+    hedge_ratio: hedgeRatio,
+    spread_std: spreadStd,
+    adf_t: standardError > 0 ? gamma / standardError : -Infinity,
+    half_life: gamma < 0 && gamma > -1 ? -Math.LN2 / Math.log(1 + gamma) : null,
+    observations: n
+  };
+}
+
+class PairsStrategy implements MultiLegStrategy {
+  type = 'pairs';
+  symbols: string[];
+  timeframe: BarInterval;
+  lookbackBars: number;
+
+  constructor(public name: string, private params: PairsParams, public weight: number) {
+    this.symbols = [params.leg_a, params.leg_b];
+    this.timeframe = params.timeframe;
+    this.lookbackBars = params.window;
+  }
+
+  generateSignals(features: Map<string, FeatureSet>, bars: Map<string, MarketData[]>): TradingSignal[] {
+    const { leg_a, leg_b, entry_z, stop_z } = this.params;
+    const featuresA = features.get(leg_a);
+    const featuresB = features.get(leg_b);
+    if (!featuresA || !featuresB) return [];
+
+    const priceA = featuresA.features.price;
+    const priceB = featuresB.features.price;
+    if (!(priceA > 0) || !(priceB > 0)) return [];
+
+    // Only bars both legs have; crypto trades through equity holidays
+    const closesB = new Map((bars.get(leg_b) || []).map(bar => [bar.timestamp.getTime(), bar.close]));
+    const paired = (bars.get(leg_a) || [])
+      .filter(bar => closesB.has(bar.timestamp.getTime()))
+      .slice(-this.params.window);
+    if (paired.length < this.params.window) return [];
+
+    const fit = fitSpread(paired.map(bar => bar.close), paired.map(bar => closesB.get(bar.timestamp.getTime())!));
+    if (!fit || fit.hedge_ratio <= 0 || fit.spread_std <= 0) return [];
+
+    const cointegrated = fit.adf_t < this.params.adf_critical;
+    const reverting = fit.half_life !== null && fit.half_life <= this.params.max_half_life;
+    const spread = Math.log(priceA) - fit.intercept - fit.hedge_ratio * Math.log(priceB);
+    const z = spread / fit.spread_std;
+
+    // Past stop_z the relationship is more likely broken than stretched
+    if (!cointegrated || !reverting || Math.abs(z) < entry_z || Math.abs(z) >= stop_z) return [];
+
+    // z > 0: A is rich against B
+    const sign = Math.sign(z);
+    const sideA: 'BUY' | 'SELL' = sign > 0 ? 'SELL' : 'BUY';
+    const sideB: 'BUY' | 'SELL' = sign > 0 ? 'BUY' : 'SELL';
+
+    // Each leg's price at which the spread is back at its mean (target) or at
+    // stop_z (stop), holding the other leg's price fixed
+    const stopSpread = sign * stop_z * fit.spread_std;
+    const targetA = Math.exp(fit.intercept + fit.hedge_ratio * Math.log(priceB));
+    const stopA = Math.exp(fit.intercept + stopSpread + fit.hedge_ratio * Math.log(priceB));
+    const targetB = Math.exp((Math.log(priceA) - fit.intercept) / fit.hedge_ratio);
+    const stopB = Math.exp((Math.log(priceA) - fit.intercept - stopSpread) / fit.hedge_ratio);
+
+    const timestamp = new Date(Math.max(featuresA.timestamp.getTime(), featuresB.timestamp.getTime()));
+    const link: SignalLink = {
+      group_id: `${this.name}:${timestamp.toISOString()}`,
+      legs: [
+        { symbol: leg_a, side: sideA, hedge_ratio: 1, price: priceA },
+        { symbol: leg_b, side: sideB, hedge_ratio: fit.hedge_ratio, price: priceB }
+      ]
+    };
+
+    const strength = Math.min(1, Math.abs(z) / stop_z);
+    const confidence = Math.min(0.9, 0.6 + (this.params.adf_critical - fit.adf_t) / 10);
+    const reasoning = [
+      `Spread ${leg_a}/${leg_b} z-score ${z.toFixed(2)} (entry ±${entry_z})`,
+      `Cointegrated: ADF t ${fit.adf_t.toFixed(2)} < ${this.params.adf_critical}, half-life ${fit.half_life!.toFixed(1)} bars`,
+      `Hedge ratio ${fit.hedge_ratio.toFixed(3)}: ${sideA === 'SELL' ? 'short' : 'long'} ${leg_a}, ${sideB === 'SELL' ? 'short' : 'long'} ${leg_b}`
+    ];
+
+    const leg = (featureSet: FeatureSet, side: 'BUY' | 'SELL', target: number, stop: number): TradingSignal => {
+      const vol_regime = volatilityRegime(featureSet.features);
+      return {
+        symbol: featureSet.symbol,
+        timestamp: featureSet.timestamp,
+        signal_type: side,
+        strength,
+        confidence,
+        source: this.name,
+        reasoning,
+        features_used: ['price'],
+        target_price: target,
+        stop_loss: stop,
+        risk_score: vol_regime === 'high' ? 0.7 : 0.5,
+        metadata: {
+          strategy_params: {
+            ...this.params,
+            hedge_ratio: fit.hedge_ratio,
+            intercept: fit.intercept,
+            spread_std: fit.spread_std,
+            z_score: z,
+            adf_t: fit.adf_t,
+            half_life: fit.half_life
+          },
+          market_conditions: 'spread_divergence',
+          volatility_regime: vol_regime,
+          link
+        }
+      };
+    };
+
+    return [
+      leg(featuresA, sideA, targetA, stopA),
+      leg(featuresB, sideB, targetB, stopB)
+    ];
+  }
+}
+
+export const PAIRS_STRATEGY: StrategyDefinition = {
+  type: 'pairs',
+  description: 'Cointegrated pair: trades the spread between two symbols when its z-score stretches, as linked long/short legs',
+  weight: 0.2,
+  params: {
+    leg_a: { type: 'string', default: 'BTCUSDT', description: 'First leg; its log price is regressed on the second leg' },
+    leg_b: { type: 'string', default: 'ETHUSDT', description: 'Second leg' },
+    timeframe: { type: 'string', default: '1d', options: ['1m', '5m', '15m', '1h', '1d'], description: 'Bars the spread is fitted on' },
+    window: { type: 'integer', default: 120, min: 30, max: 2000, description: 'Bars in the rolling fit' },
+    entry_z: { type: 'number', default: 2, min: 0.5, description: 'Spread z-score that opens a trade' },
+    stop_z: { type: 'number', default: 4, min: 1, description: 'Spread z-score treated as a broken relationship' },
+    adf_critical: { type: 'number', default: -3.34, max: 0, description: 'Engle-Granger critical value (-3.34 is 5% for two series)' },
+    max_half_life: { type: 'number', default: 30, min: 1, description: 'Longest spread half-life in bars worth trading' }
+  },
+  validate: (params: PairsParams) => {
+    if (!params.leg_a || !params.leg_b || params.leg_a === params.leg_b) {
+      throw new StrategyConfigError('leg_a and leg_b must be two different symbols');
+    }
+    if (params.stop_z <= params.entry_z) {
+      throw new StrategyConfigError('stop_z must be above entry_z');
+    }
+  },
+  create: (name: string, params: PairsParams, weight: number) =>
+    new PairsStrategy(name, { ...params, leg_a: params.leg_a.toUpperCase(), leg_b: params.leg_b.toUpperCase() }, weight)
+};
@@ -0,0 +1,384 @@
+/**
+ * Signal Outcome Labeler
+ * Follows each stored BUY/SELL signal forward through market_data: whether
+ * its target or its stop was hit first and how long that took, the maximum
+ * favorable and adverse excursion on the way, and forward returns after 1, 5
+ * and 20 bars. Outcomes stay OPEN and are relabeled on later passes until
+ * the signal is resolved and 20 bars have passed, or `max_bars` have.
+ */
+import { logger } from '../utils/logger';
+import { DatabaseManager } from '../utils/database';
+import { getSystemConfig } from '../utils/systemConfig';
+import { dataIngestor, MarketData } from '../data_ingestor';
+import { BAR_INTERVAL_MS, BarInterval } from '../data/providers';
+
+export const SIGNAL_LABELING_CONFIG_KEY = 'signal_labeling';
+
+export type SignalOutcomeResult = 'target' | 'stop' | 'ambiguous' | 'expired' | 'open';
+
+export interface SignalLabelingConfig {
+  timeframe: BarInterval;
+  max_bars: number;               // unresolved signals expire after this many bars
+  lookback_days: number;          // signals older than this are not labeled
+  batch_size: number;             // signals labeled per pass
+}
+
+export interface SignalOutcome {
+  signal_id: number;
+  symbol: string;
+  source: string;
+  signal_type: 'BUY' | 'SELL';
+  signal_timestamp: Date;
+  timeframe: BarInterval;
+  entry_price: number;
+  target_price: number | null;
+  stop_price: number | null;
+  outcome: SignalOutcomeResult;   // ambiguous: target and stop inside the same bar
+  status: 'OPEN' | 'CLOSED';
+  resolved_at: Date | null;
+  bars_to_resolution: number | null;
+  resolution_seconds: number | null;
+  mfe: number;                    // maximum favorable excursion, fraction of entry
+  mae: number;                    // maximum adverse excursion, fraction of entry
+  forward_return_1: number | null;
+  forward_return_5: number | null;
+  forward_return_20: number | null;
+  bars_observed: number;
+  synthetic: boolean;
+}
+
+export interface StrategyOutcomeSummary {
+  source: string;
+  signals: number;
+  closed: number;
+  target_rate: number | null;     // shares of resolved or expired signals
+  stop_rate: number | null;
+  ambiguous_rate: number | null;
+  expired_rate: number | null;
+  avg_bars_to_resolution: number | null;
+  avg_resolution_hours: number | null;
+  avg_mfe: number | null;
+  avg_mae: number | null;
+  avg_forward_return_1: number | null;
+  avg_forward_return_5: number | null;
+  avg_forward_return_20: number | null;
+  hit_rate_1: number | null;
+  hit_rate_5: number | null;
+  hit_rate_20: number | null;
+}
+
+interface PendingSignal {
+  id: number;
+  symbol: string;
+  source: string;
+  signal_type: 'BUY' | 'SELL';
+  timestamp: Date;
+  target_price: number | null;
+  stop_loss: number | null;
+  synthetic: boolean;
+}
+
+const DEFAULT_CONFIG: SignalLabelingConfig = {
+  timeframe: '1d',
+  max_bars: 60,
+  lookback_days: 365,
+  batch_size: 200
+};
+
+const FORWARD_HORIZONS = [1, 5, 20];
+
+export class SignalLabeler {
+  private readonly CONFIG_TTL_MS = 5 * 60 * 1000;
+  private config: SignalLabelingConfig = DEFAULT_CONFIG;
+  private configLoadedAt = 0;
+
+  async getConfig(): Promise<SignalLabelingConfig> {
+    if (Date.now() - this.configLoadedAt > this.CONFIG_TTL_MS) {
+      const config = await getSystemConfig<Partial<SignalLabelingConfig>>(SIGNAL_LABELING_CONFIG_KEY, {});
+      this.config = { ...DEFAULT_CONFIG, ...config };
+      this.configLoadedAt = Date.now();
+    }
+    return this.config;
+  }
+
+  /**
+   * Label signals without an outcome, with an OPEN one, or changed since
+   * they were labeled, least recently labeled first. Signals without a
+   * stored bar to enter on are skipped. Returns the number labeled.
+   */
+  async labelPending(): Promise<number> {
+    const config = await this.getConfig();
+
+    const result = await DatabaseManager.query(`
+      SELECT s.id, s.symbol, s.source, s.signal_type, s.timestamp,
+             COALESCE(s.target_price, s.take_profit) AS target_price, s.stop_loss,
+             COALESCE(s.metadata->'provenance'->>'synthetic', 'false') = 'true' AS synthetic
+      FROM signals s
+      LEFT JOIN signal_outcomes o ON o.signal_id = s.id
+      WHERE s.signal_type IN ('BUY', 'SELL')
+        AND s.timestamp >= NOW() - make_interval(days => $1)
+        AND (o.signal_id IS NULL OR o.status = 'OPEN' OR s.updated_at > o.labeled_at)
+        AND EXISTS (
+          SELECT 1 FROM market_data m
+          WHERE m.symbol = s.symbol AND m.timeframe = $3 AND m.timestamp <= s.timestamp
+        )
+      ORDER BY o.labeled_at ASC NULLS FIRST, s.timestamp ASC
+      LIMIT $2
+    `, [config.lookback_days, config.batch_size, config.timeframe]);
+
+    let labeled = 0;
+    for (const row of result.rows) {
+      const signal: PendingSignal = {
+        id: row.id,
+        symbol: row.symbol,
+        source: row.source,
+        signal_type: row.signal_type,
+        timestamp: new Date(row.timestamp),
+        target_price: row.target_price !== null ? parseFloat(row.target_price) : null,
+        stop_loss: row.stop_loss !== null ? parseFloat(row.stop_loss) : null,
+        synthetic: row.synthetic
+      };
+
+      try {
+        const outcome = await this.labelSignal(signal, config);
+        if (outcome) {
+          await this.storeOutcome(outcome);
+          labeled++;
+        }
+      } catch (error) {
+        logger.warn(`Failed to label signal ${signal.id} (${signal.symbol} ${signal.source}):`, error);
+      }
+    }
+
+    if (labeled > 0) {
+      logger.info(`🏷️ Labeled ${labeled} signal outcomes`);
+    }
+    return labeled;
+  }
+
+  /**
+   * Outcome of one signal from the bars after the bar it was generated on.
+   * Null while that bar is not stored.
+   */
+  private async labelSignal(signal: PendingSignal, config: SignalLabelingConfig): Promise<SignalOutcome | null> {
+    const [entry] = await dataIngestor.getRecentBars(
+      signal.symbol,
+      config.timeframe,
+      1,
+      new Date(signal.timestamp.getTime() + 1)
+    );
+    if (!entry) return null;
+
+    // A forming bar would label the signal with a provisional close
+    const bars = (await dataIngestor.getBarsSince(signal.symbol, config.timeframe, entry.timestamp, config.max_bars))
+      .filter(bar => bar.timestamp.getTime() + BAR_INTERVAL_MS[config.timeframe] <= Date.now());
+
+    return this.evaluate(signal, entry, bars, config);
+  }
+
+  private evaluate(signal: PendingSignal, entry: MarketData, bars: MarketData[], config: SignalLabelingConfig): SignalOutcome {
+    const direction = signal.signal_type === 'BUY' ? 1 : -1;
+    const entryPrice = entry.close;
+    const move = (price: number) => direction * (price - entryPrice) / entryPrice;
+
+    let outcome: SignalOutcomeResult = 'open';
+    let resolvedIndex: number | null = null;
+    let mfe = 0;
+    let mae = 0;
+
+    for (let i = 0; i < bars.length && resolvedIndex === null; i++) {
+      const bar = bars[i];
+      const best = direction === 1 ? bar.high : bar.low;
+      const worst = direction === 1 ? bar.low : bar.high;
+      mfe = Math.max(mfe, move(best));
+      mae = Math.max(mae, -move(worst));
+
+      const targetHit = signal.target_price !== null && move(best) >= move(signal.target_price);
+      const stopHit = signal.stop_loss !== null && move(worst) <= move(signal.stop_loss);
+      if (targetHit || stopHit) {
+        // Bars do not say which came first inside them
+        outcome = targetHit && stopHit ? 'ambiguous' : targetHit ? 'target' : 'stop';
+        resolvedIndex = i;
+      }
+    }
+
+    if (outcome === 'open' && bars.length >= config.max_bars) {
+      outcome = 'expired';
+    }
+
+    const resolvedBar = resolvedIndex !== null ? bars[resolvedIndex] : null;
+    // Resolution is known at the close of the bar it happened in
+    const resolvedAt = resolvedBar ? new Date(resolvedBar.timestamp.getTime() + BAR_INTERVAL_MS[config.timeframe]) : null;
+    const forward = FORWARD_HORIZONS.map(horizon => (bars.length >= horizon ? move(bars[horizon - 1].close) : null));
+    const closed = outcome === 'expired' || (outcome !== 'open' && bars.length >= Math.max(...FORWARD_HORIZONS));
+
+    return {
+      signal_id: signal.id,
+      symbol: signal.symbol,
+      source: signal.source,
+      signal_type: signal.signal_type,
+      signal_timestamp: signal.timestamp,
+      timeframe: config.timeframe,
+      entry_price: entryPrice,
+      target_price: signal.target_price,
+      stop_price: signal.stop_loss,
+      outcome,
+      status: closed ? 'CLOSED' : 'OPEN',
+      resolved_at: resolvedAt,
+      bars_to_resolution: resolvedIndex !== null ? resolvedIndex + 1 : null,
+      resolution_seconds: resolvedAt ? Math.round((resolvedAt.getTime() - signal.timestamp.getTime()) / 1000) : null,
+      mfe,
+      mae,
+      forward_return_1: forward[0],
+      forward_return_5: forward[1],
+      forward_return_20: forward[2],
+      bars_observed: bars.length,
+      synthetic: signal.synthetic
+    };
+  }
+
+  private async storeOutcome(outcome: SignalOutcome): Promise<void> {
+    await DatabaseManager.query(`
+      INSERT INTO signal_outcomes (
+        signal_id, symbol, source, signal_type, signal_timestamp, timeframe, entry_price, target_price, stop_price,
+        outcome, status, resolved_at, bars_to_resolution, resolution_seconds, mfe, mae,
+        forward_return_1, forward_return_5, forward_return_20, bars_observed, synthetic, labeled_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, NOW())
+      ON CONFLICT (signal_id) DO UPDATE SET
+        source = EXCLUDED.source,
+        signal_type = EXCLUDED.signal_type,
+        timeframe = EXCLUDED.timeframe,
+        entry_price = EXCLUDED.entry_price,
+        target_price = EXCLUDED.target_price,
+        stop_price = EXCLUDED.stop_price,
+        outcome = EXCLUDED.outcome,
+        status = EXCLUDED.status,
+        resolved_at = EXCLUDED.resolved_at,
+        bars_to_resolution = EXCLUDED.bars_to_resolution,
+        resolution_seconds = EXCLUDED.resolution_seconds,
+        mfe = EXCLUDED.mfe,
+        mae = EXCLUDED.mae,
+        forward_return_1 = EXCLUDED.forward_return_1,
+        forward_return_5 = EXCLUDED.forward_return_5,
+        forward_return_20 = EXCLUDED.forward_return_20,
+        bars_observed = EXCLUDED.bars_observed,
+        synthetic = EXCLUDED.synthetic,
+        labeled_at = NOW()
+    `, [
+      outcome.signal_id,
+      outcome.symbol,
+      outcome.source,
+      outcome.signal_type,
+      outcome.signal_timestamp,
+      outcome.timeframe,
+      outcome.entry_price,
+      outcome.target_price,
+      outcome.stop_price,
+      outcome.outcome,
+      outcome.status,
+      outcome.resolved_at,
+      outcome.bars_to_resolution,
+      outcome.resolution_seconds,
+      outcome.mfe,
+      outcome.mae,
+      outcome.forward_return_1,
+      outcome.forward_return_5,
+      outcome.forward_return_20,
+      outcome.bars_observed,
+      outcome.synthetic
+    ]);
+  }
+
+  /**
+   * Outcome statistics per strategy over the last `days` days of signals.
+   * Signals on synthetic data are left out.
+   */
+  async getSummary(days: number = 90, source?: string): Promise<StrategyOutcomeSummary[]> {
+    const result = await DatabaseManager.query(`
+      SELECT source,
+             COUNT(*) AS signals,
+             COUNT(*) FILTER (WHERE status = 'CLOSED') AS closed,
+             AVG(CASE WHEN outcome = 'target' THEN 1.0 ELSE 0 END) FILTER (WHERE outcome <> 'open') AS target_rate,
+             AVG(CASE WHEN outcome = 'stop' THEN 1.0 ELSE 0 END) FILTER (WHERE outcome <> 'open') AS stop_rate,
+             AVG(CASE WHEN outcome = 'ambiguous' THEN 1.0 ELSE 0 END) FILTER (WHERE outcome <> 'open') AS ambiguous_rate,
+             AVG(CASE WHEN outcome = 'expired' THEN 1.0 ELSE 0 END) FILTER (WHERE outcome <> 'open') AS expired_rate,
+             AVG(bars_to_resolution) AS avg_bars_to_resolution,
+             AVG(resolution_seconds) / 3600 AS avg_resolution_hours,
+             AVG(mfe) AS avg_mfe,
+             AVG(mae) AS avg_mae,
+             AVG(forward_return_1) AS avg_forward_return_1,
+             AVG(forward_return_5) AS avg_forward_return_5,
+             AVG(forward_return_20) AS avg_forward_return_20,
+             AVG(CASE WHEN forward_return_1 > 0 THEN 1.0 ELSE 0 END) FILTER (WHERE forward_return_1 IS NOT NULL) AS hit_rate_1,
+             AVG(CASE WHEN forward_return_5 > 0 THEN 1.0 ELSE 0 END) FILTER (WHERE forward_return_5 IS NOT NULL) AS hit_rate_5,
+             AVG(CASE WHEN forward_return_20 > 0 THEN 1.0 ELSE 0 END) FILTER (WHERE forward_return_20 IS NOT NULL) AS hit_rate_20
+      FROM signal_outcomes
+      WHERE signal_timestamp >= NOW() - make_interval(days => $1)
+        AND NOT synthetic
+        AND ($2::text IS NULL OR source = $2)
+      GROUP BY source
+      ORDER BY source
+    `, [days, source || null]);
+
+    const num = (value: any) => (value === null ? null : parseFloat(value));
+    return result.rows.map((row: any) => ({
+      source: row.source,
+      signals: parseInt(row.signals),
+      closed: parseInt(row.closed),
+      target_rate: num(row.target_rate),
+      stop_rate: num(row.stop_rate),
+      ambiguous_rate: num(row.ambiguous_rate),
+      expired_rate: num(row.expired_rate),
+      avg_bars_to_resolution: num(row.avg_bars_to_resolution),
+      avg_resolution_hours: num(row.avg_resolution_hours),
+      avg_mfe: num(row.avg_mfe),
+      avg_mae: num(row.avg_mae),
+      avg_forward_return_1: num(row.avg_forward_return_1),
+      avg_forward_return_5: num(row.avg_forward_return_5),
+      avg_forward_return_20: num(row.avg_forward_return_20),
+      hit_rate_1: num(row.hit_rate_1),
+      hit_rate_5: num(row.hit_rate_5),
+      hit_rate_20: num(row.hit_rate_20)
+    }));
+  }
+
+  /**
+   * Labeled signals, newest first, optionally for one strategy and symbol.
+   */
+  async getOutcomes(filters: { source?: string; symbol?: string; limit?: number } = {}): Promise<SignalOutcome[]> {
+    const result = await DatabaseManager.query(`
+      SELECT * FROM signal_outcomes
+      WHERE ($1::text IS NULL OR source = $1) AND ($2::text IS NULL OR symbol = $2)
+      ORDER BY signal_timestamp DESC
+      LIMIT $3
+    `, [filters.source || null, filters.symbol || null, filters.limit || 100]);
+
+    const num = (value: any) => (value === null ? null : parseFloat(value));
+    return result.rows.map((row: any) => ({
+      signal_id: row.signal_id,
+      symbol: row.symbol,
+      source: row.source,
+      signal_type: row.signal_type,
+      signal_timestamp: new Date(row.signal_timestamp),
+      timeframe: row.timeframe,
+      entry_price: parseFloat(row.entry_price),
+      target_price: num(row.target_price),
+      stop_price: num(row.stop_price),
+      outcome: row.outcome,
+      status: row.status,
+      resolved_at: row.resolved_at ? new Date(row.resolved_at) : null,
+      bars_to_resolution: row.bars_to_resolution,
+      resolution_seconds: row.resolution_seconds,
+      mfe: parseFloat(row.mfe),
+      mae: parseFloat(row.mae),
+      forward_return_1: num(row.forward_return_1),
+      forward_return_5: num(row.forward_return_5),
+      forward_return_20: num(row.forward_return_20),
+      bars_observed: row.bars_observed,
+      synthetic: row.synthetic
+    }));
+  }
+}
+
+export const signalLabeler = new SignalLabeler();
@@ -0,0 +1,403 @@
+/**
+ * Built-in Strategies
+ * Momentum, mean reversion, breakout and candlestick pattern strategies.
+ * Their thresholds are parameters, so tuned or side-by-side variants are
+ * configured as instances rather than edited here.
+ */
+import { FeatureSet } from '../features';
+import { TradingSignal } from './index';
+import { Strategy, StrategyConfigError, StrategyDefinition, volatilityRegime } from './strategy-sdk';
+
+interface MomentumParams {
+  ema_fast: number;
+  ema_slow: number;
+  volume_confirmation: number;
+  weak_trend_adx: number;
+  stop_atr: number;
+  target_atr: number;
+  take_profit_atr: number;
+}
+
+class MomentumStrategy implements Strategy {
+  type = 'momentum_crossover';
+
+  constructor(public name: string, private params: MomentumParams, public weight: number) {}
+
+  generateSignals(features: FeatureSet): TradingSignal | null {
+    const { features: f } = features;
+    const reasoning: string[] = [];
+    const { ema_fast, ema_slow } = this.params;
+    const fast = f[`ema_${ema_fast}`];
+    const slow = f[`ema_${ema_slow}`];
+
+    // The EMAs come from configured indicators and are missing until defined and warmed up
+    if (typeof fast !== 'number' || typeof slow !== 'number') return null;
+
+    // EMA crossover strategy
+    const ema_bullish = fast > slow;
+    const sma_trend = f.sma_5 > f.sma_10 && f.sma_10 > f.sma_20;
+
+    let signal_type: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
+    let strength = 0;
+    let confidence = 0.6;
+
+    if (ema_bullish && sma_trend) {
+      signal_type = 'BUY';
+      strength = Math.min(1, (fast - slow) / slow * 10);
+      reasoning.push(`EMA ${ema_fast} > EMA ${ema_slow} (bullish crossover)`);
+      reasoning.push('SMA uptrend confirmed (5>10>20)');
+
+      // Volume confirmation
+      if (f.volume_ratio > this.params.volume_confirmation) {
+        strength *= 1.2;
+        reasoning.push('High volume confirmation');
+        confidence += 0.1;
+      }
+
+    } else if (!ema_bullish && !sma_trend) {
+      signal_type = 'SELL';
+      strength = Math.min(1, (slow - fast) / fast * 10);
+      reasoning.push(`EMA ${ema_fast} < EMA ${ema_slow} (bearish crossover)`);
+      reasoning.push('SMA downtrend confirmed');
+    }
+
+    // Trend strength
+    if (signal_type !== 'HOLD' && typeof f.adx_14 === 'number') {
+      if (f.adx_14 < this.params.weak_trend_adx) {
+        strength *= 0.7;
+        reasoning.push(`Weak trend (ADX ${f.adx_14.toFixed(1)})`);
+      } else {
+        const di_agrees = signal_type === 'BUY' ? f.adx_14_plus_di > f.adx_14_minus_di : f.adx_14_minus_di > f.adx_14_plus_di;
+        if (di_agrees) {
+          confidence += 0.05;
+          reasoning.push(`Strong trend (ADX ${f.adx_14.toFixed(1)}) with DI confirmation`);
+        }
+      }
+    }
+
+    // Volatility adjustment
+    const vol_regime = volatilityRegime(f);
+    if (vol_regime === 'high') {
+      strength *= 0.8; // Reduce strength in high volatility
+      confidence *= 0.9;
+    }
+
+    if (signal_type === 'HOLD') return null;
+
+    // ATR-based exits; fixed percentages while there is not enough history for ATR
+    const direction = signal_type === 'BUY' ? 1 : -1;
+    const atr = typeof f.atr_14 === 'number' && f.atr_14 > 0 ? f.atr_14 : null;
+    const exit = (atrMultiple: number, fallbackPct: number) =>
+      atr ? f.price + direction * atrMultiple * atr : f.price * (1 + direction * fallbackPct);
+
+    return {
+      symbol: features.symbol,
+      timestamp: features.timestamp,
+      signal_type,
+      strength: Math.max(0, Math.min(1, strength)),
+      confidence: Math.max(0, Math.min(1, confidence)),
+      source: this.name,
+      reasoning,
+      features_used: [`ema_${ema_fast}`, `ema_${ema_slow}`, 'sma_5', 'sma_10', 'sma_20', 'volume_ratio', 'volatility_20', 'adx_14', 'atr_14'],
+      target_price: exit(this.params.target_atr, 0.05),
+      stop_loss: exit(-this.params.stop_atr, -0.02),
+      take_profit: exit(this.params.take_profit_atr, 0.08),
+      risk_score: vol_regime === 'high' ? 0.8 : vol_regime === 'medium' ? 0.5 : 0.3,
+      metadata: {
+        strategy_params: { ...this.params, atr },
+        market_conditions: sma_trend ? 'trending' : 'choppy',
+        volatility_regime: vol_regime
+      }
+    };
+  }
+}
+
+interface MeanReversionParams {
+  rsi_oversold: number;
+  rsi_overbought: number;
+  bb_lower: number;
+  bb_upper: number;
+  level_distance: number;
+}
+
+class MeanReversionStrategy implements Strategy {
+  type = 'mean_reversion';
+
+  constructor(public name: string, private params: MeanReversionParams, public weight: number) {}
+
+  generateSignals(features: FeatureSet): TradingSignal | null {
+    const { features: f } = features;
+    const reasoning: string[] = [];
+    const { rsi_oversold, rsi_overbought } = this.params;
+
+    let signal_type: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
+    let strength = 0;
+    let confidence = 0.6;
+
+    // RSI mean reversion
+    if (f.rsi_14 < rsi_oversold && f.bb_percent_b < this.params.bb_lower) {
+      signal_type = 'BUY';
+      strength = (rsi_oversold - f.rsi_14) / rsi_oversold; // Stronger signal the more oversold
+      reasoning.push(`RSI oversold: ${f.rsi_14.toFixed(1)}`);
+      reasoning.push(`Below lower Bollinger Band (${f.bb_percent_b.toFixed(2)})`);
+      confidence = 0.7;
+
+    } else if (f.rsi_14 > rsi_overbought && f.bb_percent_b > this.params.bb_upper) {
+      signal_type = 'SELL';
+      strength = (f.rsi_14 - rsi_overbought) / (100 - rsi_overbought);
+      reasoning.push(`RSI overbought: ${f.rsi_14.toFixed(1)}`);
+      reasoning.push(`Above upper Bollinger Band (${f.bb_percent_b.toFixed(2)})`);
+      confidence = 0.7;
+    }
+
+    // Support/Resistance levels
+    const near_support = Math.abs(f.price - f.support_level) / f.price < this.params.level_distance;
+    const near_resistance = Math.abs(f.price - f.resistance_level) / f.price < this.params.level_distance;
+
+    if (signal_type === 'BUY' && near_support) {
+      strength *= 1.3;
+      reasoning.push('Near support level');
+      confidence += 0.1;
+    } else if (signal_type === 'SELL' && near_resistance) {
+      strength *= 1.3;
+      reasoning.push('Near resistance level');
+      confidence += 0.1;
+    }
+
+    if (signal_type === 'HOLD') return null;
+
+    const vol_regime = volatilityRegime(f);
+
+    return {
+      symbol: features.symbol,
+      timestamp: features.timestamp,
+      signal_type,
+      strength: Math.max(0, Math.min(1, strength)),
+      confidence: Math.max(0, Math.min(1, confidence)),
+      source: this.name,
+      reasoning,
+      features_used: ['rsi_14', 'bb_percent_b', 'support_level', 'resistance_level', 'price'],
+      target_price: signal_type === 'BUY' ? f.support_level * 1.02 : f.resistance_level * 0.98,
+      stop_loss: signal_type === 'BUY' ? f.support_level * 0.99 : f.resistance_level * 1.01,
+      risk_score: vol_regime === 'high' ? 0.7 : 0.4,
+      metadata: {
+        strategy_params: { ...this.params },
+        market_conditions: near_support || near_resistance ? 'at_level' : 'normal',
+        volatility_regime: vol_regime
+      }
+    };
+  }
+}
+
+interface BreakoutParams {
+  band_volume_ratio: number;
+  level_volume_ratio: number;
+  breakout_threshold: number;
+  target_pct: number;
+  stop_pct: number;
+}
+
+class BreakoutStrategy implements Strategy {
+  type = 'breakout';
+
+  constructor(public name: string, private params: BreakoutParams, public weight: number) {}
+
+  generateSignals(features: FeatureSet): TradingSignal | null {
+    const { features: f } = features;
+    const reasoning: string[] = [];
+    const { band_volume_ratio, level_volume_ratio, breakout_threshold } = this.params;
+
+    // Bollinger Band breakout
+    const upper_breakout = f.price > f.bb_upper && f.volume_ratio > band_volume_ratio;
+    const lower_breakout = f.price < f.bb_lower && f.volume_ratio > band_volume_ratio;
+
+    let signal_type: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
+    let strength = 0;
+    let confidence = 0.65;
+
+    if (upper_breakout && !f.bb_squeeze) {
+      signal_type = 'BUY';
+      strength = Math.min(1, (f.price - f.bb_upper) / f.bb_upper * 20);
+      reasoning.push('Upper Bollinger Band breakout');
+      reasoning.push(`High volume: ${f.volume_ratio.toFixed(2)}x average`);
+
+    } else if (lower_breakout && !f.bb_squeeze) {
+      signal_type = 'SELL';
+      strength = Math.min(1, (f.bb_lower - f.price) / f.price * 20);
+      reasoning.push('Lower Bollinger Band breakdown');
+      reasoning.push(`High volume: ${f.volume_ratio.toFixed(2)}x average`);
+    }
+
+    // Resistance/Support breakout
+    const resistance_break = f.price > f.resistance_level * (1 + breakout_threshold) && f.volume_ratio > level_volume_ratio;
+    const support_break = f.price < f.support_level * (1 - breakout_threshold) && f.volume_ratio > level_volume_ratio;
+
+    if (resistance_break) {
+      signal_type = 'BUY';
+      strength = Math.max(strength, (f.price - f.resistance_level) / f.resistance_level * 15);
+      reasoning.push('Resistance level breakout');
+      confidence = 0.75;
+    } else if (support_break) {
+      signal_type = 'SELL';
+      strength = Math.max(strength, (f.support_level - f.price) / f.price * 15);
+      reasoning.push('Support level breakdown');
+      confidence = 0.75;
+    }
+
+    if (signal_type === 'HOLD') return null;
+
+    const vol_regime = volatilityRegime(f);
+    const direction = signal_type === 'BUY' ? 1 : -1;
+
+    return {
+      symbol: features.symbol,
+      timestamp: features.timestamp,
+      signal_type,
+      strength: Math.max(0, Math.min(1, strength)),
+      confidence,
+      source: this.name,
+      reasoning,
+      features_used: ['bb_upper', 'bb_lower', 'price', 'volume_ratio', 'resistance_level', 'support_level'],
+      target_price: f.price * (1 + direction * this.params.target_pct),
+      stop_loss: f.price * (1 - direction * this.params.stop_pct),
+      risk_score: vol_regime === 'high' ? 0.9 : 0.6,
+      metadata: {
+        strategy_params: { ...this.params },
+        market_conditions: 'breakout',
+        volatility_regime: vol_regime
+      }
+    };
+  }
+}
+
+interface PatternParams {
+  pattern_strength: number;
+  target_pct: number;
+  stop_pct: number;
+}
+
+class PatternStrategy implements Strategy {
+  type = 'candlestick_patterns';
+
+  constructor(public name: string, private params: PatternParams, public weight: number) {}
+
+  generateSignals(features: FeatureSet): TradingSignal | null {
+    const { features: f } = features;
+    const reasoning: string[] = [];
+
+    let signal_type: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
+    const strength = this.params.pattern_strength; // Lower base strength for patterns
+    let confidence = 0.5;
+
+    // Bullish patterns
+    if (f.hammer && f.trend_long === 'down') {
+      signal_type = 'BUY';
+      reasoning.push('Hammer pattern at downtrend');
+      confidence = 0.6;
+    } else if (f.engulfing_bullish) {
+      signal_type = 'BUY';
+      reasoning.push('Bullish engulfing pattern');
+      confidence = 0.65;
+    }
+
+    // Bearish patterns
+    else if (f.engulfing_bearish) {
+      signal_type = 'SELL';
+      reasoning.push('Bearish engulfing pattern');
+      confidence = 0.65;
+    } else if (f.doji && f.rsi_overbought) {
+      signal_type = 'SELL';
+      reasoning.push('Doji at overbought levels');
+      confidence = 0.55;
+    }
+
+    if (signal_type === 'HOLD') return null;
+
+    const vol_regime = volatilityRegime(f);
+    const direction = signal_type === 'BUY' ? 1 : -1;
+
+    return {
+      symbol: features.symbol,
+      timestamp: features.timestamp,
+      signal_type,
+      strength,
+      confidence,
+      source: this.name,
+      reasoning,
+      features_used: ['hammer', 'engulfing_bullish', 'engulfing_bearish', 'doji', 'trend_long', 'rsi_overbought'],
+      target_price: f.price * (1 + direction * this.params.target_pct),
+      stop_loss: f.price * (1 - direction * this.params.stop_pct),
+      risk_score: 0.5,
+      metadata: {
+        strategy_params: { ...this.params },
+        market_conditions: 'pattern_detected',
+        volatility_regime: vol_regime
+      }
+    };
+  }
+}
+
+export const BUILTIN_STRATEGIES: StrategyDefinition[] = [
+  {
+    type: 'momentum_crossover',
+    description: 'EMA crossover confirmed by an SMA 5/10/20 trend, volume and ADX, with ATR-based exits',
+    weight: 0.25,
+    params: {
+      ema_fast: { type: 'integer', default: 12, min: 1, description: 'Fast EMA period; needs an ema_<period> feature' },
+      ema_slow: { type: 'integer', default: 26, min: 2, description: 'Slow EMA period; needs an ema_<period> feature' },
+      volume_confirmation: { type: 'number', default: 1.5, min: 0, description: 'Volume ratio that confirms a buy' },
+      weak_trend_adx: { type: 'number', default: 20, min: 0, max: 100, description: 'ADX below which the trend is weak' },
+      stop_atr: { type: 'number', default: 2, min: 0, description: 'Stop loss distance in ATRs' },
+      target_atr: { type: 'number', default: 5, min: 0, description: 'Target distance in ATRs' },
+      take_profit_atr: { type: 'number', default: 8, min: 0, description: 'Take profit distance in ATRs' }
+    },
+    validate: (params: MomentumParams) => {
+      if (params.ema_fast >= params.ema_slow) {
+        throw new StrategyConfigError('ema_fast must be shorter than ema_slow');
+      }
+    },
+    create: (name: string, params: MomentumParams, weight: number) => new MomentumStrategy(name, params, weight)
+  },
+  {
+    type: 'mean_reversion',
+    description: 'RSI extremes outside the Bollinger Bands, stronger near support and resistance',
+    weight: 0.25,
+    params: {
+      rsi_oversold: { type: 'number', default: 30, min: 1, max: 99, description: 'RSI 14 below which to buy' },
+      rsi_overbought: { type: 'number', default: 70, min: 1, max: 99, description: 'RSI 14 above which to sell' },
+      bb_lower: { type: 'number', default: 0.2, description: 'Bollinger %B below which to buy' },
+      bb_upper: { type: 'number', default: 0.8, description: 'Bollinger %B above which to sell' },
+      level_distance: { type: 'number', default: 0.02, min: 0, max: 1, description: 'Distance from support or resistance, as a fraction of price, that counts as near' }
+    },
+    validate: (params: MeanReversionParams) => {
+      if (params.rsi_oversold >= params.rsi_overbought) {
+        throw new StrategyConfigError('rsi_oversold must be below rsi_overbought');
+      }
+    },
+    create: (name: string, params: MeanReversionParams, weight: number) => new MeanReversionStrategy(name, params, weight)
+  },
+  {
+    type: 'breakout',
+    description: 'High-volume breakouts from the Bollinger Bands and from support or resistance',
+    weight: 0.2,
+    params: {
+      band_volume_ratio: { type: 'number', default: 1.5, min: 0, description: 'Volume ratio needed for a band breakout' },
+      level_volume_ratio: { type: 'number', default: 2, min: 0, description: 'Volume ratio needed for a level breakout' },
+      breakout_threshold: { type: 'number', default: 0.01, min: 0, max: 1, description: 'Distance beyond the level, as a fraction, that counts as a breakout' },
+      target_pct: { type: 'number', default: 0.08, min: 0, max: 1, description: 'Target distance as a fraction of price' },
+      stop_pct: { type: 'number', default: 0.04, min: 0, max: 1, description: 'Stop loss distance as a fraction of price' }
+    },
+    create: (name: string, params: BreakoutParams, weight: number) => new BreakoutStrategy(name, params, weight)
+  },
+  {
+    type: 'candlestick_patterns',
+    description: 'Hammer, engulfing and doji patterns in context',
+    weight: 0.15,
+    params: {
+      pattern_strength: { type: 'number', default: 0.3, min: 0, max: 1, description: 'Signal strength of a pattern' },
+      target_pct: { type: 'number', default: 0.03, min: 0, max: 1, description: 'Target distance as a fraction of price' },
+      stop_pct: { type: 'number', default: 0.01, min: 0, max: 1, description: 'Stop loss distance as a fraction of price' }
+    },
+    create: (name: string, params: PatternParams, weight: number) => new PatternStrategy(name, params, weight)
+  }
+];
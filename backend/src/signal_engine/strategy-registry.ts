@@ -0,0 +1,117 @@
+/**
+ * Strategy Registry
+ * Registered strategy types and the instances that turn them into running
+ * strategies. The default instances are the built-in strategies with their
+ * default parameters; extra or tuned instances, such as a second momentum
+ * variant on faster EMAs, come from the `strategy_instances` system config
+ * key.
+ */
+import { BUILTIN_STRATEGIES } from './strategies';
+import { PAIRS_STRATEGY } from './pairs-strategy';
+import {
+  ResolvedStrategy,
+  StrategyConfigError,
+  StrategyDefinition,
+  StrategyInstance,
+  StrategyInstanceConfig,
+  StrategyParamSchema,
+  StrategyParams,
+  validateParams
+} from './strategy-sdk';
+
+// One instance of each built-in strategy, with its default parameters
+export const DEFAULT_STRATEGIES: StrategyInstanceConfig[] = [
+  { type: 'momentum_crossover' },
+  { type: 'mean_reversion' },
+  { type: 'breakout' },
+  { type: 'candlestick_patterns' }
+];
+
+export class StrategyRegistry {
+  private definitions: Map<string, StrategyDefinition> = new Map();
+
+  constructor() {
+    [...BUILTIN_STRATEGIES, PAIRS_STRATEGY].forEach(definition => this.register(definition));
+  }
+
+  register(definition: StrategyDefinition): void {
+    if (!/^[a-z][a-z0-9_]*$/.test(definition.type)) {
+      throw new Error(`Strategy type '${definition.type}' must be lower snake case`);
+    }
+    // Defaults must pass their own schema
+    const defaults = validateParams(definition.params);
+    definition.validate?.(defaults);
+    this.definitions.set(definition.type, definition);
+  }
+
+  listTypes(): { type: string; description: string; weight: number; params: StrategyParamSchema }[] {
+    return Array.from(this.definitions.values()).map(({ type, description, weight, params }) => ({ type, description, weight, params }));
+  }
+
+  /**
+   * Merge configured instances over the defaults (by name), validate them and
+   * fill in defaults. Throws StrategyConfigError on unknown types, bad
+   * parameters or weights, or two configured instances with the same name.
+   */
+  resolve(instances: StrategyInstanceConfig[]): ResolvedStrategy[] {
+    const resolved = new Map<string, ResolvedStrategy>();
+    const configured = new Set<string>();
+
+    for (const instance of DEFAULT_STRATEGIES) {
+      const strategy = this.resolveInstance(instance);
+      resolved.set(strategy.name, strategy);
+    }
+
+    for (const instance of instances) {
+      const strategy = this.resolveInstance(instance);
+      if (configured.has(strategy.name)) {
+        throw new StrategyConfigError(`Strategy instance '${strategy.name}' is configured more than once`);
+      }
+      configured.add(strategy.name);
+      resolved.set(strategy.name, strategy);
+    }
+
+    return Array.from(resolved.values());
+  }
+
+  /**
+   * Running strategies for the enabled instances, in the same order.
+   */
+  createStrategies(strategies: ResolvedStrategy[]): StrategyInstance[] {
+    return strategies
+      .filter(strategy => strategy.enabled)
+      .map(strategy => this.definitions.get(strategy.type)!.create(strategy.name, strategy.params, strategy.weight));
+  }
+
+  private resolveInstance(instance: StrategyInstanceConfig): ResolvedStrategy {
+    const definition = this.definitions.get(instance?.type);
+    if (!definition) {
+      throw new StrategyConfigError(`Unknown strategy type '${instance?.type}'`);
+    }
+
+    const name = instance.name || definition.type;
+    if (!/^[a-z][a-z0-9_]*$/.test(name) || name === 'ensemble') {
+      throw new StrategyConfigError(`Strategy name '${name}' must be lower snake case and not 'ensemble'`);
+    }
+
+    const weight = instance.weight ?? definition.weight;
+    if (typeof weight !== 'number' || !isFinite(weight) || weight < 0) {
+      throw new StrategyConfigError(`Weight of '${name}' must be a non-negative number`);
+    }
+
+    let params: StrategyParams;
+    try {
+      params = validateParams(definition.params, instance.params);
+      definition.validate?.(params);
+    } catch (error) {
+      if (error instanceof StrategyConfigError) {
+        throw new StrategyConfigError(`${name}: ${error.message}`);
+      }
+      throw error;
+    }
+
+    return { name, type: definition.type, params, weight, enabled: instance.enabled !== false };
+  }
+}
+
+export const strategyRegistry = new StrategyRegistry();
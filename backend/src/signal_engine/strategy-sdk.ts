@@ -0,0 +1,168 @@
+/**
+ * Strategy SDK
+ * What a strategy needs to plug into the signal engine: the `Strategy`
+ * interface, strategy types with typed parameter schemas, and parameter
+ * validation. Register a definition with `strategyRegistry` and configure
+ * instances of it under the `strategy_instances` system config key.
+ */
+import { FeatureMap, FeatureSet } from '../features';
+import { regimeClassifier, VolatilityRegime } from '../features/regime';
+import { MarketData } from '../data_ingestor';
+import { BarInterval } from '../data/providers';
+import { TradingSignal } from './index';
+
+export type StrategyParamValue = number | boolean | string;
+
+export type StrategyParams = { [param: string]: StrategyParamValue };
+
+/**
+ * One parameter of a strategy type. Numbers are checked against `min` and
+ * `max`, strings against `options` when given.
+ */
+export interface StrategyParamSpec {
+  type: 'number' | 'integer' | 'boolean' | 'string';
+  default: StrategyParamValue;
+  description: string;
+  min?: number;
+  max?: number;
+  options?: string[];
+}
+
+export type StrategyParamSchema = { [param: string]: StrategyParamSpec };
+
+/**
+ * A running strategy. `name` is the instance name and the `source` of the
+ * signals it emits; `type` is the strategy type it was created from.
+ */
+export interface Strategy {
+  name: string;
+  type: string;
+  weight: number; // For ensemble weighting
+  generateSignals(features: FeatureSet): TradingSignal | null;
+}
+
+/**
+ * A strategy that trades several symbols together, such as a spread. It sees
+ * the feature sets of all its `symbols` and their last `lookbackBars` bars
+ * (oldest first), and emits one signal per leg, linked by `metadata.link`.
+ * Linked legs bypass the per-symbol ensemble and are executed as one unit.
+ */
+export interface MultiLegStrategy {
+  name: string;
+  type: string;
+  weight: number;
+  symbols: string[];
+  timeframe: BarInterval;
+  lookbackBars: number;
+  generateSignals(features: Map<string, FeatureSet>, bars: Map<string, MarketData[]>): TradingSignal[];
+}
+
+/**
+ * Ties the legs of one multi-leg trade together. `hedge_ratio` is each leg's
+ * share of the trade's notional relative to the others; `price` is the leg's
+ * price when the signal was generated.
+ */
+export interface SignalLink {
+  group_id: string;
+  legs: { symbol: string; side: 'BUY' | 'SELL'; hedge_ratio: number; price: number }[];
+}
+
+export type StrategyInstance = Strategy | MultiLegStrategy;
+
+export function isMultiLeg(strategy: StrategyInstance): strategy is MultiLegStrategy {
+  return Array.isArray((strategy as MultiLegStrategy).symbols);
+}
+
+/**
+ * A strategy type. `create` receives parameters already validated against
+ * `params` with defaults filled in; `validate` checks constraints between
+ * parameters and throws StrategyConfigError.
+ */
+export interface StrategyDefinition<P extends StrategyParams = any> {
+  type: string;
+  description: string;
+  weight: number;
+  params: StrategyParamSchema;
+  validate?(params: P): void;
+  create(name: string, params: P, weight: number): StrategyInstance;
+}
+
+/**
+ * One configured instance. `name` defaults to the type; an instance named
+ * like a default one replaces it, and `enabled: false` turns it off.
+ */
+export interface StrategyInstanceConfig {
+  name?: string;
+  type: string;
+  params?: StrategyParams;
+  weight?: number;
+  enabled?: boolean;
+}
+
+export interface ResolvedStrategy {
+  name: string;
+  type: string;
+  params: StrategyParams;
+  weight: number;
+  enabled: boolean;
+}
+
+export class StrategyConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StrategyConfigError';
+  }
+}
+
+/**
+ * Check parameters against a schema and fill in defaults. Throws
+ * StrategyConfigError on unknown parameters, wrong types and values out of
+ * bounds.
+ */
+export function validateParams(schema: StrategyParamSchema, params: StrategyParams = {}): StrategyParams {
+  for (const key of Object.keys(params)) {
+    if (!schema[key]) {
+      throw new StrategyConfigError(`Unknown parameter '${key}'`);
+    }
+  }
+
+  const validated: StrategyParams = {};
+  for (const [key, spec] of Object.entries(schema)) {
+    const value = params[key] ?? spec.default;
+
+    if (spec.type === 'boolean') {
+      if (typeof value !== 'boolean') {
+        throw new StrategyConfigError(`Parameter '${key}' must be a boolean`);
+      }
+    } else if (spec.type === 'string') {
+      if (typeof value !== 'string') {
+        throw new StrategyConfigError(`Parameter '${key}' must be a string`);
+      }
+      if (spec.options && !spec.options.includes(value)) {
+        throw new StrategyConfigError(`Parameter '${key}' must be one of ${spec.options.join(', ')}`);
+      }
+    } else {
+      if (typeof value !== 'number' || !isFinite(value)) {
+        throw new StrategyConfigError(`Parameter '${key}' must be a number`);
+      }
+      if (spec.type === 'integer' && !Number.isInteger(value)) {
+        throw new StrategyConfigError(`Parameter '${key}' must be an integer`);
+      }
+      if ((spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) {
+        throw new StrategyConfigError(`Parameter '${key}' must be between ${spec.min ?? '-∞'} and ${spec.max ?? '∞'}`);
+      }
+    }
+
+    validated[key] = value;
+  }
+
+  return validated;
+}
+
+/**
+ * Volatility regime of a feature set. Set by the regime classifier with
+ * per-market bands; older feature sets fall back to its default bands.
+ */
+export function volatilityRegime(f: FeatureMap): VolatilityRegime {
+  return (f.volatility_regime as VolatilityRegime) || regimeClassifier.volatilityRegime(f.volatility_20);
+}
@@ -5,6 +5,8 @@ import { logger } from '../../utils/logger';
 import { DatabaseManager } from '../../utils/database';
 import { EventEmitter } from 'events';
 import { AISignal } from '../../ai/reasoning/decision-engine';
+import { instrumentMaster } from '../../data/instruments/instrument-master';
+import { DataProvenance, provenanceService } from '../../data/provenance';
 
 export interface ExecutedTrade {
   id?: number;
@@ -19,6 +21,7 @@ export interface ExecutedTrade {
   timestamp: Date;
   pnl_realized?: number;
   signal_id?: number;
+  provenance?: DataProvenance;
 }
 
 export interface PortfolioPosition {
@@ -93,6 +96,12 @@ export class TradeExecutor extends EventEmitter {
         return { approved: false, reason: 'Confidence below threshold' };
       }
 
+      // Inputs must satisfy the provenance policy
+      const provenanceCheck = await provenanceService.checkExecution(signal.provenance);
+      if (!provenanceCheck.allowed) {
+        return { approved: false, reason: provenanceCheck.reason };
+      }
+
       // Check portfolio exposure
       const portfolioValue = await this.getPortfolioValue();
       const currentExposure = await this.getCurrentExposure();
@@ -153,8 +162,15 @@ export class TradeExecutor extends EventEmitter {
         // Limit by available cash
         const maxAffordableQuantity = (cashBalance * 0.95) / currentPrice; // Leave 5% buffer
         quantity = Math.min(quantity, maxAffordableQuantity);
-        
-        return Math.max(0, quantity);
+
+        // Round down to the lot size and enforce the minimum notional
+        const order = await instrumentMaster.checkOrder(signal.symbol, quantity, currentPrice, signal.asset_type);
+        if (!order.valid) {
+          logger.info(`📏 ${signal.symbol} order not tradable: ${order.reason}`);
+          return 0;
+        }
+
+        return order.quantity;
 
       } else if (signal.signal_type === 'SELL') {
         // Sell existing position
@@ -183,9 +199,11 @@ export class TradeExecutor extends EventEmitter {
 
       // Add slippage simulation (0.1% for crypto, 0.05% for equity)
       const slippage = signal.asset_type === 'crypto' ? 0.001 : 0.0005;
-      const executionPrice = signal.signal_type === 'BUY' 
-        ? currentPrice * (1 + slippage)
-        : currentPrice * (1 - slippage);
+      const executionPrice = await instrumentMaster.roundPrice(
+        signal.symbol,
+        signal.signal_type === 'BUY' ? currentPrice * (1 + slippage) : currentPrice * (1 - slippage),
+        signal.asset_type
+      );
 
       const actualTotalValue = quantity * executionPrice;
 
@@ -208,16 +226,17 @@ export class TradeExecutor extends EventEmitter {
         reasoning: signal.reasoning,
         confidence: signal.confidence,
         timestamp: new Date(),
-        pnl_realized: realizedPnL
+        pnl_realized: realizedPnL,
+        provenance: signal.provenance
       };
 
       // Store trade in database
       const query = `
         INSERT INTO trades_executed (
           symbol, asset_type, side, quantity, price, total_value, 
-          reasoning, confidence, timestamp, pnl_realized, signal_id
+          reasoning, confidence, timestamp, pnl_realized, signal_id, metadata
         )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
         RETURNING id
       `;
 
@@ -232,7 +251,8 @@ export class TradeExecutor extends EventEmitter {
         trade.confidence,
         trade.timestamp,
         trade.pnl_realized,
-        signal.features ? 1 : null // Would need signal_id from actual signal
+        signal.features ? 1 : null, // Would need signal_id from actual signal
+        JSON.stringify({ provenance: trade.provenance })
       ]);
 
       trade.id = result.rows[0].id;
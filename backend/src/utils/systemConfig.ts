@@ -0,0 +1,38 @@
+import { DatabaseManager } from './database';
+import { logger } from './logger';
+
+/**
+ * Read a JSON value from the system_config table, falling back to the
+ * supplied default when the key is missing or the database is unavailable.
+ */
+export async function getSystemConfig<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const result = await DatabaseManager.query(
+      `SELECT config_value FROM system_config WHERE config_key = $1`,
+      [key]
+    );
+
+    if (result.rows.length === 0) {
+      return fallback;
+    }
+
+    const value = result.rows[0].config_value;
+    return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+  } catch (error: any) {
+    logger.debug(`Failed to read system_config '${key}', using default:`, error.message);
+    return fallback;
+  }
+}
+
+export async function setSystemConfig(key: string, value: any, description?: string): Promise<void> {
+  const query = `
+    INSERT INTO system_config (config_key, config_value, description)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (config_key) DO UPDATE SET
+      config_value = EXCLUDED.config_value,
+      description = COALESCE(EXCLUDED.description, system_config.description),
+      updated_at = NOW()
+  `;
+
+  await DatabaseManager.query(query, [key, JSON.stringify(value), description || null]);
+}
@@ -4,6 +4,7 @@
 import React, { useState } from 'react'
 import { motion } from 'framer-motion'
 import { TrendingUp, TrendingDown } from 'lucide-react'
+import { formatPrice } from '@/utils/api'
 
 interface Asset {
   symbol: string
@@ -12,6 +13,10 @@ interface Asset {
   change_24h: number
   volume: number
   data_source: string
+  name?: string | null
+  sector?: string | null
+  venue?: string | null
+  tick_size?: number | null
 }
 
 interface MarketsTableProps {
@@ -55,6 +60,7 @@ export default function MarketsTable({ assets }: MarketsTableProps) {
           <thead className="bg-[#0a0b0d]">
             <tr>
               <th className="px-6 py-3 text-left text-xs font-medium text-[#9ca3af] uppercase tracking-wider">Symbol</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-[#9ca3af] uppercase tracking-wider">Sector</th>
               <th className="px-6 py-3 text-right text-xs font-medium text-[#9ca3af] uppercase tracking-wider">Price</th>
               <th className="px-6 py-3 text-right text-xs font-medium text-[#9ca3af] uppercase tracking-wider">24h Change</th>
               <th className="px-6 py-3 text-right text-xs font-medium text-[#9ca3af] uppercase tracking-wider">Volume</th>
@@ -82,11 +88,11 @@ export default function MarketsTable({ assets }: MarketsTableProps) {
                     </span>
                   </div>
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-[#9ca3af]" title={asset.name || undefined}>
+                  {asset.sector || '—'}
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-mono text-[#f3f4f6]">
-                  ${asset.price.toLocaleString(undefined, {
-                    minimumFractionDigits: asset.asset_type === 'crypto' && asset.price < 1 ? 4 : 2,
-                    maximumFractionDigits: asset.asset_type === 'crypto' && asset.price < 1 ? 4 : 2
-                  })}
+                  ${formatPrice(asset.price, asset.tick_size)}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right">
                   <div className={`flex items-center justify-end gap-1 text-sm font-semibold ${
@@ -100,7 +106,7 @@ export default function MarketsTable({ assets }: MarketsTableProps) {
                   {asset.volume.toLocaleString(undefined, { maximumFractionDigits: 0 })}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-xs text-[#9ca3af]">
-                  {asset.data_source}
+                  {asset.venue ? `${asset.venue} · ${asset.data_source}` : asset.data_source}
                 </td>
               </motion.tr>
             ))}
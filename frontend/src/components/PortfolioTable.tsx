@@ -4,6 +4,7 @@
 import React, { useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { ChevronDown, ChevronUp } from 'lucide-react'
+import { formatPrice } from '@/utils/api'
 
 interface Position {
   symbol: string
@@ -13,6 +14,11 @@ interface Position {
   current_price: number
   market_value: number
   unrealized_pnl: number
+  sector?: string | null
+  currency?: string | null
+  venue?: string | null
+  tick_size?: number | null
+  lot_size?: number | null
 }
 
 interface PortfolioTableProps {
@@ -89,10 +95,10 @@ export default function PortfolioTable({ positions, cashBalance, totalValue }: P
                         {position.quantity.toLocaleString(undefined, { maximumFractionDigits: 8 })}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-mono text-[#9ca3af]">
-                        ${position.avg_price.toFixed(2)}
+                        ${formatPrice(position.avg_price, position.tick_size)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-mono text-[#f3f4f6]">
-                        ${position.current_price.toFixed(2)}
+                        ${formatPrice(position.current_price, position.tick_size)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-semibold text-[#f3f4f6]">
                         ${position.market_value.toLocaleString()}
@@ -128,7 +134,7 @@ export default function PortfolioTable({ positions, cashBalance, totalValue }: P
                         >
                           <td colSpan={8} className="px-6 py-4 bg-[#0a0b0d]">
                             <div className="text-xs text-[#9ca3af] space-y-2">
-                              <div className="grid grid-cols-4 gap-4">
+                              <div className="grid grid-cols-5 gap-4">
                                 <div>
                                   <div className="text-[#9ca3af] mb-1">Cost Basis</div>
                                   <div className="text-[#f3f4f6] font-semibold">
@@ -142,9 +148,15 @@ export default function PortfolioTable({ positions, cashBalance, totalValue }: P
                                   </div>
                                 </div>
                                 <div>
-                                  <div className="text-[#9ca3af] mb-1">Asset Type</div>
-                                  <div className="text-[#f3f4f6] font-semibold capitalize">
-                                    {position.asset_type}
+                                  <div className="text-[#9ca3af] mb-1">Sector</div>
+                                  <div className="text-[#f3f4f6] font-semibold">
+                                    {position.sector || 'Unclassified'}
+                                  </div>
+                                </div>
+                                <div>
+                                  <div className="text-[#9ca3af] mb-1">Venue / Currency</div>
+                                  <div className="text-[#f3f4f6] font-semibold">
+                                    {position.venue || '—'} · {position.currency || 'USD'}
                                   </div>
                                 </div>
                                 <div>
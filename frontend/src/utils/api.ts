@@ -90,6 +90,11 @@ interface Asset {
   change_24h: number
   last_updated: string
   data_source: string
+  name?: string | null
+  sector?: string | null
+  currency?: string | null
+  venue?: string | null
+  tick_size?: number | null
 }
 
 // Signal Types
@@ -130,14 +135,23 @@ interface PortfolioPosition {
   avg_price: number
   current_price: number
   market_value: number
+  market_value_base?: number | null
   unrealized_pnl: number
   last_updated: string
+  sector?: string | null
+  currency?: string | null
+  venue?: string | null
+  tick_size?: number | null
+  lot_size?: number | null
 }
 
 interface PortfolioData {
   total_value: number
+  base_currency?: string
   cash_balance: number
+  cash_balances?: { [currency: string]: number }
   positions_value: number
+  unvalued?: string[]
   equity_value?: number
   crypto_value?: number
   total_pnl: number
@@ -497,6 +511,15 @@ export const formatNumber = (value: number | null | undefined, decimals: number
   }).format(value)
 }
 
+// Decimals follow the instrument's tick size when the API provides one
+export const formatPrice = (price: number | null | undefined, tickSize?: number | null): string => {
+  if (price === null || price === undefined || isNaN(price)) return '0.00'
+  const decimals = tickSize && tickSize > 0
+    ? Math.min(8, Math.max(0, Math.ceil(-Math.log10(tickSize) - 1e-9)))
+    : price < 1 ? 4 : 2
+  return formatNumber(price, decimals)
+}
+
 export const formatDate = (date: string | Date | null | undefined): string => {
   if (!date) return 'N/A'
   try {